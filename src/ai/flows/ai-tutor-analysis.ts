@@ -8,26 +8,49 @@
  * - aiTutorAnalysis - A function that provides an analysis of the current board state.
  * - AiTutorAnalysisInput - The input type for the aiTutorAnalysis function.
  * - AiTutorAnalysisOutput - The return type for the aiTutorAnalysis function.
+ *
+ * Move quality comes from the local search engine (evaluation before/after, best line, centipawn loss,
+ * hanging pieces); the model only puts those facts into words. Suggested moves are checked against the
+ * rules engine; see explainMoveHintsFlow for the retry policy.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {OpeningNameSchema} from '@/ai/schemas';
+import {checkMoveSuggestion, getLegalMovesSan} from '@/lib/move-validation';
+import {analyzeMove, describeHangingPiece, describeMoveAnalysis, MOVE_CLASSIFICATION_LABELS, type MoveAnalysis} from '@/lib/move-analysis';
 
 const AiTutorAnalysisInputSchema = z.object({
   boardState: z
     .string()
     .describe('A string representation of the current chess board state in FEN notation, AFTER any last move.'),
   currentTurn: z.string().describe('The current turn in the chess game (w or b), AFTER any last move. This is the AI\'s turn if a player move was just made.'),
+  boardStateBeforeLastMove: z.string().optional().describe('FEN of the position before lastPlayerMove. Better alternatives are validated against it and dropped when it is missing.'),
   lastPlayerMove: z.string().optional().describe('The last move made by the human player in algebraic notation (e.g., e4, Nf3). If provided, the analysis will include an evaluation of this move.'),
   lastMoveMadeByWhite: z.boolean().optional().describe('True if the lastPlayerMove was made by White. Provide only if lastPlayerMove is present.'),
   lastMoveMadeByBlack: z.boolean().optional().describe('True if the lastPlayerMove was made by Black. Provide only if lastPlayerMove is present.'),
   difficultyLevel: z
     .enum(['beginner', 'intermediate', 'advanced'])
     .describe('The difficulty level of the AI opponent.'),
+  openingName: OpeningNameSchema,
 });
 export type AiTutorAnalysisInput = z.infer<typeof AiTutorAnalysisInputSchema>;
 
-const AiTutorAnalysisOutputSchema = z.object({
+// Engine facts and, on a retry after illegal suggestions, the legal move lists.
+const AiTutorAnalysisPromptInputSchema = AiTutorAnalysisInputSchema.extend({
+  engineFacts: z.string().optional().describe("Engine analysis of the player's last move, computed locally."),
+  moveClassificationLabel: z.string().optional().describe('Move quality derived from centipawn loss; the model must not change it.'),
+  rejectedMoves: z.string().optional().describe('Comma-separated moves from a previous answer that were illegal.'),
+  legalMovesBeforeLastMove: z.string().optional().describe('Every legal move the player had instead of lastPlayerMove, in SAN.'),
+  legalMovesForCurrentTurn: z.string().optional().describe('Every legal move for currentTurn, in SAN.'),
+});
+
+const MoveIdeaSchema = z.object({
+  move: z.string().describe("Suggested move in algebraic notation."),
+  explanation: z.string().describe("Explanation of the move."),
+});
+
+const AiTutorAnalysisPromptOutputSchema = z.object({
   playerMoveEvaluation: z.string().optional().describe("Evaluation of the player's last move: its quality (e.g., brilliant, excellent, good, inaccuracy, mistake, blunder), strategic/tactical implications, strengths, and weaknesses. This field is present if a 'lastPlayerMove' was provided in the input."),
   betterPlayerMoveSuggestions: z.array(z.object({ 
     move: z.string().describe("Suggested better move in algebraic notation."), 
@@ -39,6 +62,33 @@ const AiTutorAnalysisOutputSchema = z.object({
     explanation: z.string().describe("Reasoning for this strategic or tactical suggestion for the 'currentTurn' player.") 
   })).optional().describe("Strategic or tactical move suggestions for the player whose turn it is now ('currentTurn').")
 });
+
+const ValidatedMoveIdeaSchema = MoveIdeaSchema.extend({
+  wasCorrected: z.boolean().optional().describe("True when this move replaced an illegal suggestion after a re-prompt."),
+});
+
+const EvaluationSchema = z.object({
+  cp: z.number().describe("Centipawns from White's point of view (±10000 for a forced mate)."),
+  mate: z.number().nullable().describe('Moves to mate; positive when White mates, negative when Black mates.'),
+});
+
+const EngineMoveAnalysisSchema = z.object({
+  classification: z.enum(['best', 'excellent', 'good', 'inaccuracy', 'mistake', 'blunder']).describe('Derived from centipawn loss.'),
+  centipawnLoss: z.number(),
+  evalBefore: EvaluationSchema,
+  evalAfter: EvaluationSchema,
+  bestMove: z.string().nullable().describe("The engine's choice in the position before the player's move, in SAN."),
+  bestLine: z.array(z.string()).describe('Principal variation starting with bestMove, in SAN.'),
+  playedBestMove: z.boolean(),
+  hangingPieces: z.array(z.string()).describe('Pieces left en prise after the move, described in words.'),
+  depth: z.number().describe('Search depth in plies.'),
+});
+
+const AiTutorAnalysisOutputSchema = AiTutorAnalysisPromptOutputSchema.extend({
+  betterPlayerMoveSuggestions: z.array(ValidatedMoveIdeaSchema).optional(),
+  suggestedMovesForCurrentTurn: z.array(ValidatedMoveIdeaSchema).optional(),
+  engineAnalysis: EngineMoveAnalysisSchema.optional().describe("Engine facts behind playerMoveEvaluation; present when the position before the move was supplied."),
+});
 export type AiTutorAnalysisOutput = z.infer<typeof AiTutorAnalysisOutputSchema>;
 
 export async function aiTutorAnalysis(input: AiTutorAnalysisInput): Promise<AiTutorAnalysisOutput> {
@@ -47,20 +97,38 @@ export async function aiTutorAnalysis(input: AiTutorAnalysisInput): Promise<AiTu
 
 const prompt = ai.definePrompt({
   name: 'aiTutorAnalysisPrompt',
-  input: {schema: AiTutorAnalysisInputSchema},
-  output: {schema: AiTutorAnalysisOutputSchema},
+  input: {schema: AiTutorAnalysisPromptInputSchema},
+  output: {schema: AiTutorAnalysisPromptOutputSchema},
   prompt: `You are a world-class chess grandmaster and coach, known for your insightful and pedagogical explanations. Your goal is to help the user improve their chess understanding and strategic thinking.
 Current Board State (FEN Notation): {{{boardState}}}
 It is currently {{{currentTurn}}}'s turn to move.
 User's Difficulty Level: {{{difficultyLevel}}}
+{{#if openingName}}Opening: {{{openingName}}}. Refer to its typical plans and ideas where relevant.{{/if}}
+
+{{#if rejectedMoves}}
+**CORRECTION REQUIRED:** Your previous answer suggested these ILLEGAL moves: {{{rejectedMoves}}}. Do NOT suggest them again.
+{{#if legalMovesBeforeLastMove}}Better alternatives to the player's last move MUST be copied exactly from this list of moves that were legal instead of it: {{{legalMovesBeforeLastMove}}}{{/if}}
+Suggestions for {{{currentTurn}}} MUST be copied exactly from this list of legal moves: {{{legalMovesForCurrentTurn}}}
+{{/if}}
 
 {{#if lastPlayerMove}}
 The player ({{#if lastMoveMadeByWhite}}White{{/if}}{{#if lastMoveMadeByBlack}}Black{{/if}}) just played: {{{lastPlayerMove}}}.
 Analyze this specific move for the player who made it:
+{{#if engineFacts}}
+**Engine facts (computed by a chess engine - these are AUTHORITATIVE, do not contradict them):**
+{{{engineFacts}}}
+
+1.  **Player's Move Evaluation**: The quality of {{{lastPlayerMove}}} has already been decided by the engine: **{{{moveClassificationLabel}}}**. Start your evaluation with exactly that label in bold and do not upgrade or downgrade it.
+    Your job is to explain it: use the evaluation change, the engine's best move and line, and any hanging pieces listed above to describe what the move achieved or allowed.
+    Explain the immediate tactical consequences and longer-term strategic implications (positive or negative). Use clear chess terminology.
+{{else}}
 1.  **Player's Move Evaluation**: Evaluate the strategic and tactical implications of {{{lastPlayerMove}}}. 
     Categorize its quality using standard chess annotations (e.g., **Brilliant!!**, **Excellent!**, **Good**, **Interesting!?**, **Dubious?!**, **Inaccuracy?**, **Mistake?**, **Blunder(??)**). 
-    Explain the immediate tactical consequences and longer-term strategic implications (positive or negative). Use clear chess terminology. Use markdown bold syntax (**text**) for emphasis on key terms like move quality or important concepts. Be thorough in identifying what the move accomplished, what it gave up, and any missed opportunities.
+    Explain the immediate tactical consequences and longer-term strategic implications (positive or negative). Use clear chess terminology.
+{{/if}}
+    Use markdown bold syntax (**text**) for emphasis on key terms like move quality or important concepts. Be thorough in identifying what the move accomplished, what it gave up, and any missed opportunities.
 2.  **Better Alternatives**: If significantly better alternative moves existed for the player instead of {{{lastPlayerMove}}}, list one or two such moves. For each, provide the move in algebraic notation and a concise explanation of *why* it would have been stronger, referencing concrete variations (if brief) or resulting positional benefits (e.g., 'gaining a tempo,' 'improving piece coordination,' 'exploiting a weakness'). If {{{lastPlayerMove}}} was among the best available moves or optimal, clearly state that. Use markdown bold syntax for emphasis.
+{{#if engineFacts}}    When the engine's best move differs from {{{lastPlayerMove}}}, it MUST be your first alternative, explained with its best line.{{/if}}
 {{/if}}
 
 Now, provide a general analysis FOR THE PLAYER WHOSE TURN IT IS NOW ({{{currentTurn}}}):
@@ -99,7 +167,70 @@ const aiTutorAnalysisFlow = ai.defineFlow(
     outputSchema: AiTutorAnalysisOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    const rejected: string[] = [];
+    let firstPassMoves = new Set<string>();
+
+    // Keeps the legal ideas in canonical SAN; ideas that cannot be validated are dropped.
+    const validateIdeas = (fen: string | undefined, ideas: z.infer<typeof MoveIdeaSchema>[] | undefined, isRetry: boolean) => {
+      if (!ideas) return undefined;
+      const validated: z.infer<typeof ValidatedMoveIdeaSchema>[] = [];
+      for (const idea of ideas) {
+        const check = fen ? checkMoveSuggestion(fen, {notation: idea.move}) : null;
+        if (!check) {
+          if (fen) rejected.push(idea.move);
+          continue;
+        }
+        if (validated.some(v => v.move === check.move.san)) continue;
+        validated.push({...idea, move: check.move.san, wasCorrected: isRetry && !firstPassMoves.has(check.move.san)});
+      }
+      return validated;
+    };
+    const validateOutput = (output: z.infer<typeof AiTutorAnalysisPromptOutputSchema>, isRetry: boolean): AiTutorAnalysisOutput => ({
+      ...output,
+      betterPlayerMoveSuggestions: validateIdeas(input.boardStateBeforeLastMove, output.betterPlayerMoveSuggestions, isRetry),
+      suggestedMovesForCurrentTurn: validateIdeas(input.boardState, output.suggestedMovesForCurrentTurn, isRetry),
+    });
+
+    let analysis: MoveAnalysis | null = null;
+    if (input.lastPlayerMove && input.boardStateBeforeLastMove) {
+      try {
+        analysis = analyzeMove(input.boardStateBeforeLastMove, input.lastPlayerMove);
+      } catch (error) {
+        console.error('Engine analysis of the last move failed:', error);
+      }
+    }
+    const engineInput = analysis
+      ? {engineFacts: describeMoveAnalysis(analysis), moveClassificationLabel: MOVE_CLASSIFICATION_LABELS[analysis.classification]}
+      : {};
+    const engineAnalysis = analysis
+      ? {
+          classification: analysis.classification,
+          centipawnLoss: analysis.centipawnLoss,
+          evalBefore: analysis.evalBefore,
+          evalAfter: analysis.evalAfter,
+          bestMove: analysis.bestMove,
+          bestLine: analysis.bestLine,
+          playedBestMove: analysis.playedBestMove,
+          hangingPieces: analysis.hangingPieces.map(describeHangingPiece),
+          depth: analysis.depth,
+        }
+      : undefined;
+
+    const {output} = await prompt({...input, ...engineInput});
+    const firstPass = {...validateOutput(output!, false), engineAnalysis};
+    if (rejected.length === 0) return firstPass;
+
+    firstPassMoves = new Set([
+      ...(firstPass.betterPlayerMoveSuggestions ?? []),
+      ...(firstPass.suggestedMovesForCurrentTurn ?? []),
+    ].map(idea => idea.move));
+    const {output: retryOutput} = await prompt({
+      ...input,
+      ...engineInput,
+      rejectedMoves: rejected.join(', '),
+      legalMovesBeforeLastMove: input.boardStateBeforeLastMove ? getLegalMovesSan(input.boardStateBeforeLastMove).join(', ') : undefined,
+      legalMovesForCurrentTurn: getLegalMovesSan(input.boardState).join(', '),
+    });
+    return retryOutput ? {...validateOutput(retryOutput, true), engineAnalysis} : firstPass;
   }
 );
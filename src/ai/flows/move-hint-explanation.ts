@@ -9,10 +9,15 @@
  * - ExplainMoveHintOutput - Output for a single hint.
  * - explainMultipleMoveHints - For multiple suggestions (e.g., full tutoring).
  * - ExplainMultipleMoveHintsOutput - Output for multiple suggestions.
+ *
+ * Every suggestion is checked against the rules engine. Illegal ones trigger a single re-prompt that
+ * includes the legal move list; suggestions that are still illegal are dropped.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {OpeningNameSchema} from '@/ai/schemas';
+import {checkMoveSuggestion, getLegalMovesSan} from '@/lib/move-validation';
 
 const ExplainMoveHintInputSchema = z.object({
   currentBoardState: z
@@ -24,15 +29,26 @@ const ExplainMoveHintInputSchema = z.object({
     .describe('The difficulty level of the AI opponent.'),
   isPlayerInCheck: z.boolean().optional().describe('Whether the current player (whose turn it is) is in check. If not provided, the AI should deduce this from the FEN.'),
   numberOfSuggestions: z.number().optional().describe('Number of move suggestions to provide. Defaults to 1. Max 3 for multiple suggestions.').default(1),
+  openingName: OpeningNameSchema,
 });
 export type ExplainMoveHintInput = z.infer<typeof ExplainMoveHintInputSchema>;
 
-const ExplainMoveHintOutputSchema = z.object({
+// Sent to the model on a retry after it suggested illegal moves.
+const ExplainMoveHintPromptInputSchema = ExplainMoveHintInputSchema.extend({
+  rejectedMoves: z.string().optional().describe('Comma-separated moves from a previous answer that were illegal in this position.'),
+  legalMoves: z.string().optional().describe('Comma-separated list of every legal move in this position, in SAN.'),
+});
+
+const SuggestedMoveSchema = z.object({
   suggestedMoveNotation: z.string().describe("The suggested strong chess move in algebraic notation (e.g., e4, Nf3, O-O, Qxg7#)."),
   suggestedMoveFromSquare: z.string().describe("The 'from' square of the suggested move (e.g., 'e2'). For castling, this is the king's starting square."),
   suggestedMoveToSquare: z.string().describe("The 'to' square of the suggested move (e.g., 'e4'). For castling, this is the king's ending square."),
   explanation: z.string().describe('The AI tutor explanation of why the suggested move is strong and what it accomplishes.'),
 });
+
+const ExplainMoveHintOutputSchema = SuggestedMoveSchema.extend({
+  wasCorrected: z.boolean().optional().describe("True when the tutor's first answer was illegal or inconsistent and this move was checked and corrected by the rules engine."),
+});
 export type ExplainMoveHintOutput = z.infer<typeof ExplainMoveHintOutputSchema>;
 
 // Output schema for multiple suggestions
@@ -63,8 +79,8 @@ export async function explainMultipleMoveHints(input: ExplainMoveHintInput): Pro
 
 const prompt = ai.definePrompt({
   name: 'explainMoveHintsPrompt',
-  input: {schema: ExplainMoveHintInputSchema},
-  output: {schema: ExplainMultipleMoveHintsOutputSchema},
+  input: {schema: ExplainMoveHintPromptInputSchema},
+  output: {schema: z.object({suggestions: z.array(SuggestedMoveSchema)})},
   prompt: `You are an exceptionally precise and rule-abiding chess engine. Your SOLE TASK is to generate 100% legal chess moves based STRICTLY on the provided FEN string and current turn. You must also explain the move.
 
 **Game Context:**
@@ -73,6 +89,13 @@ const prompt = ai.definePrompt({
 *   Difficulty: {{{difficultyLevel}}}
 *   Is {{{currentTurn}}} in Check (initial hint): {{#if isPlayerInCheck}}Yes{{else}}No/Unknown (VERIFY FROM FEN){{/if}}
 *   Number of Suggestions Requested: {{{numberOfSuggestions}}}
+{{#if openingName}}*   Opening: {{{openingName}}} (use its typical plans as context; the FEN still decides what is legal)
+{{/if}}
+{{#if rejectedMoves}}
+**CORRECTION REQUIRED:** Your previous answer suggested these ILLEGAL moves: {{{rejectedMoves}}}. Do NOT suggest them again.
+The complete list of legal moves in this position is: {{{legalMoves}}}
+Every suggestion MUST be copied exactly from that list, with from/to squares that match it.
+{{/if}}
 
 **Output Format (Strict JSON):**
 You MUST provide an array of suggestion objects under the 'suggestions' key. Each object must have:
@@ -165,7 +188,49 @@ const explainMoveHintsFlow = ai.defineFlow(
     outputSchema: ExplainMultipleMoveHintsOutputSchema,
   },
   async input => {
+    const fen = input.currentBoardState;
+    const accepted: ExplainMoveHintOutput[] = [];
+    const rejected: string[] = [];
+
+    const collect = (suggestions: z.infer<typeof SuggestedMoveSchema>[], isRetry: boolean) => {
+      for (const suggestion of suggestions) {
+        const check = checkMoveSuggestion(fen, {
+          notation: suggestion.suggestedMoveNotation,
+          from: suggestion.suggestedMoveFromSquare,
+          to: suggestion.suggestedMoveToSquare,
+        });
+        if (!check) {
+          rejected.push(suggestion.suggestedMoveNotation || `${suggestion.suggestedMoveFromSquare}-${suggestion.suggestedMoveToSquare}`);
+          continue;
+        }
+        if (accepted.some(a => a.suggestedMoveNotation === check.move.san)) continue;
+        accepted.push({
+          ...suggestion,
+          suggestedMoveNotation: check.move.san,
+          suggestedMoveFromSquare: check.move.from,
+          suggestedMoveToSquare: check.move.to,
+          wasCorrected: check.wasCorrected || isRetry,
+        });
+      }
+    };
+
     const {output} = await prompt(input);
-    return output || { suggestions: [] };
+    collect(output?.suggestions ?? [], false);
+
+    const wanted = input.numberOfSuggestions ?? 1;
+    if (rejected.length > 0 && accepted.length < wanted) {
+      const legalMoves = getLegalMovesSan(fen);
+      if (legalMoves.length > 0) {
+        const {output: retryOutput} = await prompt({
+          ...input,
+          numberOfSuggestions: wanted - accepted.length,
+          rejectedMoves: rejected.join(', '),
+          legalMoves: legalMoves.join(', '),
+        });
+        collect(retryOutput?.suggestions ?? [], true);
+      }
+    }
+
+    return { suggestions: accepted.slice(0, wanted) };
   }
 );
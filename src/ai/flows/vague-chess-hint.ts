@@ -9,12 +9,14 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {OpeningNameSchema} from '@/ai/schemas';
 
 const VagueChessHintInputSchema = z.object({
   currentBoardState: z.string().describe('FEN representation of the current chess board state.'),
   currentTurn: z.string().describe('The color of the player whose turn it is (w or b).'),
   difficultyLevel: z.enum(['beginner', 'intermediate', 'advanced']).describe('The difficulty level of the game context.'),
   isPlayerInCheck: z.boolean().optional().describe('Whether the current player (whose turn it is) is in check.'),
+  openingName: OpeningNameSchema,
 });
 export type VagueChessHintInput = z.infer<typeof VagueChessHintInputSchema>;
 
@@ -35,6 +37,7 @@ const prompt = ai.definePrompt({
 Current Board State (FEN): {{{currentBoardState}}}
 It's {{{currentTurn}}}'s turn.
 User's Difficulty: {{{difficultyLevel}}}
+{{#if openingName}}Opening: {{{openingName}}}. The tip may point to the usual plans of this opening.{{/if}}
 {{#if isPlayerInCheck}}
 The player ({{{currentTurn}}}) is currently in CHECK. The hint MUST be about resolving the check.
 {{/if}}
@@ -0,0 +1,11 @@
+/**
+ * @fileOverview Zod fields shared by the tutor flows' input schemas. Kept out of the flow files,
+ * which as server action modules may only export async functions.
+ */
+
+import {z} from 'genkit';
+
+export const OpeningNameSchema = z
+  .string()
+  .optional()
+  .describe('Opening being played, from the local opening book (e.g. "B90 Sicilian Defense: Najdorf Variation"). Absent outside known openings.');
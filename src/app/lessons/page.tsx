@@ -0,0 +1,9 @@
+import LessonsPage from '@/components/chess/LessonsPage';
+
+export default function Lessons() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-2 sm:p-4 bg-background">
+      <LessonsPage />
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import PuzzlePage from '@/components/chess/PuzzlePage';
+
+export default function Puzzles() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-2 sm:p-4 bg-background">
+      <PuzzlePage />
+    </main>
+  );
+}
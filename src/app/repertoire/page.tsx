@@ -0,0 +1,9 @@
+import RepertoirePage from '@/components/chess/RepertoirePage';
+
+export default function Repertoire() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-2 sm:p-4 bg-background">
+      <RepertoirePage />
+    </main>
+  );
+}
@@ -7,10 +7,11 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import type { AiTutorAnalysisOutput } from '@/ai/flows/ai-tutor-analysis';
 import type { ExplainMoveHintOutput } from '@/ai/flows/move-hint-explanation';
-import { Lightbulb, Target, ClipboardCheck, Sparkles, Info, Cpu, Bot, Loader, HelpCircle, Brain, CheckSquare } from 'lucide-react';
+import { Lightbulb, Target, ClipboardCheck, Sparkles, Info, Cpu, Bot, Loader, HelpCircle, Brain, CheckSquare, ShieldCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { parseAndHighlightText } from '@/lib/text-parser'; 
-import type { Square } from '@/types/chess';
+import { formatEvaluation, MOVE_CLASSIFICATION_LABELS, type MoveClassification } from '@/lib/move-analysis';
+import type { PieceColor, Square } from '@/types/chess';
 
 
 interface FeedbackBlockProps {
@@ -73,6 +74,26 @@ const FeedbackBlock: React.FC<FeedbackBlockProps> = ({
   );
 };
 
+// Marks a move that the tutor first got wrong and that was re-checked against the rules.
+const CorrectedBadge: React.FC = () => (
+  <Badge
+    variant="outline"
+    className="text-[10px] sm:text-xs px-1.5 py-0 gap-1 text-muted-foreground"
+    title="The tutor's first suggestion was not a legal move. This one was re-checked against the rules."
+  >
+    <ShieldCheck className="h-3 w-3" /> Corrected
+  </Badge>
+);
+
+const CLASSIFICATION_BADGE_CLASSES: { [c in MoveClassification]: string } = {
+  best: 'bg-green-600 text-white',
+  excellent: 'bg-green-500 text-white',
+  good: 'bg-teal-500 text-white',
+  inaccuracy: 'bg-amber-400 text-black',
+  mistake: 'bg-orange-500 text-white',
+  blunder: 'bg-red-600 text-white',
+};
+
 const suggestionColorThemes = [
   { 
     name: "Indigo",
@@ -105,7 +126,7 @@ const suggestionColorThemes = [
 
 
 interface AiTutorPanelProps {
-  hint?: { move?: string; explanation: string; type: 'vague' | 'specific', from?: Square, to?: Square };
+  hint?: { move?: string; explanation: string; type: 'vague' | 'specific', from?: Square, to?: Square, wasCorrected?: boolean };
   playerMoveAnalysis?: AiTutorAnalysisOutput | null;
   aiMoveExplanation?: { move: string; explanation: string } | null;
   isLoading: boolean; 
@@ -115,6 +136,7 @@ interface AiTutorPanelProps {
   isLoadingFullTutorContent?: boolean;
   onSelectFullTutorSuggestion?: (suggestion: ExplainMoveHintOutput) => void;
   highlightedHintSquares?: Array<{ from: Square; to: Square }> | { from: Square; to: Square } | null;
+  analysedMoveColor?: PieceColor | null; // Set in hot-seat games, where the analysis names the side instead of "you"
 }
 
 const AiTutorPanel: React.FC<AiTutorPanelProps> = ({ 
@@ -127,8 +149,11 @@ const AiTutorPanel: React.FC<AiTutorPanelProps> = ({
   isFullTutoringActive,
   isLoadingFullTutorContent,
   onSelectFullTutorSuggestion,
-  highlightedHintSquares
+  highlightedHintSquares,
+  analysedMoveColor,
 }) => {
+  const moverName = analysedMoveColor ? (analysedMoveColor === 'w' ? 'White' : 'Black') : null;
+  const replyingName = analysedMoveColor ? (analysedMoveColor === 'w' ? 'Black' : 'White') : null;
   
   const generalLoading = isLoading || isLoadingFullTutorContent;
   const showFallback = !generalLoading && !hint && !playerMoveAnalysis && !aiMoveExplanation &&
@@ -179,6 +204,7 @@ const AiTutorPanel: React.FC<AiTutorPanelProps> = ({
                   >
                     <div className="flex items-center gap-2 mb-1">
                         <Badge variant="default" className="bg-accent text-accent-foreground text-sm sm:text-base px-2 sm:px-2.5 py-0.5 sm:py-1">{hint.move}</Badge>
+                        {hint.wasCorrected && <CorrectedBadge />}
                     </div>
                     <p className="whitespace-pre-wrap">{parseAndHighlightText(hint.explanation)}</p>
                   </FeedbackBlock>
@@ -229,6 +255,7 @@ const AiTutorPanel: React.FC<AiTutorPanelProps> = ({
                                     isSelected={isSuggestionSelected}
                                     isClickable={true}
                                 >
+                                    {suggestion.wasCorrected && <CorrectedBadge />}
                                     <p className="whitespace-pre-wrap">{parseAndHighlightText(suggestion.explanation)}</p>
                                 </FeedbackBlock>
                             );
@@ -257,19 +284,35 @@ const AiTutorPanel: React.FC<AiTutorPanelProps> = ({
                     {playerMoveAnalysis.playerMoveEvaluation && (
                       <FeedbackBlock
                         icon={ClipboardCheck}
-                        title="Evaluation of Your Last Move"
+                        title={moverName ? `Evaluation of ${moverName}'s Last Move` : "Evaluation of Your Last Move"}
                         titleColorClass="text-primary"
                         bgColorClass="bg-primary/5"
                         borderColorClass="border-primary/20"
                         selectedRingClass="ring-primary"
                       >
+                        {playerMoveAnalysis.engineAnalysis && (
+                          <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                            <Badge className={cn("text-xs", CLASSIFICATION_BADGE_CLASSES[playerMoveAnalysis.engineAnalysis.classification])}>
+                              {MOVE_CLASSIFICATION_LABELS[playerMoveAnalysis.engineAnalysis.classification]}
+                            </Badge>
+                            <span className="font-mono">
+                              {formatEvaluation(playerMoveAnalysis.engineAnalysis.evalBefore)} → {formatEvaluation(playerMoveAnalysis.engineAnalysis.evalAfter)}
+                            </span>
+                            <span className="text-muted-foreground">({playerMoveAnalysis.engineAnalysis.centipawnLoss} cp lost)</span>
+                            {!playerMoveAnalysis.engineAnalysis.playedBestMove && playerMoveAnalysis.engineAnalysis.bestMove && (
+                              <span className="text-muted-foreground">
+                                Engine: <span className="font-mono text-foreground">{playerMoveAnalysis.engineAnalysis.bestLine.join(' ')}</span>
+                              </span>
+                            )}
+                          </div>
+                        )}
                         <p className="whitespace-pre-wrap">{parseAndHighlightText(playerMoveAnalysis.playerMoveEvaluation)}</p>
                       </FeedbackBlock>
                     )}
                     {playerMoveAnalysis.betterPlayerMoveSuggestions && playerMoveAnalysis.betterPlayerMoveSuggestions.length > 0 && (
                       <FeedbackBlock
                         icon={Sparkles}
-                        title="Better Alternatives for You"
+                        title={moverName ? `Better Alternatives for ${moverName}` : "Better Alternatives for You"}
                         titleColorClass="text-accent"
                         bgColorClass="bg-accent/5"
                         borderColorClass="border-accent/20"
@@ -279,6 +322,7 @@ const AiTutorPanel: React.FC<AiTutorPanelProps> = ({
                           {playerMoveAnalysis.betterPlayerMoveSuggestions.map((s, i) => (
                             <div key={i} className="p-2 sm:p-2.5 bg-accent/10 rounded-md border border-accent/20 shadow-sm">
                               <Badge variant="default" className="bg-accent text-accent-foreground mr-2 mb-1 text-xs sm:text-sm px-1.5 sm:px-2 py-0.5">{s.move}</Badge>
+                              {s.wasCorrected && <CorrectedBadge />}
                               <div className="text-xs sm:text-sm whitespace-pre-wrap leading-snug">{parseAndHighlightText(s.explanation)}</div>
                             </div>
                           ))}
@@ -288,7 +332,7 @@ const AiTutorPanel: React.FC<AiTutorPanelProps> = ({
                     {playerMoveAnalysis.generalBoardAnalysis && (
                       <FeedbackBlock
                         icon={Info}
-                        title="Current Board Assessment (for AI)"
+                        title={replyingName ? `Current Board Assessment (for ${replyingName})` : "Current Board Assessment (for AI)"}
                         titleColorClass="text-muted-foreground"
                         bgColorClass="bg-muted/50"
                         borderColorClass="border-muted"
@@ -300,7 +344,7 @@ const AiTutorPanel: React.FC<AiTutorPanelProps> = ({
                     {playerMoveAnalysis.suggestedMovesForCurrentTurn && playerMoveAnalysis.suggestedMovesForCurrentTurn.length > 0 && (
                       <FeedbackBlock
                         icon={Cpu}
-                        title="AI's Potential Plans"
+                        title={replyingName ? `${replyingName}'s Potential Plans` : "AI's Potential Plans"}
                         titleColorClass="text-secondary-foreground"
                         bgColorClass="bg-secondary/20"
                         borderColorClass="border-secondary/40"
@@ -310,6 +354,7 @@ const AiTutorPanel: React.FC<AiTutorPanelProps> = ({
                         {playerMoveAnalysis.suggestedMovesForCurrentTurn.map((s, i) => (
                            <div key={i} className="p-2 sm:p-2.5 bg-secondary/30 rounded-md border border-secondary/50 shadow-sm">
                              <Badge variant="secondary" className="mr-2 mb-1 text-xs sm:text-sm px-1.5 sm:px-2 py-0.5">{s.move}</Badge>
+                             {s.wasCorrected && <CorrectedBadge />}
                              <div className="text-xs sm:text-sm whitespace-pre-wrap leading-snug">{parseAndHighlightText(s.explanation)}</div>
                            </div>
                         ))}
@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { BookOpenCheck, GraduationCap, Puzzle, Swords } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const NAV_LINKS = [
+  { href: '/', label: 'Play', icon: Swords },
+  { href: '/repertoire', label: 'Repertoire', icon: BookOpenCheck },
+  { href: '/puzzles', label: 'Puzzles', icon: Puzzle },
+  { href: '/lessons', label: 'Lessons', icon: GraduationCap },
+];
+
+// Links between the app's pages, shown under the page header.
+const AppNav: React.FC = () => {
+  const pathname = usePathname();
+  return (
+    <nav className="flex justify-center gap-1 mt-1">
+      {NAV_LINKS.map(({ href, label, icon: Icon }) => (
+        <Link
+          key={href}
+          href={href}
+          aria-current={pathname === href ? 'page' : undefined}
+          className={cn(
+            "flex items-center gap-1.5 rounded-md px-2.5 py-1 text-xs sm:text-sm text-muted-foreground transition-colors hover:bg-accent/10 hover:text-foreground",
+            pathname === href && "bg-primary/10 text-primary font-medium"
+          )}
+        >
+          <Icon className="h-3.5 w-3.5 sm:h-4 sm:w-4" /> {label}
+        </Link>
+      ))}
+    </nav>
+  );
+};
+
+export default AppNav;
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PieceColor, TimeControl } from '@/types/chess';
+import {
+  getRemainingTime,
+  formatClockTime,
+  describeTimeControl,
+  getTimeControlCategory,
+  TIME_CONTROL_CATEGORY_LABELS,
+  type ClockState,
+} from '@/lib/chess-clock';
+import PieceComponent from './PieceComponent';
+
+interface ChessClockProps {
+  timeControl: TimeControl;
+  clock: ClockState;
+  bottomColor: PieceColor; // Matches the board orientation, so each clock sits on its player's side
+  playerNames: { [color in PieceColor]: string };
+  flaggedColor: PieceColor | null;
+}
+
+const TICK_INTERVAL_MS = 100;
+
+const ChessClock: React.FC<ChessClockProps> = ({ timeControl, clock, bottomColor, playerNames, flaggedColor }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!clock.runningColor) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  const lowTimeMs = Math.min(30_000, timeControl.baseMs / 10);
+  const topColor: PieceColor = bottomColor === 'w' ? 'b' : 'w';
+
+  const renderRow = (color: PieceColor) => {
+    const remaining = getRemainingTime(clock, timeControl, color, now);
+    const isRunning = clock.runningColor === color;
+    return (
+      <div
+        className={cn(
+          "flex items-center justify-between rounded-md border px-2 py-1.5 sm:px-3 sm:py-2 transition-colors",
+          isRunning && "border-primary bg-primary/10",
+          flaggedColor === color && "border-destructive bg-destructive/10"
+        )}
+      >
+        <span className="flex items-center gap-1.5 text-xs sm:text-sm font-medium">
+          <span className="h-5 w-5 sm:h-6 sm:w-6">
+            <PieceComponent piece={{ symbol: 'k', color }} size="text-lg sm:text-xl" />
+          </span>
+          {playerNames[color]}
+        </span>
+        <span
+          className={cn(
+            "font-mono text-lg sm:text-2xl font-semibold tabular-nums",
+            remaining <= lowTimeMs && "text-destructive",
+            !isRunning && "opacity-70"
+          )}
+        >
+          {formatClockTime(remaining)}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-2 sm:p-3 space-y-1.5">
+        {renderRow(topColor)}
+        <p className="flex items-center justify-center gap-1 text-[10px] sm:text-xs text-muted-foreground">
+          <Timer className="h-3 w-3" />
+          {TIME_CONTROL_CATEGORY_LABELS[getTimeControlCategory(timeControl)]} · {describeTimeControl(timeControl)}
+        </p>
+        {renderRow(bottomColor)}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ChessClock;
@@ -1,37 +1,98 @@
 // src/components/chess/ChessPage.tsx
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import ChessboardComponent from './ChessboardComponent';
 import GameControls from './GameControls';
 import MoveHistory from './MoveHistory';
 import AiTutorPanel from './AiTutorPanel';
 import GameStatus from './GameStatus';
 import PromotionDialog from './PromotionDialog';
+import NewGameDialog, { type NewGameSettings } from './NewGameDialog';
+import PgnDialog from './PgnDialog';
+import GameLibraryDialog from './GameLibraryDialog';
+import PositionSetupDialog from './PositionSetupDialog';
+import ChessClock from './ChessClock';
+import SpectateControls, { DEFAULT_SPECTATE_DELAY_MS } from './SpectateControls';
+import GameReviewPanel from './GameReviewPanel';
+import EvaluationBar from './EvaluationBar';
+import AppNav from './AppNav';
 
 import {
-  getLegalMoves,
+  getLegalMoveList,
   makeMove as applyMoveLogic,
-  squareToCoords,
   coordsToSquare,
   boardToFen,
   INITIAL_FEN,
   fenToBoard,
-  getRandomAiMove,
   isKingInCheck as checkKingInCheck,
   isCheckmateOrStalemate,
   moveToAlgebraic,
   getPieceAtSquare,
+  getPositionKey,
+  countRepetitions,
+  getAutomaticDrawReason,
+  getClaimableDrawReason,
+  hasMatingMaterial,
+  DRAW_REASON_DESCRIPTIONS,
 } from '@/lib/chess-logic';
-import type { Board, Square, PieceColor, PieceSymbol, Difficulty } from '@/types/chess';
+import {
+  createClockState,
+  startClock,
+  pressClock,
+  stopClock,
+  getRemainingTime,
+  getTimeUntilFlag,
+  getEngineTimeBudget,
+  toPgnTimeControl,
+  type ClockState,
+} from '@/lib/chess-clock';
+import {
+  chooseEngineMove,
+  getStrengthProfile,
+  difficultyForEngineLevel,
+  DIFFICULTY_ENGINE_LEVELS,
+} from '@/lib/engine-strength';
+import type { Board, Square, PieceColor, PieceSymbol, Difficulty, DrawReason, Move, TimeControl, GameMode } from '@/types/chess';
 import { explainMoveHint, explainMultipleMoveHints, ExplainMoveHintOutput } from '@/ai/flows/move-hint-explanation';
 import { getVagueChessHint } from '@/ai/flows/vague-chess-hint';
 import { aiTutorAnalysis, AiTutorAnalysisOutput } from '@/ai/flows/ai-tutor-analysis';
+import { MOVE_CLASSIFICATION_LABELS, evaluateFen, type PositionEvaluation } from '@/lib/move-analysis';
+import { writePgn, formatPgnDate, getPgnResult, parsePgn, type PgnGame } from '@/lib/pgn';
+import {
+  saveLibraryGame,
+  describeGameOpening,
+  type LibraryGame,
+  type LibraryGameStatus,
+} from '@/lib/game-library';
+import { reviewGame, type GameReview } from '@/lib/game-review';
+import { formatOpeningName, identifyOpening } from '@/lib/openings';
+import {
+  MOVE_TREE_ROOT_ID,
+  addMove,
+  createMoveTree,
+  findChildBySan,
+  deleteFromNode,
+  demoteVariation,
+  getLineEnd,
+  getNodePath,
+  moveTreeToPgnMoves,
+  promoteVariation,
+  setNodeAnnotations,
+  setNodeComment,
+  type MoveTree,
+} from '@/lib/move-tree';
 import { useToast } from '@/hooks/use-toast';
 import { parseAndHighlightText } from '@/lib/text-parser';
+import { createId } from '@/lib/utils';
 
-const MAX_HISTORY_LENGTH = 50;
 const LOCAL_STORAGE_KEY = 'chessMasteryGameState';
+const EVAL_BAR_STORAGE_KEY = 'chessMasteryShowEvalBar';
+const OPENING_BOOK_STORAGE_KEY = 'chessMasteryUseOpeningBook';
+const EVAL_BAR_DELAY_MS = 150; // Lets quick history browsing skip positions instead of searching each one
+const EVAL_BAR_TIME_MS = 300;
+const EVAL_BAR_MAX_DEPTH = 12;
+const EVAL_BAR_CACHE_SIZE = 500;
 const AI_EXPLANATION_TIMEOUT_MS = 15000; // 15 seconds
 
 interface GameState {
@@ -43,6 +104,7 @@ interface GameState {
   fullMoveNumber: number;
   currentMoveHistorySnapshot: string[];
   moveThatLedToThisStateSquares: { from: Square; to: Square } | null;
+  positionKeys?: string[]; // Every position reached so far, for repetition detection
 }
 
 interface SavedChessGame {
@@ -53,13 +115,30 @@ interface SavedChessGame {
   halfMoveClock: number;
   fullMoveNumber: number;
   moveHistory: string[];
+  moveComments?: Record<number, string>; // Ply-indexed comments from before the move tree
+  startingFen?: string;
+  positionKeys?: string[];
   lastMove: { from: Square; to: Square } | null;
   difficulty: Difficulty;
+  engineLevel?: number; // Missing in games saved before the strength slider existed
   isFullTutoringMode: boolean;
-  gameHistoryStack: GameState[];
-  historyPointer: number;
+  moveTree?: MoveTree<GameState>;
+  currentNodeId?: string;
+  gameHistoryStack?: GameState[]; // Linear undo/redo history from before the move tree
+  historyPointer?: number;
   hintLevel: 0 | 1 | 2;
   playerColor: PieceColor;
+  isBoardFlipped?: boolean;
+  timeControl?: TimeControl | null;
+  clock?: ClockState | null;
+  flaggedColor?: PieceColor | null;
+  claimedDrawReason?: DrawReason | null;
+  gameMode?: GameMode; // Missing in games saved before hot-seat play existed
+  autoFlip?: boolean;
+  spectateLevels?: { [color in PieceColor]: number };
+  libraryGameId?: string | null;
+  gameStartedAt?: number;
+  archivedLibraryGame?: LibraryGame | null;
 }
 
 
@@ -99,10 +178,10 @@ const suggestionColorThemes = [
   },
 ];
 
-const getInitialFenState = () => fenToBoard(INITIAL_FEN);
+const getInitialFenState = (fen: string = INITIAL_FEN) => fenToBoard(fen);
 
-const getInitialGameStateForHistory = (): GameState => {
-  const initial = getInitialFenState();
+const getInitialGameStateForHistory = (fen: string = INITIAL_FEN): GameState => {
+  const initial = getInitialFenState(fen);
   return {
     board: initial.board,
     turn: initial.turn,
@@ -112,9 +191,32 @@ const getInitialGameStateForHistory = (): GameState => {
     fullMoveNumber: initial.fullmove,
     currentMoveHistorySnapshot: [],
     moveThatLedToThisStateSquares: null,
+    positionKeys: [getPositionKey(initial.board, initial.turn, initial.castling, initial.enPassant)],
   };
 };
 
+// "B20 Sicilian Defense" for a line that reached a book opening; passed to the tutor flows as context.
+const getOpeningName = (sanMoves: string[], startFen: string): string | undefined => {
+  const { opening } = identifyOpening(sanMoves, startFen);
+  return opening ? formatOpeningName(opening) : undefined;
+};
+
+// Games saved before the move tree kept a linear undo stack, with tutor comments keyed by ply.
+const moveTreeFromHistoryStack = (
+  stack: GameState[], pointer: number, comments: Record<number, string> = {}
+): { tree: MoveTree<GameState>; currentNodeId: string } => {
+  let tree = createMoveTree(stack[0] ?? getInitialGameStateForHistory());
+  let nodeId = tree.rootId;
+  let currentNodeId = tree.rootId;
+  stack.slice(1).forEach((state, index) => {
+    const ply = state.currentMoveHistorySnapshot.length - 1;
+    ({ tree, nodeId } = addMove(tree, nodeId, state.currentMoveHistorySnapshot[ply], state));
+    tree = setNodeComment(tree, nodeId, comments[ply] ?? null);
+    if (index + 1 === pointer) currentNodeId = nodeId;
+  });
+  return { tree, currentNodeId };
+};
+
 
 const ChessPage: React.FC = () => {
   const initialFenState = getInitialFenState();
@@ -128,22 +230,86 @@ const ChessPage: React.FC = () => {
 
   // UI and interaction state
   const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
-  const [validMoves, setValidMoves] = useState<Square[]>([]);
+  const [selectedLegalMoves, setSelectedLegalMoves] = useState<Move[]>([]); // One entry per promotion choice
   const [moveHistory, setMoveHistory] = useState<string[]>([]);
+  const [startingFen, setStartingFen] = useState<string>(INITIAL_FEN);
   const [lastMove, setLastMove] = useState<{ from: Square; to: Square } | null>(null);
+  const [positionKeys, setPositionKeys] = useState<string[]>(() => getInitialGameStateForHistory().positionKeys!);
+  // Library record for this game; assigned on the first move so untouched games are never archived.
+  const [libraryGameId, setLibraryGameId] = useState<string | null>(null);
+  const [gameStartedAt, setGameStartedAt] = useState<number>(() => Date.now());
+  // The library record as first saved when the game ended. Later saves only refresh its PGN, so a late tutor
+  // comment neither moves the end time nor picks up settings changed after the game.
+  const [archivedLibraryGame, setArchivedLibraryGame] = useState<LibraryGame | null>(null);
+
+  // Post-game review of the line leading to the current move. While it is open the board shows
+  // `reviewPosition` along `reviewNodeIds`,
+  // leaving the live game state untouched, and nobody can move.
+  const [isReviewOpen, setIsReviewOpen] = useState<boolean>(false);
+  const [gameReview, setGameReview] = useState<GameReview | null>(null);
+  const [reviewProgress, setReviewProgress] = useState<number>(0);
+  const [reviewPosition, setReviewPosition] = useState<number | null>(null);
+  const [reviewNodeIds, setReviewNodeIds] = useState<string[]>([]);
+  const reviewRunIdRef = useRef(0); // Bumped to cancel a review that is still running
+
+  // Evaluation bar. The preference outlives games; the bar itself is off in no-assistance modes.
+  const [showEvalBar, setShowEvalBar] = useState<boolean>(true);
+  const [liveEvaluation, setLiveEvaluation] = useState<PositionEvaluation | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState<boolean>(false);
+  const evaluationCacheRef = useRef<Map<string, PositionEvaluation>>(new Map()); // Keyed by FEN
+  // Whether the engine plays from the opening book; a preference kept across games.
+  const [useOpeningBook, setUseOpeningBook] = useState<boolean>(true);
 
   // Game status state
   const [gameStatusText, setGameStatusText] = useState<string>("White's Turn");
   const [isCheck, setIsCheck] = useState<boolean>(false);
   const [isCheckmate, setIsCheckmate] = useState<boolean>(false);
   const [isStalemate, setIsStalemate] = useState<boolean>(false);
+  const [drawReason, setDrawReason] = useState<DrawReason | null>(null);
+  const [claimableDrawReason, setClaimableDrawReason] = useState<DrawReason | null>(null);
+  // A draw the player claimed. Unlike the other results it cannot be read off the position, so it is
+  // kept (and saved) separately, like a fallen flag.
+  const [claimedDrawReason, setClaimedDrawReason] = useState<DrawReason | null>(null);
   const [winner, setWinner] = useState<PieceColor | null>(null);
   const [kingInCheckSquare, setKingInCheckSquare] = useState<Square | null>(null);
 
+  // Clock state; timeControl is null for untimed games
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [flaggedColor, setFlaggedColor] = useState<PieceColor | null>(null);
+  const isGameOver = isCheckmate || drawReason !== null || flaggedColor !== null || claimedDrawReason !== null;
+  // A timed game is played without engine help until it ends.
+  const isNoAssistanceMode = timeControl !== null && !isGameOver;
+  const isEvalBarVisible = showEvalBar && !isNoAssistanceMode;
+
   // Player and AI settings
   const [difficulty, setDifficulty] = useState<Difficulty>('beginner');
-  const [playerColor] = useState<PieceColor>('w');
+  const [engineLevel, setEngineLevel] = useState<number>(DIFFICULTY_ENGINE_LEVELS.beginner);
+  const [playerColor, setPlayerColor] = useState<PieceColor>('w');
   const aiColor = playerColor === 'w' ? 'b' : 'w';
+  const [gameMode, setGameMode] = useState<GameMode>('vs-ai');
+  const isHotSeat = gameMode === 'hot-seat';
+  const isSpectating = gameMode === 'spectate';
+  // Whether a person is to move; always in hot-seat games, never while spectating.
+  const isHumanTurn = !isSpectating && !isReviewOpen && (isHotSeat || turn === playerColor);
+  const [autoFlip, setAutoFlip] = useState<boolean>(true);
+  const [isBoardFlipped, setIsBoardFlipped] = useState<boolean>(false);
+  // With auto-flip the side to move plays from the bottom; the flip button still inverts that.
+  const bottomColor: PieceColor = isHotSeat && autoFlip ? turn : playerColor;
+  const boardOrientation: PieceColor = isBoardFlipped ? (bottomColor === 'w' ? 'b' : 'w') : bottomColor;
+  const [isNewGameDialogOpen, setIsNewGameDialogOpen] = useState<boolean>(false);
+  const [isPgnDialogOpen, setIsPgnDialogOpen] = useState<boolean>(false);
+  const [isPositionSetupOpen, setIsPositionSetupOpen] = useState<boolean>(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(false);
+
+  // Engine-vs-engine settings
+  const [spectateLevels, setSpectateLevels] = useState<{ [color in PieceColor]: number }>({
+    w: DIFFICULTY_ENGINE_LEVELS.intermediate,
+    b: DIFFICULTY_ENGINE_LEVELS.intermediate,
+  });
+  const [isSpectatePaused, setIsSpectatePaused] = useState<boolean>(false);
+  const [spectateDelayMs, setSpectateDelayMs] = useState<number>(DEFAULT_SPECTATE_DELAY_MS);
+  const [isSpectateNarrationOn, setIsSpectateNarrationOn] = useState<boolean>(true);
 
   // Loading states
   const [isLoadingAiMove, setIsLoadingAiMove] = useState<boolean>(false);
@@ -154,7 +320,7 @@ const ChessPage: React.FC = () => {
 
 
   // AI Tutor state
-  const [aiHint, setAiHint] = useState<{ move?: string; explanation: string; type: 'vague' | 'specific', from?: Square, to?: Square } | undefined>(undefined);
+  const [aiHint, setAiHint] = useState<{ move?: string; explanation: string; type: 'vague' | 'specific', from?: Square, to?: Square, wasCorrected?: boolean } | undefined>(undefined);
   const [hintLevel, setHintLevel] = useState<0 | 1 | 2>(0);
   const [highlightedHintSquares, setHighlightedHintSquares] = useState<Array<{ from: Square; to: Square, hintIndex?: number }> | { from: Square; to: Square, hintIndex?: number } | null>(null);
   const [playerMoveAnalysis, setPlayerMoveAnalysis] = useState<AiTutorAnalysisOutput | null>(null);
@@ -171,10 +337,14 @@ const ChessPage: React.FC = () => {
   const [isPromotionDialogOpen, setIsPromotionDialogOpen] = useState<boolean>(false);
   const [promotionSquare, setPromotionSquare] = useState<Square | null>(null);
   const [pendingMove, setPendingMove] = useState<{ from: Square, to: Square } | null>(null);
+  const [promotionOptions, setPromotionOptions] = useState<PieceSymbol[]>([]);
 
-  // History stack for Undo/Redo
-  const [gameHistoryStack, setGameHistoryStack] = useState<GameState[]>([getInitialGameStateForHistory()]);
-  const [historyPointer, setHistoryPointer] = useState<number>(0);
+  // Every line played or explored, one snapshot per move; the board shows `currentNodeId`.
+  const [moveTree, setMoveTree] = useState<MoveTree<GameState>>(() => createMoveTree(getInitialGameStateForHistory()));
+  const [currentNodeId, setCurrentNodeId] = useState<string>(MOVE_TREE_ROOT_ID);
+  // Looking at a position that already has a continuation; the AI waits rather than starting a variation.
+  const isBrowsingHistory = (moveTree.nodes[currentNodeId]?.children.length ?? 0) > 0;
+  const currentOpeningName = useMemo(() => getOpeningName(moveHistory, startingFen), [moveHistory, startingFen]);
 
   const { toast } = useToast();
 
@@ -190,7 +360,14 @@ const ChessPage: React.FC = () => {
     return null;
   }, []);
 
-  const updateGameStatusDisplay = useCallback((currentBoard: Board, currentPlayer: PieceColor, currentCastlingRights: string, currentEnPassantTarget: string | null) => {
+  const updateGameStatusDisplay = useCallback((
+    currentBoard: Board,
+    currentPlayer: PieceColor,
+    currentCastlingRights: string,
+    currentEnPassantTarget: string | null,
+    currentHalfMoveClock: number,
+    currentPositionKeys: string[]
+  ) => {
     const kingSq = findKing(currentBoard, currentPlayer);
     const inCheckStatus = kingSq ? checkKingInCheck(currentBoard, currentPlayer) : false;
     setIsCheck(inCheckStatus);
@@ -198,18 +375,34 @@ const ChessPage: React.FC = () => {
 
     const mateStatus = isCheckmateOrStalemate(currentBoard, currentPlayer, currentCastlingRights, currentEnPassantTarget);
 
+    const repetitionCount = countRepetitions(
+      currentPositionKeys,
+      getPositionKey(currentBoard, currentPlayer, currentCastlingRights, currentEnPassantTarget)
+    );
+    const automaticDraw = mateStatus ? null : getAutomaticDrawReason(currentBoard, currentHalfMoveClock, repetitionCount);
+    setClaimableDrawReason(mateStatus || automaticDraw ? null : getClaimableDrawReason(currentHalfMoveClock, repetitionCount));
+
     if (mateStatus === 'checkmate') {
       setIsCheckmate(true);
+      setDrawReason(null);
       const gameWinner = currentPlayer === 'w' ? 'b' : 'w';
       setWinner(gameWinner);
       setGameStatusText(`Checkmate! ${gameWinner === 'w' ? 'White' : 'Black'} wins.`);
     } else if (mateStatus === 'stalemate') {
       setIsStalemate(true);
+      setDrawReason('stalemate');
       setWinner(null); // Draw
       setGameStatusText("Stalemate! It's a draw.");
+    } else if (automaticDraw) {
+      setIsCheckmate(false);
+      setIsStalemate(false);
+      setDrawReason(automaticDraw);
+      setWinner(null);
+      setGameStatusText(`Draw by ${DRAW_REASON_DESCRIPTIONS[automaticDraw].toLowerCase()}.`);
     } else {
       setIsCheckmate(false);
       setIsStalemate(false);
+      setDrawReason(null);
       setWinner(null);
       setGameStatusText(`${currentPlayer === 'w' ? 'White' : 'Black'}'s Turn${inCheckStatus ? ' (Check!)' : ''}`);
     }
@@ -236,11 +429,12 @@ const ChessPage: React.FC = () => {
       halfMoveClockForHistory: number,
       fullMoveNumberForHistory: number,
       currentMoveHistorySnapshot: string[], // This is move history *before* the current algebraicMove
-      algebraicMove: string | null, // The move just made
-      moveSquares: { from: Square, to: Square } | null
-    ) => {
+      algebraicMove: string, // The move just made
+      moveSquares: { from: Square, to: Square } | null,
+      positionKeysForHistory: string[]
+    ): string => {
 
-    const snapshotHistory = algebraicMove ? [...currentMoveHistorySnapshot, algebraicMove] : [...currentMoveHistorySnapshot];
+    const snapshotHistory = [...currentMoveHistorySnapshot, algebraicMove];
 
     const currentSnapshot: GameState = {
       board: boardForHistory, // State *after* move for FEN, but board UI will reflect this
@@ -251,49 +445,51 @@ const ChessPage: React.FC = () => {
       fullMoveNumber: fullMoveNumberForHistory,
       currentMoveHistorySnapshot: snapshotHistory, // History *including* the move
       moveThatLedToThisStateSquares: moveSquares, // The from/to squares of the move just made
+      positionKeys: positionKeysForHistory,
     };
 
-    setGameHistoryStack(prevStack => {
-      const newHistoryBase = prevStack.slice(0, historyPointer + 1);
-      const updatedStack = [...newHistoryBase, currentSnapshot];
-      // if (updatedStack.length > MAX_HISTORY_LENGTH) {
-      //   updatedStack.shift(); // Keep fixed size
-      // }
-      // setHistoryPointer(updatedStack.length - 1);
-
-      // Limit stack size and adjust pointer if needed
-      let finalStack = updatedStack;
-      let finalPointer = updatedStack.length - 1;
-      if (finalStack.length > MAX_HISTORY_LENGTH) {
-          finalStack = finalStack.slice(finalStack.length - MAX_HISTORY_LENGTH);
-          finalPointer = finalStack.length - 1; // Pointer is now relative to the new truncated stack
-      }
-      setHistoryPointer(finalPointer);
-      return finalStack;
-    });
-  }, [historyPointer]);
-
-  const fetchPlayerMoveAnalysis = useCallback(async (fen: string, currentTurnForFen: PieceColor, playerLastMove: string) => {
+    // A move already played from this position is revisited rather than added again. The tree is
+    // updated functionally so tutor comments arriving in the meantime are not lost.
+    const nodeId = findChildBySan(moveTree, currentNodeId, algebraicMove) ?? createId();
+    setMoveTree(prevTree => addMove(prevTree, currentNodeId, algebraicMove, currentSnapshot, nodeId).tree);
+    setCurrentNodeId(nodeId);
+    return nodeId;
+  }, [moveTree, currentNodeId]);
+
+  const fetchPlayerMoveAnalysis = useCallback(async (
+    fen: string, currentTurnForFen: PieceColor, playerLastMove: string, nodeId: string, fenBeforeMove: string, openingName: string | undefined, showToast = true
+  ) => {
     setIsLoadingAiTutor(true);
     try {
       const playerWhoMadeLastMoveColor = currentTurnForFen === 'w' ? 'b' : 'w';
       const result = await aiTutorAnalysis({
         boardState: fen,
+        boardStateBeforeLastMove: fenBeforeMove,
         currentTurn: currentTurnForFen, // This is AI's turn if player just moved
         lastPlayerMove: playerLastMove,
         lastMoveMadeByWhite: playerLastMove ? playerWhoMadeLastMoveColor === 'w' : undefined,
         lastMoveMadeByBlack: playerLastMove ? playerWhoMadeLastMoveColor === 'b' : undefined,
         difficultyLevel: difficulty,
+        openingName,
       });
       setPlayerMoveAnalysis(result);
+      if (result.playerMoveEvaluation) {
+        const evaluationComment = result.playerMoveEvaluation.replace(/\*\*/g, '');
+        setMoveTree(prev => setNodeComment(prev, nodeId, evaluationComment));
+      }
 
-      let toastTitle = "Your Move Analyzed";
+      // Outside games against the AI the mover is not "you", so name the side instead.
+      const moveLabel = gameMode !== 'vs-ai' ? `${playerWhoMadeLastMoveColor === 'w' ? 'White' : 'Black'}'s Move` : 'Your Move';
+      let toastTitle = `${moveLabel} Analyzed`;
       let toastDescriptionContent = "";
 
+      if (result.engineAnalysis) {
+        toastTitle = `${moveLabel}: ${MOVE_CLASSIFICATION_LABELS[result.engineAnalysis.classification]}`;
+      }
       if (result.playerMoveEvaluation) {
         const qualityMatch = result.playerMoveEvaluation.match(/\*\*(Brilliant!!|Excellent!|Good|Interesting\!?|Dubious\?!|Inaccuracy\?|Mistake\?|Blunder\(\?\?\)|Okay|Decent|Solid|Reasonable|Acceptable|Suboptimal|Strong|Optimal|Best)\*\*/i);
-        if (qualityMatch && qualityMatch[1]) {
-          toastTitle = `Your Move: ${qualityMatch[1]}`;
+        if (!result.engineAnalysis && qualityMatch && qualityMatch[1]) {
+          toastTitle = `${moveLabel}: ${qualityMatch[1]}`;
         }
         
         let evalSnippet = result.playerMoveEvaluation;
@@ -335,7 +531,7 @@ const ChessPage: React.FC = () => {
       }
 
 
-      if (toastDescriptionContent) {
+      if (showToast && toastDescriptionContent) {
         const descriptionElements = [
           <div key="analysis-content" className="text-xs max-h-24 overflow-y-auto whitespace-pre-wrap"> 
             {parseAndHighlightText(toastDescriptionContent)}
@@ -359,14 +555,43 @@ const ChessPage: React.FC = () => {
     } finally {
       setIsLoadingAiTutor(false);
     }
-  }, [toast, difficulty]);
+  }, [toast, difficulty, gameMode]);
+
+  const handleFlagFall = useCallback((color: PieceColor) => {
+    const now = Date.now();
+    setClock(prev => (prev && timeControl ? stopClock(prev, timeControl, now) : prev));
+    setFlaggedColor(color);
+    const opponent: PieceColor = color === 'w' ? 'b' : 'w';
+    toast({
+      title: "Time Out",
+      description: hasMatingMaterial(board, opponent)
+        ? `${color === 'w' ? 'White' : 'Black'} ran out of time.`
+        : `${color === 'w' ? 'White' : 'Black'} ran out of time, but ${opponent === 'w' ? 'White' : 'Black'} cannot checkmate. The game is drawn.`,
+    });
+  }, [timeControl, board, toast]);
 
   const processMove = useCallback((fromSq: Square, toSq: Square, promotionPieceSymbol?: PieceSymbol) => {
-    if (isCheckmate || isStalemate) return;
+    if (isGameOver) return;
   
     const piece = getPieceAtSquare(board, fromSq);
     if (!piece) return;
+
+    if (clock && timeControl) {
+      const now = Date.now();
+      // A move that arrives after the flag fell (e.g. at the end of a long engine search) does not count.
+      if (clock.runningColor === turn && getRemainingTime(clock, timeControl, turn, now) <= 0) {
+        handleFlagFall(turn);
+        return;
+      }
+      // The first move of the game is free; after that each move hands the clock to the opponent.
+      setClock(clock.runningColor ? pressClock(clock, timeControl, now) : startClock(clock, turn === 'w' ? 'b' : 'w', now));
+    }
   
+    if (!libraryGameId) {
+      setLibraryGameId(createId());
+      setGameStartedAt(Date.now());
+    }
+
     const moveSquares = { from: fromSq, to: toSq };
     const isEnPassantCapture = piece.symbol === 'p' && toSq === enPassantTarget && fromSq !== toSq;
   
@@ -392,13 +617,15 @@ const ChessPage: React.FC = () => {
     const moveNotation = moveToAlgebraic({
       from: fromSq, to: toSq, piece: piece.symbol, captured: actualCaptured, promotion: promotionPieceSymbol,
       boardBeforeMove: boardBeforeMoveForAlgebraic, boardAfterMove: newBoard, turn: currentTurnForAlgebraic,
-      isCastlingKingside, isCastlingQueenside, enPassantTargetOccurred: isEnPassantCapture
+      isCastlingKingside, isCastlingQueenside, enPassantTargetOccurred: isEnPassantCapture,
+      castlingRightsAfterMove: updatedCastlingRights, enPassantTargetAfterMove: updatedEnPassantTarget
     });
     
-    saveCurrentStateToHistory(
+    const newPositionKeys = [...positionKeys, getPositionKey(newBoard, newTurn, updatedCastlingRights, updatedEnPassantTarget)];
+    const newNodeId = saveCurrentStateToHistory(
       newBoard, newTurn, updatedCastlingRights, updatedEnPassantTarget, newHalfMoveClock, newFullMoveNumber,
       moveHistory, 
-      moveNotation, moveSquares
+      moveNotation, moveSquares, newPositionKeys
     );
   
     setBoard(newBoard);
@@ -408,25 +635,31 @@ const ChessPage: React.FC = () => {
     setHalfMoveClock(newHalfMoveClock);
     setFullMoveNumber(newFullMoveNumber);
     setMoveHistory(prev => [...prev, moveNotation]);
+    setPositionKeys(newPositionKeys);
     setLastMove(moveSquares);
   
     clearAiTutorState(isFullTutoringMode);
-    updateGameStatusDisplay(newBoard, newTurn, updatedCastlingRights, updatedEnPassantTarget);
+    updateGameStatusDisplay(newBoard, newTurn, updatedCastlingRights, updatedEnPassantTarget, newHalfMoveClock, newPositionKeys);
     setSelectedSquare(null);
-    setValidMoves([]);
+    setSelectedLegalMoves([]);
   
     const currentFenForAnalysis = boardToFen(newBoard, newTurn, updatedCastlingRights, updatedEnPassantTarget, newHalfMoveClock, newFullMoveNumber);
     
-    if (currentTurnForAlgebraic === playerColor) { 
-      fetchPlayerMoveAnalysis(currentFenForAnalysis, newTurn, moveNotation);
+    // While spectating, the same analysis narrates both engines' moves, quietly in the panel.
+    const shouldAnalyseMove = isSpectating ? isSpectateNarrationOn : (isHotSeat || currentTurnForAlgebraic === playerColor);
+    if (shouldAnalyseMove) { 
+      const fenBeforeMove = boardToFen(board, turn, castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber);
+      const openingName = getOpeningName([...moveHistory, moveNotation], startingFen);
+      fetchPlayerMoveAnalysis(currentFenForAnalysis, newTurn, moveNotation, newNodeId, fenBeforeMove, openingName, !isSpectating);
     } else {
       setPlayerMoveAnalysis(null);
     }
+    return newNodeId;
   }, [
-    board, turn, castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber, moveHistory,
+    board, turn, castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber, moveHistory, positionKeys,
     saveCurrentStateToHistory, clearAiTutorState, updateGameStatusDisplay, 
-    fetchPlayerMoveAnalysis, playerColor, isFullTutoringMode, 
-    isCheckmate, isStalemate 
+    fetchPlayerMoveAnalysis, playerColor, isHotSeat, isSpectating, isSpectateNarrationOn, isFullTutoringMode, 
+    isGameOver, clock, timeControl, handleFlagFall, libraryGameId, startingFen
   ]);
 
   useEffect(() => {
@@ -442,16 +675,39 @@ const ChessPage: React.FC = () => {
             setHalfMoveClock(savedGame.halfMoveClock);
             setFullMoveNumber(savedGame.fullMoveNumber);
             setMoveHistory(savedGame.moveHistory);
+            setStartingFen(savedGame.startingFen ?? INITIAL_FEN);
+            const savedPositionKeys = savedGame.positionKeys ?? [getPositionKey(savedGame.board, savedGame.turn, savedGame.castlingRights, savedGame.enPassantTarget)];
+            setPositionKeys(savedPositionKeys);
             setLastMove(savedGame.lastMove);
             setDifficulty(savedGame.difficulty);
+            setEngineLevel(savedGame.engineLevel ?? DIFFICULTY_ENGINE_LEVELS[savedGame.difficulty]);
             setIsFullTutoringMode(savedGame.isFullTutoringMode);
             
-            setGameHistoryStack(savedGame.gameHistoryStack && savedGame.gameHistoryStack.length > 0 ? savedGame.gameHistoryStack : [getInitialGameStateForHistory()]);
-            setHistoryPointer(savedGame.historyPointer >= 0 && savedGame.historyPointer < (savedGame.gameHistoryStack?.length || 0) ? savedGame.historyPointer : 0);
+            const savedHistory = savedGame.moveTree && savedGame.currentNodeId && savedGame.moveTree.nodes[savedGame.currentNodeId]
+              ? { tree: savedGame.moveTree, currentNodeId: savedGame.currentNodeId }
+              : moveTreeFromHistoryStack(savedGame.gameHistoryStack ?? [], savedGame.historyPointer ?? 0, savedGame.moveComments);
+            setMoveTree(savedHistory.tree);
+            setCurrentNodeId(savedHistory.currentNodeId);
             
             setHintLevel(savedGame.hintLevel);
+            setPlayerColor(savedGame.playerColor ?? 'w');
+            setIsBoardFlipped(savedGame.isBoardFlipped ?? false);
+            setGameMode(savedGame.gameMode ?? 'vs-ai');
+            setAutoFlip(savedGame.autoFlip ?? true);
+            if (savedGame.spectateLevels) setSpectateLevels(savedGame.spectateLevels);
+            // Don't start an engine game moving on its own as soon as the page opens.
+            setIsSpectatePaused(savedGame.gameMode === 'spectate');
+            setLibraryGameId(savedGame.libraryGameId ?? null);
+            setGameStartedAt(savedGame.gameStartedAt ?? Date.now());
+            setArchivedLibraryGame(savedGame.archivedLibraryGame ?? null);
+            setTimeControl(savedGame.timeControl ?? null);
+            // Time spent away from the page is not charged; the running side's turn restarts now.
+            const savedClock = savedGame.clock ?? null;
+            setClock(savedClock?.runningColor ? { ...savedClock, turnStartedAt: Date.now() } : savedClock);
+            setFlaggedColor(savedGame.flaggedColor ?? null);
+            setClaimedDrawReason(savedGame.claimedDrawReason ?? null);
             
-            updateGameStatusDisplay(savedGame.board, savedGame.turn, savedGame.castlingRights, savedGame.enPassantTarget);
+            updateGameStatusDisplay(savedGame.board, savedGame.turn, savedGame.castlingRights, savedGame.enPassantTarget, savedGame.halfMoveClock, savedPositionKeys);
             toast({ title: "Game Loaded", description: "Your previous game has been loaded." });
             gameLoaded = true;
         }
@@ -468,22 +724,24 @@ const ChessPage: React.FC = () => {
         setEnPassantTarget(initial.enPassant);
         setHalfMoveClock(initial.halfmove);
         setFullMoveNumber(initial.fullmove);
-        updateGameStatusDisplay(initial.board, initial.turn, initial.castling, initial.enPassant);
-        setGameHistoryStack([getInitialGameStateForHistory()]);
-        setHistoryPointer(0);
+        const initialHistoryState = getInitialGameStateForHistory();
+        setPositionKeys(initialHistoryState.positionKeys!);
+        updateGameStatusDisplay(initial.board, initial.turn, initial.castling, initial.enPassant, initial.halfmove, initialHistoryState.positionKeys!);
+        setMoveTree(createMoveTree(initialHistoryState));
+        setCurrentNodeId(MOVE_TREE_ROOT_ID);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [toast]); // Only run on mount
 
   useEffect(() => {
-    // Only save if it's not the very initial default state (history stack > 1 implies some action has been taken)
-    // or if it's the initial state BUT some moves have been made (moveHistory.length > 0).
+    // Only save once a move has been played (or a game with moves loaded).
     // This prevents saving an empty game on first load if no localStorage existed.
-    if (gameHistoryStack.length > 1 || (gameHistoryStack.length === 1 && moveHistory.length > 0)) {
+    if (moveTree.nodes[moveTree.rootId].children.length > 0 || moveHistory.length > 0) {
       const gameToSave: SavedChessGame = {
         board, turn, castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber,
-        moveHistory, lastMove, difficulty, isFullTutoringMode, gameHistoryStack,
-        historyPointer, hintLevel, playerColor,
+        moveHistory, startingFen, positionKeys, lastMove, difficulty, engineLevel, isFullTutoringMode, moveTree,
+        currentNodeId, hintLevel, playerColor, isBoardFlipped, timeControl, clock, flaggedColor, claimedDrawReason, gameMode, autoFlip,
+        spectateLevels, libraryGameId, gameStartedAt, archivedLibraryGame,
       };
       try {
         localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(gameToSave));
@@ -493,8 +751,9 @@ const ChessPage: React.FC = () => {
     }
   }, [
     board, turn, castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber,
-    moveHistory, lastMove, difficulty, isFullTutoringMode, gameHistoryStack,
-    historyPointer, hintLevel, playerColor
+    moveHistory, startingFen, positionKeys, lastMove, difficulty, engineLevel, isFullTutoringMode, moveTree,
+    currentNodeId, hintLevel, playerColor, isBoardFlipped, timeControl, clock, flaggedColor, claimedDrawReason, gameMode, autoFlip,
+    spectateLevels, libraryGameId, gameStartedAt, archivedLibraryGame
   ]);
 
   const handleFullTutoringModeChange = useCallback((enabled: boolean) => {
@@ -516,12 +775,23 @@ const ChessPage: React.FC = () => {
 
   const handleDifficultyChange = useCallback((newDiff: Difficulty) => {
     setDifficulty(newDiff);
+    setEngineLevel(DIFFICULTY_ENGINE_LEVELS[newDiff]);
     clearAiTutorState(); 
   }, [clearAiTutorState]);
 
+  const handleEngineLevelChange = useCallback((newLevel: number) => {
+    setEngineLevel(newLevel);
+    // Keep the tutor's explanations pitched at the closest named difficulty.
+    const matchingDifficulty = difficultyForEngineLevel(newLevel);
+    if (matchingDifficulty !== difficulty) {
+      setDifficulty(matchingDifficulty);
+      clearAiTutorState();
+    }
+  }, [difficulty, clearAiTutorState]);
+
   useEffect(() => {
     if (
-      isFullTutoringMode && turn === playerColor && !aiHint && !isCheckmate && !isStalemate &&
+      isFullTutoringMode && isHumanTurn && !aiHint && !isGameOver &&
       !isLoadingAiMove && !isLoadingAiTutor && !isFetchingFullTutorContentRef.current 
     ) {
       const fetchFullTutorData = async () => {
@@ -550,9 +820,11 @@ const ChessPage: React.FC = () => {
           const [vagueHintResult, multipleHintsResult] = await Promise.all([
             getVagueChessHint({
               currentBoardState: fen, currentTurn: turn, difficultyLevel: difficulty, isPlayerInCheck: playerCurrentlyInCheck,
+              openingName: currentOpeningName,
             }),
             explainMultipleMoveHints({
               currentBoardState: fen, currentTurn: turn, difficultyLevel: difficulty, isPlayerInCheck: playerCurrentlyInCheck, numberOfSuggestions: 3, 
+              openingName: currentOpeningName,
             })
           ]);
 
@@ -584,7 +856,7 @@ const ChessPage: React.FC = () => {
         }
       };
       fetchFullTutorData();
-    } else if (!isFullTutoringMode || turn !== playerColor || isCheckmate || isStalemate || aiHint) {
+    } else if (!isFullTutoringMode || !isHumanTurn || isGameOver || aiHint) {
       if (fullTutorGeneralTip) setFullTutorGeneralTip(null);
       if (fullTutorSuggestions) setFullTutorSuggestions(null);
        if (selectedFullTutorSuggestionIndex !== null || (Array.isArray(highlightedHintSquares) && !aiHint)) {
@@ -593,9 +865,9 @@ const ChessPage: React.FC = () => {
       }
     }
   }, [
-    isFullTutoringMode, turn, playerColor, board, castlingRights, enPassantTarget, 
-    halfMoveClock, fullMoveNumber, isCheck, difficulty, 
-    isCheckmate, isStalemate, aiHint, toast, 
+    isFullTutoringMode, turn, isHumanTurn, board, castlingRights, enPassantTarget, 
+    halfMoveClock, fullMoveNumber, isCheck, difficulty, currentOpeningName,
+    isGameOver, aiHint, toast, 
     isLoadingAiMove, isLoadingAiTutor // Added isLoadingAiMove and isLoadingAiTutor as dependencies
   ]);
 
@@ -628,8 +900,166 @@ const ChessPage: React.FC = () => {
     }
   }, [fullTutorSuggestions, selectedFullTutorSuggestionIndex]);
 
-  const resetGame = useCallback((showToast = true) => {
-    const initial = getInitialFenState();
+  const getPlayerName = useCallback((color: PieceColor): string => {
+    if (isHotSeat) return color === 'w' ? 'Player 1' : 'Player 2';
+    if (isSpectating) return `ChessMastery AI (Level ${spectateLevels[color]})`;
+    return color === playerColor ? 'Player' : `ChessMastery AI (Level ${engineLevel})`;
+  }, [isHotSeat, isSpectating, spectateLevels, playerColor, engineLevel]);
+
+  // The result as the rules have it. A fallen flag or a claimed draw only reaches `winner` and `drawReason`
+  // through an effect, a render after `isGameOver` turns true and the game is saved to the library.
+  const gameResult = useMemo((): { winner: PieceColor | null; drawReason: DrawReason | null } => {
+    if (flaggedColor) {
+      const opponent: PieceColor = flaggedColor === 'w' ? 'b' : 'w';
+      return hasMatingMaterial(board, opponent)
+        ? { winner: opponent, drawReason: null }
+        : { winner: null, drawReason: 'timeout-vs-insufficient-material' };
+    }
+    if (claimedDrawReason) return { winner: null, drawReason: claimedDrawReason };
+    return { winner, drawReason };
+  }, [flaggedColor, claimedDrawReason, board, winner, drawReason]);
+
+  // `archived` keeps the players and result a finished game was saved to the library with.
+  const buildExportPgn = useCallback((archived?: LibraryGame): string => {
+    return writePgn({
+      tags: {
+        Event: 'ChessMastery Game',
+        Site: 'ChessMastery',
+        Date: formatPgnDate(new Date(gameStartedAt)),
+        White: archived?.white ?? getPlayerName('w'),
+        Black: archived?.black ?? getPlayerName('b'),
+        ...(timeControl ? { TimeControl: toPgnTimeControl(timeControl) } : {}),
+        ...(flaggedColor ? { Termination: 'time forfeit' } : {}),
+      },
+      startFen: startingFen,
+      moves: moveTreeToPgnMoves(moveTree),
+      result: archived?.result ?? getPgnResult(isGameOver, gameResult.winner),
+      initialComment: moveTree.nodes[moveTree.rootId].comment,
+    });
+  }, [gameStartedAt, getPlayerName, startingFen, moveTree, isGameOver, gameResult, timeControl, flaggedColor]);
+
+  // Saves the current game to the library. Safe to call repeatedly: once the game has been saved as
+  // finished, later calls only bring its PGN up to date (new tutor comments or variations).
+  const archiveCurrentGame = useCallback((status: LibraryGameStatus) => {
+    if (!libraryGameId || moveHistory.length === 0) return;
+    if (archivedLibraryGame?.id === libraryGameId) {
+      const pgn = buildExportPgn(archivedLibraryGame);
+      if (pgn === archivedLibraryGame.pgn) return;
+      const updatedGame = { ...archivedLibraryGame, pgn };
+      setArchivedLibraryGame(updatedGame);
+      saveLibraryGame(updatedGame).catch(error => console.error("Error saving game to library:", error));
+      return;
+    }
+    let termination: string | null = null;
+    if (status === 'finished') {
+      if (gameResult.drawReason) termination = DRAW_REASON_DESCRIPTIONS[gameResult.drawReason];
+      else termination = flaggedColor ? 'Time forfeit' : 'Checkmate';
+    }
+    const game: LibraryGame = {
+      id: libraryGameId,
+      startedAt: gameStartedAt,
+      endedAt: Date.now(),
+      mode: gameMode,
+      white: getPlayerName('w'),
+      black: getPlayerName('b'),
+      playerColor: gameMode === 'vs-ai' ? playerColor : null,
+      difficulty,
+      engineLevel: gameMode === 'vs-ai' ? engineLevel : null,
+      timeControl,
+      status,
+      result: getPgnResult(isGameOver, gameResult.winner),
+      termination,
+      opening: describeGameOpening(moveHistory, startingFen),
+      plyCount: moveHistory.length,
+      pgn: buildExportPgn(),
+    };
+    if (status === 'finished') setArchivedLibraryGame(game);
+    saveLibraryGame(game).catch(error => console.error("Error saving game to library:", error));
+  }, [
+    libraryGameId, archivedLibraryGame, moveHistory, gameResult, flaggedColor, gameStartedAt, gameMode, getPlayerName, playerColor,
+    difficulty, engineLevel, timeControl, isGameOver, startingFen, buildExportPgn
+  ]);
+
+  useEffect(() => {
+    if (isGameOver) archiveCurrentGame('finished');
+  }, [isGameOver, archiveCurrentGame]);
+
+  const closeGameReview = useCallback(() => {
+    reviewRunIdRef.current++;
+    setIsReviewOpen(false);
+    setGameReview(null);
+    setReviewProgress(0);
+    setReviewPosition(null);
+    setReviewNodeIds([]);
+  }, []);
+
+  // Analyses every move up to the current position, then opens the review on the final position.
+  const handleReviewGame = useCallback(async () => {
+    const path = getNodePath(moveTree, currentNodeId);
+    const states = path.map(node => node.data);
+    const sanMoves = states[states.length - 1].currentMoveHistorySnapshot;
+    if (sanMoves.length === 0) return;
+    const fens = states.map(state => boardToFen(
+      state.board, state.turn, state.castlingRights, state.enPassantTarget, state.halfMoveClock, state.fullMoveNumber
+    ));
+
+    const runId = ++reviewRunIdRef.current;
+    clearAiTutorState(isFullTutoringMode);
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+    setGameReview(null);
+    setReviewProgress(0);
+    setReviewPosition(null);
+    setReviewNodeIds(path.map(node => node.id));
+    setIsReviewOpen(true);
+    try {
+      const review = await reviewGame(fens, sanMoves, {
+        onProgress: (analysed, total) => {
+          if (runId === reviewRunIdRef.current) setReviewProgress(analysed / total);
+        },
+        isCancelled: () => runId !== reviewRunIdRef.current,
+      });
+      if (review && runId === reviewRunIdRef.current) {
+        fens.forEach((fen, index) => evaluationCacheRef.current.set(fen, review.evaluations[index]));
+        setGameReview(review);
+      }
+    } catch (error) {
+      console.error("Error reviewing game:", error);
+      if (runId === reviewRunIdRef.current) {
+        closeGameReview();
+        toast({ title: "Review Failed", description: "The engine could not analyse this game.", variant: "destructive" });
+      }
+    }
+  }, [moveTree, currentNodeId, clearAiTutorState, isFullTutoringMode, closeGameReview, toast]);
+
+  // Shows a reviewed position on the board and has the tutor explain the move that led to it.
+  const handleSelectReviewPosition = useCallback((positionIndex: number) => {
+    if (!gameReview) return;
+    const index = Math.max(0, Math.min(gameReview.moves.length, positionIndex));
+    setReviewPosition(index);
+    clearAiTutorState(isFullTutoringMode);
+    if (index === 0) return;
+    const move = gameReview.moves[index - 1];
+    // The line up to and including the explained move, as `processMove` passes it.
+    const movesBefore = gameReview.moves.slice(0, index - 1).map(reviewed => reviewed.san);
+    const openingName = getOpeningName([...movesBefore, move.san], startingFen);
+    fetchPlayerMoveAnalysis(move.fenAfter, move.color === 'w' ? 'b' : 'w', move.san, reviewNodeIds[index], move.fenBefore, openingName, false);
+  }, [gameReview, reviewNodeIds, startingFen, clearAiTutorState, isFullTutoringMode, fetchPlayerMoveAnalysis]);
+
+  const resetGame = useCallback((
+    showToast = true, newPlayerColor: PieceColor = playerColor, startFen: string = INITIAL_FEN, newTimeControl: TimeControl | null = null
+  ) => {
+    // Starting over abandons an unfinished game; keep it in the library rather than losing it.
+    if (!isGameOver) archiveCurrentGame('abandoned');
+    setLibraryGameId(null);
+    closeGameReview();
+    const initial = getInitialFenState(startFen);
+    setTimeControl(newTimeControl);
+    setClock(newTimeControl ? createClockState(newTimeControl) : null);
+    setFlaggedColor(null);
+    setClaimedDrawReason(null);
+    setPlayerColor(newPlayerColor);
+    setIsBoardFlipped(false);
     setBoard(initial.board);
     setTurn(initial.turn);
     setCastlingRights(initial.castling);
@@ -637,19 +1067,23 @@ const ChessPage: React.FC = () => {
     setHalfMoveClock(initial.halfmove);
     setFullMoveNumber(initial.fullmove);
     setSelectedSquare(null);
-    setValidMoves([]);
+    setSelectedLegalMoves([]);
     setMoveHistory([]);
+    setStartingFen(startFen);
     setLastMove(null);
     setIsCheck(false);
     setIsCheckmate(false);
     setIsStalemate(false);
+    setDrawReason(null);
     setWinner(null);
     setKingInCheckSquare(null);
-    updateGameStatusDisplay(initial.board, initial.turn, initial.castling, initial.enPassant); 
+    const initialHistoryState = getInitialGameStateForHistory(startFen);
+    setPositionKeys(initialHistoryState.positionKeys!);
+    updateGameStatusDisplay(initial.board, initial.turn, initial.castling, initial.enPassant, initial.halfmove, initialHistoryState.positionKeys!); 
     clearAiTutorState(); 
     setIsFullTutoringMode(false); 
-    setGameHistoryStack([getInitialGameStateForHistory()]); 
-    setHistoryPointer(0);
+    setMoveTree(createMoveTree(initialHistoryState));
+    setCurrentNodeId(MOVE_TREE_ROOT_ID);
     setIsLoadingAiMove(false); 
     setIsLoadingAiTutor(false);
     setIsFetchingFullTutorContent(false);
@@ -658,46 +1092,141 @@ const ChessPage: React.FC = () => {
 
     localStorage.removeItem(LOCAL_STORAGE_KEY); 
     if (showToast) {
-      toast({ title: "Game Reset", description: "A new game has started." });
+      toast({ title: "Game Reset", description: `A new game has started. You play ${newPlayerColor === 'w' ? 'White' : 'Black'}.` });
     }
-  }, [toast, clearAiTutorState, updateGameStatusDisplay]); 
+  }, [toast, clearAiTutorState, updateGameStatusDisplay, playerColor, isGameOver, archiveCurrentGame, closeGameReview]); 
+
+  const handleStartNewGame = useCallback((settings: NewGameSettings) => {
+    setIsNewGameDialogOpen(false);
+    setGameMode(settings.mode);
+    setAutoFlip(settings.autoFlip);
+    if (settings.engineLevels) setSpectateLevels(settings.engineLevels);
+    setIsSpectatePaused(false);
+    resetGame(settings.mode === 'vs-ai', settings.playerColor, INITIAL_FEN, settings.timeControl);
+    if (settings.mode === 'hot-seat') {
+      toast({ title: "Game Reset", description: "A new two-player game has started. Pass the device after each move." });
+    } else if (settings.mode === 'spectate' && settings.engineLevels) {
+      toast({ title: "Engine Game Started", description: `Level ${settings.engineLevels.w} (White) vs Level ${settings.engineLevels.b} (Black).` });
+    }
+  }, [resetGame, toast]);
+
+  const handleStartFromPosition = useCallback((fen: string, color: PieceColor) => {
+    setIsPositionSetupOpen(false);
+    resetGame(false, color, fen);
+    let description = `Playing from the custom position. You play ${color === 'w' ? 'White' : 'Black'}.`;
+    if (gameMode === 'hot-seat') description = "Playing from the custom position, two players on this device.";
+    if (gameMode === 'spectate') description = "The engines will play on from the custom position.";
+    toast({ title: "Position Set Up", description });
+  }, [resetGame, toast, gameMode]);
+
+  const handleFlipBoard = useCallback(() => {
+    setIsBoardFlipped(prev => !prev);
+  }, []);
 
   useEffect(() => {
-    updateGameStatusDisplay(board, turn, castlingRights, enPassantTarget);
-  }, [board, turn, castlingRights, enPassantTarget, updateGameStatusDisplay]);
+    updateGameStatusDisplay(board, turn, castlingRights, enPassantTarget, halfMoveClock, positionKeys);
+  }, [board, turn, castlingRights, enPassantTarget, halfMoveClock, positionKeys, updateGameStatusDisplay]);
+
+  // Runs after the status update above so a lost-on-time result is not overwritten by it.
+  useEffect(() => {
+    if (!flaggedColor) return;
+    const opponent: PieceColor = flaggedColor === 'w' ? 'b' : 'w';
+    const flaggedName = flaggedColor === 'w' ? 'White' : 'Black';
+    const opponentName = opponent === 'w' ? 'White' : 'Black';
+    setIsCheckmate(false);
+    setClaimableDrawReason(null);
+    if (hasMatingMaterial(board, opponent)) {
+      setDrawReason(null);
+      setWinner(opponent);
+      setGameStatusText(`${flaggedName} ran out of time. ${opponentName} wins.`);
+    } else {
+      setDrawReason('timeout-vs-insufficient-material');
+      setWinner(null);
+      setGameStatusText(`${flaggedName} ran out of time, but ${opponentName} cannot checkmate. It's a draw.`);
+    }
+  }, [flaggedColor, board, turn, castlingRights, enPassantTarget, halfMoveClock, positionKeys]);
+
+  useEffect(() => {
+    if (!clock || !timeControl || !clock.runningColor) return;
+    if (isGameOver) {
+      setClock(stopClock(clock, timeControl, Date.now()));
+      return;
+    }
+    const runningColor = clock.runningColor;
+    const timeout = setTimeout(() => handleFlagFall(runningColor), (getTimeUntilFlag(clock, timeControl, Date.now()) ?? 0) + 10);
+    return () => clearTimeout(timeout);
+  }, [clock, timeControl, isGameOver, handleFlagFall]);
+
+  // Like a fallen flag, a claimed draw is applied after the status update so it is not overwritten by it.
+  useEffect(() => {
+    if (!claimedDrawReason) return;
+    setDrawReason(claimedDrawReason);
+    setClaimableDrawReason(null);
+    setWinner(null);
+    setGameStatusText(`Draw by ${DRAW_REASON_DESCRIPTIONS[claimedDrawReason].toLowerCase()} (claimed).`);
+  }, [claimedDrawReason, board, turn, castlingRights, enPassantTarget, halfMoveClock, positionKeys]);
+
+  const handleClaimDraw = useCallback(() => {
+    if (!claimableDrawReason || isGameOver) return;
+    setClaimedDrawReason(claimableDrawReason);
+    toast({ title: "Draw Claimed", description: `${DRAW_REASON_DESCRIPTIONS[claimableDrawReason]}. The game is drawn.` });
+  }, [claimableDrawReason, isGameOver, toast]);
+
+  // Destination squares to highlight for the selected piece.
+  const validMoves = useMemo(() => Array.from(new Set(selectedLegalMoves.map(move => move.to))), [selectedLegalMoves]);
 
   const handleSquareClick = useCallback((square: Square) => {
-    if (isCheckmate || isStalemate || turn !== playerColor || isLoadingAiMove || isLoadingAiTutor || isFetchingFullTutorContentRef.current) return;
+    if (isGameOver || !isHumanTurn || isLoadingAiMove || isLoadingAiTutor || isFetchingFullTutorContentRef.current) return;
 
     const pieceOnClickedSquare = getPieceAtSquare(board, square);
 
     if (selectedSquare) {
-      if (validMoves.includes(square)) {
-        const movingPiece = getPieceAtSquare(board, selectedSquare);
-        if (movingPiece?.symbol === 'p') {
-          const { row: toRow } = squareToCoords(square);
-          if ((movingPiece.color === 'w' && toRow === 0) || (movingPiece.color === 'b' && toRow === 7)) {
-            setPendingMove({ from: selectedSquare, to: square });
-            setPromotionSquare(square);
-            setIsPromotionDialogOpen(true);
-            return;
-          }
+      const movesToSquare = selectedLegalMoves.filter(move => move.to === square);
+      if (movesToSquare.length > 0) {
+        // A promotion is one legal move per piece; let the player pick among them.
+        if (movesToSquare.some(move => move.promotion)) {
+          setPendingMove({ from: selectedSquare, to: square });
+          setPromotionSquare(square);
+          setPromotionOptions(movesToSquare.map(move => move.promotion!));
+          setIsPromotionDialogOpen(true);
+          return;
         }
         processMove(selectedSquare, square);
       } else { 
         if (pieceOnClickedSquare && pieceOnClickedSquare.color === turn) { 
           setSelectedSquare(square);
-          setValidMoves(getLegalMoves(board, square, turn, castlingRights, enPassantTarget));
+          setSelectedLegalMoves(getLegalMoveList(board, turn, castlingRights, enPassantTarget, square));
         } else { 
           setSelectedSquare(null);
-          setValidMoves([]);
+          setSelectedLegalMoves([]);
         }
       }
     } else if (pieceOnClickedSquare && pieceOnClickedSquare.color === turn) { 
       setSelectedSquare(square);
-      setValidMoves(getLegalMoves(board, square, turn, castlingRights, enPassantTarget));
+      setSelectedLegalMoves(getLegalMoveList(board, turn, castlingRights, enPassantTarget, square));
     }
-  }, [board, selectedSquare, validMoves, turn, playerColor, isCheckmate, isStalemate, processMove, castlingRights, enPassantTarget, isLoadingAiMove, isLoadingAiTutor]);
+  }, [board, selectedSquare, selectedLegalMoves, turn, isHumanTurn, isGameOver, processMove, castlingRights, enPassantTarget, isLoadingAiMove, isLoadingAiTutor]);
+
+  const playSpectatorMove = useCallback(() => {
+    if (isGameOver) return;
+    const { bestMove } = chooseEngineMove(
+      { board, turn, castlingRights, enPassantTarget },
+      getStrengthProfile(spectateLevels[turn]),
+      useOpeningBook ? moveHistory.length : undefined
+    );
+    if (bestMove) processMove(bestMove.from, bestMove.to, bestMove.promotion);
+  }, [isGameOver, board, turn, castlingRights, enPassantTarget, spectateLevels, useOpeningBook, moveHistory.length, processMove]);
+
+  // Plays engine-vs-engine games one move per tick, waiting for the narration of the previous move first.
+  useEffect(() => {
+    if (!isSpectating || isSpectatePaused || isGameOver || isReviewOpen || isLoadingAiTutor) return;
+    const timeout = setTimeout(playSpectatorMove, spectateDelayMs);
+    return () => clearTimeout(timeout);
+  }, [isSpectating, isSpectatePaused, isGameOver, isReviewOpen, isLoadingAiTutor, playSpectatorMove, spectateDelayMs]);
+
+  const handleSpectateLevelChange = useCallback((color: PieceColor, level: number) => {
+    setSpectateLevels(prev => ({ ...prev, [color]: level }));
+  }, []);
 
   const handlePromotionSelect = (pieceSymbol: PieceSymbol) => {
     if (pendingMove) {
@@ -706,10 +1235,11 @@ const ChessPage: React.FC = () => {
     setIsPromotionDialogOpen(false);
     setPromotionSquare(null);
     setPendingMove(null);
+    setPromotionOptions([]);
   };
 
  useEffect(() => {
-    if (turn === aiColor && !isCheckmate && !isStalemate) {
+    if (gameMode === 'vs-ai' && turn === aiColor && !isGameOver && !isReviewOpen && !isBrowsingHistory) {
       if (aiTurnProcessingLogicRef.current) { 
         return; 
       }
@@ -726,25 +1256,33 @@ const ChessPage: React.FC = () => {
       }
 
       const fenBeforeAiMove = boardToFen(board, turn, castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber);
+      const openingBeforeAiMove = currentOpeningName;
+      const bookPly = useOpeningBook ? moveHistory.length : undefined;
       const boardForSim = board.map(r => [...r]);
       const castlingForSim = castlingRights;
       const epForSim = enPassantTarget;
 
       setTimeout(async () => {
         let aiPlayedMoveNotation: string | null = null;
-        let moveMade = false;
+        let aiNodeId: string | undefined; // Stays undefined if the move was not played, e.g. the flag fell during the search
         try {
-          const aiMove = getRandomAiMove(boardForSim, aiColor, castlingForSim, epForSim);
+          const strengthProfile = getStrengthProfile(engineLevel);
+          if (clock && timeControl) {
+            const remaining = getRemainingTime(clock, timeControl, aiColor, Date.now());
+            strengthProfile.timeLimitMs = Math.min(strengthProfile.timeLimitMs, getEngineTimeBudget(remaining, timeControl, fullMoveNumber));
+          }
+          const { bestMove: aiMove } = chooseEngineMove(
+            { board: boardForSim, turn: aiColor, castlingRights: castlingForSim, enPassantTarget: epForSim },
+            strengthProfile,
+            bookPly
+          );
           if (aiMove) {
             const aiPiece = getPieceAtSquare(boardForSim, aiMove.from);
-            let promotionSymbol: PieceSymbol | undefined = undefined;
-            if (aiPiece?.symbol === 'p') {
-              const { row: toRow } = squareToCoords(aiMove.to);
-              if ((aiPiece.color === 'w' && toRow === 0) || (aiPiece.color === 'b' && toRow === 7)) {
-                promotionSymbol = 'q';
-              }
-            }
-            const { newBoard: boardAfterAiMoveSim, isCastlingKingside, isCastlingQueenside, capturedPiece: simCapturedPiece } = applyMoveLogic(
+            const promotionSymbol: PieceSymbol | undefined = aiMove.promotion;
+            const {
+              newBoard: boardAfterAiMoveSim, isCastlingKingside, isCastlingQueenside, capturedPiece: simCapturedPiece,
+              updatedCastlingRights: castlingAfterAiMove, updatedEnPassantTarget: epAfterAiMove
+            } = applyMoveLogic(
               boardForSim, aiMove.from, aiMove.to, castlingForSim, epForSim, promotionSymbol
             );
             const isEnPassantCaptureForAi = aiPiece?.symbol === 'p' && aiMove.to === epForSim && aiMove.from !== aiMove.to;
@@ -752,10 +1290,10 @@ const ChessPage: React.FC = () => {
             aiPlayedMoveNotation = moveToAlgebraic({
                 from: aiMove.from, to: aiMove.to, piece: aiPiece!.symbol, captured: actualCapturedForAi, promotion: promotionSymbol,
                 boardBeforeMove: boardForSim, boardAfterMove: boardAfterAiMoveSim, turn: aiColor,
-                isCastlingKingside, isCastlingQueenside, enPassantTargetOccurred: isEnPassantCaptureForAi
+                isCastlingKingside, isCastlingQueenside, enPassantTargetOccurred: isEnPassantCaptureForAi,
+                castlingRightsAfterMove: castlingAfterAiMove, enPassantTargetAfterMove: epAfterAiMove
             });
-            processMove(aiMove.from, aiMove.to, promotionSymbol); 
-            moveMade = true;
+            aiNodeId = processMove(aiMove.from, aiMove.to, promotionSymbol);
           } else {
             console.warn("AI has no legal moves but game is not over.");
           }
@@ -766,7 +1304,7 @@ const ChessPage: React.FC = () => {
           setIsLoadingAiMove(false); 
         }
 
-        if (moveMade && aiPlayedMoveNotation && !isCheckmate && !isStalemate) { 
+        if (aiNodeId && aiPlayedMoveNotation && !isGameOver) {
           setIsLoadingAiTutor(true);
           try {
             const kingSqForAICheck = findKing(fenToBoard(fenBeforeAiMove).board, aiColor);
@@ -774,7 +1312,7 @@ const ChessPage: React.FC = () => {
 
             const explanationPromise = explainMoveHint({
               currentBoardState: fenBeforeAiMove, currentTurn: aiColor, difficultyLevel: difficulty,
-              isPlayerInCheck: aiInCheckBeforeItsMove, numberOfSuggestions: 1
+              isPlayerInCheck: aiInCheckBeforeItsMove, numberOfSuggestions: 1, openingName: openingBeforeAiMove,
             });
             const timeoutPromise = new Promise((_, reject) => 
               setTimeout(() => reject(new Error("AI explanation timed out")), AI_EXPLANATION_TIMEOUT_MS)
@@ -785,6 +1323,8 @@ const ChessPage: React.FC = () => {
             if (raceResult && typeof raceResult === 'object' && 'explanation' in raceResult) {
                  const explanationResult = raceResult as ExplainMoveHintOutput;
                  setAiMoveExplanationOutput({ move: aiPlayedMoveNotation, explanation: explanationResult.explanation });
+                 const explanationComment = explanationResult.explanation.replace(/\*\*/g, '');
+                 setMoveTree(prev => setNodeComment(prev, aiNodeId!, explanationComment));
             } else {
                 console.warn("AI explanation result was not as expected or timed out without error object.");
                  setAiMoveExplanationOutput({ move: aiPlayedMoveNotation, explanation: "Explanation unavailable."});
@@ -796,29 +1336,30 @@ const ChessPage: React.FC = () => {
             setIsLoadingAiTutor(false);
           }
         }
-      }, 1000); 
+      }, 100); // Short delay so the "AI is thinking" state renders before the search blocks
     }
   }, [ 
-    turn, aiColor, isCheckmate, isStalemate, board, 
-    castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber, 
-    difficulty, toast, isFullTutoringMode, findKing, processMove
+    turn, aiColor, gameMode, isGameOver, isReviewOpen, isBrowsingHistory, board, 
+    castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber, moveHistory, currentOpeningName, useOpeningBook,
+    difficulty, engineLevel, toast, isFullTutoringMode, findKing, processMove, clock, timeControl
   ]);
 
   useEffect(() => {
-    if (turn === playerColor || isCheckmate || isStalemate) {
+    if (isHumanTurn || isGameOver) {
       aiTurnProcessingLogicRef.current = false;
       if (isLoadingAiMove) setIsLoadingAiMove(false); 
-      if (isLoadingAiTutor && turn === playerColor) setIsLoadingAiTutor(false); 
-      if (isCheckmate || isStalemate) {
+      // In hot-seat games and reviews the tutor may still be analysing a move; let it finish.
+      if (isLoadingAiTutor && turn === playerColor && !isHotSeat && !isReviewOpen) setIsLoadingAiTutor(false); 
+      if (isGameOver) {
           if(isFetchingFullTutorContent) setIsFetchingFullTutorContent(false); 
           isFetchingFullTutorContentRef.current = false; 
       }
     }
-  }, [turn, playerColor, isCheckmate, isStalemate, isLoadingAiMove, isLoadingAiTutor, isFetchingFullTutorContent]);
+  }, [turn, playerColor, isHumanTurn, isHotSeat, isReviewOpen, isGameOver, isLoadingAiMove, isLoadingAiTutor, isFetchingFullTutorContent]);
 
 
   const handleHint = async () => {
-    if (isCheckmate || isStalemate || turn !== playerColor || isLoadingAiMove || isLoadingAiTutor || isFetchingFullTutorContentRef.current) {
+    if (isGameOver || !isHumanTurn || isLoadingAiMove || isLoadingAiTutor || isFetchingFullTutorContentRef.current) {
       toast({ title: "Hint Unavailable", description: "Cannot get a hint now.", variant: "destructive" });
       return;
     }
@@ -840,6 +1381,7 @@ const ChessPage: React.FC = () => {
       if (hintLevel === 0 || hintLevel === 2) { 
         const result = await getVagueChessHint({
           currentBoardState: fen, currentTurn: turn, difficultyLevel: difficulty, isPlayerInCheck: playerCurrentlyInCheck,
+          openingName: currentOpeningName,
         });
         setAiHint({ explanation: result.vagueHint, type: 'vague' });
         setHighlightedHintSquares(null); 
@@ -850,11 +1392,12 @@ const ChessPage: React.FC = () => {
       } else if (hintLevel === 1) { 
         const result = await explainMoveHint({
           currentBoardState: fen, currentTurn: turn, difficultyLevel: difficulty,
-          isPlayerInCheck: playerCurrentlyInCheck, numberOfSuggestions: 1 
+          isPlayerInCheck: playerCurrentlyInCheck, numberOfSuggestions: 1, openingName: currentOpeningName,
         });
         setAiHint({ 
           move: result.suggestedMoveNotation, explanation: result.explanation, type: 'specific', 
-          from: result.suggestedMoveFromSquare as Square, to: result.suggestedMoveToSquare as Square 
+          from: result.suggestedMoveFromSquare as Square, to: result.suggestedMoveToSquare as Square,
+          wasCorrected: result.wasCorrected
         });
         setHighlightedHintSquares({ from: result.suggestedMoveFromSquare as Square, to: result.suggestedMoveToSquare as Square, hintIndex: -1 }); 
         setHintLevel(2); 
@@ -872,20 +1415,7 @@ const ChessPage: React.FC = () => {
     }
   };
 
-  const handleUndo = () => {
-    if (historyPointer <= 0) return; 
-
-    aiTurnProcessingLogicRef.current = false; 
-    clearAiTutorState(isFullTutoringMode); // Pass true to keep full tutor mode active if it was
-    setIsLoadingAiMove(false);
-    setIsLoadingAiTutor(false);
-    setIsFetchingFullTutorContent(false);
-    isFetchingFullTutorContentRef.current = false;
-
-    const newPointer = historyPointer - 1;
-    setHistoryPointer(newPointer);
-    const stateToLoad = gameHistoryStack[newPointer];
-
+  const restoreGameState = useCallback((stateToLoad: GameState) => {
     setBoard(stateToLoad.board);
     setTurn(stateToLoad.turn);
     setCastlingRights(stateToLoad.castlingRights);
@@ -893,46 +1423,306 @@ const ChessPage: React.FC = () => {
     setHalfMoveClock(stateToLoad.halfMoveClock);
     setFullMoveNumber(stateToLoad.fullMoveNumber);
     setMoveHistory(stateToLoad.currentMoveHistorySnapshot);
+    const keysToLoad = stateToLoad.positionKeys ?? [getPositionKey(stateToLoad.board, stateToLoad.turn, stateToLoad.castlingRights, stateToLoad.enPassantTarget)];
+    setPositionKeys(keysToLoad);
     setLastMove(stateToLoad.moveThatLedToThisStateSquares);
-    
-    updateGameStatusDisplay(stateToLoad.board, stateToLoad.turn, stateToLoad.castlingRights, stateToLoad.enPassantTarget);
-    setSelectedSquare(null);
-    setValidMoves([]);
-    toast({ title: "Undo", description: "Reverted to previous state." });
-  };
 
-  const handleRedo = () => {
-    if (historyPointer >= gameHistoryStack.length - 1) return; 
+    updateGameStatusDisplay(stateToLoad.board, stateToLoad.turn, stateToLoad.castlingRights, stateToLoad.enPassantTarget, stateToLoad.halfMoveClock, keysToLoad);
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+  }, [updateGameStatusDisplay]);
 
+  // Moves the board to any position in the move tree; undo, redo and the move list all go through here.
+  const goToNode = useCallback((nodeId: string) => {
+    const node = moveTree.nodes[nodeId];
+    if (!node) return;
     aiTurnProcessingLogicRef.current = false; 
-    clearAiTutorState(isFullTutoringMode);
+    clearAiTutorState(isFullTutoringMode); // Pass true to keep full tutor mode active if it was
     setIsLoadingAiMove(false);
     setIsLoadingAiTutor(false);
     setIsFetchingFullTutorContent(false);
     isFetchingFullTutorContentRef.current = false;
 
-    const newPointer = historyPointer + 1;
-    setHistoryPointer(newPointer);
-    const stateToLoad = gameHistoryStack[newPointer];
+    setCurrentNodeId(nodeId);
+    setClaimedDrawReason(null); // Taking back the position a draw was claimed in takes back the claim
+    restoreGameState(node.data);
+  }, [clearAiTutorState, isFullTutoringMode, restoreGameState, moveTree]);
 
-    setBoard(stateToLoad.board);
-    setTurn(stateToLoad.turn);
-    setCastlingRights(stateToLoad.castlingRights);
-    setEnPassantTarget(stateToLoad.enPassantTarget);
-    setHalfMoveClock(stateToLoad.halfMoveClock);
-    setFullMoveNumber(stateToLoad.fullMoveNumber);
-    setMoveHistory(stateToLoad.currentMoveHistorySnapshot);
-    setLastMove(stateToLoad.moveThatLedToThisStateSquares);
+  const handleUndo = () => {
+    const parentId = moveTree.nodes[currentNodeId]?.parentId;
+    if (!canUndo || !parentId) return; 
+    goToNode(parentId);
+    toast({ title: "Undo", description: "Reverted to previous state." });
+  };
 
-    updateGameStatusDisplay(stateToLoad.board, stateToLoad.turn, stateToLoad.castlingRights, stateToLoad.enPassantTarget);
-    setSelectedSquare(null);
-    setValidMoves([]);
+  // Follows the main line of the current position; other continuations are picked from the move list.
+  const handleRedo = () => {
+    const nextId = moveTree.nodes[currentNodeId]?.children[0];
+    if (!canRedo || !nextId) return; 
+    goToNode(nextId);
     toast({ title: "Redo", description: "Re-applied next state." });
   };
 
-  const canUndo = historyPointer > 0;
-  const canRedo = historyPointer < gameHistoryStack.length - 1;
+  // Replaces the current game with a parsed PGN game, variations included, positioned at the end of its main line.
+  const loadPgnGame = useCallback((game: PgnGame) => {
+    const start = fenToBoard(game.startFen);
+    let tree = createMoveTree<GameState>({
+      board: start.board,
+      turn: start.turn,
+      castlingRights: start.castling,
+      enPassantTarget: start.enPassant,
+      halfMoveClock: start.halfmove,
+      fullMoveNumber: start.fullmove,
+      currentMoveHistorySnapshot: [],
+      moveThatLedToThisStateSquares: null,
+      positionKeys: [getPositionKey(start.board, start.turn, start.castling, start.enPassant)],
+    });
+    if (game.initialComment) tree = setNodeComment(tree, tree.rootId, game.initialComment);
+    // Each move is added before its alternatives so the game's own line stays the main line.
+    const addLine = (parentId: string, line: PgnGame['moves']) => {
+      for (const node of line) {
+        const previous = tree.nodes[parentId].data;
+        const after = fenToBoard(node.fenAfter);
+        const added = addMove(tree, parentId, node.san, {
+          board: after.board,
+          turn: after.turn,
+          castlingRights: after.castling,
+          enPassantTarget: after.enPassant,
+          halfMoveClock: after.halfmove,
+          fullMoveNumber: after.fullmove,
+          currentMoveHistorySnapshot: [...previous.currentMoveHistorySnapshot, node.san],
+          moveThatLedToThisStateSquares: { from: node.from, to: node.to },
+          positionKeys: [...(previous.positionKeys ?? []), getPositionKey(after.board, after.turn, after.castling, after.enPassant)],
+        });
+        tree = setNodeAnnotations(added.tree, added.nodeId, node);
+        node.variations.forEach(variation => addLine(parentId, variation));
+        parentId = added.nodeId;
+      }
+    };
+    addLine(tree.rootId, game.moves);
+
+    const finalNodeId = getLineEnd(tree, tree.rootId);
+    const finalState = tree.nodes[finalNodeId].data;
+    if (!isGameOver) archiveCurrentGame('abandoned');
+    setLibraryGameId(null);
+    closeGameReview();
+    aiTurnProcessingLogicRef.current = false;
+    clearAiTutorState();
+    setIsLoadingAiMove(false);
+    setIsLoadingAiTutor(false);
+    setIsFetchingFullTutorContent(false);
+    isFetchingFullTutorContentRef.current = false;
+
+    // Hand the side to move to the player so an unfinished game continues from where it was left.
+    setPlayerColor(finalState.turn);
+    setTimeControl(null);
+    setClock(null);
+    setFlaggedColor(null);
+    setClaimedDrawReason(null);
+    setIsBoardFlipped(false);
+    setStartingFen(game.startFen);
+    setMoveTree(tree);
+    setCurrentNodeId(finalNodeId);
+    restoreGameState(finalState);
+  }, [clearAiTutorState, restoreGameState, isGameOver, archiveCurrentGame, closeGameReview]);
+
+  const handleImportPgnGame = useCallback((game: PgnGame) => {
+    loadPgnGame(game);
+    setIsPgnDialogOpen(false);
+    const white = game.tags.White || 'White';
+    const black = game.tags.Black || 'Black';
+    toast({ title: "Game Imported", description: `${white} vs ${black} (${game.result}), ${game.moves.length} plies.` });
+  }, [loadPgnGame, toast]);
+
+  const handleOpenLibraryGame = useCallback((game: LibraryGame) => {
+    let parsed: PgnGame;
+    try {
+      parsed = parsePgn(game.pgn)[0];
+    } catch (error) {
+      console.error("Error reading library game:", error);
+      toast({ title: "Open Failed", description: "This game's record could not be read.", variant: "destructive" });
+      return;
+    }
+    loadPgnGame(parsed);
+    setGameMode(game.mode);
+    setIsSpectatePaused(true);
+    if (game.playerColor) setPlayerColor(game.playerColor);
+    setDifficulty(game.difficulty);
+    if (game.engineLevel !== null) setEngineLevel(game.engineLevel);
+    // An abandoned game picks up where it left off and keeps its library record. A finished game opens
+    // as it ended: a loss on time or a claimed draw is not visible on the board, so restore it from the
+    // record, and nobody (the engine included) plays on. Anything played from an earlier position is
+    // saved as a new game.
+    if (game.status === 'abandoned') {
+      setLibraryGameId(game.id);
+      setGameStartedAt(game.startedAt);
+    } else if (game.termination) {
+      const finalTurn = fenToBoard(parsed.moves[parsed.moves.length - 1]?.fenAfter ?? parsed.startFen).turn;
+      const drawReason = (Object.keys(DRAW_REASON_DESCRIPTIONS) as DrawReason[])
+        .find(reason => DRAW_REASON_DESCRIPTIONS[reason] === game.termination);
+      if (game.termination === 'Time forfeit' || drawReason === 'timeout-vs-insufficient-material') {
+        setFlaggedColor(finalTurn); // The flag falls for the side to move
+      } else if (drawReason === 'threefold-repetition' || drawReason === 'fifty-move-rule') {
+        setClaimedDrawReason(drawReason);
+      }
+    }
+    setIsLibraryOpen(false);
+    toast({ title: "Game Opened", description: `${game.white} vs ${game.black} (${game.result}).` });
+  }, [loadPgnGame, toast]);
+
+  // Taking moves back would make the clocks meaningless; engine games must be paused first.
+  const canNavigateHistory = !timeControl && !(isSpectating && !isSpectatePaused) && !isReviewOpen;
+  const canUndo = canNavigateHistory && currentNodeId !== moveTree.rootId;
+  const canRedo = canNavigateHistory && isBrowsingHistory;
   const combinedAiProcessing = isLoadingAiMove || isLoadingAiTutor || isFetchingFullTutorContent;
+  // A running clock would keep ticking behind the review, so only untimed or finished games qualify.
+  const canReviewGame = !isReviewOpen && currentNodeId !== moveTree.rootId && (isGameOver || !clock?.runningColor) && !(isSpectating && !isSpectatePaused);
+  const reviewState = isReviewOpen && reviewPosition !== null ? moveTree.nodes[reviewNodeIds[reviewPosition]]?.data ?? null : null;
+  const reviewedMove = gameReview && reviewPosition ? gameReview.moves[reviewPosition - 1] : null;
+  let reviewKingInCheckSquare: Square | null = null;
+  if (reviewState && checkKingInCheck(reviewState.board, reviewState.turn)) {
+    reviewKingInCheckSquare = findKing(reviewState.board, reviewState.turn);
+  }
+  const displayedFen = reviewState
+    ? boardToFen(reviewState.board, reviewState.turn, reviewState.castlingRights, reviewState.enPassantTarget, reviewState.halfMoveClock, reviewState.fullMoveNumber)
+    : boardToFen(board, turn, castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(EVAL_BAR_STORAGE_KEY);
+    if (saved !== null) setShowEvalBar(saved === 'true');
+    const savedOpeningBook = localStorage.getItem(OPENING_BOOK_STORAGE_KEY);
+    if (savedOpeningBook !== null) setUseOpeningBook(savedOpeningBook === 'true');
+  }, []);
+
+  const handleShowEvalBarChange = useCallback((enabled: boolean) => {
+    setShowEvalBar(enabled);
+    localStorage.setItem(EVAL_BAR_STORAGE_KEY, String(enabled));
+  }, []);
+
+  const handleUseOpeningBookChange = useCallback((enabled: boolean) => {
+    setUseOpeningBook(enabled);
+    localStorage.setItem(OPENING_BOOK_STORAGE_KEY, String(enabled));
+  }, []);
+
+  // The engine is about to search for its own move. `isLoadingAiMove` is only set once that search is
+  // scheduled, so the eval bar checks this too rather than start a search of its own first.
+  const isEngineToMove = !isGameOver && !isReviewOpen && !isBrowsingHistory &&
+    ((gameMode === 'vs-ai' && turn === aiColor) || (isSpectating && !isSpectatePaused));
+
+  // Evaluates whatever the board shows, live or a browsed position, once it settles. Waits while the
+  // AI or a running review is searching so the bar never slows them down.
+  useEffect(() => {
+    if (!isEvalBarVisible || isLoadingAiMove || isEngineToMove || (isReviewOpen && !gameReview)) return;
+    const cached = evaluationCacheRef.current.get(displayedFen);
+    if (cached) {
+      setLiveEvaluation(cached);
+      setIsEvaluating(false);
+      return;
+    }
+    setIsEvaluating(true);
+    const timeout = setTimeout(() => {
+      const { evaluation } = evaluateFen(displayedFen, { maxDepth: EVAL_BAR_MAX_DEPTH, timeLimitMs: EVAL_BAR_TIME_MS });
+      if (evaluationCacheRef.current.size >= EVAL_BAR_CACHE_SIZE) evaluationCacheRef.current.clear();
+      evaluationCacheRef.current.set(displayedFen, evaluation);
+      setLiveEvaluation(evaluation);
+      setIsEvaluating(false);
+    }, EVAL_BAR_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [displayedFen, isEvalBarVisible, isLoadingAiMove, isEngineToMove, isReviewOpen, gameReview]);
+
+  // The move list shows the whole tree; during a review it follows the reviewed line.
+  const displayedNodeId = isReviewOpen && reviewPosition !== null ? reviewNodeIds[reviewPosition] ?? currentNodeId : currentNodeId;
+  const lineStart = useMemo(() => fenToBoard(startingFen), [startingFen]);
+  const canSelectMoveListNode = isReviewOpen ? gameReview !== null && !isLoadingAiTutor : canNavigateHistory;
+  const canEditVariations = canNavigateHistory && !combinedAiProcessing;
+
+  // Opening of the position on the board, and the move where its line leaves the book.
+  const { displayedOpening, theoryExitNodeId } = useMemo(() => {
+    if (!moveTree.nodes[displayedNodeId]) return { displayedOpening: null, theoryExitNodeId: null };
+    const toSan = (nodes: { san: string | null }[]) => nodes.slice(1).map(node => node.san!);
+    const line = getNodePath(moveTree, getLineEnd(moveTree, displayedNodeId));
+    const { theoryExitPly } = identifyOpening(toSan(line), startingFen);
+    return {
+      displayedOpening: identifyOpening(toSan(getNodePath(moveTree, displayedNodeId)), startingFen).opening,
+      theoryExitNodeId: theoryExitPly === null ? null : line[theoryExitPly].id,
+    };
+  }, [moveTree, displayedNodeId, startingFen]);
+
+  const handleSelectMoveListNode = useCallback((nodeId: string) => {
+    if (isReviewOpen) {
+      // Only the reviewed line has been analysed.
+      const index = reviewNodeIds.indexOf(nodeId);
+      if (gameReview && !isLoadingAiTutor && index >= 0) handleSelectReviewPosition(index);
+      return;
+    }
+    if (!canNavigateHistory || nodeId === currentNodeId) return;
+    goToNode(nodeId);
+  }, [
+    isReviewOpen, reviewNodeIds, gameReview, isLoadingAiTutor, handleSelectReviewPosition,
+    canNavigateHistory, currentNodeId, goToNode
+  ]);
+
+  const handlePromoteVariation = useCallback(() => {
+    setMoveTree(prev => promoteVariation(prev, currentNodeId));
+  }, [currentNodeId]);
+
+  const handleDemoteVariation = useCallback(() => {
+    setMoveTree(prev => demoteVariation(prev, currentNodeId));
+  }, [currentNodeId]);
+
+  // Deletes the current move and everything after it, stepping back to the position before it.
+  const handleDeleteFromMove = useCallback(() => {
+    const parentId = moveTree.nodes[currentNodeId]?.parentId;
+    if (!parentId) return;
+    goToNode(parentId);
+    setMoveTree(prev => deleteFromNode(prev, currentNodeId));
+    toast({ title: "Moves Deleted", description: "The move and the moves after it were removed." });
+  }, [moveTree, currentNodeId, goToNode, toast]);
+
+  // Left/Right step back and forward, Up/Down switch between alternatives to the current move and Home/End
+  // jump to either end of the line, unless a field, slider or dialog has focus. A review walks its own line.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey || !canSelectMoveListNode) return;
+      if (isNewGameDialogOpen || isPgnDialogOpen || isPositionSetupOpen || isLibraryOpen || isPromotionDialogOpen) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || target.closest('input, textarea, select, [role="slider"], [role="radiogroup"], [role="listbox"]'))) return;
+
+      const node = moveTree.nodes[displayedNodeId];
+      if (!node) return;
+      let targetId: string | null | undefined;
+      if (isReviewOpen) {
+        const index = reviewNodeIds.indexOf(displayedNodeId);
+        switch (event.key) {
+          case 'ArrowLeft': targetId = reviewNodeIds[index - 1]; break;
+          case 'ArrowRight': targetId = reviewNodeIds[index + 1]; break;
+          case 'Home': targetId = reviewNodeIds[0]; break;
+          case 'End': targetId = reviewNodeIds[reviewNodeIds.length - 1]; break;
+          default: return;
+        }
+      } else {
+        const siblings = node.parentId ? moveTree.nodes[node.parentId].children : [node.id];
+        const siblingIndex = siblings.indexOf(node.id);
+        switch (event.key) {
+          case 'ArrowLeft': targetId = node.parentId; break;
+          case 'ArrowRight': targetId = node.children[0]; break;
+          case 'ArrowUp': targetId = siblings[siblingIndex - 1]; break;
+          case 'ArrowDown': targetId = siblings[siblingIndex + 1]; break;
+          case 'Home': targetId = moveTree.rootId; break;
+          case 'End': targetId = getLineEnd(moveTree, node.id); break;
+          default: return;
+        }
+      }
+      if (!targetId || targetId === displayedNodeId) return;
+      event.preventDefault();
+      handleSelectMoveListNode(targetId);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [
+    canSelectMoveListNode, isNewGameDialogOpen, isPgnDialogOpen, isPositionSetupOpen, isLibraryOpen, isPromotionDialogOpen,
+    moveTree, displayedNodeId, isReviewOpen, reviewNodeIds, handleSelectMoveListNode
+  ]);
 
   let currentSelectedHintThemeForBoard: { bgClass: string; ringClass: string } | null = null;
   if (highlightedHintSquares && !Array.isArray(highlightedHintSquares) && highlightedHintSquares.hintIndex !== undefined) {
@@ -950,6 +1740,7 @@ const ChessPage: React.FC = () => {
       <header className="mb-1 sm:mb-2 text-center">
         <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-primary">ChessMastery</h1>
         <p className="text-xs sm:text-sm text-muted-foreground">Hone your chess skills with AI guidance.</p>
+        <AppNav />
       </header>
 
       <div className="mt-1 sm:mt-2">
@@ -958,12 +1749,14 @@ const ChessPage: React.FC = () => {
           isCheck={isCheck}
           isCheckmate={isCheckmate}
           isStalemate={isStalemate}
-          isDraw={isStalemate} 
+          isDraw={drawReason !== null}
+          drawReason={drawReason}
           winner={winner}
+          isTimeout={flaggedColor !== null}
           fullTutorGeneralTip={fullTutorGeneralTip}
           isFullTutoringMode={isFullTutoringMode}
-          isPlayerTurn={turn === playerColor && !combinedAiProcessing}
-          isLoadingAi={isLoadingAiMove || (isLoadingAiTutor && turn === aiColor)}
+          isPlayerTurn={isHumanTurn && !combinedAiProcessing}
+          isLoadingAi={isLoadingAiMove || (isLoadingAiTutor && !isHumanTurn && !isSpectating && !isReviewOpen)}
         />
       </div>
 
@@ -973,38 +1766,101 @@ const ChessPage: React.FC = () => {
                      max-w-[98vw] sm:max-w-[95vw] mx-auto lg:mx-0
                      flex justify-center items-start aspect-square" 
         >
-          <ChessboardComponent
-            board={board}
-            onSquareClick={handleSquareClick}
-            selectedSquare={selectedSquare}
-            validMoves={validMoves}
-            lastMove={lastMove}
-            isPlayerTurn={turn === playerColor && !combinedAiProcessing}
-            playerColor={playerColor}
-            kingInCheckSquare={kingInCheckSquare}
-            highlightedHintSquares={highlightedHintSquares}
-            suggestionColorThemes={suggestionColorThemes}
-            selectedHintCustomTheme={currentSelectedHintThemeForBoard}
-          />
+          <div className="flex w-full gap-1 sm:gap-2">
+            {isEvalBarVisible && (
+              <EvaluationBar evaluation={liveEvaluation} orientation={boardOrientation} isThinking={isEvaluating} />
+            )}
+            <div className="flex-1 min-w-0">
+              <ChessboardComponent
+                board={reviewState?.board ?? board}
+                onSquareClick={handleSquareClick}
+                selectedSquare={selectedSquare}
+                validMoves={validMoves}
+                lastMove={reviewState ? reviewState.moveThatLedToThisStateSquares : lastMove}
+                isPlayerTurn={isHumanTurn && !combinedAiProcessing}
+                orientation={boardOrientation}
+                kingInCheckSquare={reviewState ? reviewKingInCheckSquare : kingInCheckSquare}
+                highlightedHintSquares={highlightedHintSquares}
+                suggestionColorThemes={suggestionColorThemes}
+                selectedHintCustomTheme={currentSelectedHintThemeForBoard}
+              />
+            </div>
+          </div>
         </div>
 
         <aside className="w-full lg:w-[22rem] xl:w-[24rem] 2xl:w-[26rem] flex-shrink-0 flex flex-col gap-2 sm:gap-3 mt-2 sm:mt-3 lg:mt-0">
+          {isReviewOpen && (
+            <GameReviewPanel
+              review={gameReview}
+              progress={reviewProgress}
+              selectedPosition={reviewPosition}
+              onSelectPosition={handleSelectReviewPosition}
+              onCancel={closeGameReview}
+              onClose={closeGameReview}
+              playerNames={{ w: getPlayerName('w'), b: getPlayerName('b') }}
+              isExplaining={isLoadingAiTutor}
+            />
+          )}
+          {isSpectating && (
+            <SpectateControls
+              isPaused={isSpectatePaused}
+              onTogglePause={() => setIsSpectatePaused(prev => !prev)}
+              onStep={playSpectatorMove}
+              canStep={!isLoadingAiTutor}
+              delayMs={spectateDelayMs}
+              onDelayChange={setSpectateDelayMs}
+              levels={spectateLevels}
+              onLevelChange={handleSpectateLevelChange}
+              isNarrationOn={isSpectateNarrationOn}
+              onNarrationChange={setIsSpectateNarrationOn}
+              isGameOver={isGameOver}
+            />
+          )}
+          {timeControl && clock && (
+            <ChessClock
+              timeControl={timeControl}
+              clock={clock}
+              bottomColor={boardOrientation}
+              playerNames={isHotSeat
+                ? { w: 'White', b: 'Black' }
+                : { [playerColor]: 'You', [aiColor]: `AI (Level ${engineLevel})` } as { [color in PieceColor]: string }}
+              flaggedColor={flaggedColor}
+            />
+          )}
           <GameControls
-            onNewGame={() => resetGame(true)}
+            onNewGame={() => setIsNewGameDialogOpen(true)}
             onHint={handleHint}
             onUndo={handleUndo}
             onRedo={handleRedo}
+            onFlipBoard={handleFlipBoard}
+            onOpenPgn={() => setIsPgnDialogOpen(true)}
+            onOpenLibrary={() => setIsLibraryOpen(true)}
+            onSetupPosition={() => setIsPositionSetupOpen(true)}
             canUndo={canUndo}
             canRedo={canRedo}
-            isLoadingHint={isLoadingAiTutor && hintLevel !== 0 && !isFullTutoringMode && turn === playerColor} 
+            isLoadingHint={isLoadingAiTutor && hintLevel !== 0 && !isFullTutoringMode && isHumanTurn} 
             difficulty={difficulty}
             onDifficultyChange={handleDifficultyChange}
-            isPlayerTurn={turn === playerColor}
-            isGameOver={isCheckmate || isStalemate}
+            engineLevel={engineLevel}
+            onEngineLevelChange={handleEngineLevelChange}
+            isPlayerTurn={isHumanTurn}
+            isGameOver={isGameOver}
+            claimableDrawReason={isHumanTurn ? claimableDrawReason : null}
+            onClaimDraw={handleClaimDraw}
+            onReviewGame={handleReviewGame}
+            canReviewGame={canReviewGame}
             hintLevel={hintLevel}
             isAiProcessing={combinedAiProcessing} 
             isFullTutoringMode={isFullTutoringMode}
             onFullTutoringModeChange={handleFullTutoringModeChange}
+            isVsAi={gameMode === 'vs-ai'}
+            autoFlip={autoFlip}
+            onAutoFlipChange={isHotSeat ? setAutoFlip : undefined}
+            showEvalBar={showEvalBar}
+            onShowEvalBarChange={handleShowEvalBarChange}
+            isEvalBarAllowed={!isNoAssistanceMode}
+            useOpeningBook={useOpeningBook}
+            onUseOpeningBookChange={handleUseOpeningBookChange}
           />
           <div className="flex-grow min-h-[200px] sm:min-h-[250px] md:min-h-[300px] lg:min-h-0 lg:flex-1">
             <AiTutorPanel
@@ -1018,10 +1874,22 @@ const ChessPage: React.FC = () => {
               isLoadingFullTutorContent={isFetchingFullTutorContent}
               onSelectFullTutorSuggestion={handleSelectFullTutorSuggestion}
               highlightedHintSquares={highlightedHintSquares} 
+              analysedMoveColor={reviewedMove ? reviewedMove.color : gameMode !== 'vs-ai' ? (turn === 'w' ? 'b' : 'w') : null}
             />
           </div>
            <div className="flex-grow min-h-[100px] sm:min-h-[120px] md:min-h-[150px] lg:min-h-0 lg:flex-1 max-h-[20vh] lg:max-h-[calc(var(--aside-width)_*_0.5)]"> 
-            <MoveHistory moves={moveHistory} />
+            <MoveHistory
+              tree={moveTree}
+              currentNodeId={displayedNodeId}
+              startingTurn={lineStart.turn}
+              startingMoveNumber={lineStart.fullmove}
+              opening={displayedOpening}
+              theoryExitNodeId={theoryExitNodeId}
+              onSelectNode={canSelectMoveListNode ? handleSelectMoveListNode : undefined}
+              onPromoteVariation={canEditVariations ? handlePromoteVariation : undefined}
+              onDemoteVariation={canEditVariations ? handleDemoteVariation : undefined}
+              onDeleteFromMove={canEditVariations ? handleDeleteFromMove : undefined}
+            />
           </div>
         </aside>
       </div>
@@ -1029,7 +1897,36 @@ const ChessPage: React.FC = () => {
       <PromotionDialog
         isOpen={isPromotionDialogOpen}
         onSelectPiece={handlePromotionSelect}
-        playerColor={playerColor} 
+        playerColor={turn} 
+        options={promotionOptions}
+      />
+
+      <NewGameDialog
+        isOpen={isNewGameDialogOpen}
+        onOpenChange={setIsNewGameDialogOpen}
+        onStartGame={handleStartNewGame}
+        defaultColor={playerColor}
+        defaultMode={gameMode}
+      />
+
+      <PgnDialog
+        isOpen={isPgnDialogOpen}
+        onOpenChange={setIsPgnDialogOpen}
+        exportPgn={isPgnDialogOpen ? buildExportPgn() : ''}
+        onImportGame={handleImportPgnGame}
+      />
+
+      <GameLibraryDialog
+        isOpen={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        onOpenGame={handleOpenLibraryGame}
+      />
+
+      <PositionSetupDialog
+        isOpen={isPositionSetupOpen}
+        onOpenChange={setIsPositionSetupOpen}
+        currentFen={boardToFen(board, turn, castlingRights, enPassantTarget, halfMoveClock, fullMoveNumber)}
+        onStartPosition={handleStartFromPosition}
       />
 
     </div>
@@ -1,7 +1,7 @@
 // src/components/chess/ChessboardComponent.tsx
 'use client';
 
-import type { Board, Piece as PieceType, Square } from '@/types/chess';
+import type { Board, BoardArrow, Piece as PieceType, Square } from '@/types/chess';
 import { coordsToSquare, squareToCoords } from '@/lib/chess-logic';
 import PieceComponent from './PieceComponent';
 import { cn } from '@/lib/utils';
@@ -25,13 +25,19 @@ interface ChessboardProps {
   validMoves: Square[];
   lastMove: { from: Square; to: Square } | null;
   isPlayerTurn: boolean;
-  playerColor: 'w' | 'b'; 
+  orientation: 'w' | 'b'; // Side shown at the bottom of the board
   kingInCheckSquare: Square | null;
   highlightedHintSquares?: Array<{ from: Square; to: Square, hintIndex?: number }> | { from: Square; to: Square, hintIndex?: number } | null;
   suggestionColorThemes?: SuggestionColorTheme[]; // Pass the color themes
   selectedHintCustomTheme?: { bgClass: string; ringClass: string } | null; // For single, specifically selected tutor hint
+  arrows?: BoardArrow[];
+  markedSquares?: Square[]; // Circled, e.g. the squares a lesson talks about
 }
 
+// Arrow sizes in squares; the head is drawn in multiples of the line width.
+const ARROW_WIDTH = 0.15;
+const ARROW_HEAD_WIDTHS = 3;
+
 const ChessboardComponent: React.FC<ChessboardProps> = ({
   board,
   onSquareClick,
@@ -39,20 +45,61 @@ const ChessboardComponent: React.FC<ChessboardProps> = ({
   validMoves,
   lastMove,
   isPlayerTurn,
-  playerColor,
+  orientation,
   kingInCheckSquare,
   highlightedHintSquares,
   suggestionColorThemes = [], // Default to empty array
   selectedHintCustomTheme,
+  arrows = [],
+  markedSquares = [],
 }) => {
+  // Centre of a square in board units (0-8 across), as displayed with the current orientation.
+  const getSquareCenter = (square: Square) => {
+    const { row, col } = squareToCoords(square);
+    return orientation === 'w'
+      ? { x: col + 0.5, y: row + 0.5 }
+      : { x: 7 - col + 0.5, y: 7 - row + 0.5 };
+  };
+
+  const renderArrows = () => (
+    <svg viewBox="0 0 8 8" className="absolute inset-0 w-full h-full pointer-events-none text-highlight-hint/80" aria-hidden="true">
+      <defs>
+        <marker id="board-arrow-head" markerWidth={ARROW_HEAD_WIDTHS} markerHeight={ARROW_HEAD_WIDTHS} refX="0" refY={ARROW_HEAD_WIDTHS / 2} orient="auto" markerUnits="strokeWidth">
+          <path d={`M0,0 L${ARROW_HEAD_WIDTHS},${ARROW_HEAD_WIDTHS / 2} L0,${ARROW_HEAD_WIDTHS} Z`} fill="currentColor" />
+        </marker>
+      </defs>
+      {arrows.map(({ from, to }) => {
+        const start = getSquareCenter(from);
+        const end = getSquareCenter(to);
+        const length = Math.hypot(end.x - start.x, end.y - start.y);
+        if (length === 0) return null;
+        // Stop short so the arrow head ends at the centre of the target square.
+        const shorten = (ARROW_HEAD_WIDTHS * ARROW_WIDTH) / length;
+        return (
+          <line
+            key={`${from}${to}`}
+            x1={start.x}
+            y1={start.y}
+            x2={end.x - (end.x - start.x) * shorten}
+            y2={end.y - (end.y - start.y) * shorten}
+            stroke="currentColor"
+            strokeWidth={ARROW_WIDTH}
+            strokeLinecap="round"
+            markerEnd="url(#board-arrow-head)"
+          />
+        );
+      })}
+    </svg>
+  );
+
   const renderSquares = () => {
     const squares = [];
-    const displayBoard = playerColor === 'w' ? board : [...board].reverse().map(row => [...row].reverse());
+    const displayBoard = orientation === 'w' ? board : [...board].reverse().map(row => [...row].reverse());
 
     for (let r_idx = 0; r_idx < 8; r_idx++) {
       for (let c_idx = 0; c_idx < 8; c_idx++) {
-        const actualRow = playerColor === 'w' ? r_idx : 7 - r_idx;
-        const actualCol = playerColor === 'w' ? c_idx : 7 - c_idx;
+        const actualRow = orientation === 'w' ? r_idx : 7 - r_idx;
+        const actualCol = orientation === 'w' ? c_idx : 7 - c_idx;
         
         const square = coordsToSquare(actualRow, actualCol);
         const piece = displayBoard[r_idx][c_idx]; 
@@ -131,6 +178,9 @@ const ChessboardComponent: React.FC<ChessboardProps> = ({
             )}
             {(isLastMoveOrigin || isLastMoveTarget) && !isPartOfHighlightedHint && !isSelected && ( 
               <div className="absolute inset-0 bg-highlight-move/20 pointer-events-none" />
+            )}
+            {markedSquares.includes(square) && (
+              <div className="absolute inset-[8%] rounded-full border-4 border-highlight-hint/70 pointer-events-none" />
             )}
              {isKingInCheck && (
               <div className="absolute inset-0 ring-4 ring-highlight-check ring-inset opacity-80 pointer-events-none" />
@@ -147,8 +197,9 @@ const ChessboardComponent: React.FC<ChessboardProps> = ({
         "w-full aspect-square rounded-lg overflow-hidden shadow-2xl border-4 border-card mx-auto md:mx-0",
         "md:max-w-full" 
       )}>
-        <div className="grid grid-cols-8 w-full h-full">
+        <div className="grid grid-cols-8 w-full h-full relative">
             {renderSquares()}
+            {arrows.length > 0 && renderArrows()}
         </div>
     </div>
   );
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { PieceColor } from '@/types/chess';
+import { formatEvaluation, type PositionEvaluation } from '@/lib/move-analysis';
+import { getWinPercent } from '@/lib/game-review';
+
+interface EvaluationBarProps {
+  evaluation: PositionEvaluation | null; // Null until the first search finishes
+  orientation: PieceColor; // The side at the bottom of the board
+  isThinking?: boolean;
+}
+
+// The bar follows winning chances rather than raw centipawns, so a two-pawn edge is clearly visible
+// without a ten-pawn edge running off the end.
+const EvaluationBar: React.FC<EvaluationBarProps> = ({ evaluation, orientation, isThinking }) => {
+  let whiteShare = 50;
+  if (evaluation) {
+    whiteShare = evaluation.mate !== null ? (evaluation.cp > 0 ? 100 : 0) : getWinPercent(evaluation.cp);
+  }
+  const bottomShare = orientation === 'w' ? whiteShare : 100 - whiteShare;
+
+  // Shown from the bottom side's point of view, on the end of the bar belonging to the side ahead.
+  let label = '';
+  if (evaluation) {
+    const sign = orientation === 'w' ? 1 : -1;
+    label = evaluation.mate === 0
+      ? '#'
+      : formatEvaluation({ cp: sign * evaluation.cp, mate: evaluation.mate === null ? null : sign * evaluation.mate });
+  }
+  const isBottomAhead = bottomShare >= 50;
+
+  return (
+    <div
+      className={cn(
+        "relative w-4 sm:w-6 shrink-0 self-stretch overflow-hidden rounded-md border-2 border-card shadow-lg",
+        orientation === 'w' ? "bg-slate-800" : "bg-slate-100",
+        isThinking && "opacity-80"
+      )}
+      title={evaluation ? `Evaluation: ${formatEvaluation(evaluation)} (White's point of view)` : 'Evaluating…'}
+      aria-label="Evaluation bar"
+    >
+      <div
+        className={cn(
+          "absolute inset-x-0 bottom-0 transition-[height] duration-500 ease-out",
+          orientation === 'w' ? "bg-slate-100" : "bg-slate-800"
+        )}
+        style={{ height: `${bottomShare}%` }}
+      />
+      <div className="absolute inset-x-0 top-1/2 h-px bg-primary/40" />
+      {label && (
+        <span
+          className={cn(
+            "absolute inset-x-0 text-center text-[8px] sm:text-[10px] font-semibold leading-none tabular-nums [writing-mode:vertical-rl] rotate-180 sm:[writing-mode:horizontal-tb] sm:rotate-0",
+            isBottomAhead ? "bottom-1" : "top-1",
+            (isBottomAhead ? orientation === 'w' : orientation === 'b') ? "text-slate-800" : "text-slate-100"
+          )}
+        >
+          {label}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationBar;
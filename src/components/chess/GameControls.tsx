@@ -4,28 +4,49 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { Difficulty } from '@/types/chess';
-import { Lightbulb, RotateCcw, Undo, Redo, Settings2, Brain } from 'lucide-react';
+import type { Difficulty, DrawReason } from '@/types/chess';
+import { Lightbulb, RotateCcw, Undo, Redo, Settings2, Brain, ArrowUpDown, Handshake, FileText, LayoutGrid, Repeat, Library, LineChart, Gauge, BookOpen } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { MIN_ENGINE_LEVEL, MAX_ENGINE_LEVEL } from '@/lib/engine-strength';
+import { DRAW_REASON_DESCRIPTIONS } from '@/lib/chess-logic';
 
 interface GameControlsProps {
   onNewGame: () => void;
   onHint: () => void;
   onUndo: () => void;
   onRedo: () => void;
+  onFlipBoard: () => void;
+  onOpenPgn: () => void;
+  onOpenLibrary: () => void;
+  onSetupPosition: () => void;
   canUndo: boolean;
   canRedo: boolean;
   isLoadingHint: boolean;
   difficulty: Difficulty;
   onDifficultyChange: (difficulty: Difficulty) => void;
+  engineLevel: number;
+  onEngineLevelChange: (level: number) => void;
   isPlayerTurn: boolean;
   isGameOver: boolean;
+  claimableDrawReason: DrawReason | null;
+  onClaimDraw: () => void;
+  onReviewGame: () => void;
+  canReviewGame: boolean; // A finished game with moves, not already under review
   hintLevel: 0 | 1 | 2;
   isAiProcessing: boolean;
   isFullTutoringMode: boolean;
   onFullTutoringModeChange: (enabled: boolean) => void;
+  isVsAi: boolean; // False in hot-seat games, where there is no engine opponent to configure
+  autoFlip?: boolean;
+  onAutoFlipChange?: (enabled: boolean) => void;
+  showEvalBar: boolean;
+  onShowEvalBarChange: (enabled: boolean) => void;
+  isEvalBarAllowed: boolean; // False in no-assistance modes such as a timed game in progress
+  useOpeningBook: boolean; // The engine plays book moves in the opening
+  onUseOpeningBookChange: (enabled: boolean) => void;
 }
 
 const GameControls: React.FC<GameControlsProps> = ({
@@ -33,17 +54,35 @@ const GameControls: React.FC<GameControlsProps> = ({
   onHint,
   onUndo,
   onRedo,
+  onFlipBoard,
+  onOpenPgn,
+  onOpenLibrary,
+  onSetupPosition,
   canUndo,
   canRedo,
   isLoadingHint,
   difficulty,
   onDifficultyChange,
+  engineLevel,
+  onEngineLevelChange,
   isPlayerTurn,
   isGameOver,
+  claimableDrawReason,
+  onClaimDraw,
+  onReviewGame,
+  canReviewGame,
   hintLevel,
   isAiProcessing,
   isFullTutoringMode,
   onFullTutoringModeChange,
+  isVsAi,
+  autoFlip,
+  onAutoFlipChange,
+  showEvalBar,
+  onShowEvalBarChange,
+  isEvalBarAllowed,
+  useOpeningBook,
+  onUseOpeningBookChange,
 }) => {
   let hintButtonText = 'Get AI Hint';
   if (hintLevel === 0 || hintLevel === 2) {
@@ -59,6 +98,13 @@ const GameControls: React.FC<GameControlsProps> = ({
     [onDifficultyChange]
   );
 
+  const handleEngineLevelSliderChange = React.useCallback(
+    (values: number[]) => {
+      onEngineLevelChange(values[0]);
+    },
+    [onEngineLevelChange]
+  );
+
   return (
     <Card className="shadow-lg rounded-lg">
       <CardHeader className="pb-2 pt-3 px-3 sm:pb-3 sm:pt-4 sm:px-4">
@@ -68,14 +114,23 @@ const GameControls: React.FC<GameControlsProps> = ({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-2 px-3 pb-3 sm:space-y-3 sm:px-4 sm:pb-4">
-        <Button
-          onClick={onNewGame}
-          className="w-full text-xs sm:text-sm"
-          variant="outline"
-          disabled={isAiProcessing}
-        >
-          <RotateCcw className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> New Game
-        </Button>
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            onClick={onNewGame}
+            className="w-full text-xs sm:text-sm"
+            variant="outline"
+            disabled={isAiProcessing}
+          >
+            <RotateCcw className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> New Game
+          </Button>
+          <Button
+            onClick={onFlipBoard}
+            className="w-full text-xs sm:text-sm"
+            variant="outline"
+          >
+            <ArrowUpDown className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Flip Board
+          </Button>
+        </div>
 
         <div className="grid grid-cols-2 gap-2">
           <Button
@@ -96,6 +151,34 @@ const GameControls: React.FC<GameControlsProps> = ({
           </Button>
         </div>
 
+        <div className="grid grid-cols-3 gap-2">
+          <Button
+            onClick={onOpenPgn}
+            disabled={isAiProcessing}
+            className="w-full text-xs sm:text-sm px-2"
+            variant="outline"
+          >
+            <FileText className="mr-1.5 h-3 w-3 sm:h-4 sm:w-4" /> PGN
+          </Button>
+          <Button
+            onClick={onOpenLibrary}
+            disabled={isAiProcessing}
+            className="w-full text-xs sm:text-sm px-2"
+            variant="outline"
+          >
+            <Library className="mr-1.5 h-3 w-3 sm:h-4 sm:w-4" /> Library
+          </Button>
+          <Button
+            onClick={onSetupPosition}
+            disabled={isAiProcessing}
+            className="w-full text-xs sm:text-sm px-2"
+            variant="outline"
+            title="Set up a position"
+          >
+            <LayoutGrid className="mr-1.5 h-3 w-3 sm:h-4 sm:w-4" /> Set Up
+          </Button>
+        </div>
+
         <Button
           onClick={onHint}
           disabled={isLoadingHint || !isPlayerTurn || isGameOver || isAiProcessing || isFullTutoringMode}
@@ -104,8 +187,30 @@ const GameControls: React.FC<GameControlsProps> = ({
           <Lightbulb className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> {isLoadingHint ? 'Thinking...' : hintButtonText}
         </Button>
 
+        {claimableDrawReason && !isGameOver && (
+          <Button
+            onClick={onClaimDraw}
+            disabled={!isPlayerTurn || isAiProcessing}
+            className="w-full text-xs sm:text-sm"
+            variant="secondary"
+          >
+            <Handshake className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Claim Draw ({DRAW_REASON_DESCRIPTIONS[claimableDrawReason]})
+          </Button>
+        )}
+
+        {canReviewGame && (
+          <Button
+            onClick={onReviewGame}
+            disabled={isAiProcessing}
+            className="w-full text-xs sm:text-sm"
+            variant="secondary"
+          >
+            <LineChart className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Review Game
+          </Button>
+        )}
+
         <div className="space-y-1 sm:space-y-1.5 pt-1">
-          <Label htmlFor="difficulty-select" className="text-xs sm:text-sm font-medium text-muted-foreground">AI Difficulty</Label>
+          <Label htmlFor="difficulty-select" className="text-xs sm:text-sm font-medium text-muted-foreground">{isVsAi ? 'AI Difficulty' : 'Tutor Level'}</Label>
           <Select
             value={difficulty}
             onValueChange={handleDifficultySelectChange}
@@ -122,6 +227,65 @@ const GameControls: React.FC<GameControlsProps> = ({
           </Select>
         </div>
 
+        {isVsAi ? (
+          <div className="space-y-1.5 sm:space-y-2 pt-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="engine-level-slider" className="text-xs sm:text-sm font-medium text-muted-foreground">Engine Strength</Label>
+              <span className="text-xs sm:text-sm font-semibold tabular-nums">Level {engineLevel}</span>
+            </div>
+            <Slider
+              id="engine-level-slider"
+              min={MIN_ENGINE_LEVEL}
+              max={MAX_ENGINE_LEVEL}
+              step={1}
+              value={[engineLevel]}
+              onValueChange={handleEngineLevelSliderChange}
+              disabled={isAiProcessing}
+            />
+          </div>
+        ) : onAutoFlipChange && (
+          <div className="flex items-center justify-between space-x-2 pt-2">
+            <Label htmlFor="auto-flip" className="text-xs sm:text-sm font-medium text-muted-foreground flex items-center">
+              <Repeat className="mr-2 h-4 w-4" />
+              Auto-Flip Board
+            </Label>
+            <Switch
+              id="auto-flip"
+              checked={!!autoFlip}
+              onCheckedChange={onAutoFlipChange}
+            />
+          </div>
+        )}
+
+        {isVsAi && (
+          <div className="flex items-center justify-between space-x-2 pt-2">
+            <Label htmlFor="opening-book" className="text-xs sm:text-sm font-medium text-muted-foreground flex items-center">
+              <BookOpen className="mr-2 h-4 w-4" />
+              Opening Book
+            </Label>
+            <Switch
+              id="opening-book"
+              checked={useOpeningBook}
+              onCheckedChange={onUseOpeningBookChange}
+              disabled={isAiProcessing}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between space-x-2 pt-2">
+          <Label htmlFor="eval-bar" className="text-xs sm:text-sm font-medium text-muted-foreground flex items-center">
+            <Gauge className="mr-2 h-4 w-4" />
+            Evaluation Bar
+            {!isEvalBarAllowed && <span className="ml-1.5 text-[10px] sm:text-xs font-normal">(off in timed games)</span>}
+          </Label>
+          <Switch
+            id="eval-bar"
+            checked={showEvalBar && isEvalBarAllowed}
+            onCheckedChange={onShowEvalBarChange}
+            disabled={!isEvalBarAllowed}
+          />
+        </div>
+
         <div className="flex items-center justify-between space-x-2 pt-2">
           <Label htmlFor="full-tutoring-mode" className="text-xs sm:text-sm font-medium text-muted-foreground flex items-center">
             <Brain className="mr-2 h-4 w-4 text-purple-500" />
@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, FolderOpen, Trash2, Search, Loader } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  listLibraryGames,
+  deleteLibraryGames,
+  filterLibraryGames,
+  exportLibraryPgn,
+  formatGameDuration,
+  type LibraryGame,
+} from '@/lib/game-library';
+import { describeTimeControl } from '@/lib/chess-clock';
+
+interface GameLibraryDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenGame: (game: LibraryGame) => void;
+}
+
+const RESULT_BADGE_CLASSES: Record<LibraryGame['result'], string> = {
+  '1-0': 'bg-slate-100 text-slate-900 border-slate-300 dark:bg-slate-200',
+  '0-1': 'bg-slate-800 text-slate-50 border-slate-700',
+  '1/2-1/2': 'bg-yellow-500/20 text-yellow-800 border-yellow-500/40 dark:text-yellow-300',
+  '*': 'bg-muted text-muted-foreground border-border',
+};
+
+const GameLibraryDialog: React.FC<GameLibraryDialogProps> = ({ isOpen, onOpenChange, onOpenGame }) => {
+  const [games, setGames] = useState<LibraryGame[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<string[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setGames(await listLibraryGames());
+      setLoadError(null);
+    } catch (error) {
+      console.error("Error loading game library:", error);
+      setLoadError(error instanceof Error ? error.message : 'Could not load the game library.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(new Set());
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  const visibleGames = useMemo(() => filterLibraryGames(games, query), [games, query]);
+  const selectedGames = visibleGames.filter(game => selectedIds.has(game.id));
+  const allVisibleSelected = visibleGames.length > 0 && selectedGames.length === visibleGames.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleGames.map(game => game.id)));
+  };
+
+  // Exports the selection, or every game matching the search when nothing is selected.
+  const handleExport = () => {
+    const gamesToExport = selectedGames.length > 0 ? selectedGames : visibleGames;
+    if (gamesToExport.length === 0) return;
+    const blob = new Blob([exportLibraryPgn(gamesToExport)], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'chessmastery-library.pgn';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDeleteIds) return;
+    try {
+      await deleteLibraryGames(pendingDeleteIds);
+      setSelectedIds(prev => new Set([...prev].filter(id => !pendingDeleteIds.includes(id))));
+    } catch (error) {
+      console.error("Error deleting games:", error);
+      setLoadError(error instanceof Error ? error.message : 'Could not delete games.');
+    }
+    setPendingDeleteIds(null);
+    refresh();
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[640px] p-4 sm:p-6">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">Game Library</DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm">Every finished or abandoned game. Open one to review it, or export them as PGN.</DialogDescription>
+          </DialogHeader>
+
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by player, opening, result or date"
+              className="pl-8 text-xs sm:text-sm"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground cursor-pointer">
+              <Checkbox checked={allVisibleSelected} onCheckedChange={toggleAllVisible} disabled={visibleGames.length === 0} />
+              {selectedGames.length > 0 ? `${selectedGames.length} selected` : `${visibleGames.length} games`}
+            </label>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={visibleGames.length === 0} className="text-xs">
+                <Download className="mr-1.5 h-3 w-3 sm:h-4 sm:w-4" /> {selectedGames.length > 0 ? 'Export Selected' : 'Export All'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPendingDeleteIds(selectedGames.map(game => game.id))}
+                disabled={selectedGames.length === 0}
+                className="text-xs text-destructive"
+              >
+                <Trash2 className="mr-1.5 h-3 w-3 sm:h-4 sm:w-4" /> Delete
+              </Button>
+            </div>
+          </div>
+
+          <ScrollArea className="h-72 sm:h-80 rounded-md border">
+            {isLoading && games.length === 0 ? (
+              <div className="flex items-center justify-center py-10 text-muted-foreground">
+                <Loader className="h-5 w-5 animate-spin" />
+              </div>
+            ) : loadError ? (
+              <p className="text-xs sm:text-sm text-destructive text-center py-10 px-4">{loadError}</p>
+            ) : visibleGames.length === 0 ? (
+              <p className="text-xs sm:text-sm text-muted-foreground text-center py-10 px-4">
+                {games.length === 0 ? 'No saved games yet. Finished games appear here automatically.' : 'No games match your search.'}
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {visibleGames.map(game => (
+                  <li
+                    key={game.id}
+                    className={cn("flex items-start gap-2 sm:gap-3 p-2 sm:p-3", selectedIds.has(game.id) && "bg-primary/5")}
+                  >
+                    <Checkbox checked={selectedIds.has(game.id)} onCheckedChange={() => toggleSelected(game.id)} className="mt-1" />
+                    <div className="flex-1 min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className={cn("font-mono text-[10px] sm:text-xs", RESULT_BADGE_CLASSES[game.result])}>
+                          {game.result}
+                        </Badge>
+                        <span className="text-xs sm:text-sm font-medium truncate">{game.white} vs {game.black}</span>
+                      </div>
+                      <p className="text-[10px] sm:text-xs text-muted-foreground truncate">
+                        {game.opening || 'No moves'}
+                      </p>
+                      <p className="text-[10px] sm:text-xs text-muted-foreground">
+                        {new Date(game.endedAt).toLocaleString()} · {Math.ceil(game.plyCount / 2)} moves · {formatGameDuration(game.endedAt - game.startedAt)}
+                        {game.timeControl && ` · ${describeTimeControl(game.timeControl)}`}
+                        {' · '}{game.status === 'abandoned' ? 'Abandoned' : game.termination}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onOpenGame(game)} title="Open for review">
+                        <FolderOpen className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setPendingDeleteIds([game.id])} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDeleteIds !== null} onOpenChange={(open) => { if (!open) setPendingDeleteIds(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDeleteIds?.length === 1 ? 'this game' : `${pendingDeleteIds?.length ?? 0} games`}?</AlertDialogTitle>
+            <AlertDialogDescription>Deleted games cannot be recovered. Export them first if you want a copy.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default GameLibraryDialog;
@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Area, AreaChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import { ChevronLeft, ChevronRight, ChevronsRight, LineChart, Loader, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PieceColor } from '@/types/chess';
+import { formatEvaluation, MOVE_CLASSIFICATION_LABELS } from '@/lib/move-analysis';
+import {
+  evaluationToGraphValue,
+  formatReviewedMove,
+  getKeyMoments,
+  type GameReview,
+  type ReviewedMove,
+} from '@/lib/game-review';
+
+interface GameReviewPanelProps {
+  review: GameReview | null; // Null while the engine is still working
+  progress: number; // 0-1 while analysing
+  selectedPosition: number | null; // Index into the game's positions; null shows the final position
+  onSelectPosition: (positionIndex: number) => void;
+  onCancel: () => void;
+  onClose: () => void;
+  playerNames: { [color in PieceColor]: string };
+  isExplaining: boolean;
+}
+
+const chartConfig = {
+  evaluation: { label: 'Evaluation', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const MOMENT_CLASSES: Partial<Record<ReviewedMove['classification'], string>> = {
+  inaccuracy: 'text-yellow-700 dark:text-yellow-300 bg-yellow-500/10 border-yellow-500/30',
+  mistake: 'text-orange-700 dark:text-orange-300 bg-orange-500/10 border-orange-500/30',
+  blunder: 'text-red-700 dark:text-red-300 bg-red-500/10 border-red-500/30',
+};
+
+function describeMoment(move: ReviewedMove): string {
+  const verdict = move.isMissedWin && move.classification !== 'blunder' ? 'Missed win' : MOVE_CLASSIFICATION_LABELS[move.classification];
+  return move.bestMove ? `${verdict}. ${move.bestMove} was better.` : `${verdict}.`;
+}
+
+const GameReviewPanel: React.FC<GameReviewPanelProps> = ({
+  review,
+  progress,
+  selectedPosition,
+  onSelectPosition,
+  onCancel,
+  onClose,
+  playerNames,
+  isExplaining,
+}) => {
+  const chartData = useMemo(
+    () => review?.evaluations.map((evaluation, index) => ({ position: index, evaluation: evaluationToGraphValue(evaluation) })) ?? [],
+    [review]
+  );
+  const keyMoments = useMemo(() => (review ? getKeyMoments(review) : []), [review]);
+
+  const lastPosition = review ? review.moves.length : 0;
+  const currentPosition = selectedPosition ?? lastPosition;
+  const currentMove = review && currentPosition > 0 ? review.moves[currentPosition - 1] : null;
+
+  return (
+    <Card className="shadow-lg rounded-lg">
+      <CardHeader className="pb-2 pt-3 px-3 sm:pb-3 sm:pt-4 sm:px-4 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base sm:text-lg font-semibold flex items-center">
+          <LineChart className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-primary" />
+          Game Review
+        </CardTitle>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={review ? onClose : onCancel} title={review ? 'Close review' : 'Cancel review'}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2 px-3 pb-3 sm:space-y-3 sm:px-4 sm:pb-4">
+        {!review ? (
+          <div className="space-y-2 py-2">
+            <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+              <Loader className="h-4 w-4 animate-spin" />
+              The engine is analysing every move… {Math.round(progress * 100)}%
+            </div>
+            <Progress value={progress * 100} className="h-2" />
+            <Button variant="outline" size="sm" onClick={onCancel} className="w-full text-xs">Cancel</Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              {(['w', 'b'] as PieceColor[]).map(color => {
+                const side = review.summary[color];
+                return (
+                  <div key={color} className="rounded-md border p-2 space-y-0.5">
+                    <p className="text-[10px] sm:text-xs text-muted-foreground truncate">{playerNames[color]}</p>
+                    <p className="text-lg sm:text-xl font-bold tabular-nums">
+                      {side.accuracy === null ? '–' : `${side.accuracy.toFixed(1)}%`}
+                    </p>
+                    <p className="text-[10px] sm:text-xs text-muted-foreground">
+                      Avg. loss {side.averageCentipawnLoss === null ? '–' : Math.round(side.averageCentipawnLoss)} cp
+                    </p>
+                    <p className="text-[10px] sm:text-xs">
+                      <span className="text-yellow-700 dark:text-yellow-300">{side.inaccuracies} ?!</span>
+                      {' · '}<span className="text-orange-700 dark:text-orange-300">{side.mistakes} ?</span>
+                      {' · '}<span className="text-red-700 dark:text-red-300">{side.blunders} ??</span>
+                      {side.missedWins > 0 && <>{' · '}{side.missedWins} missed win{side.missedWins === 1 ? '' : 's'}</>}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-28 sm:h-32 w-full cursor-pointer">
+              <AreaChart
+                data={chartData}
+                margin={{ top: 4, right: 4, bottom: 0, left: 4 }}
+                onClick={(state) => {
+                  if (state && typeof state.activeTooltipIndex === 'number') onSelectPosition(state.activeTooltipIndex);
+                }}
+              >
+                <XAxis dataKey="position" hide />
+                <YAxis domain={[-10, 10]} hide />
+                <ChartTooltip
+                  cursor={{ strokeDasharray: '3 3' }}
+                  content={({ active, label }) => {
+                    if (!active || typeof label !== 'number') return null;
+                    const move = label > 0 ? review.moves[label - 1] : null;
+                    return (
+                      <div className="rounded-md border bg-background px-2 py-1 text-xs shadow-md">
+                        <span className="font-medium">{move ? formatReviewedMove(move) : 'Start'}</span>
+                        {' '}{formatEvaluation(review.evaluations[label])}
+                      </div>
+                    );
+                  }}
+                />
+                <ReferenceLine y={0} stroke="hsl(var(--border))" />
+                <ReferenceLine x={currentPosition} stroke="hsl(var(--primary))" strokeDasharray="3 3" />
+                <Area
+                  type="monotone"
+                  dataKey="evaluation"
+                  stroke="var(--color-evaluation)"
+                  fill="var(--color-evaluation)"
+                  fillOpacity={0.25}
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ChartContainer>
+
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => onSelectPosition(currentPosition - 1)} disabled={currentPosition === 0 || isExplaining} title="Previous move">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <div className="flex-1 text-center text-xs sm:text-sm">
+                {currentMove ? (
+                  <>
+                    <span className="font-semibold">{formatReviewedMove(currentMove)}</span>
+                    {' · '}{MOVE_CLASSIFICATION_LABELS[currentMove.classification]}
+                    {' · '}<span className="tabular-nums">{formatEvaluation(currentMove.evalAfter)}</span>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">Starting position</span>
+                )}
+              </div>
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => onSelectPosition(currentPosition + 1)} disabled={currentPosition === lastPosition || isExplaining} title="Next move">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => onSelectPosition(lastPosition)} disabled={currentPosition === lastPosition || isExplaining} title="Final position">
+                <ChevronsRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-xs sm:text-sm font-medium text-muted-foreground">Key Moments</p>
+              {keyMoments.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No inaccuracies, mistakes or blunders. A clean game!</p>
+              ) : (
+                <ul className="max-h-40 overflow-y-auto space-y-1 pr-1">
+                    {keyMoments.map(move => (
+                      <li key={move.ply}>
+                        <button
+                          type="button"
+                          onClick={() => onSelectPosition(move.ply + 1)}
+                          disabled={isExplaining}
+                          className={cn(
+                            "w-full rounded-md border px-2 py-1 text-left text-xs transition-colors hover:bg-accent disabled:opacity-60",
+                            MOMENT_CLASSES[move.classification] ?? 'bg-muted/40',
+                            currentPosition === move.ply + 1 && "ring-2 ring-primary"
+                          )}
+                        >
+                          <span className="font-semibold">{formatReviewedMove(move)}</span> {describeMoment(move)}
+                        </button>
+                      </li>
+                    ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GameReviewPanel;
@@ -1,8 +1,10 @@
 'use client';
 
-import { Lightbulb, AlertCircle, CheckCircle2, Swords, Info, Loader } from 'lucide-react';
+import { Lightbulb, AlertCircle, CheckCircle2, Swords, Info, Loader, Timer } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { parseAndHighlightText } from '@/lib/text-parser';
+import { DRAW_REASON_DESCRIPTIONS } from '@/lib/chess-logic';
+import type { DrawReason } from '@/types/chess';
 
 interface GameStatusProps {
   statusText: string;
@@ -10,7 +12,9 @@ interface GameStatusProps {
   isCheckmate: boolean;
   isStalemate: boolean;
   isDraw: boolean;
+  drawReason?: DrawReason | null;
   winner: 'w' | 'b' | null;
+  isTimeout?: boolean; // A flag fell; decisive unless drawReason says otherwise
   fullTutorGeneralTip?: string | null;
   isFullTutoringMode?: boolean;
   isPlayerTurn?: boolean;
@@ -23,7 +27,9 @@ const GameStatus: React.FC<GameStatusProps> = ({
     isCheckmate, 
     isStalemate,
     isDraw,
+    drawReason,
     winner,
+    isTimeout,
     fullTutorGeneralTip,
     isFullTutoringMode,
     isPlayerTurn,
@@ -33,6 +39,7 @@ const GameStatus: React.FC<GameStatusProps> = ({
   let alertClass = "bg-blue-500/10 border-blue-500/30 text-blue-700 dark:text-blue-300"; 
   let currentText = statusText;
   let applyParsing = false;
+  let drawRuleLabel: string | null = null;
 
   if (isLoadingAi) {
     IconComponent = Loader;
@@ -43,12 +50,16 @@ const GameStatus: React.FC<GameStatusProps> = ({
     currentText = fullTutorGeneralTip;
     alertClass = "bg-purple-500/10 border-purple-500/30 text-purple-700 dark:text-purple-400";
     applyParsing = true;
+  } else if (isTimeout && !isDraw) {
+    IconComponent = Timer;
+    alertClass = "bg-green-500/10 border-green-500/30 text-green-700 dark:text-green-300";
   } else if (isCheckmate) {
     IconComponent = CheckCircle2;
     alertClass = "bg-green-500/10 border-green-500/30 text-green-700 dark:text-green-300";
   } else if (isStalemate || isDraw) {
     IconComponent = AlertCircle;
     alertClass = "bg-yellow-500/10 border-yellow-500/30 text-yellow-700 dark:text-yellow-300";
+    drawRuleLabel = drawReason ? DRAW_REASON_DESCRIPTIONS[drawReason] : null;
   } else if (isCheck) {
     IconComponent = Swords; 
     alertClass = "bg-red-500/10 border-red-500/30 text-red-700 dark:text-red-300";
@@ -65,6 +76,11 @@ const GameStatus: React.FC<GameStatusProps> = ({
       <p className="text-xs sm:text-sm font-medium">
         {applyParsing ? parseAndHighlightText(currentText) : currentText}
       </p>
+      {drawRuleLabel && (
+        <span className="ml-auto shrink-0 rounded-full border border-yellow-500/40 bg-yellow-500/10 px-2 py-0.5 text-[10px] sm:text-xs font-semibold uppercase tracking-wide">
+          {drawRuleLabel}
+        </span>
+      )}
     </div>
   );
 };
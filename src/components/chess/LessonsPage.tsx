@@ -0,0 +1,327 @@
+// src/components/chess/LessonsPage.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import ChessboardComponent from './ChessboardComponent';
+import PromotionDialog from './PromotionDialog';
+import AppNav from './AppNav';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, CheckCircle2, Lightbulb, RotateCcw, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { parseAndHighlightText } from '@/lib/text-parser';
+import { fenToBoard, getCheckedKingSquare, getLegalMoveList, getPieceAtSquare } from '@/lib/chess-logic';
+import type { Move, PieceSymbol, Square } from '@/types/chess';
+import {
+  LESSON_CHAPTERS,
+  checkLessonMove,
+  completeLesson,
+  createLessonProgress,
+  getAllLessons,
+  getLesson,
+  getLessonOrientation,
+  getNextLesson,
+  getStepArrows,
+  isInteractiveStep,
+  playLessonMove,
+  type Lesson,
+  type LessonProgress,
+} from '@/lib/lessons';
+import { useToast } from '@/hooks/use-toast';
+
+const PROGRESS_STORAGE_KEY = 'chessMasteryLessonProgress';
+const REPLY_DELAY_MS = 700;
+
+function loadProgress(): LessonProgress {
+  try {
+    const saved = localStorage.getItem(PROGRESS_STORAGE_KEY);
+    return saved ? { ...createLessonProgress(), ...JSON.parse(saved) } : createLessonProgress();
+  } catch (error) {
+    console.error("Error loading lesson progress from localStorage:", error);
+    return createLessonProgress();
+  }
+}
+
+const LessonsPage: React.FC = () => {
+  const [progress, setProgress] = useState<LessonProgress>(createLessonProgress);
+  const [lesson, setLesson] = useState<Lesson>(() => getAllLessons()[0]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [fen, setFen] = useState(() => getAllLessons()[0].steps[0].fen!);
+  const [lastMove, setLastMove] = useState<{ from: Square; to: Square } | null>(null);
+  const [isStepSolved, setIsStepSolved] = useState(false);
+  const [pendingReply, setPendingReply] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<{ text: string; correct: boolean } | null>(null);
+  const [isHintShown, setIsHintShown] = useState(false);
+  const [isLessonComplete, setIsLessonComplete] = useState(false);
+
+  const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
+  const [selectedLegalMoves, setSelectedLegalMoves] = useState<Move[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square; options: PieceSymbol[] } | null>(null);
+  const { toast } = useToast();
+
+  const step = lesson.steps[stepIndex];
+  const position = useMemo(() => fenToBoard(fen), [fen]);
+  const isInteractive = isInteractiveStep(step);
+  const isPlayerTurn = isInteractive && !isStepSolved && !isLessonComplete;
+  const canContinue = !isLessonComplete && (!isInteractive || (isStepSolved && !pendingReply));
+  const totalLessons = getAllLessons().length;
+  const completedCount = getAllLessons().filter(l => progress.completedAt[l.id]).length;
+
+  const clearSelection = () => {
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+  };
+
+  // A step without its own position carries on from the board as the previous step left it.
+  const startStep = useCallback((nextLesson: Lesson, index: number) => {
+    const nextStep = nextLesson.steps[index];
+    if (nextStep.fen) {
+      setFen(nextStep.fen);
+      setLastMove(null);
+    }
+    setStepIndex(index);
+    setIsStepSolved(false);
+    setPendingReply(null);
+    setFeedback(null);
+    setIsHintShown(false);
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+  }, []);
+
+  const startLesson = useCallback((nextLesson: Lesson) => {
+    setLesson(nextLesson);
+    setIsLessonComplete(false);
+    startStep(nextLesson, 0);
+  }, [startStep]);
+
+  useEffect(() => {
+    const loadedProgress = loadProgress();
+    setProgress(loadedProgress);
+    const next = getNextLesson(loadedProgress);
+    if (next) startLesson(next);
+  }, [startLesson]);
+
+  // The scripted answer to a correct move plays itself after a short pause.
+  useEffect(() => {
+    if (!pendingReply) return;
+    const timeout = setTimeout(() => {
+      try {
+        const reply = playLessonMove(fen, pendingReply);
+        setFen(reply.fenAfter);
+        setLastMove({ from: reply.from, to: reply.to });
+      } catch (error) {
+        console.error("Error playing lesson reply:", error);
+      }
+      setPendingReply(null);
+    }, REPLY_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [pendingReply, fen]);
+
+  const playMove = useCallback((from: Square, to: Square, promotion?: PieceSymbol) => {
+    clearSelection();
+    if (!isPlayerTurn) return;
+    const result = checkLessonMove(step, fen, { from, to, promotion });
+    setFeedback({ text: result.feedback, correct: result.correct });
+    if (!result.correct) {
+      if (step.hint) setIsHintShown(true);
+      return;
+    }
+    setFen(result.fenAfter);
+    setLastMove({ from, to });
+    setIsStepSolved(true);
+    if (step.reply) setPendingReply(step.reply);
+  }, [isPlayerTurn, step, fen]);
+
+  const handleSquareClick = useCallback((square: Square) => {
+    if (!isPlayerTurn) return;
+    const pieceOnClickedSquare = getPieceAtSquare(position.board, square);
+
+    if (selectedSquare) {
+      const movesToSquare = selectedLegalMoves.filter(move => move.to === square);
+      if (movesToSquare.length > 0) {
+        if (movesToSquare.some(move => move.promotion)) {
+          setPendingPromotion({ from: selectedSquare, to: square, options: movesToSquare.map(move => move.promotion!) });
+          return;
+        }
+        playMove(selectedSquare, square);
+        return;
+      }
+    }
+    if (pieceOnClickedSquare && pieceOnClickedSquare.color === position.turn && square !== selectedSquare) {
+      setSelectedSquare(square);
+      setSelectedLegalMoves(getLegalMoveList(position.board, position.turn, position.castling, position.enPassant, square));
+    } else {
+      clearSelection();
+    }
+  }, [isPlayerTurn, position, selectedSquare, selectedLegalMoves, playMove]);
+
+  const handlePromotionSelect = (pieceSymbol: PieceSymbol) => {
+    if (pendingPromotion) playMove(pendingPromotion.from, pendingPromotion.to, pieceSymbol);
+    setPendingPromotion(null);
+  };
+
+  const handleContinue = () => {
+    if (stepIndex + 1 < lesson.steps.length) {
+      startStep(lesson, stepIndex + 1);
+      return;
+    }
+    const nextProgress = completeLesson(progress, lesson.id);
+    setProgress(nextProgress);
+    try {
+      localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(nextProgress));
+    } catch (error) {
+      console.error("Error saving lesson progress to localStorage:", error);
+    }
+    setIsLessonComplete(true);
+    setFeedback(null);
+    const doneCount = getAllLessons().filter(l => nextProgress.completedAt[l.id]).length;
+    toast({ title: "Lesson Complete", description: `${lesson.title}: ${doneCount} of ${totalLessons} lessons done.` });
+  };
+
+  const handleNextLesson = () => {
+    // With everything completed, simply go on to the following lesson.
+    const lessons = getAllLessons();
+    startLesson(getNextLesson(progress, lesson.id) ?? lessons[(lessons.indexOf(lesson) + 1) % lessons.length]);
+  };
+
+  const handleSelectLesson = (id: string) => {
+    const selected = getLesson(id);
+    if (selected) startLesson(selected);
+  };
+
+  const chapter = LESSON_CHAPTERS.find(c => c.lessons.includes(lesson));
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-1 sm:p-2 md:p-4 flex flex-col min-h-screen">
+      <header className="mb-1 sm:mb-2 text-center">
+        <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-primary">Lessons</h1>
+        <p className="text-xs sm:text-sm text-muted-foreground">Short interactive lessons, from how the pieces move to opening principles.</p>
+        <AppNav />
+      </header>
+
+      <div className="flex flex-col lg:flex-row gap-2 sm:gap-3 md:gap-4 mt-2 sm:mt-3 flex-grow items-stretch">
+        <div
+          className="w-full lg:flex-1 lg:max-w-[calc(100vh-15rem)] xl:max-w-[calc(100vh-12rem)] 2xl:max-w-[calc(100vh-10rem)]
+                     max-w-[98vw] sm:max-w-[95vw] mx-auto lg:mx-0
+                     flex justify-center items-start aspect-square"
+        >
+          <div className="w-full">
+            <ChessboardComponent
+              board={position.board}
+              onSquareClick={handleSquareClick}
+              selectedSquare={selectedSquare}
+              validMoves={selectedLegalMoves.map(move => move.to)}
+              lastMove={lastMove}
+              isPlayerTurn={isPlayerTurn}
+              orientation={getLessonOrientation(lesson)}
+              kingInCheckSquare={getCheckedKingSquare(position.board, position.turn)}
+              arrows={isStepSolved ? [] : getStepArrows(step)}
+              markedSquares={isStepSolved ? [] : step.highlights}
+            />
+          </div>
+        </div>
+
+        <aside className="w-full lg:w-[22rem] xl:w-[24rem] 2xl:w-[26rem] flex-shrink-0 flex flex-col gap-2 sm:gap-3 mt-2 sm:mt-3 lg:mt-0">
+          <Card>
+            <CardContent className="p-3 sm:p-4 space-y-2 sm:space-y-3">
+              <Select value={lesson.id} onValueChange={handleSelectLesson}>
+                <SelectTrigger className="text-xs sm:text-sm h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LESSON_CHAPTERS.map(c => (
+                    <SelectGroup key={c.id}>
+                      <SelectLabel className="text-xs">{c.title}</SelectLabel>
+                      {c.lessons.map(l => (
+                        <SelectItem key={l.id} value={l.id} className="text-xs sm:text-sm">
+                          {progress.completedAt[l.id] ? '✓ ' : ''}{l.title}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="space-y-1">
+                <p className="text-[10px] sm:text-xs text-muted-foreground">{completedCount} of {totalLessons} lessons completed</p>
+                <Progress value={(completedCount / totalLessons) * 100} className="h-1.5" />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="flex-grow">
+            <CardContent className="p-3 sm:p-4 space-y-2 sm:space-y-3">
+              <div>
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  {chapter?.title} · Step {stepIndex + 1} of {lesson.steps.length}
+                </p>
+                <h2 className="text-base sm:text-lg font-semibold">{lesson.title}</h2>
+              </div>
+
+              {isLessonComplete ? (
+                <p className="flex items-center gap-1.5 text-sm sm:text-base font-medium text-green-600 dark:text-green-400">
+                  <CheckCircle2 className="h-4 w-4 shrink-0" /> Lesson complete!
+                </p>
+              ) : (
+                <div className="text-sm sm:text-base leading-relaxed">{parseAndHighlightText(step.text)}</div>
+              )}
+
+              {feedback && (
+                <p className={cn(
+                  "flex items-start gap-1.5 text-xs sm:text-sm font-medium",
+                  feedback.correct ? "text-green-600 dark:text-green-400" : "text-destructive"
+                )}>
+                  {feedback.correct ? <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0" /> : <XCircle className="h-4 w-4 mt-0.5 shrink-0" />}
+                  <span>{feedback.text}</span>
+                </p>
+              )}
+
+              {isHintShown && step.hint && !isStepSolved && (
+                <p className="flex items-start gap-1.5 text-xs sm:text-sm text-muted-foreground">
+                  <Lightbulb className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>{step.hint}</span>
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                {isLessonComplete ? (
+                  <Button variant="outline" onClick={() => startLesson(lesson)} className="text-xs sm:text-sm">
+                    <RotateCcw className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Again
+                  </Button>
+                ) : (
+                  <Button variant="outline" onClick={() => setIsHintShown(true)} disabled={!step.hint || isHintShown || !isPlayerTurn} className="text-xs sm:text-sm">
+                    <Lightbulb className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Hint
+                  </Button>
+                )}
+                {isLessonComplete ? (
+                  <Button onClick={handleNextLesson} className="text-xs sm:text-sm">
+                    Next Lesson <ArrowRight className="ml-2 h-3 w-3 sm:h-4 sm:w-4" />
+                  </Button>
+                ) : (
+                  <Button onClick={handleContinue} disabled={!canContinue} className="text-xs sm:text-sm">
+                    {stepIndex + 1 < lesson.steps.length ? 'Continue' : 'Finish'} <ArrowRight className="ml-2 h-3 w-3 sm:h-4 sm:w-4" />
+                  </Button>
+                )}
+              </div>
+              {!isLessonComplete && stepIndex > 0 && (
+                <Button variant="ghost" onClick={() => startLesson(lesson)} className="w-full text-xs sm:text-sm text-muted-foreground">
+                  <RotateCcw className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Restart Lesson
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </aside>
+      </div>
+
+      <PromotionDialog
+        isOpen={pendingPromotion !== null}
+        onSelectPiece={handlePromotionSelect}
+        playerColor={position.turn}
+        options={pendingPromotion?.options}
+      />
+    </div>
+  );
+};
+
+export default LessonsPage;
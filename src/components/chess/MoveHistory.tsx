@@ -1,31 +1,205 @@
 'use client';
 
+import React, { useEffect, useMemo, useRef } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import type { Move } from '@/types/chess';
-import { moveToAlgebraic } from '@/lib/chess-logic'; // Assuming this is correctly implemented
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, BookX, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PieceColor } from '@/types/chess';
+import { canDemoteVariation, canPromoteVariation, getNodePath, type MoveTree } from '@/lib/move-tree';
+import { formatOpeningName, type OpeningEntry } from '@/lib/openings';
 
 interface MoveHistoryProps {
-  moves: string[]; // Using simple string array for now
-  // moves: Move[]; // Ideally, use the Move type for richer display
+  tree: MoveTree<unknown>; // Every line played or explored
+  currentNodeId: string; // The move leading to the position on the board; the root is the starting position
+  startingTurn: PieceColor;
+  startingMoveNumber: number;
+  opening?: OpeningEntry | null; // Opening of the position on the board, once recognised
+  theoryExitNodeId?: string | null; // The move where the current line leaves the opening book
+  onSelectNode?: (nodeId: string) => void; // Omitted while navigation is unavailable
+  // Variation editing acts on the current move; omitted while the tree cannot be changed.
+  onPromoteVariation?: () => void;
+  onDemoteVariation?: () => void;
+  onDeleteFromMove?: () => void;
 }
 
-const MoveHistory: React.FC<MoveHistoryProps> = ({ moves }) => {
+type MoveListItem =
+  | { kind: 'row'; moveNumber: number; white: string | null; black: string | null } // A null White move is the "..." placeholder
+  | { kind: 'variations'; moveNumber: number; turn: PieceColor; nodeIds: string[] }; // Alternatives to the move just before
+
+// Lays the main line out in numbered rows. A move with alternatives ends its row so the variations can be
+// shown beneath it; the line then resumes with a "..." when Black is to move.
+function buildMainLineItems(tree: MoveTree<unknown>, startingTurn: PieceColor, startingMoveNumber: number): MoveListItem[] {
+  const items: MoveListItem[] = [];
+  let row: Extract<MoveListItem, { kind: 'row' }> | null = null;
+  let parent = tree.nodes[tree.rootId];
+  let turn = startingTurn;
+  let moveNumber = startingMoveNumber;
+  while (parent.children.length > 0) {
+    const [mainId, ...variationIds] = parent.children;
+    if (turn === 'w') {
+      row = { kind: 'row', moveNumber, white: mainId, black: null };
+      items.push(row);
+    } else if (row) {
+      row.black = mainId;
+    } else {
+      items.push({ kind: 'row', moveNumber, white: null, black: mainId });
+    }
+    if (variationIds.length > 0) {
+      items.push({ kind: 'variations', moveNumber, turn, nodeIds: variationIds });
+      row = null;
+    }
+    if (turn === 'b') {
+      moveNumber++;
+      row = null;
+    }
+    turn = turn === 'w' ? 'b' : 'w';
+    parent = tree.nodes[mainId];
+  }
+  return items;
+}
+
+const MoveHistory: React.FC<MoveHistoryProps> = ({
+  tree,
+  currentNodeId,
+  startingTurn,
+  startingMoveNumber,
+  opening,
+  theoryExitNodeId,
+  onSelectNode,
+  onPromoteVariation,
+  onDemoteVariation,
+  onDeleteFromMove,
+}) => {
+  const currentMoveRef = useRef<HTMLButtonElement | null>(null);
+  const items = useMemo(() => buildMainLineItems(tree, startingTurn, startingMoveNumber), [tree, startingTurn, startingMoveNumber]);
+  const currentPathIds = useMemo(
+    () => new Set(tree.nodes[currentNodeId] ? getNodePath(tree, currentNodeId).map(node => node.id) : []),
+    [tree, currentNodeId]
+  );
+  const hasMoves = tree.nodes[tree.rootId].children.length > 0;
+  const isAtStart = currentNodeId === tree.rootId;
+
+  useEffect(() => {
+    currentMoveRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentNodeId]);
+
+  const renderMove = (nodeId: string, className?: string) => {
+    const isCurrent = nodeId === currentNodeId;
+    const isTheoryExit = nodeId === theoryExitNodeId;
+    return (
+      <button
+        key={nodeId}
+        type="button"
+        ref={isCurrent ? currentMoveRef : undefined}
+        onClick={() => onSelectNode?.(nodeId)}
+        disabled={!onSelectNode}
+        aria-current={isCurrent ? 'step' : undefined}
+        title={isTheoryExit ? 'You left opening theory here' : undefined}
+        className={cn(
+          "text-left px-1 py-0.5 rounded-sm transition-colors enabled:hover:bg-accent/60 disabled:cursor-default",
+          !currentPathIds.has(nodeId) && "text-muted-foreground",
+          isCurrent && "bg-primary text-primary-foreground enabled:hover:bg-primary/90",
+          className
+        )}
+      >
+        {tree.nodes[nodeId].san}
+        {isTheoryExit && <BookX className="inline ml-0.5 h-3 w-3 align-[-0.125em] text-amber-600 dark:text-amber-400" aria-label="Left opening theory" />}
+      </button>
+    );
+  };
+
+  // A variation written inline, with the alternatives to each of its moves nested in parentheses.
+  const renderLine = (firstId: string, firstMoveNumber: number, firstTurn: PieceColor): React.ReactNode[] => {
+    const parts: React.ReactNode[] = [];
+    let nodeId = firstId;
+    let alternatives: string[] = [];
+    let moveNumber = firstMoveNumber;
+    let turn = firstTurn;
+    let showBlackNumber = true;
+    for (;;) {
+      if (turn === 'w' || showBlackNumber) {
+        parts.push(
+          <span key={`${nodeId}-number`} className="pl-1 text-muted-foreground">{moveNumber}{turn === 'w' ? '.' : '...'}</span>
+        );
+      }
+      parts.push(renderMove(nodeId));
+      showBlackNumber = alternatives.length > 0;
+      alternatives.forEach(alternativeId => {
+        parts.push(
+          <span key={`${alternativeId}-variation`}>
+            <span className="text-muted-foreground">(</span>
+            {renderLine(alternativeId, moveNumber, turn)}
+            <span className="text-muted-foreground">)</span>
+          </span>
+        );
+      });
+
+      const node = tree.nodes[nodeId];
+      if (node.children.length === 0) break;
+      if (turn === 'b') moveNumber++;
+      turn = turn === 'w' ? 'b' : 'w';
+      [nodeId, ...alternatives] = node.children;
+    }
+    return parts;
+  };
+
   return (
     <Card className="h-full">
-      <CardHeader className="py-3 px-3 sm:py-4 sm:px-4">
+      <CardHeader className="py-3 px-3 sm:py-4 sm:px-4 flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-base sm:text-lg">Move History</CardTitle>
+        <div className="flex items-center gap-0.5">
+          <Button
+            variant="ghost" size="icon" className="h-7 w-7"
+            onClick={onPromoteVariation}
+            disabled={!onPromoteVariation || isAtStart || !canPromoteVariation(tree, currentNodeId)}
+            title="Promote variation"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost" size="icon" className="h-7 w-7"
+            onClick={onDemoteVariation}
+            disabled={!onDemoteVariation || isAtStart || !canDemoteVariation(tree, currentNodeId)}
+            title="Demote variation"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost" size="icon" className="h-7 w-7"
+            onClick={onDeleteFromMove}
+            disabled={!onDeleteFromMove || isAtStart}
+            title="Delete this move and the moves after it"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
       </CardHeader>
-      <CardContent className="h-[calc(100%-2.5rem)] sm:h-[calc(100%-3.25rem)] pb-1 px-1 sm:pb-2 sm:px-2"> {/* Adjusted height based on CardHeader */}
-        <ScrollArea className="h-full w-full rounded-md border p-1 sm:p-2">
-          {moves.length === 0 ? (
+      <CardContent className="h-[calc(100%-2.5rem)] sm:h-[calc(100%-3.25rem)] pb-1 px-1 sm:pb-2 sm:px-2 flex flex-col gap-1"> {/* Adjusted height based on CardHeader */}
+        {opening && (
+          <p className="px-1 text-xs sm:text-sm truncate" title={formatOpeningName(opening)}>
+            <span className="font-semibold text-primary">{opening.eco}</span> {opening.name}
+          </p>
+        )}
+        <ScrollArea className="min-h-0 flex-1 w-full rounded-md border p-1 sm:p-2">
+          {!hasMoves ? (
             <p className="text-muted-foreground text-xs sm:text-sm text-center py-4">No moves yet.</p>
           ) : (
-            <ol className="space-y-0.5 sm:space-y-1 text-xs sm:text-sm">
-              {moves.map((move, index) => (
-                <li key={index} className="flex py-0.5 sm:py-1">
-                  {index % 2 === 0 && <span className="w-auto min-w-[1.25rem] sm:min-w-[1.5rem] pr-1 text-right font-semibold mr-1">{Math.floor(index / 2) + 1}.</span>}
-                  <span className={`px-1 py-0.5 rounded-sm ${index % 2 === 0 ? 'font-medium' : ''}`}>{move}</span>
+            <ol className="grid grid-cols-[auto_1fr_1fr] gap-x-1 gap-y-0.5 text-xs sm:text-sm">
+              {items.map(item => item.kind === 'row' ? (
+                <li key={item.white ?? item.black!} className="contents">
+                  <span className="min-w-[1.25rem] sm:min-w-[1.5rem] pr-1 py-0.5 text-right font-semibold text-muted-foreground">{item.moveNumber}.</span>
+                  {item.white !== null ? renderMove(item.white, 'w-full font-medium') : <span className="px-1 py-0.5 text-muted-foreground">...</span>}
+                  {item.black !== null ? renderMove(item.black, 'w-full') : <span />}
+                </li>
+              ) : (
+                <li key={`${item.nodeIds[0]}-variations`} className="col-span-3 ml-3 sm:ml-4 border-l-2 pl-1 py-0.5 space-y-0.5 text-[11px] sm:text-xs">
+                  {item.nodeIds.map(nodeId => (
+                    <div key={nodeId} className="leading-relaxed">
+                      {renderLine(nodeId, item.moveNumber, item.turn)}
+                    </div>
+                  ))}
                 </li>
               ))}
             </ol>
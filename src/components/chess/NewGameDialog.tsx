@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import type { GameMode, PieceColor, TimeControl } from '@/types/chess';
+import { TIME_CONTROL_PRESETS, TIME_CONTROL_CATEGORY_LABELS, describeTimeControl, type TimeControlCategory } from '@/lib/chess-clock';
+import { MIN_ENGINE_LEVEL, MAX_ENGINE_LEVEL, DIFFICULTY_ENGINE_LEVELS } from '@/lib/engine-strength';
+import PieceComponent from './PieceComponent';
+import { Shuffle, Bot, Users, MonitorPlay } from 'lucide-react';
+
+export type ColorChoice = PieceColor | 'random';
+
+export interface NewGameSettings {
+  mode: GameMode;
+  playerColor: PieceColor; // In hot-seat games, the side shown at the bottom when auto-flip is off
+  timeControl: TimeControl | null;
+  autoFlip: boolean;
+  engineLevels?: { [color in PieceColor]: number }; // Engine-vs-engine games only
+}
+
+interface NewGameDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStartGame: (settings: NewGameSettings) => void;
+  defaultColor: PieceColor;
+  defaultMode: GameMode;
+}
+
+const UNTIMED = 'untimed';
+const CUSTOM = 'custom';
+const CATEGORIES: TimeControlCategory[] = ['bullet', 'blitz', 'rapid', 'classical'];
+const BONUS_TYPE_LABELS: { [t in TimeControl['bonusType']]: string } = {
+  'increment': 'Increment',
+  'bronstein': 'Bronstein delay',
+  'simple-delay': 'Simple delay',
+};
+
+const NewGameDialog: React.FC<NewGameDialogProps> = ({ isOpen, onOpenChange, onStartGame, defaultColor, defaultMode }) => {
+  const [mode, setMode] = useState<GameMode>(defaultMode);
+  const [autoFlip, setAutoFlip] = useState(true);
+  const [engineLevels, setEngineLevels] = useState<{ [color in PieceColor]: number }>({
+    w: DIFFICULTY_ENGINE_LEVELS.intermediate,
+    b: DIFFICULTY_ENGINE_LEVELS.intermediate,
+  });
+  const [colorChoice, setColorChoice] = useState<ColorChoice>(defaultColor);
+  const [timeChoice, setTimeChoice] = useState<string>(UNTIMED);
+  const [customMinutes, setCustomMinutes] = useState('10');
+  const [customBonusSeconds, setCustomBonusSeconds] = useState('5');
+  const [customBonusType, setCustomBonusType] = useState<TimeControl['bonusType']>('increment');
+
+  const minutes = Number(customMinutes);
+  const bonusSeconds = Number(customBonusSeconds);
+  const isCustomValid = Number.isFinite(minutes) && minutes > 0 && minutes <= 600 &&
+    Number.isFinite(bonusSeconds) && bonusSeconds >= 0 && bonusSeconds <= 600;
+
+  const getTimeControl = (): TimeControl | null => {
+    if (timeChoice === UNTIMED) return null;
+    if (timeChoice === CUSTOM) {
+      return { baseMs: Math.round(minutes * 60_000), bonusMs: Math.round(bonusSeconds * 1000), bonusType: customBonusType };
+    }
+    return TIME_CONTROL_PRESETS.find(preset => preset.id === timeChoice)?.control ?? null;
+  };
+
+  const handleStart = () => {
+    if (mode === 'spectate') {
+      // Engine games are untimed; each side thinks within its own strength profile.
+      onStartGame({ mode, playerColor: 'w', timeControl: null, autoFlip: false, engineLevels });
+      return;
+    }
+    if (mode === 'hot-seat') {
+      onStartGame({ mode, playerColor: 'w', timeControl: getTimeControl(), autoFlip });
+      return;
+    }
+    const color: PieceColor = colorChoice === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : colorChoice;
+    onStartGame({ mode, playerColor: color, timeControl: getTimeControl(), autoFlip: false });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[380px] p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">New Game</DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">Play the computer or a friend on this device, or watch two engines play each other.</DialogDescription>
+        </DialogHeader>
+        <RadioGroup
+          value={mode}
+          onValueChange={(value) => setMode(value as GameMode)}
+          className="grid grid-cols-3 gap-2 sm:gap-3 pt-3 sm:pt-4"
+        >
+          {([
+            { value: 'vs-ai', label: 'vs Computer', Icon: Bot },
+            { value: 'hot-seat', label: 'Two Players', Icon: Users },
+            { value: 'spectate', label: 'Watch Engines', Icon: MonitorPlay },
+          ] as const).map(({ value, label, Icon }) => (
+            <Label
+              key={value}
+              htmlFor={`new-game-mode-${value}`}
+              className="flex flex-col items-center justify-center gap-1 rounded-md border p-2 sm:p-3 cursor-pointer text-center hover:bg-accent/10 [&:has([data-state=checked])]:border-primary"
+            >
+              <RadioGroupItem id={`new-game-mode-${value}`} value={value} className="sr-only" />
+              <Icon className="h-4 w-4 sm:h-5 sm:w-5 text-muted-foreground" />
+              <span className="text-xs sm:text-sm font-medium">{label}</span>
+            </Label>
+          ))}
+        </RadioGroup>
+        {mode === 'spectate' && (
+          <div className="space-y-3 py-3 sm:py-4">
+            {(['w', 'b'] as PieceColor[]).map(color => (
+              <div key={color} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`new-game-engine-${color}`} className="text-xs sm:text-sm">{color === 'w' ? 'White' : 'Black'} Engine</Label>
+                  <span className="text-xs sm:text-sm font-semibold tabular-nums">Level {engineLevels[color]}</span>
+                </div>
+                <Slider
+                  id={`new-game-engine-${color}`}
+                  min={MIN_ENGINE_LEVEL}
+                  max={MAX_ENGINE_LEVEL}
+                  step={1}
+                  value={[engineLevels[color]]}
+                  onValueChange={(values) => setEngineLevels(prev => ({ ...prev, [color]: values[0] }))}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        {mode === 'hot-seat' && (
+          <div className="flex items-center justify-between space-x-2 py-3 sm:py-4">
+            <Label htmlFor="new-game-auto-flip" className="text-xs sm:text-sm">
+              Flip the board after every move
+              <span className="block text-[10px] sm:text-xs font-normal text-muted-foreground">The side to move always plays from the bottom.</span>
+            </Label>
+            <Switch id="new-game-auto-flip" checked={autoFlip} onCheckedChange={setAutoFlip} />
+          </div>
+        )}
+        {mode === 'vs-ai' && (
+          <RadioGroup
+            value={colorChoice}
+            onValueChange={(value) => setColorChoice(value as ColorChoice)}
+            className="grid grid-cols-3 gap-2 sm:gap-3 py-3 sm:py-4"
+          >
+            {([
+              { value: 'w', label: 'White' },
+              { value: 'b', label: 'Black' },
+              { value: 'random', label: 'Random' },
+            ] as { value: ColorChoice; label: string }[]).map(({ value, label }) => (
+              <Label
+                key={value}
+                htmlFor={`new-game-color-${value}`}
+                className="flex flex-col items-center gap-1.5 rounded-md border p-2 sm:p-3 cursor-pointer hover:bg-accent/10 [&:has([data-state=checked])]:border-primary"
+              >
+                <RadioGroupItem id={`new-game-color-${value}`} value={value} className="sr-only" />
+                <span className="h-10 w-10 sm:h-12 sm:w-12 flex items-center justify-center">
+                  {value === 'random'
+                    ? <Shuffle className="h-6 w-6 sm:h-8 sm:w-8 text-muted-foreground" />
+                    : <PieceComponent piece={{ symbol: 'k', color: value }} size="text-4xl sm:text-5xl" />}
+                </span>
+                <span className="text-xs sm:text-sm font-medium">{label}</span>
+              </Label>
+            ))}
+          </RadioGroup>
+        )}
+        {mode !== 'spectate' && (
+          <div className="space-y-2 pb-2">
+            <Label htmlFor="new-game-time-control" className="text-xs sm:text-sm">Time Control</Label>
+            <Select value={timeChoice} onValueChange={setTimeChoice}>
+              <SelectTrigger id="new-game-time-control" className="text-xs sm:text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNTIMED} className="text-xs sm:text-sm">Untimed</SelectItem>
+                {CATEGORIES.map(category => (
+                  <SelectGroup key={category}>
+                    <SelectLabel className="text-xs">{TIME_CONTROL_CATEGORY_LABELS[category]}</SelectLabel>
+                    {TIME_CONTROL_PRESETS.filter(preset => preset.category === category).map(preset => (
+                      <SelectItem key={preset.id} value={preset.id} className="text-xs sm:text-sm">
+                        {describeTimeControl(preset.control)}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+                <SelectItem value={CUSTOM} className="text-xs sm:text-sm">Custom...</SelectItem>
+              </SelectContent>
+            </Select>
+            {timeChoice === CUSTOM && (
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="new-game-minutes" className="text-[10px] sm:text-xs text-muted-foreground">Minutes</Label>
+                  <Input id="new-game-minutes" type="number" min={0.5} step={0.5} value={customMinutes} onChange={(e) => setCustomMinutes(e.target.value)} className="h-8 text-xs" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="new-game-bonus" className="text-[10px] sm:text-xs text-muted-foreground">Seconds</Label>
+                  <Input id="new-game-bonus" type="number" min={0} value={customBonusSeconds} onChange={(e) => setCustomBonusSeconds(e.target.value)} className="h-8 text-xs" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="new-game-bonus-type" className="text-[10px] sm:text-xs text-muted-foreground">Per move</Label>
+                  <Select value={customBonusType} onValueChange={(value) => setCustomBonusType(value as TimeControl['bonusType'])}>
+                    <SelectTrigger id="new-game-bonus-type" className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(BONUS_TYPE_LABELS) as TimeControl['bonusType'][]).map(type => (
+                        <SelectItem key={type} value={type} className="text-xs">{BONUS_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="text-xs sm:text-sm">Cancel</Button>
+          <Button onClick={handleStart} disabled={mode !== 'spectate' && timeChoice === CUSTOM && !isCustomValid} className="text-xs sm:text-sm">Start Game</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewGameDialog;
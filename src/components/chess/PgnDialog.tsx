@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Copy, Download, Upload, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { parsePgn, type PgnGame } from '@/lib/pgn';
+
+interface PgnDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  exportPgn: string;
+  onImportGame: (game: PgnGame) => void;
+}
+
+const describeGame = (game: PgnGame, index: number): string => {
+  const white = game.tags.White && game.tags.White !== '?' ? game.tags.White : 'White';
+  const black = game.tags.Black && game.tags.Black !== '?' ? game.tags.Black : 'Black';
+  const event = game.tags.Event && game.tags.Event !== '?' ? ` · ${game.tags.Event}` : '';
+  return `${index + 1}. ${white} vs ${black} (${game.result}) · ${Math.ceil(game.moves.length / 2)} moves${event}`;
+};
+
+const PgnDialog: React.FC<PgnDialogProps> = ({ isOpen, onOpenChange, exportPgn, onImportGame }) => {
+  const [importText, setImportText] = useState('');
+  const [parsedGames, setParsedGames] = useState<PgnGame[] | null>(null);
+  const [selectedGameIndex, setSelectedGameIndex] = useState(0);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleParse = useCallback((text: string) => {
+    try {
+      const games = parsePgn(text);
+      setParsedGames(games);
+      setSelectedGameIndex(0);
+      setImportError(null);
+    } catch (error) {
+      setParsedGames(null);
+      setImportError(error instanceof Error ? error.message : 'Could not read PGN.');
+    }
+  }, []);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      setImportText(text);
+      handleParse(text);
+    });
+    event.target.value = '';
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportPgn);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying PGN to clipboard:", error);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([exportPgn], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'chessmastery-game.pgn';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoad = () => {
+    if (!parsedGames || !parsedGames[selectedGameIndex]) return;
+    onImportGame(parsedGames[selectedGameIndex]);
+    setImportText('');
+    setParsedGames(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">PGN</DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">Export this game or load one from a PGN file.</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="export">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="export" className="text-xs sm:text-sm">Export</TabsTrigger>
+            <TabsTrigger value="import" className="text-xs sm:text-sm">Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-2 sm:space-y-3">
+            <Textarea readOnly value={exportPgn} className="h-56 font-mono text-xs" />
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={handleCopy} className="text-xs sm:text-sm">
+                <Copy className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> {copied ? 'Copied!' : 'Copy'}
+              </Button>
+              <Button variant="outline" onClick={handleDownload} className="text-xs sm:text-sm">
+                <Download className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Download .pgn
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-2 sm:space-y-3">
+            <Textarea
+              value={importText}
+              onChange={(e) => { setImportText(e.target.value); setParsedGames(null); setImportError(null); }}
+              placeholder={'[Event "..."]\n\n1. e4 e5 2. Nf3 ...'}
+              className="h-40 font-mono text-xs"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" asChild className="text-xs sm:text-sm cursor-pointer">
+                <label>
+                  <Upload className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Open File
+                  <input type="file" accept=".pgn,text/plain" className="hidden" onChange={handleFileChange} />
+                </label>
+              </Button>
+              <Button variant="outline" onClick={() => handleParse(importText)} disabled={!importText.trim()} className="text-xs sm:text-sm">
+                Read PGN
+              </Button>
+            </div>
+
+            {importError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle className="text-sm">Invalid PGN</AlertTitle>
+                <AlertDescription className="text-xs">{importError}</AlertDescription>
+              </Alert>
+            )}
+
+            {parsedGames && (
+              <>
+                {parsedGames.length > 1 && (
+                  <ScrollArea className="h-32 rounded-md border p-1">
+                    {parsedGames.map((game, index) => (
+                      <button
+                        key={index}
+                        type="button"
+                        onClick={() => setSelectedGameIndex(index)}
+                        className={cn(
+                          "w-full text-left text-xs px-2 py-1 rounded-sm hover:bg-accent/10",
+                          index === selectedGameIndex && "bg-primary/10 font-semibold"
+                        )}
+                      >
+                        {describeGame(game, index)}
+                      </button>
+                    ))}
+                  </ScrollArea>
+                )}
+                {parsedGames.length === 1 && (
+                  <p className="text-xs text-muted-foreground">{describeGame(parsedGames[0], 0)}</p>
+                )}
+                <Button onClick={handleLoad} className="w-full text-xs sm:text-sm">Load Game</Button>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PgnDialog;
@@ -0,0 +1,366 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { Eraser, Trash2, RotateCcw, AlertCircle } from 'lucide-react';
+import type { Board, Piece, PieceColor, PieceSymbol, Square } from '@/types/chess';
+import {
+  INITIAL_FEN,
+  fenToBoard,
+  boardToFen,
+  coordsToSquare,
+  squareToCoords,
+  getAvailableCastlingRights,
+  getFenSyntaxError,
+  validatePosition,
+} from '@/lib/chess-logic';
+import PieceComponent from './PieceComponent';
+import { cn } from '@/lib/utils';
+
+interface PositionSetupDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentFen: string; // Position the editor starts from
+  onStartPosition: (fen: string, playerColor: PieceColor) => void;
+}
+
+type EditorTool = Piece | 'erase';
+
+const PALETTE_SYMBOLS: PieceSymbol[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+const CASTLING_OPTIONS = [
+  { right: 'K', label: 'White O-O' },
+  { right: 'Q', label: 'White O-O-O' },
+  { right: 'k', label: 'Black O-O' },
+  { right: 'q', label: 'Black O-O-O' },
+];
+const NO_EN_PASSANT = '-';
+const DRAG_DATA_TYPE = 'application/x-chess-setup';
+
+const emptyBoard = (): Board => Array(8).fill(null).map(() => Array(8).fill(null));
+
+// Squares directly behind an enemy pawn that could just have advanced two squares.
+const getEnPassantCandidates = (board: Board, turn: PieceColor): Square[] => {
+  const pawnRow = turn === 'w' ? 3 : 4;
+  const targetRow = turn === 'w' ? 2 : 5;
+  const originRow = turn === 'w' ? 1 : 6;
+  const candidates: Square[] = [];
+  for (let c = 0; c < 8; c++) {
+    const pawn = board[pawnRow][c];
+    if (pawn && pawn.symbol === 'p' && pawn.color !== turn && !board[targetRow][c] && !board[originRow][c]) {
+      candidates.push(coordsToSquare(targetRow, c));
+    }
+  }
+  return candidates;
+};
+
+const PositionSetupDialog: React.FC<PositionSetupDialogProps> = ({ isOpen, onOpenChange, currentFen, onStartPosition }) => {
+  const [editorBoard, setEditorBoard] = useState<Board>(emptyBoard);
+  const [sideToMove, setSideToMove] = useState<PieceColor>('w');
+  const [castling, setCastling] = useState<string>('');
+  const [enPassant, setEnPassant] = useState<string>(NO_EN_PASSANT);
+  const [moveCounters, setMoveCounters] = useState<{ halfmove: number; fullmove: number }>({ halfmove: 0, fullmove: 1 });
+  const [playAs, setPlayAs] = useState<PieceColor>('w');
+  const [tool, setTool] = useState<EditorTool>({ symbol: 'p', color: 'w' });
+  const [fenInput, setFenInput] = useState<string>('');
+  const [fenInputError, setFenInputError] = useState<string | null>(null);
+
+  const loadFenIntoEditor = useCallback((fen: string) => {
+    const parsed = fenToBoard(fen);
+    setEditorBoard(parsed.board);
+    setSideToMove(parsed.turn);
+    setCastling(parsed.castling === '-' ? '' : parsed.castling);
+    setEnPassant(parsed.enPassant ?? NO_EN_PASSANT);
+    setMoveCounters({ halfmove: parsed.halfmove, fullmove: parsed.fullmove });
+    setPlayAs(parsed.turn);
+    setFenInputError(null);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) loadFenIntoEditor(currentFen);
+  }, [isOpen, currentFen, loadFenIntoEditor]);
+
+  // Drop rights and en passant squares that the edited board no longer supports.
+  const availableCastling = useMemo(() => getAvailableCastlingRights(editorBoard), [editorBoard]);
+  const enPassantCandidates = useMemo(() => getEnPassantCandidates(editorBoard, sideToMove), [editorBoard, sideToMove]);
+  const effectiveCastling = [...castling].filter(right => availableCastling.includes(right)).join('');
+  const effectiveEnPassant = enPassantCandidates.includes(enPassant) ? enPassant : null;
+
+  const editorFen = boardToFen(editorBoard, sideToMove, effectiveCastling || '-', effectiveEnPassant, moveCounters.halfmove, moveCounters.fullmove);
+  const validationErrors = useMemo(
+    () => validatePosition(editorBoard, sideToMove, effectiveCastling, effectiveEnPassant),
+    [editorBoard, sideToMove, effectiveCastling, effectiveEnPassant]
+  );
+
+  useEffect(() => {
+    setFenInput(editorFen);
+  }, [editorFen]);
+
+  const placePiece = (square: Square, piece: Piece | null) => {
+    const { row, col } = squareToCoords(square);
+    setEditorBoard(prev => {
+      const next = prev.map(r => [...r]);
+      next[row][col] = piece;
+      return next;
+    });
+  };
+
+  const handleSquareClick = (square: Square) => {
+    const { row, col } = squareToCoords(square);
+    const existing = editorBoard[row][col];
+    if (tool === 'erase') {
+      placePiece(square, null);
+    } else if (existing && existing.symbol === tool.symbol && existing.color === tool.color) {
+      placePiece(square, null); // Clicking the same piece again clears the square
+    } else {
+      placePiece(square, tool);
+    }
+  };
+
+  const handleDragStart = (event: React.DragEvent, payload: { piece: Piece; fromSquare?: Square }) => {
+    event.dataTransfer.setData(DRAG_DATA_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = payload.fromSquare ? 'move' : 'copy';
+  };
+
+  const handleDrop = (event: React.DragEvent, square: Square) => {
+    event.preventDefault();
+    const data = event.dataTransfer.getData(DRAG_DATA_TYPE);
+    if (!data) return;
+    const { piece, fromSquare } = JSON.parse(data) as { piece: Piece; fromSquare?: Square };
+    if (fromSquare === square) return;
+    setEditorBoard(prev => {
+      const next = prev.map(r => [...r]);
+      if (fromSquare) {
+        const from = squareToCoords(fromSquare);
+        next[from.row][from.col] = null;
+      }
+      const to = squareToCoords(square);
+      next[to.row][to.col] = piece;
+      return next;
+    });
+  };
+
+  // A board piece dragged off the board is removed.
+  const handleBoardPieceDragEnd = (event: React.DragEvent, square: Square) => {
+    if (event.dataTransfer.dropEffect === 'none') placePiece(square, null);
+  };
+
+  const handleLoadFen = () => {
+    const syntaxError = getFenSyntaxError(fenInput);
+    if (syntaxError) {
+      setFenInputError(syntaxError);
+      return;
+    }
+    loadFenIntoEditor(fenInput.trim());
+  };
+
+  const toggleCastling = (right: string, checked: boolean) => {
+    setCastling(prev => checked ? [...'KQkq'].filter(r => r === right || prev.includes(r)).join('') : prev.replace(right, ''));
+  };
+
+  const handleStart = () => {
+    if (validationErrors.length > 0) return;
+    onStartPosition(editorFen, playAs);
+  };
+
+  const renderSquares = () => {
+    const squares = [];
+    for (let r = 0; r < 8; r++) {
+      for (let c = 0; c < 8; c++) {
+        const square = coordsToSquare(r, c);
+        const piece = editorBoard[r][c];
+        squares.push(
+          <div
+            key={square}
+            className={cn(
+              "aspect-square flex items-center justify-center cursor-pointer",
+              (r + c) % 2 === 0 ? "bg-board-light-square" : "bg-board-dark-square",
+              effectiveEnPassant === square && "ring-2 ring-inset ring-highlight-hint/70"
+            )}
+            onClick={() => handleSquareClick(square)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, square)}
+            role="button"
+            aria-label={`Square ${square}`}
+          >
+            {piece && (
+              <span
+                draggable
+                onDragStart={(e) => handleDragStart(e, { piece, fromSquare: square })}
+                onDragEnd={(e) => handleBoardPieceDragEnd(e, square)}
+                className="h-full w-full"
+              >
+                <PieceComponent piece={piece} size="text-3xl sm:text-4xl leading-none" />
+              </span>
+            )}
+          </div>
+        );
+      }
+    }
+    return squares;
+  };
+
+  const renderPaletteRow = (color: PieceColor) => (
+    <div className="flex gap-1">
+      {PALETTE_SYMBOLS.map(symbol => {
+        const piece: Piece = { symbol, color };
+        const isActive = tool !== 'erase' && tool.symbol === symbol && tool.color === color;
+        return (
+          <button
+            key={`${color}${symbol}`}
+            type="button"
+            draggable
+            onDragStart={(e) => handleDragStart(e, { piece })}
+            onClick={() => setTool(piece)}
+            className={cn(
+              "h-9 w-9 sm:h-10 sm:w-10 rounded-md border flex items-center justify-center hover:bg-accent/10",
+              isActive && "border-primary bg-primary/10"
+            )}
+            aria-label={`${color === 'w' ? 'White' : 'Black'} ${symbol}`}
+          >
+            <PieceComponent piece={piece} size="text-2xl sm:text-3xl leading-none" />
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[95vh] overflow-y-auto p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">Set Up Position</DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Paste a FEN, or drag pieces onto the board. Click a square to place the selected piece; drag a piece off the board to remove it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_220px]">
+          <div className="space-y-2">
+            {renderPaletteRow('b')}
+            <div className="grid grid-cols-8 w-full aspect-square rounded-md overflow-hidden border-2 border-card shadow-md">
+              {renderSquares()}
+            </div>
+            {renderPaletteRow('w')}
+          </div>
+
+          <div className="space-y-3 text-xs sm:text-sm">
+            <div className="grid grid-cols-3 gap-1">
+              <Button variant={tool === 'erase' ? 'secondary' : 'outline'} size="sm" onClick={() => setTool('erase')} className="text-xs" title="Eraser">
+                <Eraser className="h-3 w-3 sm:h-4 sm:w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setEditorBoard(emptyBoard())} className="text-xs" title="Clear board">
+                <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => loadFenIntoEditor(INITIAL_FEN)} className="text-xs" title="Starting position">
+                <RotateCcw className="h-3 w-3 sm:h-4 sm:w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs font-semibold">Side to move</Label>
+              <RadioGroup value={sideToMove} onValueChange={(value) => setSideToMove(value as PieceColor)} className="flex gap-4">
+                <div className="flex items-center gap-1.5">
+                  <RadioGroupItem value="w" id="setup-turn-w" />
+                  <Label htmlFor="setup-turn-w" className="text-xs">White</Label>
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <RadioGroupItem value="b" id="setup-turn-b" />
+                  <Label htmlFor="setup-turn-b" className="text-xs">Black</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs font-semibold">Castling rights</Label>
+              <div className="grid grid-cols-2 gap-1.5">
+                {CASTLING_OPTIONS.map(({ right, label }) => (
+                  <div key={right} className="flex items-center gap-1.5">
+                    <Checkbox
+                      id={`setup-castling-${right}`}
+                      checked={effectiveCastling.includes(right)}
+                      disabled={!availableCastling.includes(right)}
+                      onCheckedChange={(checked) => toggleCastling(right, checked === true)}
+                    />
+                    <Label htmlFor={`setup-castling-${right}`} className="text-xs">{label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs font-semibold">En passant square</Label>
+              <Select value={effectiveEnPassant ?? NO_EN_PASSANT} onValueChange={setEnPassant} disabled={enPassantCandidates.length === 0}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_EN_PASSANT} className="text-xs">None</SelectItem>
+                  {enPassantCandidates.map(square => (
+                    <SelectItem key={square} value={square} className="text-xs">{square}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs font-semibold">You play</Label>
+              <RadioGroup value={playAs} onValueChange={(value) => setPlayAs(value as PieceColor)} className="flex gap-4">
+                <div className="flex items-center gap-1.5">
+                  <RadioGroupItem value="w" id="setup-play-w" />
+                  <Label htmlFor="setup-play-w" className="text-xs">White</Label>
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <RadioGroupItem value="b" id="setup-play-b" />
+                  <Label htmlFor="setup-play-b" className="text-xs">Black</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="setup-fen" className="text-xs font-semibold">FEN</Label>
+          <div className="flex gap-2">
+            <Input
+              id="setup-fen"
+              value={fenInput}
+              onChange={(e) => { setFenInput(e.target.value); setFenInputError(null); }}
+              className="h-8 font-mono text-xs"
+              spellCheck={false}
+            />
+            <Button variant="outline" size="sm" onClick={handleLoadFen} disabled={fenInput.trim() === editorFen} className="text-xs">
+              Load FEN
+            </Button>
+          </div>
+          {fenInputError && <p className="text-xs text-destructive">{fenInputError}</p>}
+        </div>
+
+        {validationErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle className="text-sm">Illegal position</AlertTitle>
+            <AlertDescription className="text-xs">
+              <ul className="list-disc pl-4 space-y-0.5">
+                {validationErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="text-xs sm:text-sm">Cancel</Button>
+          <Button onClick={handleStart} disabled={validationErrors.length > 0} className="text-xs sm:text-sm">Play From Position</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PositionSetupDialog;
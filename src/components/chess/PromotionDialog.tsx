@@ -10,10 +10,13 @@ interface PromotionDialogProps {
   isOpen: boolean;
   onSelectPiece: (piece: PieceSymbol) => void;
   playerColor: PieceColor;
+  options?: PieceSymbol[]; // Legal promotion pieces for the pending move
 }
 
-const PromotionDialog: React.FC<PromotionDialogProps> = ({ isOpen, onSelectPiece, playerColor }) => {
-  const promotionPieces: PieceSymbol[] = ['q', 'r', 'b', 'n'];
+const ALL_PROMOTION_PIECES: PieceSymbol[] = ['q', 'r', 'b', 'n'];
+
+const PromotionDialog: React.FC<PromotionDialogProps> = ({ isOpen, onSelectPiece, playerColor, options }) => {
+  const promotionPieces = ALL_PROMOTION_PIECES.filter(symbol => !options?.length || options.includes(symbol));
 
   return (
     <Dialog open={isOpen} onOpenChange={() => { /* Controlled externally */ }}>
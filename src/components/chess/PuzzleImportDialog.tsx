@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Trash2, Upload } from 'lucide-react';
+import { parsePuzzleCsv, type Puzzle, type PuzzleCsvResult } from '@/lib/puzzles';
+
+interface PuzzleImportDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  importedCount: number; // Puzzles imported earlier and still stored
+  onImport: (puzzles: Puzzle[]) => void;
+  onClearImported: () => void;
+}
+
+const MAX_LISTED_SKIPPED_ROWS = 5;
+
+const PuzzleImportDialog: React.FC<PuzzleImportDialogProps> = ({ isOpen, onOpenChange, importedCount, onImport, onClearImported }) => {
+  const [csvText, setCsvText] = useState('');
+  const [parsed, setParsed] = useState<PuzzleCsvResult | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCsvText('');
+    setParsed(null);
+  }, [isOpen]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      setCsvText(text);
+      setParsed(parsePuzzleCsv(text));
+    });
+    event.target.value = '';
+  };
+
+  const handleImport = () => {
+    if (!parsed || parsed.puzzles.length === 0) return;
+    onImport(parsed.puzzles);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">Import Puzzles</DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            CSV in the Lichess puzzle database layout: PuzzleId, FEN, Moves (UCI), Rating and Themes, with or without the header row.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={csvText}
+          onChange={(e) => { setCsvText(e.target.value); setParsed(null); }}
+          placeholder={'PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags\n00sHx,q3k1nr/1pp1nQpp/3p4/1P2p3/4P3/B1PP1b2/B5PP/5K2 b k - 0 17,e8d7 a2e6 d7d8 f7f8,1760,...'}
+          className="h-40 font-mono text-xs"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" asChild className="text-xs sm:text-sm cursor-pointer">
+            <label>
+              <Upload className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Open File
+              <input type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleFileChange} />
+            </label>
+          </Button>
+          <Button variant="outline" onClick={() => setParsed(parsePuzzleCsv(csvText))} disabled={!csvText.trim()} className="text-xs sm:text-sm">
+            Read CSV
+          </Button>
+        </div>
+
+        {parsed && parsed.skipped.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle className="text-sm">{parsed.skipped.length === 1 ? '1 row skipped' : `${parsed.skipped.length} rows skipped`}</AlertTitle>
+            <AlertDescription className="text-xs space-y-0.5">
+              {parsed.skipped.slice(0, MAX_LISTED_SKIPPED_ROWS).map(row => (
+                <p key={row.line}>Line {row.line}: {row.reason}</p>
+              ))}
+              {parsed.skipped.length > MAX_LISTED_SKIPPED_ROWS && <p>...</p>}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {parsed && (
+          <Button onClick={handleImport} disabled={parsed.puzzles.length === 0} className="w-full text-xs sm:text-sm">
+            {parsed.puzzles.length === 1 ? 'Import 1 Puzzle' : `Import ${parsed.puzzles.length} Puzzles`}
+          </Button>
+        )}
+
+        {importedCount > 0 && (
+          <Button variant="ghost" onClick={onClearImported} className="w-full text-xs sm:text-sm text-muted-foreground">
+            <Trash2 className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Remove {importedCount === 1 ? '1 imported puzzle' : `${importedCount} imported puzzles`}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PuzzleImportDialog;
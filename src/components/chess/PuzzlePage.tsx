@@ -0,0 +1,561 @@
+// src/components/chess/PuzzlePage.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import ChessboardComponent from './ChessboardComponent';
+import AiTutorPanel from './AiTutorPanel';
+import PromotionDialog from './PromotionDialog';
+import PuzzleImportDialog from './PuzzleImportDialog';
+import AppNav from './AppNav';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CheckCircle2, Eye, Loader, RotateCcw, SkipForward, Trash2, Upload, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fenToBoard, getCheckedKingSquare, getLegalMoveList, getPieceAtSquare } from '@/lib/chess-logic';
+import type { Move, PieceSymbol, Square } from '@/types/chess';
+import { aiTutorAnalysis, type AiTutorAnalysisOutput } from '@/ai/flows/ai-tutor-analysis';
+import {
+  clearSavedPuzzles,
+  createPuzzleProgress,
+  formatPuzzleTheme,
+  getBundledPuzzles,
+  getMistakeQueue,
+  getPuzzleLine,
+  getPuzzleThemes,
+  isPuzzleMoveCorrect,
+  listSavedPuzzles,
+  listScannedGameIds,
+  pickNextPuzzle,
+  playPuzzleMove,
+  recordPuzzleResult,
+  saveGamePuzzles,
+  savePuzzles,
+  type Puzzle,
+  type PuzzleLineMove,
+  type PuzzleProgress,
+} from '@/lib/puzzles';
+import { generateGamePuzzles, getPlayerColors } from '@/lib/puzzle-generator';
+import { listLibraryGames, type LibraryGame } from '@/lib/game-library';
+import { useToast } from '@/hooks/use-toast';
+
+// A player move off the stored line: a mistake, or an alternative mate that also solves the puzzle.
+interface OffLineMove extends PuzzleLineMove {
+  isCorrect: boolean;
+}
+
+// "All" is the bundled and imported sets; "mistakes" the unsolved puzzles from the player's own games.
+type PuzzleCollection = 'all' | 'mistakes';
+
+const PROGRESS_STORAGE_KEY = 'chessMasteryPuzzleProgress';
+const ALL_THEMES = 'all';
+const MOVE_DELAY_MS = 600;
+const TUTOR_DIFFICULTY = 'intermediate';
+
+function loadProgress(): PuzzleProgress {
+  try {
+    const saved = localStorage.getItem(PROGRESS_STORAGE_KEY);
+    return saved ? { ...createPuzzleProgress(), ...JSON.parse(saved) } : createPuzzleProgress();
+  } catch (error) {
+    console.error("Error loading puzzle progress from localStorage:", error);
+    return createPuzzleProgress();
+  }
+}
+
+function getCollectionPuzzles(collection: PuzzleCollection, puzzles: Puzzle[], progress: PuzzleProgress): Puzzle[] {
+  return collection === 'mistakes' ? getMistakeQueue(puzzles, progress) : puzzles.filter(p => p.source !== 'game');
+}
+
+function mergePuzzles(existing: Puzzle[], added: Puzzle[]): Puzzle[] {
+  const addedIds = new Set(added.map(p => p.id));
+  return [...existing.filter(p => !addedIds.has(p.id)), ...added];
+}
+
+const PuzzlePage: React.FC = () => {
+  const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
+  const [progress, setProgress] = useState<PuzzleProgress>(createPuzzleProgress);
+  const [collection, setCollection] = useState<PuzzleCollection>('all');
+  const [theme, setTheme] = useState<string>(ALL_THEMES);
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [ply, setPly] = useState(0); // Moves of the line shown on the board
+  const [offLineMove, setOffLineMove] = useState<OffLineMove | null>(null);
+  const [hasFailed, setHasFailed] = useState(false);
+  const [isShowingSolution, setIsShowingSolution] = useState(false);
+  const [ratingChange, setRatingChange] = useState<number | null>(null);
+
+  const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
+  const [selectedLegalMoves, setSelectedLegalMoves] = useState<Move[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square; options: PieceSymbol[] } | null>(null);
+
+  const [playerMoveAnalysis, setPlayerMoveAnalysis] = useState<AiTutorAnalysisOutput | null>(null);
+  const [isLoadingTutor, setIsLoadingTutor] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [scanProgress, setScanProgress] = useState<{ game: number; games: number; fraction: number } | null>(null);
+  const scanRunIdRef = useRef(0);
+  const { toast } = useToast();
+
+  const line = useMemo(() => puzzle ? getPuzzleLine(puzzle) : [], [puzzle]);
+  const playerColor = line.length > 0 ? fenToBoard(line[0].fenAfter).turn : 'w';
+  const isSolved = !!puzzle && (ply === line.length || !!offLineMove?.isCorrect);
+  const isFinished = isSolved || isShowingSolution;
+  const isPlayerTurn = !!puzzle && ply % 2 === 1 && !offLineMove && !isFinished;
+
+  const displayedFen = offLineMove ? offLineMove.fenAfter : ply === 0 ? puzzle?.fen : line[ply - 1].fenAfter;
+  const lastMove = offLineMove ?? (ply > 0 ? line[ply - 1] : null);
+  const position = useMemo(() => displayedFen ? fenToBoard(displayedFen) : null, [displayedFen]);
+  const collectionPuzzles = useMemo(() => getCollectionPuzzles(collection, puzzles, progress), [collection, puzzles, progress]);
+  const themes = useMemo(() => getPuzzleThemes(collectionPuzzles), [collectionPuzzles]);
+  const importedCount = puzzles.filter(p => p.source === 'imported').length;
+  const gamePuzzleCount = puzzles.filter(p => p.source === 'game').length;
+  const mistakeCount = useMemo(() => getMistakeQueue(puzzles, progress).length, [puzzles, progress]);
+
+  const startPuzzle = useCallback((next: Puzzle | null) => {
+    setPuzzle(next);
+    setPly(0);
+    setOffLineMove(null);
+    setHasFailed(false);
+    setIsShowingSolution(false);
+    setRatingChange(null);
+    setPlayerMoveAnalysis(null);
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+  }, []);
+
+  useEffect(() => {
+    const loadedProgress = loadProgress();
+    setProgress(loadedProgress);
+    const bundled = getBundledPuzzles();
+    setPuzzles(bundled);
+    startPuzzle(pickNextPuzzle(bundled, loadedProgress));
+    listSavedPuzzles()
+      .then(saved => {
+        if (saved.length > 0) setPuzzles([...bundled, ...saved]);
+      })
+      .catch(error => console.error("Error loading saved puzzles:", error));
+    return () => { scanRunIdRef.current++; };
+  }, [startPuzzle]);
+
+  // Puzzles found by a scan start the mistakes queue as soon as they arrive.
+  useEffect(() => {
+    if (collection !== 'mistakes' || puzzle) return;
+    const next = pickNextPuzzle(getMistakeQueue(puzzles, progress), progress);
+    if (next) startPuzzle(next);
+  }, [collection, puzzle, puzzles, progress, startPuzzle]);
+
+  const updateProgress = useCallback((next: PuzzleProgress) => {
+    setProgress(next);
+    try {
+      localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error("Error saving puzzle progress to localStorage:", error);
+    }
+  }, []);
+
+  // Rates the first result only: solving after a mistake or after seeing the solution does not count.
+  // A clean solve on a later visit still takes a puzzle off the mistakes queue.
+  const recordResult = useCallback((solved: boolean) => {
+    if (!puzzle) return;
+    const result = recordPuzzleResult(progress, puzzle, solved);
+    if (result.progress === progress) return;
+    updateProgress(result.progress);
+    setRatingChange(result.ratingChange);
+  }, [puzzle, progress, updateProgress]);
+
+  // The opponent's moves, and the whole rest of the line when the solution is shown, play themselves.
+  useEffect(() => {
+    if (!puzzle || offLineMove || ply >= line.length) return;
+    if (ply % 2 === 1 && !isShowingSolution) return;
+    const timeout = setTimeout(() => setPly(prev => prev + 1), MOVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [puzzle, offLineMove, ply, line.length, isShowingSolution]);
+
+  const explainMistake = useCallback(async (move: OffLineMove) => {
+    setIsLoadingTutor(true);
+    try {
+      const result = await aiTutorAnalysis({
+        boardState: move.fenAfter,
+        boardStateBeforeLastMove: move.fenBefore,
+        currentTurn: playerColor === 'w' ? 'b' : 'w',
+        lastPlayerMove: move.san,
+        lastMoveMadeByWhite: playerColor === 'w',
+        lastMoveMadeByBlack: playerColor === 'b',
+        difficultyLevel: TUTOR_DIFFICULTY,
+      });
+      setPlayerMoveAnalysis(result);
+    } catch (error) {
+      console.error("Error explaining puzzle mistake:", error);
+      toast({ title: "Error", description: "The tutor could not explain this move. Please try again.", variant: "destructive" });
+    } finally {
+      setIsLoadingTutor(false);
+    }
+  }, [playerColor, toast]);
+
+  const playMove = useCallback((from: Square, to: Square, promotion?: PieceSymbol) => {
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+    if (!isPlayerTurn || !position) return;
+    const move = { from, to, promotion };
+    const correct = isPuzzleMoveCorrect(line, ply, move);
+    const expected = line[ply];
+
+    if (correct && expected.from === from && expected.to === to && expected.promotion === promotion) {
+      setPly(ply + 1);
+      if (ply + 1 === line.length && !hasFailed) recordResult(true);
+      return;
+    }
+
+    const played: OffLineMove = { ...playPuzzleMove(line[ply - 1].fenAfter, move), isCorrect: correct };
+    setOffLineMove(played);
+    if (correct) {
+      if (!hasFailed) recordResult(true);
+      return;
+    }
+    if (!hasFailed) recordResult(false);
+    setHasFailed(true);
+    explainMistake(played);
+  }, [isPlayerTurn, position, line, ply, hasFailed, recordResult, explainMistake]);
+
+  const handleSquareClick = useCallback((square: Square) => {
+    if (!isPlayerTurn || !position) return;
+    const pieceOnClickedSquare = getPieceAtSquare(position.board, square);
+
+    if (selectedSquare) {
+      const movesToSquare = selectedLegalMoves.filter(move => move.to === square);
+      if (movesToSquare.length > 0) {
+        if (movesToSquare.some(move => move.promotion)) {
+          setPendingPromotion({ from: selectedSquare, to: square, options: movesToSquare.map(move => move.promotion!) });
+          return;
+        }
+        playMove(selectedSquare, square);
+        return;
+      }
+    }
+    if (pieceOnClickedSquare && pieceOnClickedSquare.color === position.turn && square !== selectedSquare) {
+      setSelectedSquare(square);
+      setSelectedLegalMoves(getLegalMoveList(position.board, position.turn, position.castling, position.enPassant, square));
+    } else {
+      setSelectedSquare(null);
+      setSelectedLegalMoves([]);
+    }
+  }, [isPlayerTurn, position, selectedSquare, selectedLegalMoves, playMove]);
+
+  const handlePromotionSelect = (pieceSymbol: PieceSymbol) => {
+    if (pendingPromotion) playMove(pendingPromotion.from, pendingPromotion.to, pieceSymbol);
+    setPendingPromotion(null);
+  };
+
+  const handleRetry = () => {
+    setOffLineMove(null);
+    setPlayerMoveAnalysis(null);
+  };
+
+  const handleShowSolution = () => {
+    if (!hasFailed) recordResult(false);
+    setHasFailed(true);
+    setOffLineMove(null);
+    setIsShowingSolution(true);
+  };
+
+  const handleNextPuzzle = useCallback(() => {
+    const next = pickNextPuzzle(collectionPuzzles, progress, { theme: theme === ALL_THEMES ? undefined : theme, excludeId: puzzle?.id });
+    if (!next) {
+      const description = collection === 'mistakes' ? "No other puzzle from your games is waiting." : "No other puzzle matches this theme.";
+      toast({ title: "No Puzzles", description });
+      return;
+    }
+    startPuzzle(next);
+  }, [collectionPuzzles, collection, progress, theme, puzzle, startPuzzle, toast]);
+
+  const handleThemeChange = (value: string) => {
+    setTheme(value);
+    const next = pickNextPuzzle(collectionPuzzles, progress, { theme: value === ALL_THEMES ? undefined : value });
+    if (next) startPuzzle(next);
+  };
+
+  // Reviews finished games that were not searched yet; each game's puzzles join the queue as soon as it is done.
+  const scanGames = useCallback(async () => {
+    const runId = ++scanRunIdRef.current;
+    const isCancelled = () => runId !== scanRunIdRef.current;
+    let pending: LibraryGame[];
+    try {
+      const [games, scannedIds] = await Promise.all([listLibraryGames(), listScannedGameIds()]);
+      const scanned = new Set(scannedIds);
+      pending = games.filter(game => game.status === 'finished' && !scanned.has(game.id) && getPlayerColors(game).length > 0);
+    } catch (error) {
+      console.error("Error listing games to scan:", error);
+      return;
+    }
+    if (pending.length === 0 || isCancelled()) return;
+
+    let foundCount = 0;
+    for (const [index, game] of pending.entries()) {
+      const updateScanProgress = (fraction: number) => {
+        if (!isCancelled()) setScanProgress({ game: index + 1, games: pending.length, fraction });
+      };
+      updateScanProgress(0);
+      let found: Puzzle[] | null;
+      try {
+        found = await generateGamePuzzles(game, { onProgress: (analysed, total) => updateScanProgress(analysed / total), isCancelled });
+      } catch (error) {
+        // A game whose record cannot be read is marked as scanned rather than retried every time.
+        console.error("Error finding puzzles in game:", error);
+        found = [];
+      }
+      if (!found) return;
+      try {
+        await saveGamePuzzles(game.id, found);
+      } catch (error) {
+        console.error("Error saving puzzles from game:", error);
+        setScanProgress(null);
+        toast({ title: "Could Not Save Puzzles", description: (error as Error).message, variant: "destructive" });
+        return;
+      }
+      const gamePuzzles = found;
+      foundCount += gamePuzzles.length;
+      if (gamePuzzles.length > 0) setPuzzles(prev => mergePuzzles(prev, gamePuzzles));
+    }
+    if (isCancelled()) return;
+    setScanProgress(null);
+    toast({
+      title: "Games Scanned",
+      description: foundCount === 0 ? "No missed tactics found." : foundCount === 1 ? "1 new puzzle from your games." : `${foundCount} new puzzles from your games.`,
+    });
+  }, [toast]);
+
+  const handleStopScan = () => {
+    scanRunIdRef.current++;
+    setScanProgress(null);
+  };
+
+  const handleCollectionChange = (value: string) => {
+    const next = value as PuzzleCollection;
+    setCollection(next);
+    setTheme(ALL_THEMES);
+    startPuzzle(pickNextPuzzle(getCollectionPuzzles(next, puzzles, progress), progress));
+    if (next === 'mistakes' && !scanProgress) scanGames();
+  };
+
+  const handleClearGamePuzzles = () => {
+    clearSavedPuzzles('game')
+      .then(() => {
+        setPuzzles(prev => prev.filter(p => p.source !== 'game'));
+        if (puzzle?.source === 'game') startPuzzle(null);
+        toast({ title: "Puzzles From Your Games Removed", description: "Your games will be scanned again next time." });
+      })
+      .catch(error => {
+        console.error("Error removing puzzles from games:", error);
+        toast({ title: "Could Not Remove Puzzles", description: (error as Error).message, variant: "destructive" });
+      });
+  };
+
+  const handleImport = (imported: Puzzle[]) => {
+    savePuzzles(imported)
+      .then(() => {
+        setPuzzles(prev => mergePuzzles(prev, imported));
+        setIsImportOpen(false);
+        toast({ title: "Puzzles Imported", description: imported.length === 1 ? '1 puzzle added.' : `${imported.length} puzzles added.` });
+      })
+      .catch(error => {
+        console.error("Error saving imported puzzles:", error);
+        toast({ title: "Could Not Import Puzzles", description: (error as Error).message, variant: "destructive" });
+      });
+  };
+
+  const handleClearImported = () => {
+    clearSavedPuzzles('imported')
+      .then(() => {
+        setPuzzles(prev => prev.filter(p => p.source !== 'imported'));
+        setTheme(ALL_THEMES);
+        setIsImportOpen(false);
+        if (puzzle?.source === 'imported') startPuzzle(pickNextPuzzle(getBundledPuzzles(), progress));
+        toast({ title: "Imported Puzzles Removed" });
+      })
+      .catch(error => {
+        console.error("Error removing imported puzzles:", error);
+        toast({ title: "Could Not Remove Puzzles", description: (error as Error).message, variant: "destructive" });
+      });
+  };
+
+  const sideName = playerColor === 'w' ? 'White' : 'Black';
+  let statusText: string;
+  if (!puzzle && collection === 'mistakes') {
+    statusText = scanProgress
+      ? 'Looking for missed tactics in your games...'
+      : 'No missed tactics waiting. Finish more games against the computer to find some.';
+  } else if (!puzzle) statusText = 'No puzzle available.';
+  else if (isSolved && !hasFailed) statusText = 'Solved!';
+  else if (isSolved || (isShowingSolution && ply === line.length)) statusText = 'Puzzle complete.';
+  else if (isShowingSolution) statusText = 'Showing the solution...';
+  else if (offLineMove) statusText = `${offLineMove.san} is not the answer. Try again, or see the solution.`;
+  else if (ply === 0) statusText = 'Watch the opponent\'s move...';
+  else if (isPlayerTurn && ply === 1 && puzzle.playedMove) statusText = `In your game you played ${puzzle.playedMove}. Find the better move for ${sideName}.`;
+  else if (isPlayerTurn) statusText = ply === 1 ? `Find the best move for ${sideName}.` : 'Keep going: find the next move.';
+  else statusText = 'Opponent to move...';
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-1 sm:p-2 md:p-4 flex flex-col min-h-screen">
+      <header className="mb-1 sm:mb-2 text-center">
+        <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-primary">Tactics Puzzles</h1>
+        <p className="text-xs sm:text-sm text-muted-foreground">Find the winning sequence; the tutor explains what went wrong.</p>
+        <AppNav />
+      </header>
+
+      <div className="flex flex-col lg:flex-row gap-2 sm:gap-3 md:gap-4 mt-2 sm:mt-3 flex-grow items-stretch">
+        <div
+          className="w-full lg:flex-1 lg:max-w-[calc(100vh-15rem)] xl:max-w-[calc(100vh-12rem)] 2xl:max-w-[calc(100vh-10rem)]
+                     max-w-[98vw] sm:max-w-[95vw] mx-auto lg:mx-0
+                     flex justify-center items-start aspect-square"
+        >
+          {position && (
+            <div className="w-full">
+              <ChessboardComponent
+                board={position.board}
+                onSquareClick={handleSquareClick}
+                selectedSquare={selectedSquare}
+                validMoves={selectedLegalMoves.map(move => move.to)}
+                lastMove={lastMove ? { from: lastMove.from, to: lastMove.to } : null}
+                isPlayerTurn={isPlayerTurn}
+                orientation={playerColor}
+                kingInCheckSquare={getCheckedKingSquare(position.board, position.turn)}
+              />
+            </div>
+          )}
+        </div>
+
+        <aside className="w-full lg:w-[22rem] xl:w-[24rem] 2xl:w-[26rem] flex-shrink-0 flex flex-col gap-2 sm:gap-3 mt-2 sm:mt-3 lg:mt-0">
+          <Card>
+            <CardContent className="p-3 sm:p-4 space-y-2 sm:space-y-3">
+              <Tabs value={collection} onValueChange={handleCollectionChange}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="all" className="text-xs sm:text-sm">All Puzzles</TabsTrigger>
+                  <TabsTrigger value="mistakes" className="text-xs sm:text-sm">
+                    Your Mistakes{mistakeCount > 0 && ` (${mistakeCount})`}
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {scanProgress && (
+                <div className="space-y-1.5">
+                  <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+                    <Loader className="h-4 w-4 shrink-0 animate-spin" />
+                    <span className="flex-1">Reviewing game {scanProgress.game} of {scanProgress.games} for missed tactics… {Math.round(scanProgress.fraction * 100)}%</span>
+                    <Button variant="ghost" size="sm" onClick={handleStopScan} className="h-7 px-2 text-xs">Stop</Button>
+                  </div>
+                  <Progress value={scanProgress.fraction * 100} className="h-2" />
+                </div>
+              )}
+
+              <div className="flex items-baseline justify-between gap-2">
+                <p className="text-xs sm:text-sm text-muted-foreground">Your puzzle rating</p>
+                <p className="text-lg sm:text-xl font-bold">
+                  {progress.rating}
+                  {ratingChange !== null && ratingChange !== 0 && (
+                    <span className={cn("ml-1.5 text-xs sm:text-sm font-semibold", ratingChange > 0 ? "text-green-600 dark:text-green-400" : "text-destructive")}>
+                      {ratingChange > 0 ? `+${ratingChange}` : ratingChange}
+                    </span>
+                  )}
+                </p>
+              </div>
+
+              <div className="flex gap-1.5">
+                <Select value={theme} onValueChange={handleThemeChange}>
+                  <SelectTrigger className="flex-1 min-w-0 text-xs sm:text-sm h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_THEMES} className="text-xs sm:text-sm">All themes</SelectItem>
+                    {themes.map(value => (
+                      <SelectItem key={value} value={value} className="text-xs sm:text-sm">{formatPuzzleTheme(value)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setIsImportOpen(true)} title="Import puzzles">
+                  <Upload className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <p className={cn(
+                "flex items-center gap-1.5 text-sm sm:text-base font-medium",
+                isSolved && !hasFailed && "text-green-600 dark:text-green-400",
+                offLineMove && !offLineMove.isCorrect && "text-destructive"
+              )}>
+                {isSolved && !hasFailed && <CheckCircle2 className="h-4 w-4 shrink-0" />}
+                {offLineMove && !offLineMove.isCorrect && <XCircle className="h-4 w-4 shrink-0" />}
+                {statusText}
+              </p>
+
+              {puzzle && isFinished && (
+                <div className="space-y-1.5">
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    {puzzle.source === 'game' ? 'From one of your games' : `Puzzle ${puzzle.id}`} · rated {puzzle.rating}
+                    {puzzle.gameUrl && (
+                      <> · <a href={puzzle.gameUrl} target="_blank" rel="noreferrer" className="underline hover:text-foreground">source game</a></>
+                    )}
+                  </p>
+                  {puzzle.themes.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {puzzle.themes.map(value => (
+                        <Badge key={value} variant="secondary" className="text-[10px] sm:text-xs">{formatPuzzleTheme(value)}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                {offLineMove && !offLineMove.isCorrect ? (
+                  <Button variant="outline" onClick={handleRetry} className="text-xs sm:text-sm">
+                    <RotateCcw className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Retry
+                  </Button>
+                ) : (
+                  <Button variant="outline" onClick={handleShowSolution} disabled={!puzzle || isFinished || ply === 0} className="text-xs sm:text-sm">
+                    <Eye className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Solution
+                  </Button>
+                )}
+                <Button onClick={handleNextPuzzle} disabled={puzzles.length === 0} className="text-xs sm:text-sm">
+                  <SkipForward className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Next Puzzle
+                </Button>
+              </div>
+              {offLineMove && !offLineMove.isCorrect && (
+                <Button variant="ghost" onClick={handleShowSolution} className="w-full text-xs sm:text-sm">
+                  <Eye className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Show Solution
+                </Button>
+              )}
+              {collection === 'mistakes' && gamePuzzleCount > 0 && !scanProgress && (
+                <Button variant="ghost" onClick={handleClearGamePuzzles} className="w-full text-xs sm:text-sm text-muted-foreground">
+                  <Trash2 className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Forget puzzles from your games
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex-grow min-h-[200px] sm:min-h-[250px] lg:min-h-0 lg:flex-1">
+            <AiTutorPanel playerMoveAnalysis={playerMoveAnalysis} isLoading={isLoadingTutor} />
+          </div>
+        </aside>
+      </div>
+
+      {position && (
+        <PromotionDialog
+          isOpen={pendingPromotion !== null}
+          onSelectPiece={handlePromotionSelect}
+          playerColor={position.turn}
+          options={pendingPromotion?.options}
+        />
+      )}
+
+      <PuzzleImportDialog
+        isOpen={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        importedCount={importedCount}
+        onImport={handleImport}
+        onClearImported={handleClearImported}
+      />
+    </div>
+  );
+};
+
+export default PuzzlePage;
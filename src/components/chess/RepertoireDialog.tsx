@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Upload } from 'lucide-react';
+import type { PieceColor } from '@/types/chess';
+import PieceComponent from './PieceComponent';
+
+interface RepertoireDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: 'create' | 'import'; // Import adds PGN lines to the open repertoire
+  repertoireName?: string; // The open repertoire, named in import mode
+  // Throws with a message to show when the PGN cannot be used.
+  onSubmit: (details: { name: string; color: PieceColor; pgn: string }) => void;
+}
+
+const RepertoireDialog: React.FC<RepertoireDialogProps> = ({ isOpen, onOpenChange, mode, repertoireName, onSubmit }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<PieceColor>('w');
+  const [pgn, setPgn] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName('');
+    setPgn('');
+    setError(null);
+  }, [isOpen]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      setPgn(text);
+      setError(null);
+      if (mode === 'create' && !name.trim()) setName(file.name.replace(/\.pgn$/i, ''));
+    });
+    event.target.value = '';
+  };
+
+  const handleSubmit = () => {
+    try {
+      onSubmit({ name: name.trim(), color, pgn });
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Could not read PGN.');
+    }
+  };
+
+  const canSubmit = mode === 'create' ? name.trim().length > 0 : pgn.trim().length > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">{mode === 'create' ? 'New Repertoire' : 'Import PGN'}</DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            {mode === 'create'
+              ? 'Name the repertoire and pick the side you play. PGN lines are optional; you can also add moves on the board.'
+              : `Lines, variations and comments are merged into "${repertoireName}".`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === 'create' && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="repertoire-name" className="text-xs sm:text-sm">Name</Label>
+              <Input id="repertoire-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. 1. e4 for White" />
+            </div>
+            <RadioGroup
+              value={color}
+              onValueChange={(value) => setColor(value as PieceColor)}
+              className="grid grid-cols-2 gap-2 sm:gap-3"
+            >
+              {(['w', 'b'] as PieceColor[]).map(value => (
+                <Label
+                  key={value}
+                  htmlFor={`repertoire-color-${value}`}
+                  className="flex flex-col items-center gap-1.5 rounded-md border p-2 sm:p-3 cursor-pointer hover:bg-accent/10 [&:has([data-state=checked])]:border-primary"
+                >
+                  <RadioGroupItem id={`repertoire-color-${value}`} value={value} className="sr-only" />
+                  <PieceComponent piece={{ symbol: 'k', color: value }} size="text-4xl sm:text-5xl" />
+                  <span className="text-xs sm:text-sm font-medium">As {value === 'w' ? 'White' : 'Black'}</span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Textarea
+            value={pgn}
+            onChange={(e) => { setPgn(e.target.value); setError(null); }}
+            placeholder={'1. e4 e5 (1... c5 2. Nf3) 2. Nf3 Nc6 3. Bb5 *'}
+            className="h-32 font-mono text-xs"
+          />
+          <Button variant="outline" asChild className="w-full text-xs sm:text-sm cursor-pointer">
+            <label>
+              <Upload className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Open PGN File
+              <input type="file" accept=".pgn,text/plain" className="hidden" onChange={handleFileChange} />
+            </label>
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle className="text-sm">Invalid PGN</AlertTitle>
+            <AlertDescription className="text-xs">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={!canSubmit} className="w-full text-xs sm:text-sm">
+            {mode === 'create' ? 'Create Repertoire' : 'Import Lines'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RepertoireDialog;
@@ -0,0 +1,544 @@
+// src/components/chess/RepertoirePage.tsx
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import ChessboardComponent from './ChessboardComponent';
+import MoveHistory from './MoveHistory';
+import AiTutorPanel from './AiTutorPanel';
+import PromotionDialog from './PromotionDialog';
+import RepertoireDialog from './RepertoireDialog';
+import AppNav from './AppNav';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle2, FlipVertical, GraduationCap, Play, Plus, SkipForward, Trash2, Upload, XCircle } from 'lucide-react';
+import {
+  INITIAL_FEN,
+  fenToBoard,
+  getCheckedKingSquare,
+  getLegalMoveList,
+  getPieceAtSquare,
+  moveToSan,
+} from '@/lib/chess-logic';
+import type { Move, PieceColor, PieceSymbol, Square } from '@/types/chess';
+import { aiTutorAnalysis, type AiTutorAnalysisOutput } from '@/ai/flows/ai-tutor-analysis';
+import {
+  canDemoteVariation,
+  canPromoteVariation,
+  deleteFromNode,
+  demoteVariation,
+  getNodePath,
+  promoteVariation,
+  type MoveTree,
+} from '@/lib/move-tree';
+import { formatOpeningName, identifyOpening } from '@/lib/openings';
+import {
+  addRepertoireMove,
+  createRepertoire,
+  deleteRepertoire,
+  getRepertoireStats,
+  getTrainingLine,
+  gradeRepertoireMove,
+  importPgnIntoRepertoire,
+  isRepertoireMove,
+  listRepertoires,
+  saveRepertoire,
+  updateRepertoireTree,
+  type Repertoire,
+  type RepertoirePosition,
+} from '@/lib/repertoire';
+import { useToast } from '@/hooks/use-toast';
+
+type PageMode = 'build' | 'train';
+
+// One line being drilled: `index` moves of `line` have been played on the board.
+interface TrainingSession {
+  line: string[];
+  index: number;
+  missedNodeIds: string[]; // Moves answered wrongly in this line; the player still has to play them
+}
+
+const OPPONENT_MOVE_DELAY_MS = 600;
+const TUTOR_DIFFICULTY = 'intermediate';
+
+// Just the moves played so far, so the move list does not give away the rest of the line while training.
+function getPlayedLineTree(tree: MoveTree<RepertoirePosition>, nodeId: string): MoveTree<RepertoirePosition> {
+  const path = getNodePath(tree, nodeId);
+  const nodes = Object.fromEntries(path.map((node, i) => [node.id, { ...node, children: path[i + 1] ? [path[i + 1].id] : [] }]));
+  return { rootId: tree.rootId, nodes };
+}
+
+const RepertoirePage: React.FC = () => {
+  const [repertoires, setRepertoires] = useState<Repertoire[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [mode, setMode] = useState<PageMode>('build');
+  const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
+  const [orientation, setOrientation] = useState<PieceColor>('w');
+
+  const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
+  const [selectedLegalMoves, setSelectedLegalMoves] = useState<Move[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square; options: PieceSymbol[] } | null>(null);
+
+  const [training, setTraining] = useState<TrainingSession | null>(null);
+  const [sessionScore, setSessionScore] = useState({ correct: 0, missed: 0 });
+
+  const [explanation, setExplanation] = useState<{ nodeId: string; analysis: AiTutorAnalysisOutput } | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+
+  const [dialogMode, setDialogMode] = useState<'create' | 'import' | null>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const { toast } = useToast();
+
+  const repertoire = repertoires.find(r => r.id === selectedId) ?? null;
+  const nodeId = repertoire && currentNodeId && repertoire.tree.nodes[currentNodeId] ? currentNodeId : repertoire?.tree.rootId ?? null;
+  const node = repertoire && nodeId ? repertoire.tree.nodes[nodeId] : null;
+  const position = useMemo(() => fenToBoard(node?.data.fen ?? INITIAL_FEN), [node]);
+
+  const selectRepertoire = useCallback((next: Repertoire | null) => {
+    setSelectedId(next?.id ?? null);
+    setCurrentNodeId(next?.tree.rootId ?? null);
+    setOrientation(next?.color ?? 'w');
+    setTraining(null);
+    setExplanation(null);
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+  }, []);
+
+  useEffect(() => {
+    listRepertoires()
+      .then(loaded => {
+        setRepertoires(loaded);
+        selectRepertoire(loaded[0] ?? null);
+      })
+      .catch(error => {
+        console.error("Error loading repertoires:", error);
+        toast({ title: "Repertoires Unavailable", description: (error as Error).message, variant: "destructive" });
+      })
+      .finally(() => setIsLoaded(true));
+  }, [selectRepertoire, toast]);
+
+  // Shows the change at once and stores it in the background.
+  const commitRepertoire = useCallback((next: Repertoire) => {
+    setRepertoires(prev => prev.some(r => r.id === next.id) ? prev.map(r => r.id === next.id ? next : r) : [...prev, next].sort((a, b) => a.name.localeCompare(b.name)));
+    saveRepertoire(next).catch(error => {
+      console.error("Error saving repertoire:", error);
+      toast({ title: "Could Not Save Repertoire", description: (error as Error).message, variant: "destructive" });
+    });
+  }, [toast]);
+
+  const stats = useMemo(() => repertoire ? getRepertoireStats(repertoire) : null, [repertoire]);
+
+  const expectedNodeId = training && training.index < training.line.length ? training.line[training.index] : null;
+  const isAwaitingPlayer = !!repertoire && !!expectedNodeId && isRepertoireMove(repertoire, expectedNodeId);
+  const isRetrying = isAwaitingPlayer && training!.missedNodeIds.includes(expectedNodeId!);
+  const isLineComplete = !!training && training.index === training.line.length;
+  const canMove = !!repertoire && (mode === 'build' || isAwaitingPlayer);
+
+  const startTraining = useCallback((includeNotDue = false) => {
+    if (!repertoire) return;
+    const line = getTrainingLine(repertoire, Date.now(), includeNotDue);
+    if (!line) {
+      toast({ title: "Nothing to Review", description: "Every move in this repertoire is scheduled for later." });
+      return;
+    }
+    setTraining({ line, index: 0, missedNodeIds: [] });
+    setCurrentNodeId(repertoire.tree.rootId);
+    setOrientation(repertoire.color);
+    setExplanation(null);
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+  }, [repertoire, toast]);
+
+  // The opponent's side of the line is played for the trainee.
+  useEffect(() => {
+    if (!training || !repertoire || !expectedNodeId || isAwaitingPlayer) return;
+    const timeout = setTimeout(() => {
+      setTraining(prev => prev && { ...prev, index: prev.index + 1 });
+      setCurrentNodeId(expectedNodeId);
+    }, OPPONENT_MOVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [training, repertoire, expectedNodeId, isAwaitingPlayer]);
+
+  const handleTrainingMove = useCallback((move: { from: Square; to: Square; promotion?: PieceSymbol }) => {
+    if (!repertoire || !training || !expectedNodeId || !nodeId) return;
+    const expected = repertoire.tree.nodes[expectedNodeId];
+    const san = moveToSan(position.board, position.turn, position.castling, position.enPassant, move);
+    const now = Date.now();
+
+    if (san === expected.san) {
+      // Only the first attempt counts, and moves not yet due keep their schedule.
+      if (!training.missedNodeIds.includes(expectedNodeId)) {
+        const card = repertoire.cards[expectedNodeId];
+        if (!card || card.dueAt <= now) commitRepertoire(gradeRepertoireMove(repertoire, expectedNodeId, true, now));
+        setSessionScore(prev => ({ ...prev, correct: prev.correct + 1 }));
+      }
+      setTraining({ ...training, index: training.index + 1 });
+      setCurrentNodeId(expectedNodeId);
+      return;
+    }
+
+    const isOtherPreparedMove = repertoire.tree.nodes[nodeId].children.some(childId => repertoire.tree.nodes[childId].san === san);
+    if (isOtherPreparedMove) {
+      toast({ title: "Also in Your Repertoire", description: `This line continues with ${expected.san}. Try again.` });
+      return;
+    }
+    if (!training.missedNodeIds.includes(expectedNodeId)) {
+      commitRepertoire(gradeRepertoireMove(repertoire, expectedNodeId, false, now));
+      setSessionScore(prev => ({ ...prev, missed: prev.missed + 1 }));
+      setTraining({ ...training, missedNodeIds: [...training.missedNodeIds, expectedNodeId] });
+    }
+    toast({ title: `${san} Is Not Your Prepared Move`, description: `Play ${expected.san}, shown on the board. It will come back for review soon.`, variant: "destructive" });
+  }, [repertoire, training, expectedNodeId, nodeId, position, commitRepertoire, toast]);
+
+  const playMove = useCallback((from: Square, to: Square, promotion?: PieceSymbol) => {
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+    if (!repertoire || !nodeId) return;
+    if (mode === 'train') {
+      handleTrainingMove({ from, to, promotion });
+      return;
+    }
+    const added = addRepertoireMove(repertoire, nodeId, { from, to, promotion });
+    if (added.repertoire !== repertoire) commitRepertoire(added.repertoire);
+    setCurrentNodeId(added.nodeId);
+  }, [repertoire, nodeId, mode, handleTrainingMove, commitRepertoire]);
+
+  const handleSquareClick = useCallback((square: Square) => {
+    if (!canMove) return;
+    const pieceOnClickedSquare = getPieceAtSquare(position.board, square);
+
+    if (selectedSquare) {
+      const movesToSquare = selectedLegalMoves.filter(move => move.to === square);
+      if (movesToSquare.length > 0) {
+        if (movesToSquare.some(move => move.promotion)) {
+          setPendingPromotion({ from: selectedSquare, to: square, options: movesToSquare.map(move => move.promotion!) });
+          return;
+        }
+        playMove(selectedSquare, square);
+        return;
+      }
+    }
+    if (pieceOnClickedSquare && pieceOnClickedSquare.color === position.turn && square !== selectedSquare) {
+      setSelectedSquare(square);
+      setSelectedLegalMoves(getLegalMoveList(position.board, position.turn, position.castling, position.enPassant, square));
+    } else {
+      setSelectedSquare(null);
+      setSelectedLegalMoves([]);
+    }
+  }, [canMove, position, selectedSquare, selectedLegalMoves, playMove]);
+
+  const handlePromotionSelect = (pieceSymbol: PieceSymbol) => {
+    if (pendingPromotion) playMove(pendingPromotion.from, pendingPromotion.to, pieceSymbol);
+    setPendingPromotion(null);
+  };
+
+  const handleModeChange = (value: string) => {
+    setMode(value as PageMode);
+    setTraining(null);
+    setExplanation(null);
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+    if (repertoire) setCurrentNodeId(repertoire.tree.rootId);
+  };
+
+  const handleSelectNode = useCallback((id: string) => {
+    setCurrentNodeId(id);
+    setSelectedSquare(null);
+    setSelectedLegalMoves([]);
+  }, []);
+
+  const handlePromoteVariation = useCallback(() => {
+    if (repertoire && nodeId) commitRepertoire(updateRepertoireTree(repertoire, promoteVariation(repertoire.tree, nodeId)));
+  }, [repertoire, nodeId, commitRepertoire]);
+
+  const handleDemoteVariation = useCallback(() => {
+    if (repertoire && nodeId) commitRepertoire(updateRepertoireTree(repertoire, demoteVariation(repertoire.tree, nodeId)));
+  }, [repertoire, nodeId, commitRepertoire]);
+
+  const handleDeleteFromMove = useCallback(() => {
+    if (!repertoire || !node?.parentId) return;
+    setCurrentNodeId(node.parentId);
+    commitRepertoire(updateRepertoireTree(repertoire, deleteFromNode(repertoire.tree, node.id)));
+  }, [repertoire, node, commitRepertoire]);
+
+  // Left and right step through the repertoire while building it.
+  useEffect(() => {
+    if (mode !== 'build' || !repertoire || !node) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (dialogMode || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const targetId = event.key === 'ArrowLeft' ? node.parentId : event.key === 'ArrowRight' ? node.children[0] : null;
+      if (!targetId) return;
+      event.preventDefault();
+      handleSelectNode(targetId);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mode, repertoire, node, dialogMode, handleSelectNode]);
+
+  const opening = useMemo(() => {
+    if (!repertoire || !nodeId) return undefined;
+    const { opening } = identifyOpening(getNodePath(repertoire.tree, nodeId).slice(1).map(pathNode => pathNode.san!));
+    return opening ?? undefined;
+  }, [repertoire, nodeId]);
+
+  const handleExplain = useCallback(async () => {
+    if (!repertoire || !node?.parentId) return;
+    const parent = repertoire.tree.nodes[node.parentId];
+    const mover = fenToBoard(parent.data.fen).turn;
+    setIsExplaining(true);
+    try {
+      const analysis = await aiTutorAnalysis({
+        boardState: node.data.fen,
+        boardStateBeforeLastMove: parent.data.fen,
+        currentTurn: mover === 'w' ? 'b' : 'w',
+        lastPlayerMove: node.san!,
+        lastMoveMadeByWhite: mover === 'w',
+        lastMoveMadeByBlack: mover === 'b',
+        difficultyLevel: TUTOR_DIFFICULTY,
+        openingName: opening && formatOpeningName(opening),
+      });
+      setExplanation({ nodeId: node.id, analysis });
+    } catch (error) {
+      console.error("Error explaining repertoire move:", error);
+      toast({ title: "Error", description: "The tutor could not explain this move. Please try again.", variant: "destructive" });
+    } finally {
+      setIsExplaining(false);
+    }
+  }, [repertoire, node, opening, toast]);
+
+  const handleDialogSubmit = ({ name, color, pgn }: { name: string; color: PieceColor; pgn: string }) => {
+    // Errors from the PGN propagate to the dialog, which shows them.
+    if (dialogMode === 'create') {
+      let created = createRepertoire(name, color);
+      if (pgn.trim()) created = importPgnIntoRepertoire(created, pgn).repertoire;
+      commitRepertoire(created);
+      selectRepertoire(created);
+      setMode('build');
+      toast({ title: "Repertoire Created", description: `"${name}" as ${color === 'w' ? 'White' : 'Black'}.` });
+    } else if (repertoire) {
+      const { repertoire: merged, addedMoves } = importPgnIntoRepertoire(repertoire, pgn);
+      commitRepertoire(merged);
+      toast({ title: "PGN Imported", description: addedMoves === 1 ? '1 new move added.' : `${addedMoves} new moves added.` });
+    }
+    setDialogMode(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!repertoire) return;
+    try {
+      await deleteRepertoire(repertoire.id);
+      const remaining = repertoires.filter(r => r.id !== repertoire.id);
+      setRepertoires(remaining);
+      selectRepertoire(remaining[0] ?? null);
+      toast({ title: "Repertoire Deleted", description: `"${repertoire.name}" was removed.` });
+    } catch (error) {
+      console.error("Error deleting repertoire:", error);
+      toast({ title: "Could Not Delete Repertoire", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const validMoves = selectedLegalMoves.map(move => move.to);
+  const expectedMove = isRetrying ? repertoire!.tree.nodes[expectedNodeId!].data.lastMove : null;
+  const moveListTree = repertoire && nodeId ? (mode === 'train' ? getPlayedLineTree(repertoire.tree, nodeId) : repertoire.tree) : null;
+  const analysedMoveColor = node?.parentId && repertoire && !isRepertoireMove(repertoire, node.id) ? fenToBoard(repertoire.tree.nodes[node.parentId].data.fen).turn : null;
+
+  let trainingStatus: string;
+  if (!training) trainingStatus = 'Drill the lines due for review. The opponent\'s moves are played for you.';
+  else if (isLineComplete) trainingStatus = 'Line complete.';
+  else if (isRetrying) trainingStatus = 'Play the prepared move shown on the board.';
+  else if (isAwaitingPlayer) trainingStatus = 'Your move: play your prepared reply.';
+  else trainingStatus = 'Opponent to move...';
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-1 sm:p-2 md:p-4 flex flex-col min-h-screen">
+      <header className="mb-1 sm:mb-2 text-center">
+        <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-primary">Opening Repertoire</h1>
+        <p className="text-xs sm:text-sm text-muted-foreground">Build your openings and drill them until they stick.</p>
+        <AppNav />
+      </header>
+
+      <div className="flex flex-col lg:flex-row gap-2 sm:gap-3 md:gap-4 mt-2 sm:mt-3 flex-grow items-stretch">
+        <div
+          className="w-full lg:flex-1 lg:max-w-[calc(100vh-15rem)] xl:max-w-[calc(100vh-12rem)] 2xl:max-w-[calc(100vh-10rem)]
+                     max-w-[98vw] sm:max-w-[95vw] mx-auto lg:mx-0
+                     flex justify-center items-start aspect-square"
+        >
+          <div className="w-full">
+            <ChessboardComponent
+              board={position.board}
+              onSquareClick={handleSquareClick}
+              selectedSquare={selectedSquare}
+              validMoves={validMoves}
+              lastMove={node?.data.lastMove ?? null}
+              isPlayerTurn={canMove}
+              orientation={orientation}
+              kingInCheckSquare={getCheckedKingSquare(position.board, position.turn)}
+              highlightedHintSquares={expectedMove}
+            />
+          </div>
+        </div>
+
+        <aside className="w-full lg:w-[22rem] xl:w-[24rem] 2xl:w-[26rem] flex-shrink-0 flex flex-col gap-2 sm:gap-3 mt-2 sm:mt-3 lg:mt-0">
+          <Card>
+            <CardContent className="p-3 sm:p-4 space-y-2 sm:space-y-3">
+              <div className="flex gap-1.5">
+                <Select value={selectedId ?? undefined} onValueChange={(id) => selectRepertoire(repertoires.find(r => r.id === id) ?? null)}>
+                  <SelectTrigger className="flex-1 min-w-0 text-xs sm:text-sm h-9" disabled={repertoires.length === 0}>
+                    <SelectValue placeholder={isLoaded ? 'No repertoires yet' : 'Loading...'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {repertoires.map(r => (
+                      <SelectItem key={r.id} value={r.id} className="text-xs sm:text-sm">
+                        {r.name} ({r.color === 'w' ? 'White' : 'Black'})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setDialogMode('create')} title="New repertoire">
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setDialogMode('import')} disabled={!repertoire} title="Import PGN">
+                  <Upload className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setOrientation(prev => prev === 'w' ? 'b' : 'w')} title="Flip board">
+                  <FlipVertical className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setIsDeleteOpen(true)} disabled={!repertoire} title="Delete repertoire">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <Tabs value={mode} onValueChange={handleModeChange}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="build" className="text-xs sm:text-sm" disabled={!repertoire}>Build</TabsTrigger>
+                  <TabsTrigger value="train" className="text-xs sm:text-sm" disabled={!repertoire}>Train</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {!repertoire ? (
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  {isLoaded ? 'Create a repertoire or import one from PGN to get started.' : 'Loading repertoires...'}
+                </p>
+              ) : mode === 'build' ? (
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  Play moves on the board to add them. Moves for {repertoire.color === 'w' ? 'White' : 'Black'} are the ones you will be drilled on.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {stats && (
+                    <p className="text-xs sm:text-sm">
+                      <span className="font-semibold text-primary">{stats.due}</span> due · <span className="font-semibold">{stats.unseen}</span> new · {stats.total} moves
+                      {stats.due === 0 && stats.unseen === 0 && stats.nextDueAt !== null && (
+                        <span className="block text-muted-foreground">Next review {new Date(stats.nextDueAt).toLocaleString()}</span>
+                      )}
+                    </p>
+                  )}
+                  <p className="text-xs sm:text-sm text-muted-foreground">{trainingStatus}</p>
+                  {(sessionScore.correct > 0 || sessionScore.missed > 0) && (
+                    <p className="flex gap-3 text-xs sm:text-sm">
+                      <span className="flex items-center gap-1 text-green-600 dark:text-green-400"><CheckCircle2 className="h-3.5 w-3.5" /> {sessionScore.correct}</span>
+                      <span className="flex items-center gap-1 text-destructive"><XCircle className="h-3.5 w-3.5" /> {sessionScore.missed}</span>
+                    </p>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      onClick={() => startTraining()}
+                      disabled={!stats || stats.due + stats.unseen === 0}
+                      className="text-xs sm:text-sm"
+                    >
+                      {training ? <SkipForward className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> : <Play className="mr-2 h-3 w-3 sm:h-4 sm:w-4" />}
+                      {training ? 'Next Line' : 'Start'}
+                    </Button>
+                    <Button variant="outline" onClick={() => startTraining(true)} disabled={!stats || stats.total === 0} className="text-xs sm:text-sm">
+                      <GraduationCap className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Practice Anyway
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {node?.comment && (mode === 'build' || !isAwaitingPlayer) && (
+                <p className="text-xs sm:text-sm italic border-l-2 pl-2">{node.comment}</p>
+              )}
+              {repertoire && (
+                <Button
+                  variant="outline"
+                  onClick={handleExplain}
+                  disabled={!node?.parentId || isExplaining}
+                  className="w-full text-xs sm:text-sm"
+                >
+                  Explain {node?.san ?? 'Move'}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex-grow min-h-[200px] sm:min-h-[250px] lg:min-h-0 lg:flex-1">
+            <AiTutorPanel
+              playerMoveAnalysis={explanation && explanation.nodeId === nodeId ? explanation.analysis : null}
+              isLoading={isExplaining}
+              analysedMoveColor={analysedMoveColor}
+            />
+          </div>
+          {moveListTree && nodeId && (
+            <div className="flex-grow min-h-[100px] sm:min-h-[120px] md:min-h-[150px] lg:min-h-0 lg:flex-1 max-h-[20vh] lg:max-h-[30vh]">
+              <MoveHistory
+                tree={moveListTree}
+                currentNodeId={nodeId}
+                startingTurn="w"
+                startingMoveNumber={1}
+                opening={opening}
+                onSelectNode={mode === 'build' ? handleSelectNode : undefined}
+                onPromoteVariation={mode === 'build' && canPromoteVariation(moveListTree, nodeId) ? handlePromoteVariation : undefined}
+                onDemoteVariation={mode === 'build' && canDemoteVariation(moveListTree, nodeId) ? handleDemoteVariation : undefined}
+                onDeleteFromMove={mode === 'build' ? handleDeleteFromMove : undefined}
+              />
+            </div>
+          )}
+        </aside>
+      </div>
+
+      <PromotionDialog
+        isOpen={pendingPromotion !== null}
+        onSelectPiece={handlePromotionSelect}
+        playerColor={position.turn}
+        options={pendingPromotion?.options}
+      />
+
+      <RepertoireDialog
+        isOpen={dialogMode !== null}
+        onOpenChange={(open) => { if (!open) setDialogMode(null); }}
+        mode={dialogMode ?? 'create'}
+        repertoireName={repertoire?.name}
+        onSubmit={handleDialogSubmit}
+      />
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &quot;{repertoire?.name}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>Its lines and review schedule cannot be recovered.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RepertoirePage;
@@ -0,0 +1,118 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { MonitorPlay, Play, Pause, StepForward, MessageSquareText } from 'lucide-react';
+import type { PieceColor } from '@/types/chess';
+import { MIN_ENGINE_LEVEL, MAX_ENGINE_LEVEL } from '@/lib/engine-strength';
+import PieceComponent from './PieceComponent';
+
+// Pause between moves, not counting the engine's own thinking time or narration.
+export const SPECTATE_SPEEDS: { label: string; delayMs: number }[] = [
+  { label: 'Slow', delayMs: 3000 },
+  { label: 'Normal', delayMs: 1200 },
+  { label: 'Fast', delayMs: 300 },
+];
+export const DEFAULT_SPECTATE_DELAY_MS = SPECTATE_SPEEDS[1].delayMs;
+
+interface SpectateControlsProps {
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onStep: () => void;
+  canStep: boolean;
+  delayMs: number;
+  onDelayChange: (delayMs: number) => void;
+  levels: { [color in PieceColor]: number };
+  onLevelChange: (color: PieceColor, level: number) => void;
+  isNarrationOn: boolean;
+  onNarrationChange: (enabled: boolean) => void;
+  isGameOver: boolean;
+}
+
+const SpectateControls: React.FC<SpectateControlsProps> = ({
+  isPaused,
+  onTogglePause,
+  onStep,
+  canStep,
+  delayMs,
+  onDelayChange,
+  levels,
+  onLevelChange,
+  isNarrationOn,
+  onNarrationChange,
+  isGameOver,
+}) => {
+  return (
+    <Card className="shadow-lg rounded-lg">
+      <CardHeader className="pb-2 pt-3 px-3 sm:pb-3 sm:pt-4 sm:px-4">
+        <CardTitle className="text-base sm:text-lg font-semibold flex items-center">
+          <MonitorPlay className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-primary" />
+          Engine vs Engine
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 px-3 pb-3 sm:space-y-3 sm:px-4 sm:pb-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Button onClick={onTogglePause} disabled={isGameOver} className="w-full text-xs sm:text-sm">
+            {isPaused
+              ? <><Play className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Play</>
+              : <><Pause className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Pause</>}
+          </Button>
+          <Button onClick={onStep} disabled={!isPaused || !canStep || isGameOver} className="w-full text-xs sm:text-sm" variant="outline">
+            <StepForward className="mr-2 h-3 w-3 sm:h-4 sm:w-4" /> Step
+          </Button>
+        </div>
+
+        <div className="space-y-1 sm:space-y-1.5 pt-1">
+          <Label htmlFor="spectate-speed" className="text-xs sm:text-sm font-medium text-muted-foreground">Speed</Label>
+          <Select value={String(delayMs)} onValueChange={(value) => onDelayChange(Number(value))}>
+            <SelectTrigger id="spectate-speed" className="w-full text-xs sm:text-sm h-9 sm:h-10">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SPECTATE_SPEEDS.map(speed => (
+                <SelectItem key={speed.delayMs} value={String(speed.delayMs)} className="text-xs sm:text-sm">{speed.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {(['w', 'b'] as PieceColor[]).map(color => (
+          <div key={color} className="space-y-1.5 sm:space-y-2 pt-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`spectate-level-${color}`} className="text-xs sm:text-sm font-medium text-muted-foreground flex items-center gap-1">
+                <span className="h-5 w-5">
+                  <PieceComponent piece={{ symbol: 'k', color }} size="text-lg" />
+                </span>
+                {color === 'w' ? 'White' : 'Black'} Engine
+              </Label>
+              <span className="text-xs sm:text-sm font-semibold tabular-nums">Level {levels[color]}</span>
+            </div>
+            <Slider
+              id={`spectate-level-${color}`}
+              min={MIN_ENGINE_LEVEL}
+              max={MAX_ENGINE_LEVEL}
+              step={1}
+              value={[levels[color]]}
+              onValueChange={(values) => onLevelChange(color, values[0])}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between space-x-2 pt-2">
+          <Label htmlFor="spectate-narration" className="text-xs sm:text-sm font-medium text-muted-foreground flex items-center">
+            <MessageSquareText className="mr-2 h-4 w-4" />
+            Tutor Narration
+          </Label>
+          <Switch id="spectate-narration" checked={isNarrationOn} onCheckedChange={onNarrationChange} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpectateControls;
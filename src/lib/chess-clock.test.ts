@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { TimeControl } from '@/types/chess';
+import {
+  createClockState,
+  startClock,
+  pressClock,
+  stopClock,
+  getRemainingTime,
+  getTimeUntilFlag,
+  formatClockTime,
+  describeTimeControl,
+  toPgnTimeControl,
+  getEngineTimeBudget,
+} from '@/lib/chess-clock';
+
+const control = (bonusType: TimeControl['bonusType'], bonusMs = 2000): TimeControl => ({ baseMs: 60_000, bonusMs, bonusType });
+
+// White thinks for `elapsed` ms starting at t=1000, then presses the clock.
+function whiteMoveAfter(tc: TimeControl, elapsed: number) {
+  const clock = startClock(createClockState(tc), 'w', 1000);
+  return pressClock(clock, tc, 1000 + elapsed);
+}
+
+describe('clock arithmetic', () => {
+  it('adds the full increment after every move', () => {
+    const clock = whiteMoveAfter(control('increment'), 500);
+    expect(clock.remainingMs.w).toBe(61_500);
+    expect(clock.runningColor).toBe('b');
+    expect(clock.turnStartedAt).toBe(1500);
+  });
+
+  it('gives back at most the time used with Bronstein delay', () => {
+    expect(whiteMoveAfter(control('bronstein'), 500).remainingMs.w).toBe(60_000);
+    expect(whiteMoveAfter(control('bronstein'), 5000).remainingMs.w).toBe(57_000);
+  });
+
+  it('only charges time beyond the simple delay', () => {
+    const tc = control('simple-delay');
+    const clock = startClock(createClockState(tc), 'w', 0);
+    expect(getRemainingTime(clock, tc, 'w', 1500)).toBe(60_000);
+    expect(getRemainingTime(clock, tc, 'w', 5000)).toBe(57_000);
+    expect(pressClock(clock, tc, 5000).remainingMs.w).toBe(57_000);
+  });
+
+  it('reports time until the flag and freezes on stop', () => {
+    const tc = control('increment', 0);
+    const clock = startClock(createClockState(tc), 'b', 0);
+    expect(getTimeUntilFlag(clock, tc, 45_000)).toBe(15_000);
+    expect(getTimeUntilFlag(clock, tc, 90_000)).toBe(0);
+    const stopped = stopClock(clock, tc, 90_000);
+    expect(stopped.runningColor).toBeNull();
+    expect(stopped.remainingMs.b).toBe(0);
+    expect(getTimeUntilFlag(stopped, tc, 100_000)).toBeNull();
+  });
+});
+
+describe('clock formatting', () => {
+  it.each([
+    [3_909_000, '1:05:09'],
+    [299_999, '4:59'],
+    [10_000, '0:10'],
+    [9_350, '9.3'],
+    [-50, '0.0'],
+  ])('formats %i ms as %s', (ms, expected) => {
+    expect(formatClockTime(ms)).toBe(expected);
+  });
+
+  it('describes time controls for display and PGN', () => {
+    expect(describeTimeControl({ baseMs: 300_000, bonusMs: 3000, bonusType: 'increment' })).toBe('5+3');
+    expect(describeTimeControl({ baseMs: 600_000, bonusMs: 0, bonusType: 'increment' })).toBe('10 min');
+    expect(describeTimeControl({ baseMs: 300_000, bonusMs: 2000, bonusType: 'bronstein' })).toBe('5 | B2');
+    expect(toPgnTimeControl({ baseMs: 300_000, bonusMs: 3000, bonusType: 'increment' })).toBe('300+3');
+    expect(toPgnTimeControl({ baseMs: 300_000, bonusMs: 2000, bonusType: 'simple-delay' })).toBe('300');
+  });
+});
+
+describe('engine time budget', () => {
+  it('spends a share of the clock plus most of the increment', () => {
+    const tc = control('increment', 2000);
+    expect(getEngineTimeBudget(60_300, tc, 1)).toBeCloseTo(60_000 / 39 + 1600);
+  });
+
+  it('never risks the flag', () => {
+    const tc = control('increment', 10_000);
+    expect(getEngineTimeBudget(2_300, tc, 30)).toBe(1000);
+    expect(getEngineTimeBudget(100, tc, 30)).toBe(50);
+  });
+});
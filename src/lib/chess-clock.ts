@@ -0,0 +1,148 @@
+// Chess clock arithmetic for timed games. The state is a plain object stamped with wall-clock times, so
+// the UI can re-render it at any rate and it survives being saved to localStorage.
+
+import type { PieceColor, TimeControl } from '@/types/chess';
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical';
+
+export interface TimeControlPreset {
+  id: string;
+  category: TimeControlCategory;
+  control: TimeControl;
+}
+
+export interface ClockState {
+  remainingMs: { [color in PieceColor]: number }; // As of the start of the running side's turn
+  runningColor: PieceColor | null; // Null before the first move and once the game is over
+  turnStartedAt: number | null; // Date.now() when the running side's turn began
+}
+
+const MINUTE_MS = 60_000;
+const SECOND_MS = 1000;
+
+const minutesPlus = (minutes: number, incrementSeconds: number): TimeControl => ({
+  baseMs: minutes * MINUTE_MS,
+  bonusMs: incrementSeconds * SECOND_MS,
+  bonusType: 'increment',
+});
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: '1+0', category: 'bullet', control: minutesPlus(1, 0) },
+  { id: '2+1', category: 'bullet', control: minutesPlus(2, 1) },
+  { id: '3+0', category: 'blitz', control: minutesPlus(3, 0) },
+  { id: '3+2', category: 'blitz', control: minutesPlus(3, 2) },
+  { id: '5+0', category: 'blitz', control: minutesPlus(5, 0) },
+  { id: '5+3', category: 'blitz', control: minutesPlus(5, 3) },
+  { id: '10+0', category: 'rapid', control: minutesPlus(10, 0) },
+  { id: '10+5', category: 'rapid', control: minutesPlus(10, 5) },
+  { id: '15+10', category: 'rapid', control: minutesPlus(15, 10) },
+  { id: '30+0', category: 'classical', control: minutesPlus(30, 0) },
+  { id: '30+20', category: 'classical', control: minutesPlus(30, 20) },
+  { id: '90+30', category: 'classical', control: minutesPlus(90, 30) },
+];
+
+export const TIME_CONTROL_CATEGORY_LABELS: { [c in TimeControlCategory]: string } = {
+  bullet: 'Bullet',
+  blitz: 'Blitz',
+  rapid: 'Rapid',
+  classical: 'Classical',
+};
+
+const ENGINE_MIN_BUDGET_MS = 50;
+const ENGINE_SAFETY_MARGIN_MS = 300; // Left on the clock for rendering and timer jitter
+
+export function createClockState(control: TimeControl): ClockState {
+  return { remainingMs: { w: control.baseMs, b: control.baseMs }, runningColor: null, turnStartedAt: null };
+}
+
+// Time taken off the clock for `elapsedMs` of thinking; simple delay lets the first part pass for free.
+function chargedTime(control: TimeControl, elapsedMs: number): number {
+  return control.bonusType === 'simple-delay' ? Math.max(0, elapsedMs - control.bonusMs) : elapsedMs;
+}
+
+export function getRemainingTime(clock: ClockState, control: TimeControl, color: PieceColor, now: number): number {
+  if (clock.runningColor !== color || clock.turnStartedAt === null) return clock.remainingMs[color];
+  return clock.remainingMs[color] - chargedTime(control, now - clock.turnStartedAt);
+}
+
+// Milliseconds until the running side's flag falls, or null when no clock is running.
+export function getTimeUntilFlag(clock: ClockState, control: TimeControl, now: number): number | null {
+  if (!clock.runningColor) return null;
+  return Math.max(0, getRemainingTime(clock, control, clock.runningColor, now));
+}
+
+export function startClock(clock: ClockState, color: PieceColor, now: number): ClockState {
+  return { ...clock, runningColor: color, turnStartedAt: now };
+}
+
+// Ends the running side's turn after a move: charges the time used, adds the bonus and starts the other
+// side. Bronstein delay gives back the time used, up to the delay.
+export function pressClock(clock: ClockState, control: TimeControl, now: number): ClockState {
+  const mover = clock.runningColor;
+  if (!mover || clock.turnStartedAt === null) return clock;
+  const elapsed = now - clock.turnStartedAt;
+  let remaining = clock.remainingMs[mover] - chargedTime(control, elapsed);
+  if (control.bonusType === 'increment') remaining += control.bonusMs;
+  if (control.bonusType === 'bronstein') remaining += Math.min(elapsed, control.bonusMs);
+  return {
+    remainingMs: { ...clock.remainingMs, [mover]: remaining },
+    runningColor: mover === 'w' ? 'b' : 'w',
+    turnStartedAt: now,
+  };
+}
+
+// Freezes both clocks, keeping the time already used by the running side.
+export function stopClock(clock: ClockState, control: TimeControl, now: number): ClockState {
+  const running = clock.runningColor;
+  if (!running) return clock;
+  return {
+    remainingMs: { ...clock.remainingMs, [running]: Math.max(0, getRemainingTime(clock, control, running, now)) },
+    runningColor: null,
+    turnStartedAt: null,
+  };
+}
+
+// "1:05:09", "4:59", or "9.3" with tenths once under ten seconds.
+export function formatClockTime(ms: number): string {
+  const clamped = Math.max(0, ms);
+  if (clamped < 10 * SECOND_MS) return (Math.floor(clamped / 100) / 10).toFixed(1);
+  const totalSeconds = Math.floor(clamped / SECOND_MS);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+// "5+3", "10 min", "5 | d2" (simple delay) or "5 | B2" (Bronstein).
+export function describeTimeControl(control: TimeControl): string {
+  const minutes = control.baseMs / MINUTE_MS;
+  const base = Number.isInteger(minutes) ? String(minutes) : minutes.toFixed(1);
+  const bonus = control.bonusMs / SECOND_MS;
+  if (bonus === 0) return `${base} min`;
+  if (control.bonusType === 'increment') return `${base}+${bonus}`;
+  return `${base} | ${control.bonusType === 'bronstein' ? 'B' : 'd'}${bonus}`;
+}
+
+export function getTimeControlCategory(control: TimeControl): TimeControlCategory {
+  // Estimated game length assumes 40 moves, as most servers do.
+  const estimatedMs = control.baseMs + 40 * control.bonusMs;
+  if (estimatedMs < 3 * MINUTE_MS) return 'bullet';
+  if (estimatedMs < 10 * MINUTE_MS) return 'blitz';
+  if (estimatedMs < 30 * MINUTE_MS) return 'rapid';
+  return 'classical';
+}
+
+// PGN TimeControl tag value: seconds, with "+increment" when there is one. PGN has no notation for delays.
+export function toPgnTimeControl(control: TimeControl): string {
+  const base = Math.round(control.baseMs / SECOND_MS);
+  return control.bonusType === 'increment' && control.bonusMs > 0 ? `${base}+${Math.round(control.bonusMs / SECOND_MS)}` : String(base);
+}
+
+// Thinking time for the engine's next move: an even share of the clock over the moves likely still to
+// come, plus most of the per-move bonus, never risking the flag.
+export function getEngineTimeBudget(remainingMs: number, control: TimeControl, fullMoveNumber: number): number {
+  const movesToGo = Math.max(15, 40 - fullMoveNumber);
+  const usable = Math.max(0, remainingMs - ENGINE_SAFETY_MARGIN_MS);
+  const budget = usable / movesToGo + control.bonusMs * 0.8;
+  return Math.max(ENGINE_MIN_BUDGET_MS, Math.min(budget, usable / 2));
+}
@@ -0,0 +1,467 @@
+// Alpha-beta (negamax) search used by the AI opponent.
+// Takes the same Board / castling / en passant representation as chess-logic and searches on the
+// 0x88 position from chess-position with make/unmake and a Zobrist-keyed transposition table.
+
+import type { Board, PieceColor, PieceSymbol, Square } from '@/types/chess';
+import {
+  positionFromBoard,
+  generatePseudoLegalMoves,
+  generateLegalMoves,
+  makeMove,
+  unmakeMove,
+  isInCheck,
+  squareName,
+  moveFrom,
+  moveTo,
+  movePromotionType,
+  movePromotionSymbol,
+  MOVE_CAPTURE,
+  MOVE_EN_PASSANT,
+  PAWN,
+  QUEEN,
+  KING,
+  BLACK,
+  type Position,
+} from '@/lib/chess-position';
+
+export interface EnginePosition {
+  board: Board;
+  turn: PieceColor;
+  castlingRights: string;
+  enPassantTarget: string | null;
+}
+
+export interface EngineMove {
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+}
+
+export interface SearchOptions {
+  maxDepth?: number; // Deepest iteration of iterative deepening
+  timeLimitMs?: number; // Wall-clock budget; the last completed iteration is returned when it runs out
+  evalNoise?: number; // Random +/- centipawns added to leaf evaluations to weaken play
+  excludedMoves?: EngineMove[]; // Root moves left out, e.g. to find the best alternative to a move
+}
+
+export interface SearchResult {
+  bestMove: EngineMove | null;
+  score: number; // Centipawns, from the point of view of the side to move
+  mateIn: number | null; // Moves to mate (negative if the side to move is getting mated)
+  depth: number; // Last fully completed depth
+  pv: EngineMove[]; // Principal variation, starting with bestMove
+  nodes: number;
+  elapsedMs: number;
+}
+
+export const MATE_SCORE = 100000;
+const MATE_THRESHOLD = MATE_SCORE - 1000;
+const INFINITY_SCORE = MATE_SCORE + 1;
+const MAX_PLY = 64;
+const DEFAULT_MAX_DEPTH = 6;
+const DEFAULT_TIME_LIMIT_MS = 1500;
+const TIME_CHECK_INTERVAL = 256; // Nodes between clock checks
+const TT_SIZE = 1 << 18; // Transposition table entries (power of two)
+
+export const PIECE_VALUES: { [s in PieceSymbol]: number } = {
+  p: 100, n: 320, b: 330, r: 500, q: 900, k: 0,
+};
+
+// Piece-square tables from White's point of view, indexed [row][col] with row 0 = rank 8.
+// Values follow the well-known "simplified evaluation function".
+const PAWN_TABLE = [
+  [0, 0, 0, 0, 0, 0, 0, 0],
+  [50, 50, 50, 50, 50, 50, 50, 50],
+  [10, 10, 20, 30, 30, 20, 10, 10],
+  [5, 5, 10, 25, 25, 10, 5, 5],
+  [0, 0, 0, 20, 20, 0, 0, 0],
+  [5, -5, -10, 0, 0, -10, -5, 5],
+  [5, 10, 10, -20, -20, 10, 10, 5],
+  [0, 0, 0, 0, 0, 0, 0, 0],
+];
+const KNIGHT_TABLE = [
+  [-50, -40, -30, -30, -30, -30, -40, -50],
+  [-40, -20, 0, 0, 0, 0, -20, -40],
+  [-30, 0, 10, 15, 15, 10, 0, -30],
+  [-30, 5, 15, 20, 20, 15, 5, -30],
+  [-30, 0, 15, 20, 20, 15, 0, -30],
+  [-30, 5, 10, 15, 15, 10, 5, -30],
+  [-40, -20, 0, 5, 5, 0, -20, -40],
+  [-50, -40, -30, -30, -30, -30, -40, -50],
+];
+const BISHOP_TABLE = [
+  [-20, -10, -10, -10, -10, -10, -10, -20],
+  [-10, 0, 0, 0, 0, 0, 0, -10],
+  [-10, 0, 5, 10, 10, 5, 0, -10],
+  [-10, 5, 5, 10, 10, 5, 5, -10],
+  [-10, 0, 10, 10, 10, 10, 0, -10],
+  [-10, 10, 10, 10, 10, 10, 10, -10],
+  [-10, 5, 0, 0, 0, 0, 5, -10],
+  [-20, -10, -10, -10, -10, -10, -10, -20],
+];
+const ROOK_TABLE = [
+  [0, 0, 0, 0, 0, 0, 0, 0],
+  [5, 10, 10, 10, 10, 10, 10, 5],
+  [-5, 0, 0, 0, 0, 0, 0, -5],
+  [-5, 0, 0, 0, 0, 0, 0, -5],
+  [-5, 0, 0, 0, 0, 0, 0, -5],
+  [-5, 0, 0, 0, 0, 0, 0, -5],
+  [-5, 0, 0, 0, 0, 0, 0, -5],
+  [0, 0, 0, 5, 5, 0, 0, 0],
+];
+const QUEEN_TABLE = [
+  [-20, -10, -10, -5, -5, -10, -10, -20],
+  [-10, 0, 0, 0, 0, 0, 0, -10],
+  [-10, 0, 5, 5, 5, 5, 0, -10],
+  [-5, 0, 5, 5, 5, 5, 0, -5],
+  [0, 0, 5, 5, 5, 5, 0, -5],
+  [-10, 5, 5, 5, 5, 5, 0, -10],
+  [-10, 0, 5, 0, 0, 0, 0, -10],
+  [-20, -10, -10, -5, -5, -10, -10, -20],
+];
+const KING_MIDDLEGAME_TABLE = [
+  [-30, -40, -40, -50, -50, -40, -40, -30],
+  [-30, -40, -40, -50, -50, -40, -40, -30],
+  [-30, -40, -40, -50, -50, -40, -40, -30],
+  [-30, -40, -40, -50, -50, -40, -40, -30],
+  [-20, -30, -30, -40, -40, -30, -30, -20],
+  [-10, -20, -20, -20, -20, -20, -20, -10],
+  [20, 20, 0, 0, 0, 0, 20, 20],
+  [20, 30, 10, 0, 0, 10, 30, 20],
+];
+const KING_ENDGAME_TABLE = [
+  [-50, -40, -30, -20, -20, -30, -40, -50],
+  [-30, -20, -10, 0, 0, -10, -20, -30],
+  [-30, -10, 20, 30, 30, 20, -10, -30],
+  [-30, -10, 30, 40, 40, 30, -10, -30],
+  [-30, -10, 30, 40, 40, 30, -10, -30],
+  [-30, -10, 20, 30, 30, 20, -10, -30],
+  [-30, -30, 0, 0, 0, 0, -30, -30],
+  [-50, -30, -30, -30, -30, -30, -30, -50],
+];
+
+// Indexed by the chess-position piece type (1 = pawn ... 6 = king).
+const TYPE_VALUES = [0, PIECE_VALUES.p, PIECE_VALUES.n, PIECE_VALUES.b, PIECE_VALUES.r, PIECE_VALUES.q, PIECE_VALUES.k];
+const TYPE_TABLES = [[], PAWN_TABLE, KNIGHT_TABLE, BISHOP_TABLE, ROOK_TABLE, QUEEN_TABLE];
+
+// Transposition table entry bounds.
+const TT_EXACT = 1;
+const TT_LOWER = 2;
+const TT_UPPER = 3;
+
+interface TranspositionTable {
+  keyLo: Int32Array;
+  keyHi: Int32Array;
+  move: Int32Array;
+  score: Int32Array;
+  depth: Int8Array;
+  bound: Uint8Array;
+}
+
+interface SearchContext {
+  nodes: number;
+  deadline: number;
+  stopped: boolean;
+  killers: Int32Array; // Two quiet moves per ply that caused a beta cutoff
+  history: Int32Array; // Quiet move (from * 128 + to) -> cutoff bonus
+  previousPv: number[];
+  evalNoise: number;
+  excludedRootMoves: Set<number>;
+  tt: TranspositionTable;
+}
+
+function createTranspositionTable(): TranspositionTable {
+  return {
+    keyLo: new Int32Array(TT_SIZE),
+    keyHi: new Int32Array(TT_SIZE),
+    move: new Int32Array(TT_SIZE),
+    score: new Int32Array(TT_SIZE),
+    depth: new Int8Array(TT_SIZE),
+    bound: new Uint8Array(TT_SIZE),
+  };
+}
+
+function toEngineMove(move: number): EngineMove {
+  return { from: squareName(moveFrom(move)), to: squareName(moveTo(move)), promotion: movePromotionSymbol(move) };
+}
+
+// Quiescence only follows queen promotions; underpromotions matter for checks and forks, which the
+// main search sees.
+function isQuiescenceMove(move: number): boolean {
+  const promotion = movePromotionType(move);
+  return promotion === 0 || promotion === QUEEN;
+}
+
+function isEndgame(position: Position): boolean {
+  let queens = 0;
+  let minorsAndRooks = 0;
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) { sq += 7; continue; }
+    const type = position.squares[sq] & 7;
+    if (type === QUEEN) queens++;
+    else if (type && type !== PAWN && type !== KING) minorsAndRooks++;
+  }
+  return queens === 0 || (queens <= 2 && minorsAndRooks <= 2);
+}
+
+// Static evaluation in centipawns from the side to move's point of view.
+function evaluate(position: Position): number {
+  const kingTable = isEndgame(position) ? KING_ENDGAME_TABLE : KING_MIDDLEGAME_TABLE;
+  let score = 0;
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) { sq += 7; continue; }
+    const piece = position.squares[sq];
+    if (!piece) continue;
+    const type = piece & 7;
+    const isBlack = (piece & BLACK) !== 0;
+    // Tables are written for White; mirror the row for Black.
+    const tableRow = isBlack ? 7 - (sq >> 4) : sq >> 4;
+    const table = type === KING ? kingTable : TYPE_TABLES[type];
+    const value = TYPE_VALUES[type] + table[tableRow][sq & 7];
+    score += isBlack ? -value : value;
+  }
+  return position.turn === BLACK ? -score : score;
+}
+
+function capturedType(position: Position, move: number): number {
+  if (move & MOVE_EN_PASSANT) return PAWN;
+  return move & MOVE_CAPTURE ? position.squares[moveTo(move)] & 7 : 0;
+}
+
+function orderMoves(position: Position, moves: number[], ctx: SearchContext, ply: number, hashMove: number, pvMove: number): number[] {
+  const killer0 = ctx.killers[ply * 2];
+  const killer1 = ctx.killers[ply * 2 + 1];
+  const scoreOf = (move: number): number => {
+    if (move === pvMove) return 2_000_000;
+    if (move === hashMove) return 1_000_000;
+    const captured = capturedType(position, move);
+    const promotion = movePromotionType(move);
+    if (captured) {
+      // MVV-LVA: most valuable victim first, least valuable attacker as tie-break
+      return 100_000 + TYPE_VALUES[captured] * 10 - TYPE_VALUES[position.squares[moveFrom(move)] & 7] / 10 + TYPE_VALUES[promotion];
+    }
+    if (promotion === QUEEN) return 90_000;
+    if (promotion) return -100_000 + TYPE_VALUES[promotion]; // Underpromotions last
+    if (move === killer0) return 80_000;
+    if (move === killer1) return 70_000;
+    return ctx.history[moveFrom(move) * 128 + moveTo(move)];
+  };
+  return moves
+    .map(move => ({ move, order: scoreOf(move) }))
+    .sort((a, b) => b.order - a.order)
+    .map(entry => entry.move);
+}
+
+function recordCutoff(ctx: SearchContext, move: number, ply: number, depth: number): void {
+  if (move & MOVE_CAPTURE || movePromotionType(move)) return;
+  if (ctx.killers[ply * 2] !== move) {
+    ctx.killers[ply * 2 + 1] = ctx.killers[ply * 2];
+    ctx.killers[ply * 2] = move;
+  }
+  ctx.history[moveFrom(move) * 128 + moveTo(move)] += depth * depth;
+}
+
+function checkTime(ctx: SearchContext): void {
+  if (ctx.nodes % TIME_CHECK_INTERVAL === 0 && Date.now() >= ctx.deadline) {
+    ctx.stopped = true;
+  }
+}
+
+// Mate scores are stored relative to the node so they stay correct when reached at another ply.
+function scoreToTable(score: number, ply: number): number {
+  if (score >= MATE_THRESHOLD) return score + ply;
+  if (score <= -MATE_THRESHOLD) return score - ply;
+  return score;
+}
+
+function scoreFromTable(score: number, ply: number): number {
+  if (score >= MATE_THRESHOLD) return score - ply;
+  if (score <= -MATE_THRESHOLD) return score + ply;
+  return score;
+}
+
+function storeEntry(ctx: SearchContext, position: Position, depth: number, score: number, bound: number, move: number, ply: number): void {
+  const { tt } = ctx;
+  const index = position.hashLo & (TT_SIZE - 1);
+  // Keep deeper results for the same position.
+  if (tt.bound[index] && tt.keyLo[index] === position.hashLo && tt.keyHi[index] === position.hashHi && tt.depth[index] > depth) return;
+  tt.keyLo[index] = position.hashLo;
+  tt.keyHi[index] = position.hashHi;
+  tt.move[index] = move;
+  tt.score[index] = scoreToTable(score, ply);
+  tt.depth[index] = depth;
+  tt.bound[index] = bound;
+}
+
+function quiescence(position: Position, alpha: number, beta: number, ply: number, ctx: SearchContext): number {
+  ctx.nodes++;
+  checkTime(ctx);
+  if (ctx.stopped) return 0;
+
+  let standPat = evaluate(position);
+  if (ctx.evalNoise > 0) standPat += Math.round((Math.random() * 2 - 1) * ctx.evalNoise);
+  if (ply >= MAX_PLY || standPat >= beta) return standPat;
+  if (standPat > alpha) alpha = standPat;
+
+  const captures = generatePseudoLegalMoves(position, true).filter(isQuiescenceMove);
+  for (const move of orderMoves(position, captures, ctx, ply, 0, 0)) {
+    if (!makeMove(position, move)) {
+      unmakeMove(position, move);
+      continue;
+    }
+    const score = -quiescence(position, -beta, -alpha, ply + 1, ctx);
+    unmakeMove(position, move);
+    if (ctx.stopped) return 0;
+    if (score >= beta) return score;
+    if (score > alpha) alpha = score;
+  }
+  return alpha;
+}
+
+function negamax(
+  position: Position,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  pvLine: number[],
+  ctx: SearchContext
+): number {
+  const inCheck = isInCheck(position);
+  // Check extension: never drop into quiescence while in check.
+  if (inCheck && ply < MAX_PLY) depth++;
+  if (depth <= 0) return quiescence(position, alpha, beta, ply, ctx);
+
+  ctx.nodes++;
+  checkTime(ctx);
+  if (ctx.stopped) return 0;
+
+  // Bound hits may cut off; exact hits are only used for ordering so the principal variation stays whole.
+  const { tt } = ctx;
+  const index = position.hashLo & (TT_SIZE - 1);
+  let hashMove = 0;
+  if (tt.bound[index] && tt.keyLo[index] === position.hashLo && tt.keyHi[index] === position.hashHi) {
+    hashMove = tt.move[index];
+    if (ply > 0 && tt.depth[index] >= depth) {
+      const stored = scoreFromTable(tt.score[index], ply);
+      if (tt.bound[index] === TT_LOWER && stored >= beta) return stored;
+      if (tt.bound[index] === TT_UPPER && stored <= alpha) return stored;
+    }
+  }
+
+  const originalAlpha = alpha;
+  const moves = generatePseudoLegalMoves(position);
+  let bestScore = -INFINITY_SCORE;
+  let bestMove = 0;
+  let legalMoves = 0;
+  for (const move of orderMoves(position, moves, ctx, ply, hashMove, ctx.previousPv[ply] ?? 0)) {
+    if (ply === 0 && ctx.excludedRootMoves.has(move)) continue;
+    if (!makeMove(position, move)) {
+      unmakeMove(position, move);
+      continue;
+    }
+    legalMoves++;
+    const childPv: number[] = [];
+    const score = -negamax(position, depth - 1, -beta, -alpha, ply + 1, childPv, ctx);
+    unmakeMove(position, move);
+    if (ctx.stopped) return 0;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+    if (score > alpha) {
+      alpha = score;
+      pvLine.length = 0;
+      pvLine.push(move, ...childPv);
+    }
+    if (alpha >= beta) {
+      recordCutoff(ctx, move, ply, depth);
+      break;
+    }
+  }
+
+  if (legalMoves === 0) {
+    return inCheck ? -MATE_SCORE + ply : 0;
+  }
+
+  const bound = bestScore >= beta ? TT_LOWER : bestScore > originalAlpha ? TT_EXACT : TT_UPPER;
+  storeEntry(ctx, position, depth, bestScore, bound, bestMove, ply);
+  return bestScore;
+}
+
+function scoreToMateIn(score: number): number | null {
+  if (score >= MATE_THRESHOLD) return Math.ceil((MATE_SCORE - score) / 2);
+  if (score <= -MATE_THRESHOLD) return -Math.ceil((MATE_SCORE + score) / 2);
+  return null;
+}
+
+export function searchBestMove(position: EnginePosition, options: SearchOptions = {}): SearchResult {
+  const maxDepth = Math.max(1, Math.min(options.maxDepth ?? DEFAULT_MAX_DEPTH, MAX_PLY));
+  const startTime = Date.now();
+  const ctx: SearchContext = {
+    nodes: 0,
+    deadline: startTime + (options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS),
+    stopped: false,
+    killers: new Int32Array(MAX_PLY * 2 + 2),
+    history: new Int32Array(128 * 128),
+    previousPv: [],
+    evalNoise: options.evalNoise ?? 0,
+    excludedRootMoves: new Set(),
+    tt: createTranspositionTable(),
+  };
+
+  const root = positionFromBoard(position.board, position.turn, position.castlingRights, position.enPassantTarget);
+  const excluded = options.excludedMoves ?? [];
+  const isExcluded = (move: EngineMove) =>
+    excluded.some(other => other.from === move.from && other.to === move.to && (other.promotion ?? undefined) === move.promotion);
+  const rootMoves = generateLegalMoves(root).filter(move => {
+    if (!isExcluded(toEngineMove(move))) return true;
+    ctx.excludedRootMoves.add(move);
+    return false;
+  });
+  const result: SearchResult = {
+    bestMove: null,
+    score: 0,
+    mateIn: null,
+    depth: 0,
+    pv: [],
+    nodes: 0,
+    elapsedMs: 0,
+  };
+
+  if (rootMoves.length === 0) {
+    // Every legal move was excluded: there is no alternative to score.
+    if (ctx.excludedRootMoves.size > 0) return result;
+    result.score = isInCheck(root) ? -MATE_SCORE : 0;
+    result.mateIn = result.score ? 0 : null;
+    return result;
+  }
+
+  // Always have something to play, even if the first iteration gets cut short.
+  result.bestMove = toEngineMove(orderMoves(root, rootMoves, ctx, 0, 0, 0)[0]);
+  result.pv = [result.bestMove];
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const pvLine: number[] = [];
+    const score = negamax(root, depth, -INFINITY_SCORE, INFINITY_SCORE, 0, pvLine, ctx);
+    if (ctx.stopped) break;
+
+    if (pvLine.length > 0) {
+      result.pv = pvLine.map(toEngineMove);
+      result.bestMove = result.pv[0];
+    }
+    result.score = score;
+    result.mateIn = scoreToMateIn(score);
+    result.depth = depth;
+    ctx.previousPv = pvLine;
+
+    // A forced mate will not improve with more depth.
+    if (result.mateIn !== null) break;
+    if (rootMoves.length === 1) break;
+  }
+
+  result.nodes = ctx.nodes;
+  result.elapsedMs = Date.now() - startTime;
+  return result;
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import type { PieceSymbol } from '@/types/chess';
+import {
+  INITIAL_FEN,
+  fenToBoard,
+  boardToFen,
+  validateFen,
+  getLegalMoves,
+  getLegalMoveList,
+  coordsToSquare,
+  squareToCoords,
+  moveToSan,
+  parseSan,
+  hasMatingMaterial,
+} from '@/lib/chess-logic';
+
+const KIWIPETE = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+function san(fen: string, from: string, to: string, promotion?: PieceSymbol): string {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  return moveToSan(board, turn, castling, enPassant, { from, to, promotion });
+}
+
+function parse(fen: string, notation: string) {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  return parseSan(board, turn, castling, enPassant, notation);
+}
+
+describe('FEN', () => {
+  it.each([
+    INITIAL_FEN,
+    KIWIPETE,
+    '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2',
+    'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 b - - 12 37',
+  ])('round-trips %s', fen => {
+    const { board, turn, castling, enPassant, halfmove, fullmove } = fenToBoard(fen);
+    expect(boardToFen(board, turn, castling, enPassant, halfmove, fullmove)).toBe(fen);
+  });
+
+  it('defaults missing move counters and tolerates extra whitespace', () => {
+    const parsed = fenToBoard('  4k3/8/8/8/8/8/8/4K3   b  -  - ');
+    expect(parsed.turn).toBe('b');
+    expect(parsed.halfmove).toBe(0);
+    expect(parsed.fullmove).toBe(1);
+    expect(boardToFen(parsed.board, parsed.turn, parsed.castling, parsed.enPassant, parsed.halfmove, parsed.fullmove))
+      .toBe('4k3/8/8/8/8/8/8/4K3 b - - 0 1');
+  });
+
+  it('rejects malformed and impossible positions', () => {
+    expect(validateFen(INITIAL_FEN)).toEqual([]);
+    expect(validateFen('not a fen')).not.toEqual([]);
+    expect(validateFen('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0')).toEqual([]);
+    expect(validateFen('4k3/8/8/8/8/8/8/8 w - - 0 1')).not.toEqual([]); // No white king
+    expect(validateFen('P3k3/8/8/8/8/8/8/4K3 w - - 0 1')).not.toEqual([]); // Pawn on the back rank
+    expect(validateFen('4k3/8/8/8/8/8/8/4K3 w K - 0 1')).not.toEqual([]); // Castling right without a rook
+    expect(validateFen('4k3/8/8/8/8/8/8/4K2R w - e6 0 1')).not.toEqual([]); // En passant without a double push
+  });
+});
+
+describe('legal move list', () => {
+  it('lists every promotion piece as its own move', () => {
+    const moves = getLegalMoveList(fenToBoard('8/P7/8/8/8/8/8/k6K w - - 0 1').board, 'w', '-', null, 'a7');
+    expect(moves.map(move => move.promotion).sort()).toEqual(['b', 'n', 'q', 'r']);
+    expect(moves.every(move => move.from === 'a7' && move.to === 'a8' && move.piece === 'p')).toBe(true);
+  });
+
+  it('flags captures, en passant, castling and checks', () => {
+    const { board, turn, castling, enPassant } = fenToBoard('r3k2r/8/8/3pP3/8/8/8/R3K2R w KQkq d6 0 1');
+    const moves = getLegalMoveList(board, turn, castling, enPassant);
+    expect(moves.find(move => move.from === 'e5' && move.to === 'd6')).toMatchObject({ captured: 'p', isEnPassant: true });
+    expect(moves.find(move => move.from === 'e1' && move.to === 'g1')).toMatchObject({ isCastling: 'kingside' });
+    expect(moves.find(move => move.from === 'e1' && move.to === 'c1')).toMatchObject({ isCastling: 'queenside' });
+    expect(moves.find(move => move.from === 'a1' && move.to === 'a8')).toMatchObject({ captured: 'r', isCheck: true });
+    expect(getLegalMoveList(board, turn, castling, enPassant, 'e8')).toEqual([]);
+  });
+
+  it('marks mating and stalemating moves', () => {
+    const mate = getLegalMoveList(fenToBoard('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1').board, 'w', '-', null, 'a1');
+    expect(mate.find(move => move.to === 'a8')).toMatchObject({ isCheck: true, isCheckmate: true });
+    const stalemate = getLegalMoveList(fenToBoard('k7/8/1Q6/8/8/8/8/7K w - - 0 1').board, 'w', '-', null, 'b6');
+    expect(stalemate.find(move => move.to === 'c7')).toMatchObject({ isStalemate: true });
+  });
+
+  it('agrees with perft at depth 1', () => {
+    const { board, turn, castling, enPassant } = fenToBoard(KIWIPETE);
+    expect(getLegalMoveList(board, turn, castling, enPassant)).toHaveLength(48);
+  });
+});
+
+describe('SAN generation', () => {
+  it('writes pieces, pawn pushes and pawn captures', () => {
+    expect(san(INITIAL_FEN, 'e2', 'e4')).toBe('e4');
+    expect(san(INITIAL_FEN, 'g1', 'f3')).toBe('Nf3');
+    expect(san('rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2', 'e4', 'd5')).toBe('exd5');
+    expect(san('k7/8/8/3pP3/8/8/8/K7 w - d6 0 1', 'e5', 'd6')).toBe('exd6');
+  });
+
+  it('disambiguates by file, then rank, then square', () => {
+    expect(san('4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1', 'b1', 'd2')).toBe('Nbd2');
+    expect(san('4k3/8/8/R7/8/8/8/R3K3 w - - 0 1', 'a1', 'a3')).toBe('R1a3');
+    expect(san('1k6/8/8/8/4Q2Q/8/8/K6Q w - - 0 1', 'h4', 'e1')).toBe('Qh4e1');
+  });
+
+  it('does not disambiguate against a pinned piece', () => {
+    // The rook on e8 pins the e3 knight, so Nc3-d5 needs no file.
+    expect(san('4r1k1/8/8/8/8/2N1N3/8/4K3 w - - 0 1', 'c3', 'd5')).toBe('Nd5');
+    expect(san('6k1/8/8/8/8/2N1N3/8/4K3 w - - 0 1', 'c3', 'd5')).toBe('Ncd5');
+  });
+
+  it('writes castling, promotion and check suffixes', () => {
+    expect(san('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1', 'e1', 'g1')).toBe('O-O');
+    expect(san('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1', 'e1', 'c1')).toBe('O-O-O');
+    expect(san('8/4P3/8/8/k7/8/8/4K3 w - - 0 1', 'e7', 'e8', 'q')).toBe('e8=Q+');
+    expect(san('8/4P3/8/8/k7/8/8/4K3 w - - 0 1', 'e7', 'e8', 'n')).toBe('e8=N');
+    expect(san('rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq g3 0 2', 'd8', 'h4')).toBe('Qh4#');
+  });
+
+  it('round-trips every legal move through parseSan', () => {
+    const { board, turn, castling, enPassant } = fenToBoard(KIWIPETE);
+    let count = 0;
+    for (let r = 0; r < 8; r++) {
+      for (let c = 0; c < 8; c++) {
+        const piece = board[r][c];
+        if (!piece || piece.color !== turn) continue;
+        const from = coordsToSquare(r, c);
+        for (const to of getLegalMoves(board, from, turn, castling, enPassant)) {
+          const toRow = squareToCoords(to).row;
+          const promotion = piece.symbol === 'p' && (toRow === 0 || toRow === 7) ? 'q' : undefined;
+          const notation = moveToSan(board, turn, castling, enPassant, { from, to, promotion });
+          expect(parseSan(board, turn, castling, enPassant, notation)).toEqual({ from, to, promotion });
+          count++;
+        }
+      }
+    }
+    expect(count).toBe(48);
+  });
+});
+
+describe('SAN parsing', () => {
+  it('accepts common notation variants', () => {
+    const castlingFen = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1';
+    expect(parse(castlingFen, '0-0')).toEqual({ from: 'e1', to: 'g1' });
+    expect(parse(castlingFen, 'o-o-o')).toEqual({ from: 'e1', to: 'c1' });
+    expect(parse(INITIAL_FEN, 'e2e4')).toEqual({ from: 'e2', to: 'e4', promotion: undefined });
+    expect(parse(INITIAL_FEN, 'Ng1-f3')).toEqual({ from: 'g1', to: 'f3', promotion: undefined });
+    expect(parse(INITIAL_FEN, 'Nf3!?')).toEqual({ from: 'g1', to: 'f3', promotion: undefined });
+    expect(parse('8/4P3/8/8/k7/8/8/4K3 w - - 0 1', 'e8Q+')).toEqual({ from: 'e7', to: 'e8', promotion: 'q' });
+    expect(parse('8/4P3/8/8/k7/8/8/4K3 w - - 0 1', 'e8=(n)')).toEqual({ from: 'e7', to: 'e8', promotion: 'n' });
+    expect(parse('k7/8/8/3pP3/8/8/8/K7 w - d6 0 1', 'exd6 e.p.')).toEqual({ from: 'e5', to: 'd6', promotion: undefined });
+  });
+
+  it('explains why a move cannot be played', () => {
+    expect(() => parse('4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1', 'Nd2')).toThrow(/ambiguous/);
+    expect(() => parse(INITIAL_FEN, 'Ke2')).toThrow(/no piece can legally/);
+    expect(() => parse('8/4P3/8/8/k7/8/8/4K3 w - - 0 1', 'e8')).toThrow(/promotion piece is missing/);
+    expect(() => parse(INITIAL_FEN, 'O-O')).toThrow(/castling is not legal/);
+    expect(() => parse(INITIAL_FEN, 'hello')).toThrow(/not a recognizable move/);
+  });
+});
+
+describe('mating material after a timeout', () => {
+  it.each([
+    ['8/8/4k3/8/8/8/4K3/8 w - - 0 1', 'w', false],
+    ['8/8/4k3/8/8/8/4KN2/8 w - - 0 1', 'w', false],
+    ['8/8/4k3/4p3/8/8/4KN2/8 w - - 0 1', 'w', true],
+    ['8/8/4k3/8/8/8/4KP2/8 w - - 0 1', 'w', true],
+    ['8/8/4k3/4p3/8/8/4K3/8 w - - 0 1', 'w', false],
+    ['8/8/4k3/4p3/8/8/4K3/8 w - - 0 1', 'b', true],
+  ] as const)('%s: %s can mate = %s', (fen, color, expected) => {
+    expect(hasMatingMaterial(fenToBoard(fen).board, color)).toBe(expected);
+  });
+});
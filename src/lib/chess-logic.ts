@@ -1,8 +1,13 @@
 // Simplified chess logic for demonstration. A full chess engine is complex.
 
-import type { Piece, PieceColor, PieceSymbol, Square, Board, Move } from '@/types/chess';
-
-export const UNICODE_PIECES: { [color in PieceColor]: { [symbol in PieceSymbol]: string } } = {
+import type { Piece, PieceColor, PieceSymbol, Square, Board, Move, DrawReason } from '@/types/chess';
+import {
+  positionFromBoard, generateLegalMoves, hasLegalMove, isInCheck, getAttackingSquares, makeMove as makePositionMove,
+  unmakeMove, squareIndex, squareName, colorCode, moveFrom, moveTo, movePromotionSymbol, pieceFromCode,
+  MOVE_CAPTURE, MOVE_EN_PASSANT, MOVE_CASTLE,
+} from '@/lib/chess-position';
+
+export const UNICODE_PIECES: { [color in PieceColor]: { [s in PieceSymbol]: string } } = {
   w: { p: '♙', n: '♘', b: '♗', r: '♖', q: '♕', k: '♔' },
   b: { p: '♟', n: '♞', b: '♝', r: '♜', q: '♛', k: '♚' },
 };
@@ -24,7 +29,7 @@ export function createInitialBoard(): Board {
 }
 
 export function fenToBoard(fen: string): { board: Board; turn: PieceColor; castling: string; enPassant: string | null; halfmove: number; fullmove: number; } {
-  const parts = fen.split(" ");
+  const parts = fen.trim().split(/\s+/);
   const boardFen = parts[0];
   const board: Board = Array(8).fill(null).map(() => Array(8).fill(null));
   let row = 0;
@@ -48,8 +53,8 @@ export function fenToBoard(fen: string): { board: Board; turn: PieceColor; castl
     turn: parts[1] as PieceColor,
     castling: parts[2],
     enPassant: parts[3] === '-' ? null : parts[3],
-    halfmove: parseInt(parts[4], 10),
-    fullmove: parseInt(parts[5], 10)
+    halfmove: parts[4] ? parseInt(parts[4], 10) : 0, // Clocks are often omitted from hand-written FENs
+    fullmove: parts[5] ? parseInt(parts[5], 10) : 1
   };
 }
 
@@ -93,259 +98,65 @@ export function getPieceAtSquare(board: Board, square: Square): Piece | null {
   return null;
 }
 
-function findKingSquare(board: Board, color: PieceColor): Square | null {
-    for (let r_idx = 0; r_idx < 8; r_idx++) {
-        for (let c_idx = 0; c_idx < 8; c_idx++) {
-            const piece = board[r_idx][c_idx];
-            if (piece && piece.symbol === 'k' && piece.color === color) {
-                return coordsToSquare(r_idx, c_idx);
-            }
-        }
-    }
-    return null;
+// Squares of the `attackerColor` pieces that attack `targetSq` (raw attacks, ignoring pins).
+export function getAttackers(board: Board, targetSq: Square, attackerColor: PieceColor): Square[] {
+  const position = positionFromBoard(board, attackerColor, '-', null);
+  return getAttackingSquares(position, squareIndex(targetSq), colorCode(attackerColor)).map(squareName);
 }
 
-// Checks if a piece at `attackerSquare` can attack `targetSquare` (raw attack, ignores pins or self-check)
-function canPieceAttackSquare(board: Board, attackerSq: Square, targetSq: Square, attackerPiece: Piece): boolean {
-  const { row: attackerR, col: attackerC } = squareToCoords(attackerSq);
-  const { row: targetR, col: targetC } = squareToCoords(targetSq);
-
-  if (attackerSq === targetSq) return false; // Cannot attack its own square
-
-  switch (attackerPiece.symbol) {
-    case 'p':
-      const direction = attackerPiece.color === 'w' ? -1 : 1;
-      return attackerR + direction === targetR && (attackerC - 1 === targetC || attackerC + 1 === targetC);
-    case 'n':
-      const knightMoves = [
-        [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-        [1, -2], [1, 2], [2, -1], [2, 1]
-      ];
-      for (const [dr, dc] of knightMoves) {
-        if (attackerR + dr === targetR && attackerC + dc === targetC) return true;
-      }
-      return false;
-    case 'b':
-    case 'r':
-    case 'q':
-      const pieceDirections: number[][] = [];
-      if (attackerPiece.symbol === 'r' || attackerPiece.symbol === 'q') {
-        pieceDirections.push([-1, 0], [1, 0], [0, -1], [0, 1]);
-      }
-      if (attackerPiece.symbol === 'b' || attackerPiece.symbol === 'q') {
-        pieceDirections.push([-1, -1], [-1, 1], [1, -1], [1, 1]);
-      }
-
-      for (const [dr, dc] of pieceDirections) {
-        for (let i = 1; i < 8; i++) {
-          const r = attackerR + dr * i;
-          const c = attackerC + dc * i;
-          if (!isValidSquare(r,c)) break; // Off board before reaching target
-          if (r === targetR && c === targetC) return true; // Found target
-          if (board[r][c]) break; // Blocked by ANY piece before reaching target
-        }
-      }
-      return false;
-    case 'k':
-      const kingMoves = [
-        [-1, -1], [-1, 0], [-1, 1],
-        [0, -1],           [0, 1],
-        [1, -1], [1, 0], [1, 1]
-      ];
-      for (const [dr, dc] of kingMoves) {
-        if (attackerR + dr === targetR && attackerC + dc === targetC) return true;
-      }
-      return false;
-  }
-  return false;
-}
-
-// Checks if a square is attacked by the opponentColor
-function isSquareAttacked(board: Board, targetSq: Square, attackerPlayerColor: PieceColor): boolean {
-    for (let r = 0; r < 8; r++) {
-        for (let c = 0; c < 8; c++) {
-            const piece = board[r][c];
-            if (piece && piece.color === attackerPlayerColor) {
-                 // Use canPieceAttackSquare to check if the piece at (r,c) can attack targetSq
-                if (canPieceAttackSquare(board, coordsToSquare(r, c), targetSq, piece)) {
-                    return true;
-                }
-            }
-        }
-    }
-    return false;
-}
-
-
 export function isKingInCheck(board: Board, kingColor: PieceColor): boolean {
-  const kingSquare = findKingSquare(board, kingColor);
-  if (!kingSquare) return false; 
-
-  const opponentColor = kingColor === 'w' ? 'b' : 'w';
-  return isSquareAttacked(board, kingSquare, opponentColor);
+  return isInCheck(positionFromBoard(board, kingColor, '-', null), colorCode(kingColor));
 }
 
-function generatePseudoLegalMoves(board: Board, square: Square, piece: Piece, currentTurnCastlingRights: string, currentEnPassantTarget: string | null): Square[] {
-  const { row, col } = squareToCoords(square);
-  const moves: Square[] = [];
-  const turn = piece.color;
-
-  switch (piece.symbol) {
-    case 'p':
-      const direction = piece.color === 'w' ? -1 : 1;
-      // Move one square forward
-      if (isValidSquare(row + direction, col) && !board[row + direction][col]) {
-        moves.push(coordsToSquare(row + direction, col));
-        // Move two squares forward (initial move)
-        if (
-          ((piece.color === 'w' && row === 6) || (piece.color === 'b' && row === 1)) &&
-          isValidSquare(row + 2 * direction, col) &&
-          !board[row + 2 * direction][col]
-         ) {
-          moves.push(coordsToSquare(row + 2 * direction, col));
-        }
-      }
-      // Captures
-      [-1, 1].forEach(offset => {
-        const captureRow = row + direction;
-        const captureCol = col + offset;
-        if (isValidSquare(captureRow, captureCol)) {
-          const targetPieceOnSquare = board[captureRow][captureCol];
-          if (targetPieceOnSquare && targetPieceOnSquare.color !== piece.color) {
-            moves.push(coordsToSquare(captureRow, captureCol));
-          }
-          // En passant
-          if (currentEnPassantTarget) {
-            const enPassantCoords = squareToCoords(currentEnPassantTarget);
-            if (enPassantCoords.row === captureRow && enPassantCoords.col === captureCol) {
-              moves.push(coordsToSquare(captureRow, captureCol));
-            }
-          }
-        }
-      });
-      break;
-
-    case 'n':
-      const knightMoves = [
-        [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-        [1, -2], [1, 2], [2, -1], [2, 1]
-      ];
-      knightMoves.forEach(([dr, dc]) => {
-        const nextRow = row + dr;
-        const nextCol = col + dc;
-        if (isValidSquare(nextRow, nextCol)) {
-          const targetPieceOnSquare = board[nextRow][nextCol];
-          if (!targetPieceOnSquare || targetPieceOnSquare.color !== piece.color) {
-            moves.push(coordsToSquare(nextRow, nextCol));
-          }
-        }
-      });
-      break;
-
-    case 'r':
-    case 'b':
-    case 'q':
-      const pieceDirections: number[][] = [];
-      if (piece.symbol === 'r' || piece.symbol === 'q') {
-        pieceDirections.push([-1, 0], [1, 0], [0, -1], [0, 1]);
-      }
-      if (piece.symbol === 'b' || piece.symbol === 'q') {
-        pieceDirections.push([-1, -1], [-1, 1], [1, -1], [1, 1]);
-      }
-
-      for (const [dr, dc] of pieceDirections) {
-        for (let i = 1; i < 8; i++) {
-          const nextRow = row + dr * i;
-          const nextCol = col + dc * i;
-          if (!isValidSquare(nextRow, nextCol)) break;
-
-          const targetPieceOnSquare = board[nextRow][nextCol];
-          if (targetPieceOnSquare) {
-            if (targetPieceOnSquare.color !== piece.color) {
-              moves.push(coordsToSquare(nextRow, nextCol)); // Capture
-            }
-            break; // Blocked by own or opponent piece
-          }
-          moves.push(coordsToSquare(nextRow, nextCol)); // Empty square
-        }
-      }
-      break;
-
-    case 'k':
-      const kingMoves = [
-        [-1, -1], [-1, 0], [-1, 1],
-        [0, -1],           [0, 1],
-        [1, -1], [1, 0], [1, 1]
-      ];
-      kingMoves.forEach(([dr, dc]) => {
-        const nextRow = row + dr;
-        const nextCol = col + dc;
-        if (isValidSquare(nextRow, nextCol)) {
-          const targetPieceOnSquare = board[nextRow][nextCol];
-          if (!targetPieceOnSquare || targetPieceOnSquare.color !== piece.color) {
-            moves.push(coordsToSquare(nextRow, nextCol));
-          }
-        }
-      });
-      // Castling
-      const opponentColor = turn === 'w' ? 'b' : 'w';
-      if (!isSquareAttacked(board, square, opponentColor)) { // Can't castle if king is currently in check on its current square
-        if (turn === 'w') {
-          if (currentTurnCastlingRights.includes('K') && square === 'e1' && !board[7][5] && !board[7][6]) {
-            if (!isSquareAttacked(board, 'f1', opponentColor) && !isSquareAttacked(board, 'g1', opponentColor)) { // King must not pass through or land on an attacked square
-              moves.push('g1');
-            }
-          }
-          if (currentTurnCastlingRights.includes('Q') && square === 'e1' && !board[7][1] && !board[7][2] && !board[7][3]) {
-            if (!isSquareAttacked(board, 'd1', opponentColor) && !isSquareAttacked(board, 'c1', opponentColor)) { // King must not pass through or land on an attacked square
-              moves.push('c1');
-            }
-          }
-        } else { // Black's turn
-          if (currentTurnCastlingRights.includes('k') && square === 'e8' && !board[0][5] && !board[0][6]) {
-            if (!isSquareAttacked(board, 'f8', opponentColor) && !isSquareAttacked(board, 'g8', opponentColor)) {
-              moves.push('g8');
-            }
-          }
-          if (currentTurnCastlingRights.includes('q') && square === 'e8' && !board[0][1] && !board[0][2] && !board[0][3]) {
-             if (!isSquareAttacked(board, 'd8', opponentColor) && !isSquareAttacked(board, 'c8', opponentColor)) {
-              moves.push('c8');
-            }
-          }
-        }
-      }
-      break;
-  }
-  return moves;
+// The square of the `kingColor` king when it is in check, for highlighting; null otherwise.
+export function getCheckedKingSquare(board: Board, kingColor: PieceColor): Square | null {
+  const position = positionFromBoard(board, kingColor, '-', null);
+  const color = colorCode(kingColor);
+  return isInCheck(position, color) ? squareName(position.kings[color >> 3]) : null;
 }
 
+// Move generation runs on the 0x88 position in chess-position.ts; these wrappers keep the Board API.
+// Destination squares only, for highlighting; getLegalMoveList has promotion choices and flags.
 export function getLegalMoves(board: Board, square: Square, turn: PieceColor, currentCastlingRights: string, currentEnPassantTarget: string | null): Square[] {
   const piece = getPieceAtSquare(board, square);
   if (!piece || piece.color !== turn) return [];
 
-  const pseudoLegalMoves = generatePseudoLegalMoves(board, square, piece, currentCastlingRights, currentEnPassantTarget);
-  const legalMoves: Square[] = [];
-
-  for (const toSq of pseudoLegalMoves) {
-    // Create a deep copy of the board for simulation
-    const tempBoard = board.map(r => [...r]);
-    
-    const { newBoard } = makeMove( // Use makeMove for simulation logic, but on tempBoard
-        tempBoard, 
-        square, 
-        toSq, 
-        currentCastlingRights,
-        currentEnPassantTarget, 
-        // For pawn promotion simulation, default to queen. The actual promotion piece is handled later.
-        piece.symbol === 'p' && (squareToCoords(toSq).row === 0 || squareToCoords(toSq).row === 7) ? 'q' : undefined
-    );
-
-    // After the simulated move, check if the current player's king is in check
-    if (!isKingInCheck(newBoard, turn)) {
-      legalMoves.push(toSq);
+  const position = positionFromBoard(board, turn, currentCastlingRights, currentEnPassantTarget);
+  const targets = generateLegalMoves(position, squareIndex(square)).map(move => squareName(moveTo(move)));
+  // The four promotion choices share a target square.
+  return Array.from(new Set(targets));
+}
+
+// Full legal moves for the side to move (or just the piece on `fromSquare`), one per promotion choice,
+// with capture, en passant, castling and check/mate/stalemate flags filled in.
+export function getLegalMoveList(board: Board, turn: PieceColor, castlingRights: string, enPassantTarget: string | null, fromSquare?: Square): Move[] {
+  if (fromSquare && getPieceAtSquare(board, fromSquare)?.color !== turn) return [];
+  const position = positionFromBoard(board, turn, castlingRights, enPassantTarget);
+  return generateLegalMoves(position, fromSquare ? squareIndex(fromSquare) : -1).map(encoded => {
+    const from = moveFrom(encoded);
+    const to = moveTo(encoded);
+    const move: Move = { from: squareName(from), to: squareName(to), piece: pieceFromCode(position.squares[from])!.symbol };
+    const promotion = movePromotionSymbol(encoded);
+    if (promotion) move.promotion = promotion;
+    if (encoded & MOVE_EN_PASSANT) {
+      move.captured = 'p';
+      move.isEnPassant = true;
+    } else if (encoded & MOVE_CAPTURE) {
+      move.captured = pieceFromCode(position.squares[to])!.symbol;
     }
-  }
-  return legalMoves;
+    if (encoded & MOVE_CASTLE) move.isCastling = to > from ? 'kingside' : 'queenside';
+
+    makePositionMove(position, encoded);
+    const givesCheck = isInCheck(position);
+    const hasReply = hasLegalMove(position);
+    unmakeMove(position, encoded);
+    if (givesCheck) move.isCheck = true;
+    if (!hasReply) {
+      if (givesCheck) move.isCheckmate = true;
+      else move.isStalemate = true;
+    }
+    return move;
+  });
 }
 
 
@@ -458,29 +269,32 @@ export function makeMove(
 }
 
 export function isCheckmateOrStalemate(board: Board, turn: PieceColor, castlingRights: string, enPassantTarget: string | null): 'checkmate' | 'stalemate' | null {
-    let hasLegalMove = false;
-    for (let r = 0; r < 8; r++) {
-        for (let c = 0; c < 8; c++) {
-            const piece = board[r][c];
-            if (piece && piece.color === turn) {
-                const fromSq = coordsToSquare(r,c);
-                const legalMovesForPiece = getLegalMoves(board, fromSq, turn, castlingRights, enPassantTarget);
-                if (legalMovesForPiece.length > 0) {
-                    hasLegalMove = true;
-                    break;
-                }
-            }
-        }
-        if (hasLegalMove) break;
-    }
+  const position = positionFromBoard(board, turn, castlingRights, enPassantTarget);
+  if (hasLegalMove(position)) return null;
+  return isInCheck(position) ? 'checkmate' : 'stalemate';
+}
+
 
-    if (!hasLegalMove) {
-        return isKingInCheck(board, turn) ? 'checkmate' : 'stalemate';
+// Returns the file, rank or full square needed to tell this piece apart from others of the same
+// type that could also legally move to the target square (e.g. the "a" in Rae1, the "1" in R1e2).
+function getSanDisambiguation(board: Board, from: Square, to: Square, piece: PieceSymbol, turn: PieceColor): string {
+  if (piece === 'p' || piece === 'k') return '';
+  const rivals: Square[] = [];
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const other = board[r][c];
+      const square = coordsToSquare(r, c);
+      if (!other || square === from || other.color !== turn || other.symbol !== piece) continue;
+      // Castling and en passant only concern kings and pawns, so they cannot affect these pieces.
+      if (getLegalMoves(board, square, turn, '-', null).includes(to)) rivals.push(square);
     }
-    return null; 
+  }
+  if (rivals.length === 0) return '';
+  if (rivals.every(square => square[0] !== from[0])) return from[0];
+  if (rivals.every(square => square[1] !== from[1])) return from[1];
+  return from;
 }
 
-
 export function moveToAlgebraic(
     moveParams: { 
         from: Square, 
@@ -488,78 +302,313 @@ export function moveToAlgebraic(
         piece: PieceSymbol, 
         captured?: boolean, 
         promotion?: PieceSymbol,
-        boardBeforeMove: Board, // For disambiguation or context if needed
+        boardBeforeMove: Board, // For disambiguation
         boardAfterMove: Board, // To check for check/checkmate
         turn: PieceColor, // Player who made the move
         isCastlingKingside?: boolean,
         isCastlingQueenside?: boolean,
-        enPassantTargetOccurred?: boolean 
+        enPassantTargetOccurred?: boolean,
+        castlingRightsAfterMove?: string, // Rights the opponent moves with; defaults to none
+        enPassantTargetAfterMove?: string | null, // Derived from a double pawn push when omitted
     }
 ): string {
   const { 
     from, to, piece, captured, promotion, 
-    boardAfterMove, turn, 
+    boardBeforeMove, boardAfterMove, turn, 
     isCastlingKingside, isCastlingQueenside,
-    enPassantTargetOccurred
+    castlingRightsAfterMove = '-',
   } = moveParams;
 
-  if (isCastlingKingside) return 'O-O';
-  if (isCastlingQueenside) return 'O-O-O';
-
   let notation = "";
-  if (piece !== 'p') {
-    notation += piece.toUpperCase();
-    // TODO: Add disambiguation if multiple pieces of the same type can move to 'toSq'
-    // e.g., Rae1 or Nfd2. This requires checking other pieces.
-    // For simplicity, this is omitted for now.
+  if (isCastlingKingside) {
+    notation = 'O-O';
+  } else if (isCastlingQueenside) {
+    notation = 'O-O-O';
+  } else {
+    if (piece !== 'p') {
+      notation += piece.toUpperCase() + getSanDisambiguation(boardBeforeMove, from, to, piece, turn);
+    }
+    if (captured) {
+      if (piece === 'p') notation += from[0]; // Pawn captures, en passant included, name the origin file
+      notation += 'x';
+    }
+    notation += to;
+    if (promotion) {
+      notation += '=' + promotion.toUpperCase();
+    }
+  }
+
+  // Check and mate are judged in the real position after the move: an en passant capture of a
+  // pawn that has just advanced two squares can be the only way out of check.
+  const opponentColor = turn === 'w' ? 'b' : 'w';
+  const fromRank = parseInt(from[1], 10);
+  const toRank = parseInt(to[1], 10);
+  const enPassantAfterMove = moveParams.enPassantTargetAfterMove !== undefined
+    ? moveParams.enPassantTargetAfterMove
+    : (piece === 'p' && Math.abs(toRank - fromRank) === 2 ? `${from[0]}${(fromRank + toRank) / 2}` : null);
+  if (isKingInCheck(boardAfterMove, opponentColor)) {
+    notation += isCheckmateOrStalemate(boardAfterMove, opponentColor, castlingRightsAfterMove, enPassantAfterMove) === 'checkmate' ? '#' : '+';
   }
 
-  if (captured) {
-    if (piece === 'p' && !enPassantTargetOccurred) { // For pawn captures, add file of origin
-      notation += from[0];
+  return notation;
+}
+
+// Standard Algebraic Notation for a legal move in the given position.
+export function moveToSan(
+  board: Board,
+  turn: PieceColor,
+  castlingRights: string,
+  enPassantTarget: string | null,
+  move: { from: Square; to: Square; promotion?: PieceSymbol }
+): string {
+  const piece = getPieceAtSquare(board, move.from);
+  if (!piece) throw new Error(`No piece on ${move.from}.`);
+  const isEnPassant = piece.symbol === 'p' && move.to === enPassantTarget && move.from[0] !== move.to[0];
+  const result = makeMove(board, move.from, move.to, castlingRights, enPassantTarget, move.promotion);
+  return moveToAlgebraic({
+    from: move.from, to: move.to, piece: piece.symbol, captured: !!result.capturedPiece || isEnPassant, promotion: move.promotion,
+    boardBeforeMove: board, boardAfterMove: result.newBoard, turn,
+    isCastlingKingside: result.isCastlingKingside, isCastlingQueenside: result.isCastlingQueenside,
+    enPassantTargetOccurred: isEnPassant,
+    castlingRightsAfterMove: result.updatedCastlingRights, enPassantTargetAfterMove: result.updatedEnPassantTarget,
+  });
+}
+
+// Resolves a SAN move to its squares, throwing an Error that explains why the move cannot be played.
+// Lenient about common variations: 0-0 for O-O, missing "=" (e8Q), lower-case promotion pieces,
+// check/annotation suffixes (Nxe5+, e4!?), a leading "P" for pawns and long algebraic (e2e4, Ng1-f3).
+export function parseSan(
+  board: Board,
+  turn: PieceColor,
+  castlingRights: string,
+  enPassantTarget: string | null,
+  rawSan: string
+): { from: Square; to: Square; promotion?: PieceSymbol } {
+  const san = rawSan.trim().replace(/\s*(e\.p\.)?[+#!?]*$/, '');
+
+  if (/^[O0o]-[O0o](-[O0o])?$/.test(san)) {
+    const from = turn === 'w' ? 'e1' : 'e8';
+    const to = san.length > 3 ? (turn === 'w' ? 'c1' : 'c8') : (turn === 'w' ? 'g1' : 'g8');
+    const king = getPieceAtSquare(board, from);
+    if (king?.symbol !== 'k' || king.color !== turn || !getLegalMoves(board, from, turn, castlingRights, enPassantTarget).includes(to)) {
+      throw new Error('castling is not legal here');
     }
-    notation += 'x';
+    return { from, to };
   }
 
-  notation += to;
+  const match = /^([NBRQKP])?([a-h])?([1-8])?[-x:]?([a-h][1-8])(?:=?\(?([NBRQnbrq])\)?)?$/.exec(san);
+  if (!match) throw new Error('not a recognizable move');
+  const [, pieceLetter, fromFile, fromRank, to, promotionLetter] = match;
+  const symbol = (pieceLetter && pieceLetter !== 'P' ? pieceLetter.toLowerCase() : 'p') as PieceSymbol;
 
-  if (promotion) {
-    notation += '=' + promotion.toUpperCase();
+  const candidates: Square[] = [];
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const piece = board[r][c];
+      if (!piece || piece.color !== turn || piece.symbol !== symbol) continue;
+      const from = coordsToSquare(r, c);
+      if ((fromFile && from[0] !== fromFile) || (fromRank && from[1] !== fromRank)) continue;
+      if (getLegalMoves(board, from, turn, castlingRights, enPassantTarget).includes(to)) {
+        candidates.push(from);
+      }
+    }
   }
-  
-  const opponentColor = turn === 'w' ? 'b' : 'w';
-  // Check/checkmate status is determined based on the state *after* the move, for the *opponent*.
-  // isCheckmateOrStalemate requires current FEN parts. We assume they are not needed for this display-only check.
-  // A simplified check is enough for notation. If a full FEN were available for boardAfterMove, that would be more robust.
-  // For now, we'll pass null for castling/EP for this check, as they are less relevant for '+' or '#'.
-  if (isCheckmateOrStalemate(boardAfterMove, opponentColor, "-", null) === 'checkmate') {
-    notation += '#';
-  } else if (isKingInCheck(boardAfterMove, opponentColor)) {
-    notation += '+';
+  if (candidates.length === 0) throw new Error('no piece can legally make this move');
+  if (candidates.length > 1) throw new Error(`ambiguous move (${candidates.join(', ')} can all reach ${to})`);
+
+  const toRow = squareToCoords(to).row;
+  const isPromotion = symbol === 'p' && (toRow === 0 || toRow === 7);
+  if (isPromotion && !promotionLetter) throw new Error('promotion piece is missing');
+  if (!isPromotion && promotionLetter) throw new Error('only pawns reaching the last rank can promote');
+  return { from: candidates[0], to, promotion: promotionLetter ? promotionLetter.toLowerCase() as PieceSymbol : undefined };
+}
+
+
+export const DRAW_REASON_DESCRIPTIONS: { [reason in DrawReason]: string } = {
+  'stalemate': 'Stalemate',
+  'threefold-repetition': 'Threefold repetition',
+  'fivefold-repetition': 'Fivefold repetition',
+  'fifty-move-rule': '50-move rule',
+  'seventy-five-move-rule': '75-move rule',
+  'insufficient-material': 'Insufficient material',
+  'timeout-vs-insufficient-material': 'Timeout vs insufficient material',
+};
+
+// Identifies a position for repetition purposes: placement, side to move, castling rights and
+// en passant square. The en passant square only counts if an en passant capture is actually legal.
+export function getPositionKey(board: Board, turn: PieceColor, castlingRights: string, enPassantTarget: string | null): string {
+  let effectiveEnPassant: string | null = null;
+  if (enPassantTarget) {
+    const { row, col } = squareToCoords(enPassantTarget);
+    const pawnRow = turn === 'w' ? row + 1 : row - 1;
+    for (const dc of [-1, 1]) {
+      const pawnSq = isValidSquare(pawnRow, col + dc) ? coordsToSquare(pawnRow, col + dc) : null;
+      const pawn = pawnSq ? getPieceAtSquare(board, pawnSq) : null;
+      if (pawnSq && pawn && pawn.symbol === 'p' && pawn.color === turn &&
+          getLegalMoves(board, pawnSq, turn, castlingRights, enPassantTarget).includes(enPassantTarget)) {
+        effectiveEnPassant = enPassantTarget;
+        break;
+      }
+    }
   }
-  
-  // if (enPassantTargetOccurred && captured) { // Usually "e.p." is omitted if context is clear
-  //   notation += " e.p.";
-  // }
+  return boardToFen(board, turn, castlingRights, effectiveEnPassant, 0, 1).split(' ').slice(0, 4).join(' ');
+}
 
-  return notation;
+export function countRepetitions(positionKeys: string[], key: string): number {
+  return positionKeys.filter(k => k === key).length;
 }
 
+// True when neither side can possibly deliver checkmate: K vs K, K+minor vs K,
+// or kings with any number of bishops that all stand on the same square color.
+export function isInsufficientMaterial(board: Board): boolean {
+  const minors: { symbol: PieceSymbol; squareColor: number }[] = [];
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const piece = board[r][c];
+      if (!piece || piece.symbol === 'k') continue;
+      if (piece.symbol === 'p' || piece.symbol === 'r' || piece.symbol === 'q') return false;
+      minors.push({ symbol: piece.symbol, squareColor: (r + c) % 2 });
+    }
+  }
+  if (minors.length <= 1) return true;
+  return minors.every(m => m.symbol === 'b' && m.squareColor === minors[0].squareColor);
+}
 
-// Simplified AI move (random legal move)
-export function getRandomAiMove(board: Board, color: PieceColor, castlingRights: string, enPassantTarget: string | null): { from: Square, to: Square } | null {
-  const possibleMoves: { from: Square, to: Square }[] = [];
+// Whether `color` could still checkmate by some legal sequence of moves, which decides a game lost on
+// time. A lone king never can; one knight or same-colored bishops only can if the defending king has
+// pieces of its own to block it in.
+export function hasMatingMaterial(board: Board, color: PieceColor): boolean {
+  if (isInsufficientMaterial(board)) return false;
+  const own: { symbol: PieceSymbol; squareColor: number }[] = [];
+  let opponentHasPieces = false;
   for (let r = 0; r < 8; r++) {
     for (let c = 0; c < 8; c++) {
       const piece = board[r][c];
-      if (piece && piece.color === color) {
-        const fromSq = coordsToSquare(r, c);
-        const legalMovesForPiece = getLegalMoves(board, fromSq, color, castlingRights, enPassantTarget);
-        legalMovesForPiece.forEach(toSq => possibleMoves.push({ from: fromSq, to: toSq }));
+      if (!piece || piece.symbol === 'k') continue;
+      if (piece.color === color) own.push({ symbol: piece.symbol, squareColor: (r + c) % 2 });
+      else opponentHasPieces = true;
+    }
+  }
+  if (own.length === 0) return false;
+  if (own.some(m => m.symbol === 'p' || m.symbol === 'r' || m.symbol === 'q')) return true;
+  const onlyOneMinorKind = own.length === 1 || own.every(m => m.symbol === 'b' && m.squareColor === own[0].squareColor);
+  return !onlyOneMinorKind || opponentHasPieces;
+}
+
+// Draws that end the game without either player asking for them.
+// Checkmate takes precedence, so call this only when the side to move has a legal move or is not mated.
+export function getAutomaticDrawReason(board: Board, halfMoveClock: number, repetitionCount: number): DrawReason | null {
+  if (isInsufficientMaterial(board)) return 'insufficient-material';
+  if (repetitionCount >= 5) return 'fivefold-repetition';
+  if (halfMoveClock >= 150) return 'seventy-five-move-rule';
+  return null;
+}
+
+// Draws the player to move may claim but which do not end the game on their own.
+export function getClaimableDrawReason(halfMoveClock: number, repetitionCount: number): DrawReason | null {
+  if (repetitionCount >= 3) return 'threefold-repetition';
+  if (halfMoveClock >= 100) return 'fifty-move-rule';
+  return null;
+}
+
+// Castling rights are only meaningful while the king and the relevant rook are still on their home squares.
+export function getAvailableCastlingRights(board: Board): string {
+  const homeSquares: { right: string; color: PieceColor; kingRow: number; rookCol: number }[] = [
+    { right: 'K', color: 'w', kingRow: 7, rookCol: 7 },
+    { right: 'Q', color: 'w', kingRow: 7, rookCol: 0 },
+    { right: 'k', color: 'b', kingRow: 0, rookCol: 7 },
+    { right: 'q', color: 'b', kingRow: 0, rookCol: 0 },
+  ];
+  return homeSquares
+    .filter(({ color, kingRow, rookCol }) => {
+      const king = board[kingRow][4];
+      const rook = board[kingRow][rookCol];
+      return king?.symbol === 'k' && king.color === color && rook?.symbol === 'r' && rook.color === color;
+    })
+    .map(({ right }) => right)
+    .join('');
+}
+
+// Lists everything that makes a set-up position unplayable; an empty list means the position is legal.
+export function validatePosition(board: Board, turn: PieceColor, castlingRights: string, enPassantTarget: string | null): string[] {
+  const errors: string[] = [];
+  const kingCounts = { w: 0, b: 0 };
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const piece = board[r][c];
+      if (!piece) continue;
+      if (piece.symbol === 'k') kingCounts[piece.color]++;
+      if (piece.symbol === 'p' && (r === 0 || r === 7)) {
+        errors.push(`${piece.color === 'w' ? 'White' : 'Black'} pawn on ${coordsToSquare(r, c)} cannot stand on the back rank.`);
+      }
+    }
+  }
+  for (const color of ['w', 'b'] as PieceColor[]) {
+    const name = color === 'w' ? 'White' : 'Black';
+    if (kingCounts[color] !== 1) errors.push(`${name} must have exactly one king (found ${kingCounts[color]}).`);
+  }
+
+  const opponent: PieceColor = turn === 'w' ? 'b' : 'w';
+  if (kingCounts[opponent] === 1 && isKingInCheck(board, opponent)) {
+    errors.push(`${opponent === 'w' ? 'White' : 'Black'} is in check but it is ${turn === 'w' ? 'White' : 'Black'}'s turn to move.`);
+  }
+
+  const availableCastling = getAvailableCastlingRights(board);
+  for (const right of castlingRights.replace('-', '')) {
+    if (!'KQkq'.includes(right)) {
+      errors.push(`"${right}" is not a valid castling right.`);
+    } else if (!availableCastling.includes(right)) {
+      const side = right.toLowerCase() === 'k' ? 'kingside' : 'queenside';
+      errors.push(`${right === right.toUpperCase() ? 'White' : 'Black'} cannot castle ${side}: the king or rook has left its home square.`);
+    }
+  }
+
+  if (enPassantTarget) {
+    if (!/^[a-h][36]$/.test(enPassantTarget)) {
+      errors.push(`En passant square ${enPassantTarget} must be on the 3rd or 6th rank.`);
+    } else {
+      // The target sits behind a pawn that has just advanced two squares.
+      const { row, col } = squareToCoords(enPassantTarget);
+      const expectedRow = turn === 'w' ? 2 : 5;
+      const pawnRow = turn === 'w' ? row + 1 : row - 1;
+      const originRow = turn === 'w' ? row - 1 : row + 1;
+      const pawn = board[pawnRow]?.[col];
+      if (row !== expectedRow || !pawn || pawn.symbol !== 'p' || pawn.color !== opponent ||
+          board[row][col] || board[originRow][col]) {
+        errors.push(`En passant square ${enPassantTarget} does not follow a two-square pawn advance by ${opponent === 'w' ? 'White' : 'Black'}.`);
       }
     }
   }
-  if (possibleMoves.length === 0) return null;
-  return possibleMoves[Math.floor(Math.random() * possibleMoves.length)];
+
+  return errors;
 }
 
+// Checks only that a FEN is well formed; the halfmove and fullmove fields may be omitted.
+export function getFenSyntaxError(fen: string): string | null {
+  const parts = fen.trim().split(/\s+/);
+  if (parts.length < 4 || parts.length > 6) return 'A FEN needs piece placement, side to move, castling rights and en passant square.';
+  const [placement, turn, castling, enPassant, halfmove = '0', fullmove = '1'] = parts;
+
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) return `Piece placement must describe 8 ranks (found ${ranks.length}).`;
+  for (let i = 0; i < 8; i++) {
+    if (!/^[pnbrqkPNBRQK1-8]+$/.test(ranks[i])) return `Rank ${8 - i} contains an invalid character.`;
+    const width = [...ranks[i]].reduce((sum, ch) => sum + (/\d/.test(ch) ? parseInt(ch, 10) : 1), 0);
+    if (width !== 8) return `Rank ${8 - i} describes ${width} squares instead of 8.`;
+  }
+  if (turn !== 'w' && turn !== 'b') return 'Side to move must be "w" or "b".';
+  if (!/^(-|K?Q?k?q?)$/.test(castling)) return `"${castling}" is not a valid castling field.`;
+  if (enPassant !== '-' && !/^[a-h][1-8]$/.test(enPassant)) return `"${enPassant}" is not a valid en passant square.`;
+  if (!/^\d+$/.test(halfmove) || !/^\d+$/.test(fullmove) || parseInt(fullmove, 10) < 1) {
+    return 'Halfmove clock and fullmove number must be non-negative integers (fullmove at least 1).';
+  }
+  return null;
+}
+
+// Checks FEN syntax, then the legality of the position it describes.
+export function validateFen(fen: string): string[] {
+  const syntaxError = getFenSyntaxError(fen);
+  if (syntaxError) return [syntaxError];
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  return validatePosition(board, turn, castling, enPassant);
+}
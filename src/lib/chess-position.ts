@@ -0,0 +1,491 @@
+// Internal 0x88 position with incremental make/unmake and Zobrist hashing.
+// chess-logic and chess-engine use it behind their Board-based public functions; nothing in the UI
+// should need to import it directly.
+//
+// Squares are indexed row * 16 + col, with row 0 = rank 8 to match the Board array, so an index is
+// off the board exactly when (index & 0x88) !== 0. Pieces are small integers: a type (1-6) plus a
+// color bit (0 for White, 8 for Black). Moves are packed into a single number.
+
+import type { Board, Piece, PieceColor, PieceSymbol, Square } from '@/types/chess';
+
+export const WHITE = 0;
+export const BLACK = 8;
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+const TYPE_SYMBOLS: (PieceSymbol | null)[] = [null, 'p', 'n', 'b', 'r', 'q', 'k'];
+const SYMBOL_TYPES: { [s in PieceSymbol]: number } = { p: PAWN, n: KNIGHT, b: BISHOP, r: ROOK, q: QUEEN, k: KING };
+
+// Castling right bits.
+const WHITE_KINGSIDE = 1;
+const WHITE_QUEENSIDE = 2;
+const BLACK_KINGSIDE = 4;
+const BLACK_QUEENSIDE = 8;
+const CASTLING_LETTERS: [string, number][] = [['K', WHITE_KINGSIDE], ['Q', WHITE_QUEENSIDE], ['k', BLACK_KINGSIDE], ['q', BLACK_QUEENSIDE]];
+
+// Move layout: from (bits 0-6), to (7-13), promotion piece type (14-16), flags (17+).
+export const MOVE_CAPTURE = 1 << 17;
+export const MOVE_EN_PASSANT = 1 << 18;
+export const MOVE_CASTLE = 1 << 19;
+export const MOVE_DOUBLE_PUSH = 1 << 20;
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17];
+const BISHOP_DIRECTIONS = [-17, -15, 15, 17];
+const ROOK_DIRECTIONS = [-16, -1, 1, 16];
+const PROMOTION_TYPES = [QUEEN, ROOK, BISHOP, KNIGHT];
+
+export interface Position {
+  squares: Int8Array; // 128 entries; only indices with (i & 0x88) === 0 are on the board
+  turn: number; // WHITE or BLACK
+  castling: number; // Bit set of castling rights
+  epSquare: number; // En passant target index, or -1
+  kings: [number, number]; // King squares, indexed by color >> 3
+  hashLo: number; // 64-bit Zobrist key split into two 32-bit halves
+  hashHi: number;
+  undoStack: number[]; // Five entries per made move: captured, castling, epSquare, hashLo, hashHi
+}
+
+// Rights that survive a move touching each square (king and rook home squares clear their rights).
+const CASTLING_MASK = new Int8Array(128).fill(15);
+CASTLING_MASK[112] = 15 & ~WHITE_QUEENSIDE; // a1
+CASTLING_MASK[119] = 15 & ~WHITE_KINGSIDE; // h1
+CASTLING_MASK[116] = 15 & ~(WHITE_KINGSIDE | WHITE_QUEENSIDE); // e1
+CASTLING_MASK[0] = 15 & ~BLACK_QUEENSIDE; // a8
+CASTLING_MASK[7] = 15 & ~BLACK_KINGSIDE; // h8
+CASTLING_MASK[4] = 15 & ~(BLACK_KINGSIDE | BLACK_QUEENSIDE); // e8
+
+// Zobrist keys from a fixed-seed xorshift generator so hashes are stable between runs.
+let seed = 0x9e3779b9;
+function nextRandom(): number {
+  seed ^= seed << 13;
+  seed ^= seed >>> 17;
+  seed ^= seed << 5;
+  return seed | 0;
+}
+function randomTable(size: number): Int32Array {
+  const table = new Int32Array(size);
+  for (let i = 0; i < size; i++) table[i] = nextRandom();
+  return table;
+}
+const PIECE_KEYS_LO = randomTable(16 * 128);
+const PIECE_KEYS_HI = randomTable(16 * 128);
+const CASTLING_KEYS_LO = randomTable(16);
+const CASTLING_KEYS_HI = randomTable(16);
+const EP_FILE_KEYS_LO = randomTable(8);
+const EP_FILE_KEYS_HI = randomTable(8);
+const SIDE_KEY_LO = nextRandom();
+const SIDE_KEY_HI = nextRandom();
+
+const SQUARE_NAMES: Square[] = [];
+for (let i = 0; i < 128; i++) {
+  SQUARE_NAMES.push((i & 0x88) === 0 ? String.fromCharCode(97 + (i & 7)) + (8 - (i >> 4)) : '');
+}
+
+export function squareIndex(square: Square): number {
+  return (8 - parseInt(square[1], 10)) * 16 + (square.charCodeAt(0) - 97);
+}
+
+export function squareName(index: number): Square {
+  return SQUARE_NAMES[index];
+}
+
+export function pieceCode(piece: Piece): number {
+  return SYMBOL_TYPES[piece.symbol] | (piece.color === 'w' ? WHITE : BLACK);
+}
+
+export function pieceFromCode(code: number): Piece | null {
+  if (!code) return null;
+  return { symbol: TYPE_SYMBOLS[code & 7]!, color: code & BLACK ? 'b' : 'w' };
+}
+
+export function colorCode(color: PieceColor): number {
+  return color === 'w' ? WHITE : BLACK;
+}
+
+export const moveFrom = (move: number): number => move & 0x7f;
+export const moveTo = (move: number): number => (move >> 7) & 0x7f;
+export const movePromotionType = (move: number): number => (move >> 14) & 7;
+
+export function movePromotionSymbol(move: number): PieceSymbol | undefined {
+  const type = movePromotionType(move);
+  return type ? TYPE_SYMBOLS[type]! : undefined;
+}
+
+function encodeMove(from: number, to: number, promotionType: number, flags: number): number {
+  return from | (to << 7) | (promotionType << 14) | flags;
+}
+
+function computeHash(position: Position): void {
+  let lo = 0;
+  let hi = 0;
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) { sq += 7; continue; }
+    const piece = position.squares[sq];
+    if (piece) {
+      lo ^= PIECE_KEYS_LO[piece * 128 + sq];
+      hi ^= PIECE_KEYS_HI[piece * 128 + sq];
+    }
+  }
+  lo ^= CASTLING_KEYS_LO[position.castling];
+  hi ^= CASTLING_KEYS_HI[position.castling];
+  if (position.epSquare >= 0) {
+    lo ^= EP_FILE_KEYS_LO[position.epSquare & 7];
+    hi ^= EP_FILE_KEYS_HI[position.epSquare & 7];
+  }
+  if (position.turn === BLACK) {
+    lo ^= SIDE_KEY_LO;
+    hi ^= SIDE_KEY_HI;
+  }
+  position.hashLo = lo;
+  position.hashHi = hi;
+}
+
+export function positionFromBoard(board: Board, turn: PieceColor, castlingRights: string, enPassantTarget: string | null): Position {
+  const position: Position = {
+    squares: new Int8Array(128),
+    turn: colorCode(turn),
+    castling: 0,
+    epSquare: enPassantTarget ? squareIndex(enPassantTarget) : -1,
+    kings: [-1, -1],
+    hashLo: 0,
+    hashHi: 0,
+    undoStack: [],
+  };
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const piece = board[r][c];
+      if (!piece) continue;
+      const sq = r * 16 + c;
+      position.squares[sq] = pieceCode(piece);
+      if (piece.symbol === 'k') position.kings[piece.color === 'w' ? 0 : 1] = sq;
+    }
+  }
+  for (const [letter, bit] of CASTLING_LETTERS) {
+    if (castlingRights.includes(letter)) position.castling |= bit;
+  }
+  computeHash(position);
+  return position;
+}
+
+export function positionToBoard(position: Position): Board {
+  const board: Board = [];
+  for (let r = 0; r < 8; r++) {
+    const row: (Piece | null)[] = [];
+    for (let c = 0; c < 8; c++) row.push(pieceFromCode(position.squares[r * 16 + c]));
+    board.push(row);
+  }
+  return board;
+}
+
+export function castlingRightsString(position: Position): string {
+  const rights = CASTLING_LETTERS.filter(([, bit]) => position.castling & bit).map(([letter]) => letter).join('');
+  return rights || '-';
+}
+
+export function isSquareAttacked(position: Position, sq: number, byColor: number): boolean {
+  const squares = position.squares;
+
+  // A White pawn attacks upwards (towards row 0), so it sits one row below the target.
+  const pawn = byColor | PAWN;
+  const pawnRowOffset = byColor === WHITE ? 16 : -16;
+  for (const side of [-1, 1]) {
+    const from = sq + pawnRowOffset + side;
+    if (!(from & 0x88) && squares[from] === pawn) return true;
+  }
+
+  const knight = byColor | KNIGHT;
+  for (const offset of KNIGHT_OFFSETS) {
+    const from = sq + offset;
+    if (!(from & 0x88) && squares[from] === knight) return true;
+  }
+
+  const king = byColor | KING;
+  for (const offset of KING_OFFSETS) {
+    const from = sq + offset;
+    if (!(from & 0x88) && squares[from] === king) return true;
+  }
+
+  const queen = byColor | QUEEN;
+  const bishop = byColor | BISHOP;
+  for (const direction of BISHOP_DIRECTIONS) {
+    for (let from = sq + direction; !(from & 0x88); from += direction) {
+      const piece = squares[from];
+      if (!piece) continue;
+      if (piece === bishop || piece === queen) return true;
+      break;
+    }
+  }
+  const rook = byColor | ROOK;
+  for (const direction of ROOK_DIRECTIONS) {
+    for (let from = sq + direction; !(from & 0x88); from += direction) {
+      const piece = squares[from];
+      if (!piece) continue;
+      if (piece === rook || piece === queen) return true;
+      break;
+    }
+  }
+  return false;
+}
+
+// Every piece of `byColor` that attacks `sq`, ignoring pins.
+export function getAttackingSquares(position: Position, sq: number, byColor: number): number[] {
+  const squares = position.squares;
+  const attackers: number[] = [];
+  const pawnRowOffset = byColor === WHITE ? 16 : -16;
+  for (const side of [-1, 1]) {
+    const from = sq + pawnRowOffset + side;
+    if (!(from & 0x88) && squares[from] === (byColor | PAWN)) attackers.push(from);
+  }
+  for (const offset of KNIGHT_OFFSETS) {
+    const from = sq + offset;
+    if (!(from & 0x88) && squares[from] === (byColor | KNIGHT)) attackers.push(from);
+  }
+  for (const offset of KING_OFFSETS) {
+    const from = sq + offset;
+    if (!(from & 0x88) && squares[from] === (byColor | KING)) attackers.push(from);
+  }
+  for (const [directions, slider] of [[BISHOP_DIRECTIONS, BISHOP], [ROOK_DIRECTIONS, ROOK]] as const) {
+    for (const direction of directions) {
+      for (let from = sq + direction; !(from & 0x88); from += direction) {
+        const piece = squares[from];
+        if (!piece) continue;
+        if (piece === (byColor | slider) || piece === (byColor | QUEEN)) attackers.push(from);
+        break;
+      }
+    }
+  }
+  return attackers.sort((a, b) => a - b);
+}
+
+export function isInCheck(position: Position, color: number = position.turn): boolean {
+  const kingSq = position.kings[color >> 3];
+  return kingSq >= 0 && isSquareAttacked(position, kingSq, color ^ BLACK);
+}
+
+function pushPawnMove(moves: number[], from: number, to: number, flags: number, promotionRow: number): void {
+  if (to >> 4 === promotionRow) {
+    for (const type of PROMOTION_TYPES) moves.push(encodeMove(from, to, type, flags));
+  } else {
+    moves.push(encodeMove(from, to, 0, flags));
+  }
+}
+
+function generatePieceMoves(position: Position, from: number, moves: number[], capturesOnly: boolean): void {
+  const squares = position.squares;
+  const us = position.turn;
+  const them = us ^ BLACK;
+  const piece = squares[from];
+  const type = piece & 7;
+
+  if (type === PAWN) {
+    const forward = us === WHITE ? -16 : 16;
+    const startRow = us === WHITE ? 6 : 1;
+    const promotionRow = us === WHITE ? 0 : 7;
+    const one = from + forward;
+    // Quiet promotions are generated with captures since they change material.
+    if (!(one & 0x88) && !squares[one] && (!capturesOnly || one >> 4 === promotionRow)) {
+      pushPawnMove(moves, from, one, 0, promotionRow);
+      const two = one + forward;
+      if (!capturesOnly && from >> 4 === startRow && !squares[two]) {
+        moves.push(encodeMove(from, two, 0, MOVE_DOUBLE_PUSH));
+      }
+    }
+    for (const side of [-1, 1]) {
+      const to = one + side;
+      if (to & 0x88) continue;
+      const target = squares[to];
+      if (target && (target & BLACK) === them) {
+        pushPawnMove(moves, from, to, MOVE_CAPTURE, promotionRow);
+      } else if (to === position.epSquare && !target) {
+        moves.push(encodeMove(from, to, 0, MOVE_CAPTURE | MOVE_EN_PASSANT));
+      }
+    }
+    return;
+  }
+
+  if (type === KNIGHT || type === KING) {
+    for (const offset of type === KNIGHT ? KNIGHT_OFFSETS : KING_OFFSETS) {
+      const to = from + offset;
+      if (to & 0x88) continue;
+      const target = squares[to];
+      if (!target) {
+        if (!capturesOnly) moves.push(encodeMove(from, to, 0, 0));
+      } else if ((target & BLACK) === them) {
+        moves.push(encodeMove(from, to, 0, MOVE_CAPTURE));
+      }
+    }
+    if (type === KING && !capturesOnly) generateCastlingMoves(position, from, moves);
+    return;
+  }
+
+  const directions = type === BISHOP ? BISHOP_DIRECTIONS : type === ROOK ? ROOK_DIRECTIONS : KING_OFFSETS;
+  for (const direction of directions) {
+    for (let to = from + direction; !(to & 0x88); to += direction) {
+      const target = squares[to];
+      if (!target) {
+        if (!capturesOnly) moves.push(encodeMove(from, to, 0, 0));
+        continue;
+      }
+      if ((target & BLACK) === them) moves.push(encodeMove(from, to, 0, MOVE_CAPTURE));
+      break;
+    }
+  }
+}
+
+function generateCastlingMoves(position: Position, from: number, moves: number[]): void {
+  const squares = position.squares;
+  const us = position.turn;
+  const them = us ^ BLACK;
+  const homeRow = us === WHITE ? 112 : 0;
+  if (from !== homeRow + 4 || isSquareAttacked(position, from, them)) return;
+  const kingside = us === WHITE ? WHITE_KINGSIDE : BLACK_KINGSIDE;
+  const queenside = us === WHITE ? WHITE_QUEENSIDE : BLACK_QUEENSIDE;
+  const rook = us | ROOK;
+
+  if ((position.castling & kingside) && squares[homeRow + 7] === rook &&
+      !squares[homeRow + 5] && !squares[homeRow + 6] &&
+      !isSquareAttacked(position, homeRow + 5, them) && !isSquareAttacked(position, homeRow + 6, them)) {
+    moves.push(encodeMove(from, homeRow + 6, 0, MOVE_CASTLE));
+  }
+  if ((position.castling & queenside) && squares[homeRow] === rook &&
+      !squares[homeRow + 1] && !squares[homeRow + 2] && !squares[homeRow + 3] &&
+      !isSquareAttacked(position, homeRow + 3, them) && !isSquareAttacked(position, homeRow + 2, them)) {
+    moves.push(encodeMove(from, homeRow + 2, 0, MOVE_CASTLE));
+  }
+}
+
+// Moves that follow piece movement rules but may leave the mover's king in check.
+export function generatePseudoLegalMoves(position: Position, capturesOnly = false, fromSquare = -1): number[] {
+  const moves: number[] = [];
+  if (fromSquare >= 0) {
+    const piece = position.squares[fromSquare];
+    if (piece && (piece & BLACK) === position.turn) generatePieceMoves(position, fromSquare, moves, capturesOnly);
+    return moves;
+  }
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) { sq += 7; continue; }
+    const piece = position.squares[sq];
+    if (piece && (piece & BLACK) === position.turn) generatePieceMoves(position, sq, moves, capturesOnly);
+  }
+  return moves;
+}
+
+export function generateLegalMoves(position: Position, fromSquare = -1): number[] {
+  const legal: number[] = [];
+  for (const move of generatePseudoLegalMoves(position, false, fromSquare)) {
+    if (makeMove(position, move)) legal.push(move);
+    unmakeMove(position, move);
+  }
+  return legal;
+}
+
+export function hasLegalMove(position: Position): boolean {
+  for (const move of generatePseudoLegalMoves(position)) {
+    const legal = makeMove(position, move);
+    unmakeMove(position, move);
+    if (legal) return true;
+  }
+  return false;
+}
+
+function togglePiece(position: Position, piece: number, sq: number): void {
+  position.hashLo ^= PIECE_KEYS_LO[piece * 128 + sq];
+  position.hashHi ^= PIECE_KEYS_HI[piece * 128 + sq];
+}
+
+// Plays a pseudo-legal move in place. Returns false when it leaves the mover in check; the move
+// must still be undone with unmakeMove in that case.
+export function makeMove(position: Position, move: number): boolean {
+  const squares = position.squares;
+  const from = moveFrom(move);
+  const to = moveTo(move);
+  const promotionType = movePromotionType(move);
+  const us = position.turn;
+  const them = us ^ BLACK;
+  const piece = squares[from];
+  const captureSq = move & MOVE_EN_PASSANT ? to + (us === WHITE ? 16 : -16) : to;
+  const captured = squares[captureSq];
+
+  position.undoStack.push(captured, position.castling, position.epSquare, position.hashLo, position.hashHi);
+
+  togglePiece(position, piece, from);
+  if (captured) {
+    togglePiece(position, captured, captureSq);
+    squares[captureSq] = 0;
+  }
+  const placed = promotionType ? us | promotionType : piece;
+  squares[from] = 0;
+  squares[to] = placed;
+  togglePiece(position, placed, to);
+
+  if (move & MOVE_CASTLE) {
+    const rookFrom = to > from ? from + 3 : from - 4;
+    const rookTo = to > from ? from + 1 : from - 1;
+    const rook = squares[rookFrom];
+    squares[rookFrom] = 0;
+    squares[rookTo] = rook;
+    togglePiece(position, rook, rookFrom);
+    togglePiece(position, rook, rookTo);
+  }
+  if ((piece & 7) === KING) position.kings[us >> 3] = to;
+
+  position.hashLo ^= CASTLING_KEYS_LO[position.castling];
+  position.hashHi ^= CASTLING_KEYS_HI[position.castling];
+  position.castling &= CASTLING_MASK[from] & CASTLING_MASK[to];
+  position.hashLo ^= CASTLING_KEYS_LO[position.castling];
+  position.hashHi ^= CASTLING_KEYS_HI[position.castling];
+
+  if (position.epSquare >= 0) {
+    position.hashLo ^= EP_FILE_KEYS_LO[position.epSquare & 7];
+    position.hashHi ^= EP_FILE_KEYS_HI[position.epSquare & 7];
+  }
+  position.epSquare = move & MOVE_DOUBLE_PUSH ? (from + to) >> 1 : -1;
+  if (position.epSquare >= 0) {
+    position.hashLo ^= EP_FILE_KEYS_LO[position.epSquare & 7];
+    position.hashHi ^= EP_FILE_KEYS_HI[position.epSquare & 7];
+  }
+
+  position.turn = them;
+  position.hashLo ^= SIDE_KEY_LO;
+  position.hashHi ^= SIDE_KEY_HI;
+
+  const kingSq = position.kings[us >> 3];
+  return kingSq < 0 || !isSquareAttacked(position, kingSq, them);
+}
+
+export function unmakeMove(position: Position, move: number): void {
+  const squares = position.squares;
+  const from = moveFrom(move);
+  const to = moveTo(move);
+  const us = position.turn ^ BLACK;
+  position.turn = us;
+
+  const stack = position.undoStack;
+  position.hashHi = stack.pop()!;
+  position.hashLo = stack.pop()!;
+  position.epSquare = stack.pop()!;
+  position.castling = stack.pop()!;
+  const captured = stack.pop()!;
+
+  const moved = movePromotionType(move) ? us | PAWN : squares[to];
+  squares[from] = moved;
+  if (move & MOVE_EN_PASSANT) {
+    squares[to] = 0;
+    squares[to + (us === WHITE ? 16 : -16)] = captured;
+  } else {
+    squares[to] = captured;
+  }
+
+  if (move & MOVE_CASTLE) {
+    const rookFrom = to > from ? from + 3 : from - 4;
+    const rookTo = to > from ? from + 1 : from - 1;
+    squares[rookFrom] = squares[rookTo];
+    squares[rookTo] = 0;
+  }
+  if ((moved & 7) === KING) position.kings[us >> 3] = from;
+}
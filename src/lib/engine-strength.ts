@@ -0,0 +1,94 @@
+// Maps difficulty settings to concrete engine strength profiles.
+
+import type { Difficulty } from '@/types/chess';
+import { searchBestMove, type EngineMove, type EnginePosition, type SearchResult } from '@/lib/chess-engine';
+import { getLegalMoveList } from '@/lib/chess-logic';
+import { getBookMoves, pickBookMove } from '@/lib/openings';
+
+export interface StrengthProfile {
+  level: number;
+  maxDepth: number;
+  timeLimitMs: number;
+  blunderChance: number; // Probability of deliberately playing a random move instead of the best one
+  evalNoise: number; // Centipawn noise passed to the search
+  bookPlies: number; // The opening book is only consulted this many plies into the game
+  bookSharpness: number; // Above 1 sticks to the popular book moves, below 1 tries the rarer ones too
+}
+
+export const MIN_ENGINE_LEVEL = 1;
+export const MAX_ENGINE_LEVEL = 20;
+
+// Level each difficulty preset snaps the strength slider to.
+export const DIFFICULTY_ENGINE_LEVELS: Record<Difficulty, number> = {
+  beginner: 3,
+  intermediate: 10,
+  advanced: 17,
+};
+
+function clampLevel(level: number): number {
+  return Math.min(MAX_ENGINE_LEVEL, Math.max(MIN_ENGINE_LEVEL, Math.round(level)));
+}
+
+export function getStrengthProfile(level: number): StrengthProfile {
+  const clamped = clampLevel(level);
+  const progress = (clamped - MIN_ENGINE_LEVEL) / (MAX_ENGINE_LEVEL - MIN_ENGINE_LEVEL); // 0..1
+  return {
+    level: clamped,
+    maxDepth: 1 + Math.round(progress * 7),
+    timeLimitMs: 150 + Math.round(progress * 2850),
+    // Blunders fade out by level 12, noise by level 15.
+    blunderChance: Math.max(0, 0.35 * (1 - (clamped - 1) / 11)),
+    evalNoise: Math.max(0, Math.round(200 * (1 - (clamped - 1) / 14))),
+    // Weaker levels leave theory sooner and pick book moves more evenly.
+    bookPlies: 4 + Math.round(progress * 16),
+    bookSharpness: 0.5 + progress * 1.5,
+  };
+}
+
+// The tutor prompts only know three levels; pick the closest one for a slider value.
+export function difficultyForEngineLevel(level: number): Difficulty {
+  const clamped = clampLevel(level);
+  if (clamped <= 6) return 'beginner';
+  if (clamped <= 13) return 'intermediate';
+  return 'advanced';
+}
+
+function pickRandomLegalMove(position: EnginePosition, exclude: EngineMove | null): EngineMove | null {
+  const { board, turn, castlingRights, enPassantTarget } = position;
+  const candidates: EngineMove[] = getLegalMoveList(board, turn, castlingRights, enPassantTarget)
+    .filter(move => !exclude || move.from !== exclude.from || move.to !== exclude.to || move.promotion !== exclude.promotion)
+    .map(({ from, to, promotion }) => ({ from, to, promotion }));
+  if (candidates.length === 0) return null;
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+// Plays from the opening book while the game is young enough (pass `bookPly`, the plies played so far, to
+// allow it). Otherwise runs the search with the profile's limits, then occasionally swaps the result for a
+// deliberate blunder.
+export function chooseEngineMove(
+  position: EnginePosition, profile: StrengthProfile, bookPly?: number
+): SearchResult & { isDeliberateBlunder: boolean; isBookMove: boolean } {
+  if (bookPly !== undefined && bookPly < profile.bookPlies) {
+    const { board, turn, castlingRights, enPassantTarget } = position;
+    const bookMove = pickBookMove(getBookMoves(board, turn, castlingRights, enPassantTarget), profile.bookSharpness);
+    if (bookMove) {
+      const move: EngineMove = { from: bookMove.from, to: bookMove.to, promotion: bookMove.promotion };
+      return { bestMove: move, score: 0, mateIn: null, depth: 0, pv: [move], nodes: 0, elapsedMs: 0, isDeliberateBlunder: false, isBookMove: true };
+    }
+  }
+
+  const result = searchBestMove(position, {
+    maxDepth: profile.maxDepth,
+    timeLimitMs: profile.timeLimitMs,
+    evalNoise: profile.evalNoise,
+  });
+
+  // Never throw away a forced mate; that would feel arbitrary rather than human.
+  if (result.bestMove && result.mateIn === null && Math.random() < profile.blunderChance) {
+    const blunder = pickRandomLegalMove(position, result.bestMove);
+    if (blunder) {
+      return { ...result, bestMove: blunder, pv: [blunder], isDeliberateBlunder: true, isBookMove: false };
+    }
+  }
+  return { ...result, isDeliberateBlunder: false, isBookMove: false };
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_FEN } from '@/lib/chess-logic';
+import {
+  describeOpeningMoves,
+  describeGameOpening,
+  formatGameDuration,
+  filterLibraryGames,
+  exportLibraryPgn,
+  type LibraryGame,
+} from '@/lib/game-library';
+
+function libraryGame(overrides: Partial<LibraryGame>): LibraryGame {
+  return {
+    id: 'id',
+    startedAt: 0,
+    endedAt: 0,
+    mode: 'vs-ai',
+    white: 'Player',
+    black: 'ChessMastery AI (Level 10)',
+    playerColor: 'w',
+    difficulty: 'intermediate',
+    engineLevel: 10,
+    timeControl: null,
+    status: 'finished',
+    result: '1-0',
+    termination: 'Checkmate',
+    opening: '1. e4 e5',
+    plyCount: 2,
+    pgn: '[Result "1-0"]\n\n1. e4 e5 1-0\n',
+    ...overrides,
+  };
+}
+
+describe('describeOpeningMoves', () => {
+  it('numbers the first six plies', () => {
+    expect(describeOpeningMoves(['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4', 'Nxd4'], INITIAL_FEN))
+      .toBe('1. e4 c5 2. Nf3 d6 3. d4 cxd4');
+  });
+
+  it('numbers from a custom position with Black to move', () => {
+    expect(describeOpeningMoves(['Kd7', 'Kf2'], '4k3/8/8/8/8/8/8/4K3 b - - 0 12')).toBe('12... Kd7 13. Kf2');
+  });
+});
+
+describe('describeGameOpening', () => {
+  it('names a book opening and falls back to the moves outside the book', () => {
+    expect(describeGameOpening(['e4', 'c5', 'Nf3', 'd6'], INITIAL_FEN)).toMatch(/^B\d\d Sicilian Defense/);
+    expect(describeGameOpening(['Kd7', 'Kf2'], '4k3/8/8/8/8/8/8/4K3 b - - 0 12')).toBe('12... Kd7 13. Kf2');
+  });
+});
+
+describe('formatGameDuration', () => {
+  it.each([
+    [45_000, '45s'],
+    [750_000, '12m 30s'],
+    [3_900_000, '1h 05m'],
+  ])('formats %i ms as %s', (ms, expected) => {
+    expect(formatGameDuration(ms)).toBe(expected);
+  });
+});
+
+describe('library search and export', () => {
+  const games = [
+    libraryGame({ id: 'a', opening: 'B20 Sicilian Defense', result: '0-1', termination: 'Checkmate', startedAt: 2 }),
+    libraryGame({ id: 'b', opening: '1. d4 d5', result: '1/2-1/2', termination: 'Stalemate', startedAt: 1, pgn: '[Result "1/2-1/2"]\n\n1. d4 d5 1/2-1/2' }),
+    libraryGame({ id: 'c', white: 'Player 1', black: 'Player 2', mode: 'hot-seat', status: 'abandoned', result: '*', startedAt: 3 }),
+  ];
+
+  it('matches every word of the query', () => {
+    expect(filterLibraryGames(games, '').map(g => g.id)).toEqual(['a', 'b', 'c']);
+    expect(filterLibraryGames(games, 'sicilian').map(g => g.id)).toEqual(['a']);
+    expect(filterLibraryGames(games, 'STALEMATE d4').map(g => g.id)).toEqual(['b']);
+    expect(filterLibraryGames(games, 'player 2 abandoned').map(g => g.id)).toEqual(['c']);
+    expect(filterLibraryGames(games, 'sicilian stalemate')).toEqual([]);
+  });
+
+  it('exports oldest first, separated by blank lines', () => {
+    const pgn = exportLibraryPgn(games.slice(0, 2));
+    expect(pgn).toBe('[Result "1/2-1/2"]\n\n1. d4 d5 1/2-1/2\n\n[Result "1-0"]\n\n1. e4 e5 1-0\n');
+  });
+});
@@ -0,0 +1,124 @@
+// Game library: every finished or abandoned game, kept in IndexedDB so starting a new game never
+// destroys the previous one. Each record carries its PGN, so reopening a game goes through the PGN importer.
+
+import type { Difficulty, GameMode, PieceColor, TimeControl } from '@/types/chess';
+import { fenToBoard } from '@/lib/chess-logic';
+import { formatOpeningName, identifyOpening } from '@/lib/openings';
+import type { PgnResult } from '@/lib/pgn';
+import { runRequest, runTransaction, type IndexedDbConfig } from '@/lib/indexed-db';
+
+export type LibraryGameStatus = 'finished' | 'abandoned';
+
+export interface LibraryGame {
+  id: string;
+  startedAt: number; // Date.now() of the first move
+  endedAt: number; // Date.now() when the game ended or was abandoned
+  mode: GameMode;
+  white: string;
+  black: string;
+  playerColor: PieceColor | null; // Null when nobody in particular was "you" (hot-seat and engine games)
+  difficulty: Difficulty;
+  engineLevel: number | null; // The opponent's level in games against the AI
+  timeControl: TimeControl | null;
+  status: LibraryGameStatus;
+  result: PgnResult;
+  termination: string | null; // E.g. "Checkmate" or a draw rule; null for abandoned games
+  opening: string; // "B20 Sicilian Defense" when the game reached the opening book, else its first moves
+  plyCount: number;
+  pgn: string;
+}
+
+const DB_NAME = 'chessMasteryLibrary';
+const DB_VERSION = 1;
+const STORE_NAME = 'games';
+const OPENING_PLIES = 6; // Moves shown as the opening until a game has a named opening
+
+const LIBRARY_DB: IndexedDbConfig = {
+  name: DB_NAME,
+  version: DB_VERSION,
+  label: 'game library',
+  upgrade: db => {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex('endedAt', 'endedAt');
+  },
+};
+
+// Inserts or replaces a game; saving the same id again updates it (e.g. after a late tutor comment).
+export async function saveLibraryGame(game: LibraryGame): Promise<void> {
+  await runRequest(LIBRARY_DB, STORE_NAME, 'readwrite', store => store.put(game));
+}
+
+// Newest first.
+export async function listLibraryGames(): Promise<LibraryGame[]> {
+  const games = await runRequest<LibraryGame[]>(LIBRARY_DB, STORE_NAME, 'readonly', store => store.getAll());
+  return games.sort((a, b) => b.endedAt - a.endedAt);
+}
+
+export async function deleteLibraryGames(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await runTransaction(LIBRARY_DB, [STORE_NAME], 'readwrite', transaction => {
+    const store = transaction.objectStore(STORE_NAME);
+    ids.forEach(id => store.delete(id));
+  });
+}
+
+// "1. e4 c5 2. Nf3 d6 3. d4 cxd4" — the first few moves, numbered from the starting position.
+export function describeOpeningMoves(sanMoves: string[], startFen: string, maxPlies = OPENING_PLIES): string {
+  const start = fenToBoard(startFen);
+  let moveNumber = start.fullmove;
+  let turn = start.turn;
+  const parts: string[] = [];
+  sanMoves.slice(0, maxPlies).forEach((san, index) => {
+    if (turn === 'w') parts.push(`${moveNumber}. ${san}`);
+    else parts.push(index === 0 ? `${moveNumber}... ${san}` : san);
+    if (turn === 'b') moveNumber++;
+    turn = turn === 'w' ? 'b' : 'w';
+  });
+  return parts.join(' ');
+}
+
+// The opening as the library shows and searches it: its name from the opening book, or the first moves
+// when the game never reached a named line.
+export function describeGameOpening(sanMoves: string[], startFen: string): string {
+  const { opening } = identifyOpening(sanMoves, startFen);
+  return opening ? formatOpeningName(opening) : describeOpeningMoves(sanMoves, startFen);
+}
+
+// "1h 05m", "12m 30s" or "45s".
+export function formatGameDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+  return `${seconds}s`;
+}
+
+// Case-insensitive match on every word of the query against players, opening name or moves, result,
+// termination and date.
+export function filterLibraryGames(games: LibraryGame[], query: string): LibraryGame[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return games;
+  return games.filter(game => {
+    const haystack = [
+      game.white,
+      game.black,
+      game.opening,
+      game.result,
+      game.termination ?? '',
+      game.status,
+      game.difficulty,
+      new Date(game.endedAt).toLocaleDateString(),
+    ].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+// All games as one PGN database, oldest first as most tools expect.
+export function exportLibraryPgn(games: LibraryGame[]): string {
+  return [...games]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .map(game => game.pgn.trim())
+    .join('\n\n') + '\n';
+}
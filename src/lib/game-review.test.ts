@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_FEN } from '@/lib/chess-logic';
+import { buildGameReview, getKeyMoments, getMoveAccuracy, getWinPercent, evaluationToGraphValue } from '@/lib/game-review';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+const AFTER_E4_F6 = 'rnbqkbnr/ppppp1pp/5p2/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2';
+
+describe('getWinPercent and getMoveAccuracy', () => {
+  it('maps an equal position to even chances and is symmetric', () => {
+    expect(getWinPercent(0)).toBeCloseTo(50);
+    expect(getWinPercent(300) + getWinPercent(-300)).toBeCloseTo(100);
+    expect(getWinPercent(50000)).toBeCloseTo(getWinPercent(1000));
+  });
+
+  it('gives full accuracy when winning chances do not drop', () => {
+    expect(getMoveAccuracy(60, 60)).toBeCloseTo(100, 3);
+    expect(getMoveAccuracy(40, 70)).toBeCloseTo(100, 3);
+    expect(getMoveAccuracy(90, 10)).toBeLessThan(10);
+  });
+});
+
+describe('buildGameReview', () => {
+  const searches = [
+    { evaluation: { cp: 30, mate: null }, bestLine: ['e4', 'e5'] },
+    { evaluation: { cp: 35, mate: null }, bestLine: ['e5'] },
+    { evaluation: { cp: 400, mate: null }, bestLine: ['Qh5+'] },
+  ];
+
+  it('scores the engine move as best and a collapse as a blunder', () => {
+    const review = buildGameReview([INITIAL_FEN, AFTER_E4, AFTER_E4_F6], ['e4', 'f6'], searches);
+    expect(review.moves[0]).toMatchObject({ color: 'w', playedBestMove: true, centipawnLoss: 0, classification: 'best', accuracy: 100 });
+    expect(review.moves[1]).toMatchObject({ color: 'b', bestMove: 'e5', centipawnLoss: 365, classification: 'blunder' });
+    expect(review.summary.w).toMatchObject({ accuracy: 100, averageCentipawnLoss: 0, blunders: 0 });
+    expect(review.summary.b.blunders).toBe(1);
+    expect(review.summary.b.accuracy).toBeLessThan(50);
+    expect(getKeyMoments(review).map(move => move.san)).toEqual(['f6']);
+  });
+
+  it('flags a missed win when a winning position is thrown away', () => {
+    const review = buildGameReview([INITIAL_FEN, AFTER_E4], ['e4'], [
+      { evaluation: { cp: 500, mate: null }, bestLine: ['d4'] },
+      { evaluation: { cp: 50, mate: null }, bestLine: [] },
+    ]);
+    expect(review.moves[0].isMissedWin).toBe(true);
+    expect(review.summary.w.missedWins).toBe(1);
+    expect(review.summary.b.accuracy).toBeNull();
+  });
+
+  it('rejects searches that do not line up with the positions', () => {
+    expect(() => buildGameReview([INITIAL_FEN, AFTER_E4], ['e4'], searches)).toThrow();
+  });
+});
+
+describe('evaluationToGraphValue', () => {
+  it('clips large advantages and mates to the graph limit', () => {
+    expect(evaluationToGraphValue({ cp: 150, mate: null })).toBe(1.5);
+    expect(evaluationToGraphValue({ cp: 2500, mate: null })).toBe(10);
+    expect(evaluationToGraphValue({ cp: -10000, mate: -2 })).toBe(-10);
+  });
+});
@@ -0,0 +1,179 @@
+// Post-game review: one engine search per position of a finished game, turned into centipawn loss,
+// move classifications and an accuracy percentage per side.
+
+import type { PieceColor } from '@/types/chess';
+import { fenToBoard, moveToSan, parseSan } from '@/lib/chess-logic';
+import {
+  classifyCentipawnLoss,
+  evaluateFen,
+  MATE_EVAL_CP,
+  type AnalysisOptions,
+  type MoveClassification,
+  type PositionEvaluation,
+} from '@/lib/move-analysis';
+
+export interface ReviewedMove {
+  ply: number; // 0-based index into the game's moves
+  san: string;
+  color: PieceColor;
+  fenBefore: string;
+  fenAfter: string;
+  bestMove: string | null;
+  bestLine: string[];
+  playedBestMove: boolean;
+  evalBefore: PositionEvaluation;
+  evalAfter: PositionEvaluation;
+  centipawnLoss: number;
+  classification: MoveClassification;
+  accuracy: number; // 0-100, from the drop in the mover's winning chances
+  isMissedWin: boolean; // The mover was winning before the move and no longer is
+}
+
+export interface SideReviewSummary {
+  accuracy: number | null; // Null when the side made no moves
+  averageCentipawnLoss: number | null;
+  inaccuracies: number;
+  mistakes: number;
+  blunders: number;
+  missedWins: number;
+}
+
+export interface GameReview {
+  evaluations: PositionEvaluation[]; // One per position, so moves.length + 1 entries
+  moves: ReviewedMove[];
+  summary: { [color in PieceColor]: SideReviewSummary };
+}
+
+export interface GameReviewOptions extends AnalysisOptions {
+  onProgress?: (analysedPositions: number, totalPositions: number) => void;
+  isCancelled?: () => boolean;
+}
+
+// A review searches every position, so each search gets far less time than a single tutor analysis.
+const DEFAULT_REVIEW_DEPTH = 4;
+const DEFAULT_REVIEW_TIME_MS = 400;
+
+const WIN_CHANCE_CLAMP_CP = 1000;
+const WINNING_CP = 300; // At least three pawns up, or a forced mate
+const NO_LONGER_WINNING_CP = 100;
+
+// Winning chances (0-100) for a centipawn advantage, on the logistic curve lichess fitted to real games.
+export function getWinPercent(cp: number): number {
+  const clamped = Math.max(-WIN_CHANCE_CLAMP_CP, Math.min(WIN_CHANCE_CLAMP_CP, cp));
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * clamped)) - 1);
+}
+
+// Accuracy (0-100) of a move that took the mover's winning chances from `winBefore` to `winAfter`.
+export function getMoveAccuracy(winBefore: number, winAfter: number): number {
+  const drop = Math.max(0, winBefore - winAfter);
+  const accuracy = 103.1668 * Math.exp(-0.04354 * drop) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+function emptySummary(): SideReviewSummary {
+  return { accuracy: null, averageCentipawnLoss: null, inaccuracies: 0, mistakes: 0, blunders: 0, missedWins: 0 };
+}
+
+function average(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Turns per-position engine results into the review. `searches[i]` is the search of `fens[i]`,
+// and `fens[i + 1]` is the position after `sanMoves[i]`.
+export function buildGameReview(
+  fens: string[],
+  sanMoves: string[],
+  searches: { evaluation: PositionEvaluation; bestLine: string[] }[],
+): GameReview {
+  if (fens.length !== sanMoves.length + 1 || searches.length !== fens.length) {
+    throw new Error('A game review needs one position per move plus the starting position, each with a search.');
+  }
+
+  const moves: ReviewedMove[] = sanMoves.map((san, ply) => {
+    const before = fenToBoard(fens[ply]);
+    const color = before.turn;
+    // Compare in the engine's own notation so check marks and disambiguation cannot cause a mismatch.
+    const played = parseSan(before.board, before.turn, before.castling, before.enPassant, san);
+    const playedSan = moveToSan(before.board, before.turn, before.castling, before.enPassant, played);
+
+    const evalBefore = searches[ply].evaluation;
+    const evalAfter = searches[ply + 1].evaluation;
+    const bestLine = searches[ply].bestLine;
+    const bestMove = bestLine[0] ?? null;
+    const playedBestMove = bestMove === playedSan;
+
+    const moverSign = color === 'w' ? 1 : -1;
+    const clamp = (cp: number) => Math.max(-WIN_CHANCE_CLAMP_CP, Math.min(WIN_CHANCE_CLAMP_CP, cp));
+    const moverBefore = moverSign * evalBefore.cp;
+    const moverAfter = moverSign * evalAfter.cp;
+    // The engine's own first choice costs nothing, whatever the noise between two shallow searches says.
+    const centipawnLoss = playedBestMove ? 0 : Math.max(0, Math.round(clamp(moverBefore) - clamp(moverAfter)));
+
+    return {
+      ply,
+      san: playedSan,
+      color,
+      fenBefore: fens[ply],
+      fenAfter: fens[ply + 1],
+      bestMove,
+      bestLine,
+      playedBestMove,
+      evalBefore,
+      evalAfter,
+      centipawnLoss,
+      classification: classifyCentipawnLoss(centipawnLoss),
+      accuracy: playedBestMove ? 100 : getMoveAccuracy(getWinPercent(moverBefore), getWinPercent(moverAfter)),
+      isMissedWin: !playedBestMove && moverBefore >= WINNING_CP && moverAfter < NO_LONGER_WINNING_CP,
+    };
+  });
+
+  const summary = { w: emptySummary(), b: emptySummary() };
+  (['w', 'b'] as PieceColor[]).forEach(color => {
+    const sideMoves = moves.filter(move => move.color === color);
+    const side = summary[color];
+    side.accuracy = average(sideMoves.map(move => move.accuracy));
+    side.averageCentipawnLoss = average(sideMoves.map(move => move.centipawnLoss));
+    side.inaccuracies = sideMoves.filter(move => move.classification === 'inaccuracy').length;
+    side.mistakes = sideMoves.filter(move => move.classification === 'mistake').length;
+    side.blunders = sideMoves.filter(move => move.classification === 'blunder').length;
+    side.missedWins = sideMoves.filter(move => move.isMissedWin).length;
+  });
+
+  return { evaluations: searches.map(search => search.evaluation), moves, summary };
+}
+
+// Searches every position in turn, yielding to the browser between searches so the page stays
+// responsive and the review can be cancelled. Resolves to null when cancelled.
+export async function reviewGame(fens: string[], sanMoves: string[], options: GameReviewOptions = {}): Promise<GameReview | null> {
+  const analysisOptions: AnalysisOptions = {
+    maxDepth: options.maxDepth ?? DEFAULT_REVIEW_DEPTH,
+    timeLimitMs: options.timeLimitMs ?? DEFAULT_REVIEW_TIME_MS,
+  };
+  const searches: { evaluation: PositionEvaluation; bestLine: string[] }[] = [];
+  for (const fen of fens) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (options.isCancelled?.()) return null;
+    searches.push(evaluateFen(fen, analysisOptions));
+    options.onProgress?.(searches.length, fens.length);
+  }
+  return buildGameReview(fens, sanMoves, searches);
+}
+
+// The moves worth stopping at: everything from an inaccuracy down, plus missed wins.
+export function getKeyMoments(review: GameReview): ReviewedMove[] {
+  return review.moves.filter(move =>
+    move.isMissedWin || move.classification === 'inaccuracy' || move.classification === 'mistake' || move.classification === 'blunder'
+  );
+}
+
+// Graph value in pawns from White's point of view, clipped so one mate does not flatten the curve.
+export function evaluationToGraphValue(evaluation: PositionEvaluation, limitPawns = 10): number {
+  if (evaluation.mate !== null || Math.abs(evaluation.cp) >= MATE_EVAL_CP) return evaluation.cp >= 0 ? limitPawns : -limitPawns;
+  return Math.max(-limitPawns, Math.min(limitPawns, evaluation.cp / 100));
+}
+
+// "12. Nf3" or "12... Nf6", numbered from the position the move was played in.
+export function formatReviewedMove(move: ReviewedMove): string {
+  const { fullmove } = fenToBoard(move.fenBefore);
+  return `${fullmove}${move.color === 'w' ? '.' : '...'} ${move.san}`;
+}
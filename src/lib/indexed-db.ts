@@ -0,0 +1,55 @@
+// IndexedDB access shared by the stores kept in the browser, such as the game library.
+// Every call opens its own connection and closes it once its transaction is done.
+
+export interface IndexedDbConfig {
+  name: string;
+  version: number;
+  label: string; // What the database holds, for error messages, e.g. "game library"
+  upgrade: (db: IDBDatabase) => void; // Creates the stores that are missing; runs when the version goes up
+}
+
+function openDatabase(config: IndexedDbConfig): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(config.name, config.version);
+    request.onupgradeneeded = () => config.upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error(`Could not open the ${config.label}.`));
+  });
+}
+
+// Runs `work` in one transaction over `storeNames` and resolves, once it commits, to the result of the
+// request `work` returned (if any).
+export async function runTransaction<T>(
+  config: IndexedDbConfig,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase(config);
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      const request = work(transaction);
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error ?? new Error(`Request to the ${config.label} failed.`));
+      transaction.onabort = () => reject(transaction.error ?? new Error(`Request to the ${config.label} was aborted.`));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// A single request against one store.
+export async function runRequest<T>(
+  config: IndexedDbConfig,
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const result = await runTransaction(config, [storeName], mode, transaction => makeRequest(transaction.objectStore(storeName)));
+  return result as T;
+}
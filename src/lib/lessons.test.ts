@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LESSON_CHAPTERS,
+  checkLessonMove,
+  completeLesson,
+  createLessonProgress,
+  getAllLessons,
+  getNextLesson,
+  getStepArrows,
+  validateLesson,
+  type Lesson,
+} from '@/lib/lessons';
+
+describe('lessons', () => {
+  it('ships a playable curriculum covering the four topics', () => {
+    expect(LESSON_CHAPTERS.map(chapter => chapter.id)).toEqual(['pieces', 'checkmates', 'endgames', 'openings']);
+    const lessons = getAllLessons();
+    expect(new Set(lessons.map(lesson => lesson.id)).size).toBe(lessons.length);
+    lessons.forEach(lesson => expect(() => validateLesson(lesson), lesson.id).not.toThrow());
+  });
+
+  it('rejects lessons with illegal moves or nowhere to start', () => {
+    const lesson: Lesson = {
+      id: 'broken',
+      title: 'Broken',
+      summary: '',
+      steps: [{ fen: '4k3/8/8/8/8/8/8/R3K3 w - - 0 1', text: '', expect: ['Ra7'], reply: 'Ke9' }],
+    };
+    expect(() => validateLesson(lesson)).toThrow(/step 1/);
+    expect(() => validateLesson({ ...lesson, steps: [{ text: 'No position' }] })).toThrow(/must start/);
+  });
+
+  it('accepts expected moves and any mate, with feedback for known mistakes', () => {
+    const step = { text: '', goal: 'checkmate' as const, wrongMoves: { Qb6: 'Stalemate!' } };
+    const fen = 'k7/8/2K5/8/8/8/8/1Q6 w - - 0 1';
+    expect(checkLessonMove(step, fen, { from: 'b1', to: 'b7' })).toMatchObject({ correct: true, san: 'Qb7#' });
+    expect(checkLessonMove(step, fen, { from: 'b1', to: 'b6' })).toMatchObject({ correct: false, feedback: 'Stalemate!' });
+    const castle = { text: '', expect: ['O-O'], success: 'Safe.' };
+    const italian = 'r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/3P1N2/PPP2PPP/RNBQK2R w KQkq - 1 5';
+    expect(checkLessonMove(castle, italian, { from: 'e1', to: 'g1' })).toMatchObject({ correct: true, feedback: 'Safe.' });
+    expect(checkLessonMove(castle, italian, { from: 'e1', to: 'f1' }).feedback).toContain('Kf1 is not the move');
+    expect(() => checkLessonMove(castle, italian, { from: 'e1', to: 'e3' })).toThrow();
+    expect(getStepArrows({ text: '', arrows: ['e2e4'] })).toEqual([{ from: 'e2', to: 'e4' }]);
+  });
+
+  it('suggests the next unfinished lesson in curriculum order', () => {
+    const [first, second, third] = getAllLessons();
+    let progress = createLessonProgress();
+    expect(getNextLesson(progress)?.id).toBe(first.id);
+    progress = completeLesson(progress, first.id, 1);
+    expect(getNextLesson(progress, first.id)?.id).toBe(second.id);
+    progress = completeLesson(progress, third.id, 2);
+    expect(getNextLesson(progress, second.id)?.id).toBe(getAllLessons()[3].id);
+    expect(getNextLesson(progress)?.id).toBe(second.id);
+  });
+});
@@ -0,0 +1,618 @@
+// Interactive lessons. A lesson is plain JSON: a list of steps, each with a short text (Markdown-style
+// **bold** and moves are highlighted), optional arrows and circled squares, and optionally a move the
+// learner has to find. A step either sets up a new position or continues from where the previous one
+// left the board, after the learner's move and the scripted reply.
+
+import type { BoardArrow, PieceColor, PieceSymbol, Square } from '@/types/chess';
+import { boardToFen, fenToBoard, getLegalMoveList, getPieceAtSquare, isCheckmateOrStalemate, makeMove, moveToSan, parseSan, INITIAL_FEN } from '@/lib/chess-logic';
+
+export interface LessonStep {
+  text: string;
+  fen?: string; // Sets up a new position; otherwise the step continues from the previous one
+  expect?: string[]; // SAN moves that complete the step; a step without `expect` or `goal` is only read
+  goal?: 'checkmate'; // Instead of `expect`: any mating move completes the step
+  reply?: string; // The other side's answer to a correct move, in SAN
+  arrows?: string[]; // "e2e4"
+  highlights?: Square[];
+  hint?: string;
+  wrongMoves?: Record<string, string>; // Feedback for tempting mistakes, keyed by SAN without +/#
+  success?: string;
+}
+
+export interface Lesson {
+  id: string;
+  title: string;
+  summary: string;
+  orientation?: PieceColor; // Defaults to the side to move in the first position
+  steps: LessonStep[];
+}
+
+export interface LessonChapter {
+  id: string;
+  title: string;
+  lessons: Lesson[];
+}
+
+export interface LessonMoveResult {
+  correct: boolean;
+  san: string;
+  fenAfter: string;
+  feedback: string;
+}
+
+export interface LessonProgress {
+  completedAt: Record<string, number>; // Lesson id -> Date.now() of the latest completion
+}
+
+// The starter curriculum, in the order it is meant to be taken.
+export const LESSON_CHAPTERS: LessonChapter[] = [
+  {
+    id: 'pieces',
+    title: 'How the Pieces Move',
+    lessons: [
+      {
+        id: 'rook',
+        title: 'The Rook',
+        summary: 'Straight lines along ranks and files.',
+        steps: [
+          {
+            fen: '4k3/8/8/8/8/8/8/R3K3 w - - 0 1',
+            text: 'The **rook** moves in straight lines: any number of squares up, down or sideways, until something is in its way.',
+            arrows: ['a1a8', 'a1d1'],
+          },
+          {
+            text: 'Slide the rook up to **a7**. From there it guards the whole seventh rank, and the black king is stuck on the back rank.',
+            expect: ['Ra7'],
+            highlights: ['a7'],
+            reply: 'Kf8',
+            hint: 'Move the rook straight up the a-file.',
+            success: 'Well done. A rook on the seventh rank is a powerful piece.',
+          },
+          {
+            text: 'Now give **check** along the eighth rank.',
+            expect: ['Ra8+'],
+            reply: 'Ke7',
+            hint: 'The black king is on the eighth rank. Which square on that rank can your rook reach?',
+            success: 'Check! The king had to step off the back rank.',
+          },
+        ],
+      },
+      {
+        id: 'bishop',
+        title: 'The Bishop',
+        summary: 'Diagonals, always on one colour.',
+        steps: [
+          {
+            fen: '3k4/8/8/8/8/8/8/2B1K3 w - - 0 1',
+            text: 'The **bishop** moves any number of squares diagonally. It never changes colour: this one will spend the whole game on dark squares.',
+            arrows: ['c1h6', 'c1a3'],
+          },
+          {
+            text: 'Give **check** with the bishop.',
+            expect: ['Bg5+'],
+            reply: 'Kd7',
+            hint: 'Look for a dark square on a diagonal that leads to d8.',
+            success: 'Check! The bishop travelled along one diagonal to g5, and attacks d8 along another.',
+          },
+          {
+            text: 'The king escaped to **d7**, a light square. A dark-squared bishop can never attack it there, which is why a bishop pair is so much stronger than a single bishop.',
+            highlights: ['d7'],
+          },
+        ],
+      },
+      {
+        id: 'knight',
+        title: 'The Knight',
+        summary: 'The L-shaped jump.',
+        steps: [
+          {
+            fen: '4k3/8/8/8/3N4/8/8/4K3 w - - 0 1',
+            text: 'The **knight** moves in an L: two squares in one direction, then one to the side. The circled squares are all the knight can reach from d4.',
+            highlights: ['b3', 'b5', 'c2', 'c6', 'e2', 'e6', 'f3', 'f5'],
+          },
+          {
+            text: 'Jump to **f5**.',
+            expect: ['Nf5'],
+            reply: 'Kd7',
+            hint: 'Two squares up, one to the right.',
+            success: 'Good. Notice how a knight always lands on a square of the other colour.',
+          },
+          {
+            fen: INITIAL_FEN,
+            text: 'The knight is the only piece that can **jump** over others, so it can leave its starting square before any pawn moves. Develop a knight towards the centre.',
+            expect: ['Nf3', 'Nc3'],
+            hint: 'Aim for c3 or f3, where the knight watches the central squares.',
+            wrongMoves: {
+              Na3: 'A knight on the rim is dim: from a3 it reaches far fewer squares than from c3.',
+              Nh3: 'A knight on the rim is dim: from h3 it reaches far fewer squares than from f3.',
+            },
+            success: 'The knight jumped over the pawns and now controls central squares.',
+          },
+        ],
+      },
+      {
+        id: 'queen-king',
+        title: 'The Queen and the King',
+        summary: 'The strongest piece and the most important one.',
+        steps: [
+          {
+            fen: '4k3/8/8/8/8/8/8/3QK3 w - - 0 1',
+            text: 'The **queen** moves like a rook and a bishop together: straight lines and diagonals, as far as she likes.',
+            arrows: ['d1d8', 'd1h5', 'd1a4'],
+          },
+          {
+            text: 'Give **check** along a diagonal.',
+            expect: ['Qh5+', 'Qa4+'],
+            reply: 'Kf8',
+            hint: 'Both diagonals from d1 lead towards the e8 king.',
+            success: 'Check! The queen is strong enough to chase a king across the board.',
+          },
+          {
+            text: 'The **king** moves one square in any direction, and may never move into check. Bring yours up to **e2**.',
+            expect: ['Ke2'],
+            highlights: ['e2'],
+            reply: 'Kg7',
+            hint: 'One step straight up.',
+            success: 'In the endgame the king becomes an active fighting piece.',
+          },
+        ],
+      },
+      {
+        id: 'pawn',
+        title: 'The Pawn',
+        summary: 'Forward moves, diagonal captures and promotion.',
+        steps: [
+          {
+            fen: '4k3/8/8/3p4/8/8/4P3/4K3 w - - 0 1',
+            text: '**Pawns** move straight forward one square, or two from their starting square. They capture one square diagonally forward.',
+            arrows: ['e2e4'],
+          },
+          {
+            text: 'Push the pawn **two squares**.',
+            expect: ['e4'],
+            reply: 'Kd7',
+            hint: 'From its starting square the pawn may jump to e4.',
+            success: 'Now your pawn and the black pawn face each other diagonally.',
+          },
+          {
+            text: 'Capture the black pawn.',
+            expect: ['exd5'],
+            highlights: ['d5'],
+            reply: 'Kd6',
+            hint: 'Pawns capture diagonally forward.',
+            success: 'Taken! Pawns can only capture diagonally, never straight ahead.',
+          },
+          {
+            fen: '8/4P1k1/8/8/8/8/8/4K3 w - - 0 1',
+            text: 'A pawn that reaches the far side **promotes** to a queen, rook, bishop or knight. Promote this pawn.',
+            expect: ['e8=Q'],
+            hint: 'Push the pawn to e8 and choose a queen.',
+            wrongMoves: {
+              'e8=R': 'Legal, but a queen is worth much more than a rook.',
+              'e8=B': 'Legal, but a queen is worth much more than a bishop.',
+              'e8=N': 'Legal, but a queen is worth much more than a knight here.',
+            },
+            success: 'A new queen! Promotion is why passed pawns are so dangerous.',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'checkmates',
+    title: 'Checkmate Patterns',
+    lessons: [
+      {
+        id: 'back-rank-mate',
+        title: 'Back-Rank Mate',
+        summary: 'When the king is trapped behind its own pawns.',
+        steps: [
+          {
+            fen: '6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1',
+            text: 'The black king is shut in by its own pawns. A rook or queen reaching the back rank gives a **back-rank mate**.',
+            highlights: ['f7', 'g7', 'h7'],
+            arrows: ['d1d8'],
+          },
+          {
+            text: 'Deliver back-rank mate.',
+            goal: 'checkmate',
+            hint: 'Your rook can reach the eighth rank in one move.',
+            success: 'Checkmate! In your own games, give your king an escape square in time.',
+          },
+        ],
+      },
+      {
+        id: 'scholars-mate',
+        title: "Scholar's Mate",
+        summary: 'The weak f7 square.',
+        steps: [
+          {
+            fen: 'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4',
+            text: 'At the start of the game **f7** is defended only by the king. Here the queen and bishop both aim at it.',
+            arrows: ['h5f7', 'c4f7'],
+            highlights: ['f7'],
+          },
+          {
+            text: "Black's last move, Nf6, attacked your queen but forgot about f7. Finish the game.",
+            goal: 'checkmate',
+            hint: 'Take on f7 with the queen; the bishop protects her.',
+            success: "Checkmate! That is Scholar's Mate.",
+          },
+          {
+            fen: 'r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 3 3',
+            text: 'Now defend against it as Black. White threatens Qxf7 mate: block the queen with a pawn.',
+            expect: ['g6'],
+            arrows: ['h5f7'],
+            hint: 'Put a pawn on the h5-f7 diagonal.',
+            wrongMoves: { Nf6: 'That attacks the queen, but Qxf7 is checkmate!' },
+            success: 'The threat is gone and the queen has to move again.',
+          },
+        ],
+      },
+      {
+        id: 'smothered-mate',
+        title: 'Smothered Mate',
+        summary: 'A lone knight against a crowded king.',
+        steps: [
+          {
+            fen: '6rk/6pp/8/6N1/8/8/8/6K1 w - - 0 1',
+            text: 'A king hemmed in by its own pieces can be mated by a single knight, which cannot be blocked. This is **smothered mate**.',
+            highlights: ['g8', 'g7', 'h7'],
+          },
+          {
+            text: 'Mate with the knight.',
+            goal: 'checkmate',
+            hint: 'Which knight move attacks h8?',
+            success: 'Smothered! The king was buried by its own rook and pawns.',
+          },
+        ],
+      },
+      {
+        id: 'ladder-mate',
+        title: 'Ladder Mate',
+        summary: 'Two rooks taking turns.',
+        steps: [
+          {
+            fen: '7k/8/8/8/8/8/R7/1R4K1 w - - 0 1',
+            text: 'Two rooks mate a lone king by taking turns: one cuts off a rank, the other checks on the next one. This is the **ladder mate**.',
+          },
+          {
+            text: 'Cut the king off from the seventh rank.',
+            expect: ['Ra7'],
+            highlights: ['a7'],
+            reply: 'Kg8',
+            hint: 'Move the a-rook up the file.',
+            success: 'The king is stuck on the eighth rank.',
+          },
+          {
+            text: 'Now mate with the other rook.',
+            goal: 'checkmate',
+            hint: 'Check along the eighth rank; the rook on a7 covers the escape squares.',
+            success: 'Checkmate! The rooks climbed the ladder.',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'endgames',
+    title: 'Basic Endgames',
+    lessons: [
+      {
+        id: 'queen-mate',
+        title: 'Queen and King Mate',
+        summary: 'Finishing the job without stalemate.',
+        steps: [
+          {
+            fen: 'k7/8/2K5/8/8/8/8/1Q6 w - - 0 1',
+            text: 'With king and queen against a lone king, push the king to the edge and bring your own king close. Beware of **stalemate**: if the defender has no legal move and is not in check, the game is a draw.',
+          },
+          {
+            text: 'Mate in one. One natural-looking queen move here is stalemate, so look for a check.',
+            goal: 'checkmate',
+            hint: 'Your king protects b7.',
+            wrongMoves: { Qb6: 'Stalemate! Black has no legal move and is not in check, so the game is a draw.' },
+            success: 'Checkmate, with the king supporting the queen.',
+          },
+        ],
+      },
+      {
+        id: 'rook-mate',
+        title: 'Rook and King Mate',
+        summary: 'The kings face each other, the rook checks on the edge.',
+        steps: [
+          {
+            fen: '4k3/8/4K3/8/8/8/8/7R w - - 0 1',
+            text: 'With king and rook, drive the king to the edge. Mate comes when your king stands **opposite** it and the rook checks along the edge.',
+            highlights: ['e6', 'e8'],
+          },
+          {
+            text: 'Mate in one.',
+            goal: 'checkmate',
+            hint: 'Check along the eighth rank.',
+            success: 'Checkmate! Your king covered the escape squares on the seventh rank.',
+          },
+        ],
+      },
+      {
+        id: 'king-pawn',
+        title: 'King and Pawn',
+        summary: 'Opposition and escorting the pawn.',
+        steps: [
+          {
+            fen: '4k3/8/3K4/4P3/8/8/8/8 w - - 0 1',
+            text: 'In king and pawn endings the king leads the way. Kings facing each other with one square between them are in **opposition**; the side that does not have to move holds it.',
+          },
+          {
+            text: 'Take the opposition: put your king in front of the pawn, facing the black king.',
+            expect: ['Ke6'],
+            reply: 'Kd8',
+            hint: 'Your king belongs on e6.',
+            wrongMoves: { e6: 'Pushing first lets the black king block the pawn; after Kd8 it is a draw. Lead with the king.' },
+            success: 'Black had to give way.',
+          },
+          {
+            text: 'Step aside so the pawn can advance, while still guarding its path.',
+            expect: ['Kf7'],
+            reply: 'Kd7',
+            hint: 'From f7 your king covers e7 and e8.',
+            success: 'The road to e8 is clear.',
+          },
+          {
+            text: 'Push the pawn.',
+            expect: ['e6+'],
+            reply: 'Kd6',
+            success: 'Check, and the pawn keeps rolling.',
+          },
+          {
+            text: 'Keep going.',
+            expect: ['e7'],
+            reply: 'Kd7',
+          },
+          {
+            text: 'Promote!',
+            expect: ['e8=Q+'],
+            hint: 'Choose a queen on e8.',
+            success: 'A new queen. The king escorted the pawn all the way.',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'openings',
+    title: 'Opening Principles',
+    lessons: [
+      {
+        id: 'center',
+        title: 'Fight for the Centre',
+        summary: 'Central pawns and developing knights.',
+        steps: [
+          {
+            fen: INITIAL_FEN,
+            text: 'Pieces in the **centre** reach more squares and can switch quickly between the wings. Both sides start by fighting for d4, e4, d5 and e5.',
+            highlights: ['d4', 'e4', 'd5', 'e5'],
+          },
+          {
+            text: 'Claim the centre with a pawn.',
+            expect: ['e4', 'd4'],
+            reply: 'Nf6',
+            hint: 'Push the d- or e-pawn two squares.',
+            wrongMoves: {
+              a4: 'Edge pawns do little for the centre.',
+              h4: 'Edge pawns do little for the centre.',
+            },
+            success: 'A central pawn frees your pieces and controls key squares.',
+          },
+          {
+            text: 'Develop a **knight** towards the centre.',
+            expect: ['Nc3', 'Nf3'],
+            reply: 'g6',
+            hint: 'Knights belong on c3 and f3 early on.',
+            wrongMoves: {
+              Na3: 'A knight on the rim is dim.',
+              Nh3: 'A knight on the rim is dim.',
+            },
+            success: 'Good development.',
+          },
+          {
+            text: 'Keep going in the same spirit: bring out the bishops, **castle** early, and avoid moving the same piece twice or bringing the queen out too soon.',
+          },
+        ],
+      },
+      {
+        id: 'castling',
+        title: 'Castle Early',
+        summary: 'King safety and connecting the rooks.',
+        steps: [
+          {
+            fen: 'r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/3P1N2/PPP2PPP/RNBQK2R w KQkq - 1 5',
+            text: '**Castling** moves the king two squares towards a rook, and the rook jumps over to the other side. It tucks the king away and brings the rook towards the centre.',
+            arrows: ['e1g1', 'h1f1'],
+          },
+          {
+            text: 'Castle kingside.',
+            expect: ['O-O'],
+            reply: 'O-O',
+            hint: 'Move your king two squares towards the h1 rook.',
+            success: 'Both kings are safe, and the rooks can join the game.',
+          },
+        ],
+      },
+      {
+        id: 'early-queen',
+        title: 'Punishing an Early Queen',
+        summary: 'Developing with tempo.',
+        orientation: 'b',
+        steps: [
+          {
+            fen: 'rnbqkbnr/pppp1ppp/8/4p2Q/4P3/8/PPPP1PPP/RNB1KBNR b KQkq - 1 2',
+            text: 'White brought the queen out on move two. She attacks e5 and eyes f7. An early queen can be chased around while you develop with **tempo**.',
+            arrows: ['h5e5', 'h5f7'],
+          },
+          {
+            text: 'Defend e5 with a developing move.',
+            expect: ['Nc6'],
+            reply: 'Bc4',
+            hint: 'A knight on c6 protects e5.',
+            wrongMoves: {
+              Nf6: 'The knight attacks the queen, but Qxe5+ wins a pawn with check.',
+              g6: 'That leaves e5 hanging: Qxe5+ forks your king and the h8 rook.',
+            },
+            success: 'Developed and defended. But now White threatens Qxf7 mate.',
+          },
+          {
+            text: 'Block the queen\'s path to f7 with a pawn, chasing her away.',
+            expect: ['g6'],
+            reply: 'Qf3',
+            arrows: ['h5f7'],
+            wrongMoves: { Nf6: 'The knight attacks the queen, but Qxf7 is checkmate!' },
+            success: 'The queen has to move a third time, but f7 is under fire again.',
+          },
+          {
+            text: 'Defend f7 by blocking the queen with a knight.',
+            expect: ['Nf6'],
+            hint: 'A knight on f6 stands between the queen and f7.',
+            success: 'Every black move developed a piece or gained time, while the white queen wandered.',
+          },
+        ],
+      },
+    ],
+  },
+];
+
+export function getAllLessons(): Lesson[] {
+  return LESSON_CHAPTERS.flatMap(chapter => chapter.lessons);
+}
+
+export function getLesson(id: string): Lesson | null {
+  return getAllLessons().find(lesson => lesson.id === id) ?? null;
+}
+
+// Arrows of a step, as board squares.
+export function getStepArrows(step: LessonStep): BoardArrow[] {
+  return (step.arrows ?? []).map(arrow => ({ from: arrow.slice(0, 2), to: arrow.slice(2, 4) }));
+}
+
+export function isInteractiveStep(step: LessonStep): boolean {
+  return !!step.expect || step.goal === 'checkmate';
+}
+
+function stripCheckSuffix(san: string): string {
+  return san.replace(/[+#]$/, '');
+}
+
+function isCheckmate(fen: string): boolean {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  return isCheckmateOrStalemate(board, turn, castling, enPassant) === 'checkmate';
+}
+
+// Plays a move given in SAN or as squares. Throws if it is not legal in `fen`.
+export function playLessonMove(
+  fen: string,
+  move: string | { from: Square; to: Square; promotion?: PieceSymbol }
+): { from: Square; to: Square; san: string; fenAfter: string } {
+  const { board, turn, castling, enPassant, halfmove, fullmove } = fenToBoard(fen);
+  const squares = typeof move === 'string' ? parseSan(board, turn, castling, enPassant, move) : move;
+  const isLegal = getLegalMoveList(board, turn, castling, enPassant, squares.from)
+    .some(legal => legal.to === squares.to && legal.promotion === squares.promotion);
+  if (!isLegal) throw new Error(`Illegal move ${typeof move === 'string' ? move : `${move.from}${move.to}`} in ${fen}`);
+  const san = moveToSan(board, turn, castling, enPassant, squares);
+  const isReset = getPieceAtSquare(board, squares.from)?.symbol === 'p' || getPieceAtSquare(board, squares.to) !== null;
+  const result = makeMove(board, squares.from, squares.to, castling, enPassant, squares.promotion);
+  const fenAfter = boardToFen(
+    result.newBoard, turn === 'w' ? 'b' : 'w', result.updatedCastlingRights, result.updatedEnPassantTarget,
+    isReset ? 0 : halfmove + 1, turn === 'b' ? fullmove + 1 : fullmove
+  );
+  return { from: squares.from, to: squares.to, san, fenAfter };
+}
+
+// Judges the learner's move in an interactive step. Throws if the move is not legal.
+export function checkLessonMove(step: LessonStep, fen: string, move: { from: Square; to: Square; promotion?: PieceSymbol }): LessonMoveResult {
+  const { san, fenAfter } = playLessonMove(fen, move);
+  const correct = step.goal === 'checkmate'
+    ? isCheckmate(fenAfter)
+    : (step.expect ?? []).some(expected => stripCheckSuffix(expected) === stripCheckSuffix(san));
+  const feedback = correct
+    ? step.success ?? 'Correct!'
+    : step.wrongMoves?.[stripCheckSuffix(san)] ?? `${san} is not the move we are looking for. Try again.`;
+  return { correct, san, fenAfter, feedback };
+}
+
+// Checks that a lesson can be played through: the first step sets up a position, every expected move
+// and reply is legal in each branch, and a step after a mate goal starts a new position. Throws otherwise.
+export function validateLesson(lesson: Lesson): void {
+  const fail = (index: number, message: string): never => {
+    throw new Error(`Lesson "${lesson.id}", step ${index + 1}: ${message}`);
+  };
+  const walk = (index: number, fen: string | null): void => {
+    const step = lesson.steps[index];
+    if (!step) return;
+    const startFen = step.fen ?? fen;
+    if (!startFen) fail(index, 'there is no position to continue from');
+    try {
+      fenToBoard(startFen!);
+    } catch (error) {
+      fail(index, (error as Error).message);
+    }
+    [...(step.arrows ?? []), ...(step.highlights ?? [])].forEach(squares => {
+      if (!/^([a-h][1-8])+$/.test(squares)) fail(index, `"${squares}" is not a square or arrow`);
+    });
+    Object.keys(step.wrongMoves ?? {}).forEach(san => {
+      try {
+        playLessonMove(startFen!, san);
+      } catch (error) {
+        fail(index, (error as Error).message);
+      }
+    });
+    if (step.goal === 'checkmate') {
+      const { board, turn, castling, enPassant } = fenToBoard(startFen!);
+      const hasMate = board.some((row, r) => row.some((piece, c) => {
+        if (piece?.color !== turn) return false;
+        const from = String.fromCharCode(97 + c) + (8 - r);
+        return getLegalMoveList(board, turn, castling, enPassant, from)
+          .some(move => isCheckmate(playLessonMove(startFen!, move).fenAfter));
+      }));
+      if (!hasMate) fail(index, 'there is no mate in one');
+      if (index + 1 < lesson.steps.length && !lesson.steps[index + 1].fen) fail(index + 1, 'a step after a mate must set up a position');
+      return;
+    }
+    if (!step.expect) {
+      walk(index + 1, startFen);
+      return;
+    }
+    if (step.expect.length === 0) fail(index, 'no expected moves');
+    step.expect.forEach(expected => {
+      let fenAfter: string;
+      try {
+        fenAfter = playLessonMove(startFen!, expected).fenAfter;
+        if (step.reply) fenAfter = playLessonMove(fenAfter, step.reply).fenAfter;
+      } catch (error) {
+        return fail(index, (error as Error).message);
+      }
+      walk(index + 1, fenAfter);
+    });
+  };
+  if (!lesson.steps[0]?.fen) throw new Error(`Lesson "${lesson.id}" must start by setting up a position.`);
+  walk(0, null);
+}
+
+export function getLessonOrientation(lesson: Lesson): PieceColor {
+  return lesson.orientation ?? fenToBoard(lesson.steps[0].fen!).turn;
+}
+
+export function createLessonProgress(): LessonProgress {
+  return { completedAt: {} };
+}
+
+export function completeLesson(progress: LessonProgress, lessonId: string, now: number = Date.now()): LessonProgress {
+  return { completedAt: { ...progress.completedAt, [lessonId]: now } };
+}
+
+// The first lesson not completed yet after `afterId` in curriculum order, wrapping around; null when all are done.
+export function getNextLesson(progress: LessonProgress, afterId?: string): Lesson | null {
+  const lessons = getAllLessons();
+  const start = afterId ? lessons.findIndex(lesson => lesson.id === afterId) + 1 : 0;
+  const ordered = [...lessons.slice(start), ...lessons.slice(0, start)];
+  return ordered.find(lesson => !progress.completedAt[lesson.id] && lesson.id !== afterId) ?? null;
+}
@@ -0,0 +1,206 @@
+// Engine facts about a played move: evaluations, best line, centipawn loss and hanging pieces.
+// The tutor flows verbalize these numbers instead of judging move quality themselves.
+
+import type { Board, Piece, PieceColor, Square } from '@/types/chess';
+import { fenToBoard, makeMove, moveToSan, parseSan, getAttackers, getPieceAtSquare, coordsToSquare } from '@/lib/chess-logic';
+import { searchBestMove, PIECE_VALUES, type EngineMove, type EnginePosition, type SearchResult } from '@/lib/chess-engine';
+
+export type MoveClassification = 'best' | 'excellent' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export const MOVE_CLASSIFICATION_LABELS: { [c in MoveClassification]: string } = {
+  best: 'Best',
+  excellent: 'Excellent',
+  good: 'Good',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  blunder: 'Blunder',
+};
+
+// Upper bounds (inclusive) of centipawn loss for each classification; anything above is a blunder.
+const CLASSIFICATION_THRESHOLDS: [MoveClassification, number][] = [
+  ['best', 10],
+  ['excellent', 25],
+  ['good', 50],
+  ['inaccuracy', 100],
+  ['mistake', 250],
+];
+
+export const MATE_EVAL_CP = 10000; // Stand-in centipawn value for a forced mate
+const LOSS_CLAMP_CP = 1000; // Past ten pawns either way, extra advantage does not change the verdict
+
+export interface PositionEvaluation {
+  cp: number; // Centipawns from White's point of view (±MATE_EVAL_CP for forced mates)
+  mate: number | null; // Moves to mate; positive when White mates, negative when Black mates
+}
+
+export interface HangingPiece {
+  square: Square;
+  piece: Piece;
+  attackedBy: Square[];
+  isDefended: boolean; // Defended, but attacked by something cheaper
+}
+
+export interface MoveAnalysis {
+  playedMove: string; // SAN
+  bestMove: string | null; // SAN of the engine's choice in the position before the move
+  bestLine: string[]; // SAN principal variation starting with bestMove
+  playedBestMove: boolean;
+  evalBefore: PositionEvaluation;
+  evalAfter: PositionEvaluation;
+  centipawnLoss: number;
+  classification: MoveClassification;
+  hangingPieces: HangingPiece[]; // In the position after the move, for both sides
+  depth: number;
+}
+
+export interface AnalysisOptions {
+  maxDepth?: number;
+  timeLimitMs?: number;
+}
+
+const DEFAULT_ANALYSIS_DEPTH = 5;
+const DEFAULT_ANALYSIS_TIME_MS = 1200;
+
+export function classifyCentipawnLoss(centipawnLoss: number): MoveClassification {
+  for (const [classification, maxLoss] of CLASSIFICATION_THRESHOLDS) {
+    if (centipawnLoss <= maxLoss) return classification;
+  }
+  return 'blunder';
+}
+
+function positionFromFen(fen: string): EnginePosition {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  return { board, turn, castlingRights: castling, enPassantTarget: enPassant };
+}
+
+function toWhitePointOfView(result: SearchResult, turn: PieceColor): PositionEvaluation {
+  const sign = turn === 'w' ? 1 : -1;
+  if (result.mateIn !== null) {
+    const winningSign = result.score > 0 ? sign : -sign;
+    return { cp: winningSign * MATE_EVAL_CP, mate: winningSign * Math.abs(result.mateIn) };
+  }
+  return { cp: sign * result.score, mate: null };
+}
+
+// Converts an engine line to SAN by replaying it from the given position.
+export function lineToSan(position: EnginePosition, line: EngineMove[]): string[] {
+  const sans: string[] = [];
+  let { board, turn, castlingRights, enPassantTarget } = position;
+  for (const move of line) {
+    sans.push(moveToSan(board, turn, castlingRights, enPassantTarget, move));
+    const result = makeMove(board, move.from, move.to, castlingRights, enPassantTarget, move.promotion);
+    board = result.newBoard;
+    castlingRights = result.updatedCastlingRights;
+    enPassantTarget = result.updatedEnPassantTarget;
+    turn = turn === 'w' ? 'b' : 'w';
+  }
+  return sans;
+}
+
+// Pieces that can be won: attacked and undefended, or attacked by a cheaper piece.
+export function findHangingPieces(board: Board): HangingPiece[] {
+  const hanging: HangingPiece[] = [];
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const piece = board[r][c];
+      if (!piece || piece.symbol === 'k') continue;
+      const square = coordsToSquare(r, c);
+      const enemy: PieceColor = piece.color === 'w' ? 'b' : 'w';
+      const attackedBy = getAttackers(board, square, enemy);
+      if (attackedBy.length === 0) continue;
+      const isDefended = getAttackers(board, square, piece.color).length > 0;
+      const cheapestAttacker = Math.min(...attackedBy.map(sq => {
+        const attacker = getPieceAtSquare(board, sq)!;
+        return attacker.symbol === 'k' ? Infinity : PIECE_VALUES[attacker.symbol];
+      }));
+      // A king can only take undefended pieces.
+      if (!isDefended || cheapestAttacker < PIECE_VALUES[piece.symbol]) {
+        hanging.push({ square, piece, attackedBy, isDefended });
+      }
+    }
+  }
+  return hanging;
+}
+
+export function evaluateFen(fen: string, options: AnalysisOptions = {}): { evaluation: PositionEvaluation; bestLine: string[]; depth: number } {
+  const position = positionFromFen(fen);
+  const result = searchBestMove(position, {
+    maxDepth: options.maxDepth ?? DEFAULT_ANALYSIS_DEPTH,
+    timeLimitMs: options.timeLimitMs ?? DEFAULT_ANALYSIS_TIME_MS,
+  });
+  return { evaluation: toWhitePointOfView(result, position.turn), bestLine: lineToSan(position, result.pv), depth: result.depth };
+}
+
+// Analyses `playedSan` in the position `fenBefore`. Throws if the move is not legal there.
+export function analyzeMove(fenBefore: string, playedSan: string, options: AnalysisOptions = {}): MoveAnalysis {
+  const maxDepth = options.maxDepth ?? DEFAULT_ANALYSIS_DEPTH;
+  const timeLimitMs = options.timeLimitMs ?? DEFAULT_ANALYSIS_TIME_MS;
+  const before = positionFromFen(fenBefore);
+  const mover = before.turn;
+  const played = parseSan(before.board, before.turn, before.castlingRights, before.enPassantTarget, playedSan);
+  const playedMove = moveToSan(before.board, before.turn, before.castlingRights, before.enPassantTarget, played);
+
+  const searchBefore = searchBestMove(before, { maxDepth, timeLimitMs });
+  const evalBefore = toWhitePointOfView(searchBefore, mover);
+  const bestLine = lineToSan(before, searchBefore.pv);
+  const bestMove = bestLine[0] ?? null;
+
+  const moveResult = makeMove(before.board, played.from, played.to, before.castlingRights, before.enPassantTarget, played.promotion);
+  const after: EnginePosition = {
+    board: moveResult.newBoard,
+    turn: mover === 'w' ? 'b' : 'w',
+    castlingRights: moveResult.updatedCastlingRights,
+    enPassantTarget: moveResult.updatedEnPassantTarget,
+  };
+
+  // Re-searching the best move would only add noise, so reuse the evaluation it already has.
+  const playedBestMove = bestMove === playedMove;
+  const evalAfter = playedBestMove
+    ? evalBefore
+    : toWhitePointOfView(searchBestMove(after, { maxDepth: Math.max(1, maxDepth - 1), timeLimitMs }), after.turn);
+
+  const moverSign = mover === 'w' ? 1 : -1;
+  const clamp = (cp: number) => Math.max(-LOSS_CLAMP_CP, Math.min(LOSS_CLAMP_CP, cp));
+  const centipawnLoss = playedBestMove ? 0 : Math.max(0, Math.round(moverSign * (clamp(evalBefore.cp) - clamp(evalAfter.cp))));
+
+  return {
+    playedMove,
+    bestMove,
+    bestLine,
+    playedBestMove,
+    evalBefore,
+    evalAfter,
+    centipawnLoss,
+    classification: classifyCentipawnLoss(centipawnLoss),
+    hangingPieces: findHangingPieces(after.board),
+    depth: searchBefore.depth,
+  };
+}
+
+// "+0.35", "-2.70", "#3" (White mates) or "#-2" (Black mates).
+export function formatEvaluation(evaluation: PositionEvaluation): string {
+  if (evaluation.mate !== null) return `#${evaluation.mate}`;
+  const pawns = evaluation.cp / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+export function describeHangingPiece({ square, piece, attackedBy, isDefended }: HangingPiece): string {
+  const names = { p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king' };
+  return `${piece.color === 'w' ? 'White' : 'Black'} ${names[piece.symbol]} on ${square} (attacked from ${attackedBy.join(', ')}, ${isDefended ? 'defended but attacked by a cheaper piece' : 'undefended'})`;
+}
+
+// Plain-text summary handed to the language model, which only has to put it into words.
+export function describeMoveAnalysis(analysis: MoveAnalysis): string {
+  const lines = [
+    `Played move: ${analysis.playedMove}.`,
+    `Classification: ${MOVE_CLASSIFICATION_LABELS[analysis.classification]} (centipawn loss ${analysis.centipawnLoss}).`,
+    `Evaluation before the move: ${formatEvaluation(analysis.evalBefore)}; after the move: ${formatEvaluation(analysis.evalAfter)} (pawns, from White's point of view).`,
+    analysis.playedBestMove
+      ? 'The played move was the engine\'s first choice.'
+      : `Engine best move: ${analysis.bestMove ?? 'none'}; best line: ${analysis.bestLine.join(' ') || 'none'}.`,
+    analysis.hangingPieces.length > 0
+      ? `Hanging pieces after the move: ${analysis.hangingPieces.map(describeHangingPiece).join('; ')}.`
+      : 'No pieces are hanging after the move.',
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MOVE_TREE_ROOT_ID,
+  createMoveTree,
+  addMove,
+  setNodeComment,
+  setNodeAnnotations,
+  getNodePath,
+  getLineEnd,
+  isOnMainLine,
+  canPromoteVariation,
+  canDemoteVariation,
+  promoteVariation,
+  demoteVariation,
+  deleteFromNode,
+  moveTreeToPgnMoves,
+  type MoveTree,
+} from '@/lib/move-tree';
+import { parsePgn, writePgn } from '@/lib/pgn';
+
+// 1. e4 e5 (1... c5 2. Nf3) 2. Nf3, built with readable ids.
+function buildTree() {
+  let tree: MoveTree<null> = createMoveTree(null);
+  tree = addMove(tree, tree.rootId, 'e4', null, 'e4').tree;
+  tree = addMove(tree, 'e4', 'e5', null, 'e5').tree;
+  tree = addMove(tree, 'e5', 'Nf3', null, 'e5-Nf3').tree;
+  tree = addMove(tree, 'e4', 'c5', null, 'c5').tree;
+  tree = addMove(tree, 'c5', 'Nf3', null, 'c5-Nf3').tree;
+  return tree;
+}
+
+describe('move tree', () => {
+  it('keeps the first continuation as the main line and adds later ones as variations', () => {
+    const tree = buildTree();
+    expect(tree.nodes.e4.children).toEqual(['e5', 'c5']);
+    expect(getLineEnd(tree, tree.rootId)).toBe('e5-Nf3');
+    expect(getNodePath(tree, 'c5-Nf3').map(node => node.san)).toEqual([null, 'e4', 'c5', 'Nf3']);
+    expect(isOnMainLine(tree, 'e5-Nf3')).toBe(true);
+    expect(isOnMainLine(tree, 'c5-Nf3')).toBe(false);
+  });
+
+  it('reuses an existing move instead of duplicating it', () => {
+    const tree = buildTree();
+    const result = addMove(tree, 'e4', 'c5', null, 'another');
+    expect(result.nodeId).toBe('c5');
+    expect(result.tree).toBe(tree);
+  });
+
+  it('promotes and demotes the variation a move belongs to', () => {
+    const tree = buildTree();
+    expect(canPromoteVariation(tree, 'c5-Nf3')).toBe(true);
+    expect(canDemoteVariation(tree, 'c5-Nf3')).toBe(false);
+    expect(canPromoteVariation(tree, 'e4')).toBe(false);
+
+    const promoted = promoteVariation(tree, 'c5-Nf3');
+    expect(promoted.nodes.e4.children).toEqual(['c5', 'e5']);
+    expect(isOnMainLine(promoted, 'c5-Nf3')).toBe(true);
+    expect(demoteVariation(promoted, 'c5').nodes.e4.children).toEqual(['e5', 'c5']);
+  });
+
+  it('deletes a move with everything after it, but never the root', () => {
+    const tree = deleteFromNode(buildTree(), 'c5');
+    expect(tree.nodes.c5).toBeUndefined();
+    expect(tree.nodes['c5-Nf3']).toBeUndefined();
+    expect(tree.nodes.e4.children).toEqual(['e5']);
+    expect(() => deleteFromNode(tree, tree.rootId)).toThrow();
+  });
+
+  it('exports variations and comments as PGN RAV that reads back the same', () => {
+    const tree = setNodeComment(buildTree(), 'c5', 'The Sicilian');
+    const pgn = writePgn({ moves: moveTreeToPgnMoves(tree), result: '*' });
+    expect(pgn).toContain('1. e4 e5 (1... c5 {The Sicilian} 2. Nf3) 2. Nf3 *');
+
+    const [game] = parsePgn(pgn);
+    expect(game.moves.map(move => move.san)).toEqual(['e4', 'e5', 'Nf3']);
+    expect(game.moves[1].variations[0].map(move => move.san)).toEqual(['c5', 'Nf3']);
+    expect(game.moves[1].variations[0][0].comment).toBe('The Sicilian');
+  });
+
+  it('keeps imported NAGs and comments on the nodes and writes them back out', () => {
+    let tree = setNodeComment(buildTree(), MOVE_TREE_ROOT_ID, 'Two lines');
+    tree = setNodeAnnotations(tree, 'e4', { nags: [1], comment: 'Best' });
+    tree = setNodeAnnotations(tree, 'c5', { nags: [5], commentBefore: 'Sharper' });
+    expect(setNodeAnnotations(tree, 'e5', { nags: [] })).toBe(tree);
+
+    const pgn = writePgn({ moves: moveTreeToPgnMoves(tree), result: '*', initialComment: tree.nodes[tree.rootId].comment });
+    expect(pgn).toContain('{Two lines} 1. e4 $1 {Best} 1... e5 ({Sharper} 1... c5 $5 2. Nf3) 2. Nf3 *');
+  });
+});
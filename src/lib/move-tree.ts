@@ -0,0 +1,187 @@
+// A game as a tree of moves. Each node's first child continues its main line; later children are side
+// variations, in the order they are shown and exported. Trees are plain JSON and never mutated in place,
+// so they can live in React state and localStorage directly.
+
+import type { PgnExportMove } from '@/lib/pgn';
+import { createId } from '@/lib/utils';
+
+export interface MoveTreeNode<T> {
+  id: string;
+  parentId: string | null; // Null only for the root, the starting position
+  children: string[];
+  san: string | null; // The move that led here; null for the root
+  nags?: number[]; // PGN annotation glyphs, e.g. 1 for "!"
+  commentBefore?: string; // A PGN comment written before the move, at the start of a variation
+  comment?: string; // On the root, the comment before the first move
+  data: T;
+}
+
+export interface MoveTree<T> {
+  rootId: string;
+  nodes: Record<string, MoveTreeNode<T>>;
+}
+
+export const MOVE_TREE_ROOT_ID = 'root';
+
+export function createMoveTree<T>(rootData: T): MoveTree<T> {
+  return {
+    rootId: MOVE_TREE_ROOT_ID,
+    nodes: { [MOVE_TREE_ROOT_ID]: { id: MOVE_TREE_ROOT_ID, parentId: null, children: [], san: null, data: rootData } },
+  };
+}
+
+function getNode<T>(tree: MoveTree<T>, nodeId: string): MoveTreeNode<T> {
+  const node = tree.nodes[nodeId];
+  if (!node) throw new Error(`Unknown move tree node: ${nodeId}`);
+  return node;
+}
+
+export function findChildBySan<T>(tree: MoveTree<T>, parentId: string, san: string): string | null {
+  return getNode(tree, parentId).children.find(childId => tree.nodes[childId].san === san) ?? null;
+}
+
+// Adds `san` after `parentId`: as the main line if the position had no continuation yet, otherwise as a
+// new last variation. Playing a move that already exists there reuses that node instead.
+export function addMove<T>(
+  tree: MoveTree<T>, parentId: string, san: string, data: T, nodeId: string = createId()
+): { tree: MoveTree<T>; nodeId: string } {
+  const parent = getNode(tree, parentId);
+  const existingId = findChildBySan(tree, parentId, san);
+  if (existingId) return { tree, nodeId: existingId };
+  if (tree.nodes[nodeId]) throw new Error(`Duplicate move tree node id: ${nodeId}`);
+  return {
+    nodeId,
+    tree: {
+      ...tree,
+      nodes: {
+        ...tree.nodes,
+        [parentId]: { ...parent, children: [...parent.children, nodeId] },
+        [nodeId]: { id: nodeId, parentId, children: [], san, data },
+      },
+    },
+  };
+}
+
+export function setNodeComment<T>(tree: MoveTree<T>, nodeId: string, comment: string | null): MoveTree<T> {
+  const node = tree.nodes[nodeId];
+  if (!node) return tree; // The move may have been deleted while its comment was being written
+  const { comment: _previous, ...rest } = node;
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: comment ? { ...rest, comment } : rest } };
+}
+
+// Copies the annotations of an imported PGN move onto a node; annotations the move lacks are left alone,
+// so merging a second game through an existing node keeps what the first one said.
+export function setNodeAnnotations<T>(
+  tree: MoveTree<T>, nodeId: string, annotations: { nags?: number[]; commentBefore?: string; comment?: string }
+): MoveTree<T> {
+  const node = getNode(tree, nodeId);
+  const { nags, commentBefore, comment } = annotations;
+  if (!nags?.length && !commentBefore && !comment) return tree;
+  return {
+    ...tree,
+    nodes: {
+      ...tree.nodes,
+      [nodeId]: {
+        ...node,
+        ...(nags?.length ? { nags } : {}),
+        ...(commentBefore ? { commentBefore } : {}),
+        ...(comment ? { comment } : {}),
+      },
+    },
+  };
+}
+
+// Nodes from the root to `nodeId`, both included.
+export function getNodePath<T>(tree: MoveTree<T>, nodeId: string): MoveTreeNode<T>[] {
+  const path: MoveTreeNode<T>[] = [];
+  for (let node: MoveTreeNode<T> | undefined = getNode(tree, nodeId); node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+    path.push(node);
+  }
+  return path.reverse();
+}
+
+// Follows first children from `nodeId` to the end of its line.
+export function getLineEnd<T>(tree: MoveTree<T>, nodeId: string): string {
+  let node = getNode(tree, nodeId);
+  while (node.children.length > 0) node = tree.nodes[node.children[0]];
+  return node.id;
+}
+
+export function isOnMainLine<T>(tree: MoveTree<T>, nodeId: string): boolean {
+  return getNodePath(tree, nodeId).every(node => !node.parentId || tree.nodes[node.parentId].children[0] === node.id);
+}
+
+// The move that starts the variation `nodeId` belongs to and can move up (promote) or down (demote)
+// among its siblings: the nearest node on the way to the root that is not already first (or last).
+function findMovableBranch<T>(tree: MoveTree<T>, nodeId: string, direction: -1 | 1): string | null {
+  for (let node: MoveTreeNode<T> | undefined = getNode(tree, nodeId); node?.parentId; node = tree.nodes[node.parentId]) {
+    const siblings = tree.nodes[node.parentId].children;
+    const index = siblings.indexOf(node.id);
+    if (direction === -1 ? index > 0 : index < siblings.length - 1) return node.id;
+  }
+  return null;
+}
+
+function moveBranch<T>(tree: MoveTree<T>, nodeId: string, direction: -1 | 1): MoveTree<T> {
+  const branchId = findMovableBranch(tree, nodeId, direction);
+  if (!branchId) return tree;
+  const parentId = tree.nodes[branchId].parentId!;
+  const children = [...tree.nodes[parentId].children];
+  const index = children.indexOf(branchId);
+  [children[index], children[index + direction]] = [children[index + direction], children[index]];
+  return { ...tree, nodes: { ...tree.nodes, [parentId]: { ...tree.nodes[parentId], children } } };
+}
+
+export function canPromoteVariation<T>(tree: MoveTree<T>, nodeId: string): boolean {
+  return findMovableBranch(tree, nodeId, -1) !== null;
+}
+
+export function canDemoteVariation<T>(tree: MoveTree<T>, nodeId: string): boolean {
+  return findMovableBranch(tree, nodeId, 1) !== null;
+}
+
+// Moves the variation containing `nodeId` one place towards the main line; first place makes it the main line.
+export function promoteVariation<T>(tree: MoveTree<T>, nodeId: string): MoveTree<T> {
+  return moveBranch(tree, nodeId, -1);
+}
+
+export function demoteVariation<T>(tree: MoveTree<T>, nodeId: string): MoveTree<T> {
+  return moveBranch(tree, nodeId, 1);
+}
+
+// Removes `nodeId` and everything after it.
+export function deleteFromNode<T>(tree: MoveTree<T>, nodeId: string): MoveTree<T> {
+  const node = getNode(tree, nodeId);
+  if (!node.parentId) throw new Error('The starting position cannot be deleted.');
+  const nodes = { ...tree.nodes };
+  const pending = [nodeId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    pending.push(...nodes[id].children);
+    delete nodes[id];
+  }
+  const parent = nodes[node.parentId];
+  nodes[node.parentId] = { ...parent, children: parent.children.filter(childId => childId !== nodeId) };
+  return { ...tree, nodes };
+}
+
+function toPgnMove<T>(node: MoveTreeNode<T>): PgnExportMove {
+  return { san: node.san!, nags: node.nags, commentBefore: node.commentBefore, comment: node.comment };
+}
+
+// The line after `parentId` for `writePgn`, with every side variation attached to the move it replaces.
+// The root's comment is not part of it; pass it to `writePgn` as the initial comment.
+export function moveTreeToPgnMoves<T>(tree: MoveTree<T>, parentId: string = tree.rootId): PgnExportMove[] {
+  const moves: PgnExportMove[] = [];
+  let parent = getNode(tree, parentId);
+  while (parent.children.length > 0) {
+    const [mainId, ...variationIds] = parent.children;
+    const main = tree.nodes[mainId];
+    moves.push({
+      ...toPgnMove(main),
+      variations: variationIds.map(id => [toPgnMove(tree.nodes[id]), ...moveTreeToPgnMoves(tree, id)]),
+    });
+    parent = main;
+  }
+  return moves;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_FEN } from '@/lib/chess-logic';
+import { checkMoveSuggestion, getLegalMovesSan } from '@/lib/move-validation';
+
+const PROMOTION_FEN = '8/P7/8/8/8/8/8/k6K w - - 0 1';
+const IN_CHECK_FEN = '4k3/8/8/8/4r3/8/8/4K2R w K - 0 1';
+const SCHOLARS_MATE_FEN = 'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4';
+
+describe('checkMoveSuggestion', () => {
+  it('trusts the notation when the squares disagree with it', () => {
+    expect(checkMoveSuggestion(INITIAL_FEN, { notation: 'e4', from: 'd2', to: 'd4' }))
+      .toEqual({ move: { from: 'e2', to: 'e4', san: 'e4' }, wasCorrected: true });
+    expect(checkMoveSuggestion(INITIAL_FEN, { notation: 'e4', from: 'e2', to: 'e4' })?.wasCorrected).toBe(false);
+    expect(checkMoveSuggestion(INITIAL_FEN, { from: 'g1', to: 'f3' })?.move.san).toBe('Nf3');
+  });
+
+  it('promotes to the piece the notation names, or a queen when only squares are given', () => {
+    expect(checkMoveSuggestion(PROMOTION_FEN, { notation: 'a8=N', from: 'a7', to: 'a8' })?.move)
+      .toEqual({ from: 'a7', to: 'a8', promotion: 'n', san: 'a8=N' });
+    expect(checkMoveSuggestion(PROMOTION_FEN, { from: 'a7', to: 'a8' })?.move.san).toBe('a8=Q+');
+    // A promotion written without its piece, or to a king, is not a move.
+    expect(checkMoveSuggestion(PROMOTION_FEN, { notation: 'a8', from: 'a7', to: 'a8' })).toBeNull();
+    expect(checkMoveSuggestion(PROMOTION_FEN, { notation: 'a8=K' })).toBeNull();
+  });
+
+  it('rejects illegal suggestions however they are given', () => {
+    expect(checkMoveSuggestion(INITIAL_FEN, { notation: 'e5' })).toBeNull();
+    expect(checkMoveSuggestion(INITIAL_FEN, { from: 'e2', to: 'e5' })).toBeNull();
+    expect(checkMoveSuggestion(INITIAL_FEN, { notation: 'e5', from: 'e2', to: 'e4' })).toBeNull();
+    expect(checkMoveSuggestion(INITIAL_FEN, { from: 'e9', to: 'e4' })).toBeNull();
+  });
+
+  it('only accepts moves that get out of check', () => {
+    expect(checkMoveSuggestion(IN_CHECK_FEN, { notation: 'O-O' })).toBeNull();
+    expect(checkMoveSuggestion(IN_CHECK_FEN, { notation: 'Ke2' })).toBeNull();
+    expect(checkMoveSuggestion(IN_CHECK_FEN, { from: 'h1', to: 'h2' })).toBeNull();
+    expect(checkMoveSuggestion(IN_CHECK_FEN, { notation: 'Kf2' })?.move.san).toBe('Kf2');
+    expect(getLegalMovesSan(IN_CHECK_FEN).sort()).toEqual(['Kd1', 'Kd2', 'Kf1', 'Kf2']);
+  });
+
+  it('accepts check and mate suffixes, missing or wrong, and returns the correct SAN', () => {
+    for (const notation of ['Qxf7#', 'Qxf7', 'Qxf7+']) {
+      expect(checkMoveSuggestion(SCHOLARS_MATE_FEN, { notation })?.move).toEqual({ from: 'h5', to: 'f7', san: 'Qxf7#' });
+    }
+    expect(checkMoveSuggestion(SCHOLARS_MATE_FEN, { notation: 'Bxf7+', from: 'c4', to: 'f7' }))
+      .toEqual({ move: { from: 'c4', to: 'f7', san: 'Bxf7+' }, wasCorrected: false });
+  });
+});
@@ -0,0 +1,62 @@
+// Checks moves proposed by the AI tutor against the rules engine before they are shown or highlighted.
+
+import type { PieceSymbol, Square } from '@/types/chess';
+import { fenToBoard, getLegalMoveList, moveToSan, parseSan } from '@/lib/chess-logic';
+
+export interface ValidatedMove {
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+  san: string;
+}
+
+export interface MoveSuggestionCheck {
+  move: ValidatedMove;
+  wasCorrected: boolean; // The model's notation and squares disagreed, or only one of them was legal
+}
+
+// Every legal move in the position, in SAN. Used to re-prompt the model after an illegal suggestion.
+export function getLegalMovesSan(fen: string): string[] {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  return getLegalMoveList(board, turn, castling, enPassant).map(move => moveToSan(board, turn, castling, enPassant, move));
+}
+
+function resolveNotation(fen: string, notation: string): ValidatedMove | null {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  try {
+    const move = parseSan(board, turn, castling, enPassant, notation);
+    return { ...move, san: moveToSan(board, turn, castling, enPassant, move) };
+  } catch {
+    return null;
+  }
+}
+
+function resolveSquares(fen: string, from: string, to: string, notation?: string): ValidatedMove | null {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  if (!/^[a-h][1-8]$/.test(from) || !/^[a-h][1-8]$/.test(to)) return null;
+  const candidates = getLegalMoveList(board, turn, castling, enPassant, from).filter(move => move.to === to);
+  if (candidates.length === 0) return null;
+  // Promotions come as one move per piece; take the one the notation names, else the queen.
+  const promotionLetter = notation ? /=?([QRBN])[+#]?$/i.exec(notation.trim())?.[1]?.toLowerCase() : undefined;
+  const move = candidates.find(candidate => candidate.promotion === (promotionLetter ?? 'q')) ?? candidates[0];
+  return { from, to, promotion: move.promotion, san: moveToSan(board, turn, castling, enPassant, move) };
+}
+
+// Resolves a model suggestion to a legal move. The notation is what the explanation talks about, so it
+// decides the move and wrong squares are fixed from it; the squares are only used when there is no
+// notation. Returns null when the suggestion is not a legal move.
+export function checkMoveSuggestion(
+  fen: string,
+  suggestion: { notation?: string; from?: string; to?: string }
+): MoveSuggestionCheck | null {
+  const bySquares = suggestion.from && suggestion.to ? resolveSquares(fen, suggestion.from, suggestion.to, suggestion.notation) : null;
+  if (!suggestion.notation) {
+    return bySquares ? { move: bySquares, wasCorrected: false } : null;
+  }
+
+  const byNotation = resolveNotation(fen, suggestion.notation);
+  if (!byNotation) return null;
+  const hasSquares = !!(suggestion.from || suggestion.to);
+  const squaresAgree = !hasSquares || (bySquares !== null && bySquares.san === byNotation.san);
+  return { move: byNotation, wasCorrected: !squaresAgree };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { fenToBoard, INITIAL_FEN } from '@/lib/chess-logic';
+import { formatOpeningName, getBookMoves, getOpeningEntries, identifyOpening, pickBookMove } from '@/lib/openings';
+
+describe('opening book', () => {
+  it('names every bundled line at its final move', () => {
+    for (const entry of getOpeningEntries()) {
+      const { opening, theoryExitPly } = identifyOpening(entry.moves);
+      expect(theoryExitPly).toBeNull();
+      expect(opening?.moves).toEqual(entry.moves);
+    }
+  });
+
+  it('keeps the last name reached and marks where theory was left', () => {
+    const result = identifyOpening(['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4', 'Nxd4', 'Nf6', 'Nc3', 'a6', 'h4']);
+    expect(result.opening && formatOpeningName(result.opening)).toBe('B90 Sicilian Defense: Najdorf Variation');
+    expect(result.theoryExitPly).toBe(11);
+  });
+
+  it('recognises transpositions by position', () => {
+    expect(identifyOpening(['c4', 'Nf6', 'd4', 'e6']).opening?.name).toBe('Indian Defense: Normal Variation');
+  });
+
+  it('has nothing to say about positions outside the book', () => {
+    expect(identifyOpening(['Kd7'], '4k3/8/8/8/8/8/8/4K3 b - - 0 1')).toEqual({ opening: null, theoryExitPly: null });
+  });
+
+  it('offers the popular first moves, weighted by the number of lines', () => {
+    const start = fenToBoard(INITIAL_FEN);
+    const moves = getBookMoves(start.board, start.turn, start.castling, start.enPassant);
+    expect(moves.slice(0, 2).map(move => move.san).sort()).toEqual(['d4', 'e4']);
+    expect(moves.find(move => move.san === 'e4')).toMatchObject({ from: 'e2', to: 'e4' });
+
+    expect(pickBookMove(moves, 1, () => 0)).toBe(moves[0]);
+    expect(pickBookMove(moves, 1, () => 0.999999)).toBe(moves[moves.length - 1]);
+    expect(pickBookMove([], 1)).toBeNull();
+  });
+});
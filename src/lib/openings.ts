@@ -0,0 +1,309 @@
+// Bundled opening book: ECO code, name and main line for the common openings, kept as compact text.
+// The lines are replayed once, on first use, and indexed by position, so a transposition into a known
+// line is still recognised. The same index gives the engine its book moves.
+
+import type { Board, PieceColor, PieceSymbol, Square } from '@/types/chess';
+import { INITIAL_FEN, fenToBoard, getPositionKey, makeMove, moveToSan, parseSan } from '@/lib/chess-logic';
+
+export interface OpeningEntry {
+  eco: string;
+  name: string;
+  moves: string[]; // Main line in SAN from the initial position
+}
+
+export interface BookMove {
+  san: string;
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+  weight: number; // Number of book lines continuing with this move; a stand-in for popularity
+}
+
+export interface OpeningIdentification {
+  opening: OpeningEntry | null; // The most specific named line reached, kept after leaving theory
+  theoryExitPly: number | null; // 1-based ply of the first move out of the book; null while still in it
+}
+
+// One opening per line: "ECO|Name|moves".
+const OPENING_BOOK = `
+A00|Polish Opening|b4
+A00|Grob Opening|g4
+A00|Hungarian Opening|g3
+A00|Van't Kruijs Opening|e3
+A01|Nimzo-Larsen Attack|b3
+A02|Bird Opening|f4
+A03|Bird Opening: Dutch Variation|f4 d5
+A04|Zukertort Opening|Nf3
+A06|Réti Opening|Nf3 d5
+A09|Réti Opening: Advance Variation|Nf3 d5 c4 d4
+A09|Réti Opening: Réti Accepted|Nf3 d5 c4 dxc4
+A10|English Opening|c4
+A13|English Opening: Agincourt Defense|c4 e6
+A15|English Opening: Anglo-Indian Defense|c4 Nf6
+A20|English Opening: King's English Variation|c4 e5
+A22|English Opening: King's English Variation, Two Knights Variation|c4 e5 Nc3 Nf6
+A25|English Opening: King's English Variation, Reversed Closed Sicilian|c4 e5 Nc3 Nc6
+A30|English Opening: Symmetrical Variation|c4 c5
+A40|Queen's Pawn Game|d4
+A40|Englund Gambit|d4 e5
+A43|Benoni Defense: Old Benoni|d4 c5
+A45|Indian Defense|d4 Nf6
+A45|Trompowsky Attack|d4 Nf6 Bg5
+A46|Indian Defense: Knights Variation|d4 Nf6 Nf3
+A46|Torre Attack|d4 Nf6 Nf3 e6 Bg5
+A48|London System|d4 Nf6 Nf3 g6 Bf4
+A51|Indian Defense: Budapest Defense|d4 Nf6 c4 e5
+A56|Benoni Defense|d4 Nf6 c4 c5
+A57|Benko Gambit|d4 Nf6 c4 c5 d5 b5
+A60|Benoni Defense: Modern Variation|d4 Nf6 c4 c5 d5 e6
+A80|Dutch Defense|d4 f5
+A87|Dutch Defense: Leningrad Variation|d4 f5 g3 Nf6 Bg2 g6
+B00|Nimzowitsch Defense|e4 Nc6
+B00|Owen Defense|e4 b6
+B01|Scandinavian Defense|e4 d5
+B01|Scandinavian Defense: Mieses-Kotroc Variation|e4 d5 exd5 Qxd5
+B01|Scandinavian Defense: Main Line|e4 d5 exd5 Qxd5 Nc3 Qa5
+B01|Scandinavian Defense: Modern Variation|e4 d5 exd5 Nf6
+B02|Alekhine Defense|e4 Nf6
+B03|Alekhine Defense: Four Pawns Attack|e4 Nf6 e5 Nd5 d4 d6 c4 Nb6 f4
+B04|Alekhine Defense: Modern Variation|e4 Nf6 e5 Nd5 d4 d6 Nf3
+B06|Modern Defense|e4 g6
+B07|Pirc Defense|e4 d6 d4 Nf6 Nc3 g6
+B09|Pirc Defense: Austrian Attack|e4 d6 d4 Nf6 Nc3 g6 f4
+B10|Caro-Kann Defense|e4 c6
+B12|Caro-Kann Defense: Advance Variation|e4 c6 d4 d5 e5
+B13|Caro-Kann Defense: Exchange Variation|e4 c6 d4 d5 exd5 cxd5
+B15|Caro-Kann Defense: Main Line|e4 c6 d4 d5 Nc3 dxe4 Nxe4
+B17|Caro-Kann Defense: Karpov Variation|e4 c6 d4 d5 Nc3 dxe4 Nxe4 Nd7
+B18|Caro-Kann Defense: Classical Variation|e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5
+B20|Sicilian Defense|e4 c5
+B21|Sicilian Defense: Smith-Morra Gambit|e4 c5 d4 cxd4 c3
+B22|Sicilian Defense: Alapin Variation|e4 c5 c3
+B23|Sicilian Defense: Closed|e4 c5 Nc3
+B27|Sicilian Defense: Hyperaccelerated Dragon|e4 c5 Nf3 g6
+B30|Sicilian Defense: Old Sicilian|e4 c5 Nf3 Nc6
+B31|Sicilian Defense: Rossolimo Variation|e4 c5 Nf3 Nc6 Bb5
+B32|Sicilian Defense: Open|e4 c5 Nf3 Nc6 d4 cxd4 Nxd4
+B33|Sicilian Defense: Sveshnikov Variation|e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5
+B35|Sicilian Defense: Accelerated Dragon|e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6
+B40|Sicilian Defense: French Variation|e4 c5 Nf3 e6
+B41|Sicilian Defense: Kan Variation|e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6
+B44|Sicilian Defense: Taimanov Variation|e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6
+B50|Sicilian Defense: Modern Variations|e4 c5 Nf3 d6
+B51|Sicilian Defense: Moscow Variation|e4 c5 Nf3 d6 Bb5+
+B54|Sicilian Defense: Open|e4 c5 Nf3 d6 d4 cxd4 Nxd4
+B56|Sicilian Defense: Classical Variation|e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6
+B70|Sicilian Defense: Dragon Variation|e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6
+B76|Sicilian Defense: Dragon Variation, Yugoslav Attack|e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 Be3 Bg7 f3
+B80|Sicilian Defense: Scheveningen Variation|e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6
+B90|Sicilian Defense: Najdorf Variation|e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6
+B90|Sicilian Defense: Najdorf Variation, English Attack|e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3
+B94|Sicilian Defense: Najdorf Variation, Main Line|e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Bg5
+C00|French Defense|e4 e6
+C01|French Defense: Exchange Variation|e4 e6 d4 d5 exd5
+C02|French Defense: Advance Variation|e4 e6 d4 d5 e5
+C03|French Defense: Tarrasch Variation|e4 e6 d4 d5 Nd2
+C10|French Defense: Rubinstein Variation|e4 e6 d4 d5 Nc3 dxe4
+C11|French Defense: Classical Variation|e4 e6 d4 d5 Nc3 Nf6
+C15|French Defense: Winawer Variation|e4 e6 d4 d5 Nc3 Bb4
+C20|King's Pawn Game|e4 e5
+C21|Center Game|e4 e5 d4 exd4
+C21|Danish Gambit|e4 e5 d4 exd4 c3
+C23|Bishop's Opening|e4 e5 Bc4
+C25|Vienna Game|e4 e5 Nc3
+C29|Vienna Game: Vienna Gambit|e4 e5 Nc3 Nf6 f4
+C30|King's Gambit|e4 e5 f4
+C30|King's Gambit Declined: Classical Variation|e4 e5 f4 Bc5
+C33|King's Gambit Accepted|e4 e5 f4 exf4
+C40|King's Knight Opening|e4 e5 Nf3
+C40|Latvian Gambit|e4 e5 Nf3 f5
+C41|Philidor Defense|e4 e5 Nf3 d6
+C42|Petrov's Defense|e4 e5 Nf3 Nf6
+C42|Petrov's Defense: Stafford Gambit|e4 e5 Nf3 Nf6 Nxe5 Nc6
+C42|Petrov's Defense: Classical Attack|e4 e5 Nf3 Nf6 Nxe5 d6 Nf3 Nxe4 d4
+C44|King's Knight Opening: Normal Variation|e4 e5 Nf3 Nc6
+C44|Ponziani Opening|e4 e5 Nf3 Nc6 c3
+C44|Scotch Game|e4 e5 Nf3 Nc6 d4
+C45|Scotch Game: Main Line|e4 e5 Nf3 Nc6 d4 exd4 Nxd4
+C46|Three Knights Opening|e4 e5 Nf3 Nc6 Nc3
+C47|Four Knights Game|e4 e5 Nf3 Nc6 Nc3 Nf6
+C48|Four Knights Game: Spanish Variation|e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5
+C50|Italian Game|e4 e5 Nf3 Nc6 Bc4
+C50|Italian Game: Hungarian Defense|e4 e5 Nf3 Nc6 Bc4 Be7
+C50|Italian Game: Giuoco Piano|e4 e5 Nf3 Nc6 Bc4 Bc5
+C50|Italian Game: Giuoco Pianissimo|e4 e5 Nf3 Nc6 Bc4 Bc5 d3
+C51|Italian Game: Evans Gambit|e4 e5 Nf3 Nc6 Bc4 Bc5 b4
+C53|Italian Game: Classical Variation|e4 e5 Nf3 Nc6 Bc4 Bc5 c3
+C55|Italian Game: Two Knights Defense|e4 e5 Nf3 Nc6 Bc4 Nf6
+C57|Italian Game: Two Knights Defense, Knight Attack|e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5
+C57|Italian Game: Two Knights Defense, Traxler Counterattack|e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 Bc5
+C57|Italian Game: Two Knights Defense, Fried Liver Attack|e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7
+C58|Italian Game: Two Knights Defense, Polerio Defense|e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Na5
+C60|Ruy Lopez|e4 e5 Nf3 Nc6 Bb5
+C62|Ruy Lopez: Steinitz Defense|e4 e5 Nf3 Nc6 Bb5 d6
+C63|Ruy Lopez: Schliemann Defense|e4 e5 Nf3 Nc6 Bb5 f5
+C64|Ruy Lopez: Classical Variation|e4 e5 Nf3 Nc6 Bb5 Bc5
+C65|Ruy Lopez: Berlin Defense|e4 e5 Nf3 Nc6 Bb5 Nf6
+C67|Ruy Lopez: Berlin Defense, Berlin Wall|e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 Nd6 Bxc6 dxc6 dxe5 Nf5 Qxd8+ Kxd8
+C68|Ruy Lopez: Exchange Variation|e4 e5 Nf3 Nc6 Bb5 a6 Bxc6
+C70|Ruy Lopez: Morphy Defense|e4 e5 Nf3 Nc6 Bb5 a6
+C80|Ruy Lopez: Open|e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4
+C84|Ruy Lopez: Closed|e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7
+C89|Ruy Lopez: Marshall Attack|e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5
+C92|Ruy Lopez: Closed, Main Line|e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 d6 c3 O-O h3
+D00|Queen's Pawn Game: Symmetrical Variation|d4 d5
+D00|Queen's Pawn Game: Accelerated London System|d4 d5 Bf4
+D00|Blackmar-Diemer Gambit|d4 d5 e4
+D01|Richter-Veresov Attack|d4 d5 Nc3 Nf6 Bg5
+D02|Queen's Pawn Game: London System|d4 d5 Nf3 Nf6 Bf4
+D06|Queen's Gambit|d4 d5 c4
+D07|Queen's Gambit Declined: Chigorin Defense|d4 d5 c4 Nc6
+D08|Queen's Gambit Declined: Albin Countergambit|d4 d5 c4 e5
+D10|Slav Defense|d4 d5 c4 c6
+D11|Slav Defense: Modern Line|d4 d5 c4 c6 Nf3
+D17|Slav Defense: Czech Variation|d4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 Bf5
+D20|Queen's Gambit Accepted|d4 d5 c4 dxc4
+D30|Queen's Gambit Declined|d4 d5 c4 e6
+D32|Tarrasch Defense|d4 d5 c4 e6 Nc3 c5
+D35|Queen's Gambit Declined: Exchange Variation|d4 d5 c4 e6 Nc3 Nf6 cxd5
+D37|Queen's Gambit Declined: Harrwitz Attack|d4 d5 c4 e6 Nc3 Nf6 Nf3 Be7 Bf4
+D43|Semi-Slav Defense|d4 d5 c4 c6 Nf3 Nf6 Nc3 e6
+D50|Queen's Gambit Declined: Modern Variation|d4 d5 c4 e6 Nc3 Nf6 Bg5
+D80|Grünfeld Defense|d4 Nf6 c4 g6 Nc3 d5
+D85|Grünfeld Defense: Exchange Variation|d4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5 e4 Nxc3 bxc3
+E00|Indian Defense: Normal Variation|d4 Nf6 c4 e6
+E01|Catalan Opening|d4 Nf6 c4 e6 g3
+E10|Indian Defense: Anti-Nimzo-Indian|d4 Nf6 c4 e6 Nf3
+E11|Bogo-Indian Defense|d4 Nf6 c4 e6 Nf3 Bb4+
+E12|Queen's Indian Defense|d4 Nf6 c4 e6 Nf3 b6
+E20|Nimzo-Indian Defense|d4 Nf6 c4 e6 Nc3 Bb4
+E32|Nimzo-Indian Defense: Classical Variation|d4 Nf6 c4 e6 Nc3 Bb4 Qc2
+E40|Nimzo-Indian Defense: Normal Variation|d4 Nf6 c4 e6 Nc3 Bb4 e3
+E60|King's Indian Defense|d4 Nf6 c4 g6
+E70|King's Indian Defense: Normal Variation|d4 Nf6 c4 g6 Nc3 Bg7 e4 d6
+E76|King's Indian Defense: Four Pawns Attack|d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f4
+E80|King's Indian Defense: Sämisch Variation|d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3
+E92|King's Indian Defense: Classical Variation|d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5
+E97|King's Indian Defense: Mar del Plata Variation|d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5 O-O Nc6 d5 Ne7
+`;
+
+interface BookPosition {
+  opening: OpeningEntry | null; // Set when a book line ends exactly here
+  moves: BookMove[];
+}
+
+interface ReplayState {
+  board: Board;
+  turn: PieceColor;
+  castlingRights: string;
+  enPassantTarget: string | null;
+}
+
+let bookIndex: Map<string, BookPosition> | null = null;
+
+function positionKeyOf(state: ReplayState): string {
+  return getPositionKey(state.board, state.turn, state.castlingRights, state.enPassantTarget);
+}
+
+function startState(fen: string): ReplayState {
+  const start = fenToBoard(fen);
+  return { board: start.board, turn: start.turn, castlingRights: start.castling, enPassantTarget: start.enPassant };
+}
+
+// Plays a SAN move, returning the normalised SAN and the position after it. Throws on illegal moves.
+function playSan(state: ReplayState, rawSan: string): { move: Omit<BookMove, 'weight'>; after: ReplayState } {
+  const { board, turn, castlingRights, enPassantTarget } = state;
+  const squares = parseSan(board, turn, castlingRights, enPassantTarget, rawSan);
+  const san = moveToSan(board, turn, castlingRights, enPassantTarget, squares);
+  const result = makeMove(board, squares.from, squares.to, castlingRights, enPassantTarget, squares.promotion);
+  return {
+    move: { san, ...squares },
+    after: {
+      board: result.newBoard,
+      turn: turn === 'w' ? 'b' : 'w',
+      castlingRights: result.updatedCastlingRights,
+      enPassantTarget: result.updatedEnPassantTarget,
+    },
+  };
+}
+
+export function getOpeningEntries(): OpeningEntry[] {
+  return OPENING_BOOK.trim().split('\n').map(line => {
+    const [eco, name, moves] = line.split('|');
+    return { eco, name, moves: moves.split(' ') };
+  });
+}
+
+function getBookIndex(): Map<string, BookPosition> {
+  if (bookIndex) return bookIndex;
+  const index = new Map<string, BookPosition>();
+  const entryAt = (key: string) => {
+    let entry = index.get(key);
+    if (!entry) {
+      entry = { opening: null, moves: [] };
+      index.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const opening of getOpeningEntries()) {
+    let state = startState(INITIAL_FEN);
+    opening.moves.forEach(rawSan => {
+      const position = entryAt(positionKeyOf(state));
+      const { move, after } = playSan(state, rawSan);
+      const existing = position.moves.find(bookMove => bookMove.san === move.san);
+      if (existing) existing.weight++;
+      else position.moves.push({ ...move, weight: 1 });
+      state = after;
+    });
+    // The first line to reach a position names it; later lines only add continuations.
+    const final = entryAt(positionKeyOf(state));
+    final.opening ??= opening;
+  }
+  bookIndex = index;
+  return index;
+}
+
+// Book continuations for a position, most popular first; empty once the position is out of the book.
+export function getBookMoves(board: Board, turn: PieceColor, castlingRights: string, enPassantTarget: string | null): BookMove[] {
+  const position = getBookIndex().get(getPositionKey(board, turn, castlingRights, enPassantTarget));
+  return position ? [...position.moves].sort((a, b) => b.weight - a.weight) : [];
+}
+
+// Weighted random pick. `sharpness` above 1 favours the popular moves, below 1 evens the odds out.
+export function pickBookMove(moves: BookMove[], sharpness: number, random: () => number = Math.random): BookMove | null {
+  if (moves.length === 0) return null;
+  const weights = moves.map(move => Math.pow(move.weight, sharpness));
+  let roll = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < moves.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return moves[i];
+  }
+  return moves[moves.length - 1];
+}
+
+// Follows a game through the book, naming the deepest known opening reached and where theory ended.
+export function identifyOpening(sanMoves: string[], startFen: string = INITIAL_FEN): OpeningIdentification {
+  const index = getBookIndex();
+  let state = startState(startFen);
+  let position = index.get(positionKeyOf(state));
+  let opening = position?.opening ?? null;
+  if (!position) return { opening: null, theoryExitPly: null };
+
+  for (let ply = 0; ply < sanMoves.length; ply++) {
+    try {
+      state = playSan(state, sanMoves[ply]).after;
+    } catch {
+      return { opening, theoryExitPly: ply + 1 };
+    }
+    position = index.get(positionKeyOf(state));
+    if (!position) return { opening, theoryExitPly: ply + 1 };
+    opening = position.opening ?? opening;
+  }
+  return { opening, theoryExitPly: null };
+}
+
+// "B20 Sicilian Defense"
+export function formatOpeningName(opening: OpeningEntry): string {
+  return `${opening.eco} ${opening.name}`;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { Board, PieceColor } from '@/types/chess';
+import { INITIAL_FEN, fenToBoard, getLegalMoves, makeMove, coordsToSquare, squareToCoords } from '@/lib/chess-logic';
+import { perft, perftDivide } from '@/lib/perft';
+
+// Standard perft positions and their published node counts, indexed by depth - 1.
+// https://www.chessprogramming.org/Perft_Results
+const PERFT_POSITIONS: { name: string; fen: string; nodes: number[] }[] = [
+  { name: 'initial position', fen: INITIAL_FEN, nodes: [20, 400, 8902, 197281, 4865609] },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    nodes: [48, 2039, 97862, 4085603],
+  },
+  { name: 'position 3', fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1', nodes: [14, 191, 2812, 43238, 674624] },
+  {
+    name: 'position 4',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    nodes: [6, 264, 9467, 422333],
+  },
+  {
+    name: 'position 4 (mirrored)',
+    fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+    nodes: [6, 264, 9467, 422333],
+  },
+  { name: 'position 5', fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8', nodes: [44, 1486, 62379, 2103487] },
+  {
+    name: 'position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    nodes: [46, 2079, 89890, 3894594],
+  },
+];
+
+// Same count through the public Board API the UI uses, which expands promotions itself.
+function boardPerft(board: Board, turn: PieceColor, castling: string, enPassant: string | null, depth: number): number {
+  let nodes = 0;
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const piece = board[r][c];
+      if (!piece || piece.color !== turn) continue;
+      const from = coordsToSquare(r, c);
+      for (const to of getLegalMoves(board, from, turn, castling, enPassant)) {
+        const toRow = squareToCoords(to).row;
+        const promotions = piece.symbol === 'p' && (toRow === 0 || toRow === 7) ? (['q', 'r', 'b', 'n'] as const) : [undefined];
+        for (const promotion of promotions) {
+          if (depth === 1) {
+            nodes++;
+            continue;
+          }
+          const result = makeMove(board, from, to, castling, enPassant, promotion);
+          nodes += boardPerft(result.newBoard, turn === 'w' ? 'b' : 'w', result.updatedCastlingRights, result.updatedEnPassantTarget, depth - 1);
+        }
+      }
+    }
+  }
+  return nodes;
+}
+
+describe('perft', () => {
+  for (const { name, fen, nodes } of PERFT_POSITIONS) {
+    it(`${name} to depth ${nodes.length}`, () => {
+      nodes.forEach((expected, index) => {
+        expect(perft(fen, index + 1)).toBe(expected);
+      });
+    });
+
+    it(`${name} through getLegalMoves/makeMove to depth 3`, () => {
+      const { board, turn, castling, enPassant } = fenToBoard(fen);
+      expect(boardPerft(board, turn, castling, enPassant, 3)).toBe(nodes[2]);
+    });
+  }
+
+  it('divides the count by root move', () => {
+    const divide = perftDivide(INITIAL_FEN, 3);
+    expect(Object.keys(divide)).toHaveLength(20);
+    expect(divide.e2e4).toBe(600);
+    expect(divide.g1f3).toBe(440);
+    expect(Object.values(divide).reduce((sum, n) => sum + n, 0)).toBe(8902);
+  });
+
+  it('lists each promotion piece separately', () => {
+    const divide = perftDivide('8/P7/8/8/8/8/8/k6K w - - 0 1', 1);
+    expect(Object.keys(divide).filter(move => move.startsWith('a7a8')).sort()).toEqual(['a7a8b', 'a7a8n', 'a7a8q', 'a7a8r']);
+  });
+});
@@ -0,0 +1,51 @@
+// Perft: counts the leaf nodes of the legal move tree to a fixed depth. Totals for standard
+// positions are published, so any mismatch points at a move generation bug; perftDivide breaks the
+// count down by root move to find which one.
+
+import { fenToBoard } from '@/lib/chess-logic';
+import {
+  positionFromBoard,
+  generateLegalMoves,
+  makeMove,
+  unmakeMove,
+  squareName,
+  moveFrom,
+  moveTo,
+  movePromotionSymbol,
+  type Position,
+} from '@/lib/chess-position';
+
+function countNodes(position: Position, depth: number): number {
+  const moves = generateLegalMoves(position);
+  if (depth === 1) return moves.length;
+  let nodes = 0;
+  for (const move of moves) {
+    makeMove(position, move);
+    nodes += countNodes(position, depth - 1);
+    unmakeMove(position, move);
+  }
+  return nodes;
+}
+
+function positionFromFen(fen: string): Position {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  return positionFromBoard(board, turn, castling, enPassant);
+}
+
+export function perft(fen: string, depth: number): number {
+  if (depth <= 0) return 1;
+  return countNodes(positionFromFen(fen), depth);
+}
+
+// Node counts per root move, keyed by long algebraic notation ("e2e4", "e7e8q").
+export function perftDivide(fen: string, depth: number): Record<string, number> {
+  const position = positionFromFen(fen);
+  const counts: Record<string, number> = {};
+  for (const move of generateLegalMoves(position)) {
+    const key = squareName(moveFrom(move)) + squareName(moveTo(move)) + (movePromotionSymbol(move) ?? '');
+    makeMove(position, move);
+    counts[key] = depth <= 1 ? 1 : countNodes(position, depth - 1);
+    unmakeMove(position, move);
+  }
+  return counts;
+}
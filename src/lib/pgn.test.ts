@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parsePgn, writePgn } from '@/lib/pgn';
+
+describe('parsePgn', () => {
+  it('reads every game of a multi-game file with its tags and result', () => {
+    const games = parsePgn([
+      '[Event "First"]',
+      '[White "Alice"]',
+      '',
+      '1. e4 e5 2. Nf3 1-0',
+      '',
+      '[Event "Second"]',
+      '[SetUp "1"]',
+      '[FEN "4k3/8/8/8/8/8/4P3/4K3 w - - 0 1"]',
+      '',
+      '1. e4 Kd7 1/2-1/2',
+    ].join('\n'));
+
+    expect(games).toHaveLength(2);
+    expect(games[0].tags).toEqual({ Event: 'First', White: 'Alice' });
+    expect(games[0].moves.map(move => move.san)).toEqual(['e4', 'e5', 'Nf3']);
+    expect(games[0].result).toBe('1-0');
+    expect(games[1].startFen).toBe('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1');
+    expect(games[1].moves.map(move => move.san)).toEqual(['e4', 'Kd7']);
+    expect(games[1].result).toBe('1/2-1/2');
+  });
+
+  it('skips escape lines, including one on the very first line', () => {
+    const [game] = parsePgn('% exported by some tool\n[Event "x"]\n\n1. e4\n% 1... e5 ignored\ne5 *');
+    expect(game.tags.Event).toBe('x');
+    expect(game.moves.map(move => move.san)).toEqual(['e4', 'e5']);
+  });
+
+  it('replays nested variations from the position before the move they replace', () => {
+    const [game] = parsePgn('1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 *');
+    const [sicilian] = game.moves[1].variations;
+    expect(sicilian.map(move => move.san)).toEqual(['c5', 'Nf3', 'd6']);
+    expect(sicilian[1].variations[0].map(move => move.san)).toEqual(['c3', 'd5']);
+    expect(sicilian[1].variations[0][1].fenAfter).toBe('rnbqkbnr/pp2pppp/8/2pp4/4P3/2P5/PP1P1PPP/RNBQKBNR w KQkq d6 0 3');
+    expect(game.moves[2].san).toBe('Nf3');
+  });
+
+  it('turns suffix annotations into NAGs alongside numeric ones', () => {
+    const [game] = parsePgn('1. e4! e5?! 2. Qh5?? $18 Nc6!? *');
+    expect(game.moves.map(move => move.san)).toEqual(['e4', 'e5', 'Qh5', 'Nc6']);
+    expect(game.moves.map(move => move.nags)).toEqual([[1], [6], [4, 18], [5]]);
+  });
+
+  it('keeps comments before the game, before a variation and after moves', () => {
+    const [game] = parsePgn('{Opening lesson} 1. e4 {Best by test} ; the king\'s pawn\n1... e5 ({Also good} 1... c5) *');
+    expect(game.initialComment).toBe('Opening lesson');
+    expect(game.moves[0].comment).toBe('Best by test the king\'s pawn');
+    expect(game.moves[1].variations[0][0].commentBefore).toBe('Also good');
+  });
+
+  it('names the game, move and line of an illegal move', () => {
+    expect(() => parsePgn('[Event "x"]\n\n1. e4 e5\n2. Ke3 *')).toThrow(/^Game 1: illegal move 2\. Ke3 on line 4 — /);
+    expect(() => parsePgn('1. e4 * 1. d4 d5 2. Bxh7 *')).toThrow(/^Game 2: illegal move 2\. Bxh7 on line 1/);
+  });
+
+  it('rejects malformed tokens with the line they are on', () => {
+    expect(() => parsePgn('[Event "x]\n1. e4 *')).toThrow('Malformed tag pair on line 1.');
+    expect(() => parsePgn('1. e4\n{never closed *')).toThrow('Unterminated comment starting on line 2.');
+    expect(() => parsePgn('1. e4 $x *')).toThrow('Malformed NAG on line 1.');
+    expect(() => parsePgn('1. e4 ??? *')).toThrow('Unknown annotation "???" on line 1.');
+    expect(() => parsePgn('1. e4 e5 ) *')).toThrow('Game 1: unmatched ")" on line 1.');
+    expect(() => parsePgn('( 1. e4 ) *')).toThrow('Game 1: variation on line 1 has no move to branch from.');
+    expect(() => parsePgn('1. e4 (1. d4')).toThrow('Game 1: variation is not closed.');
+    expect(() => parsePgn('')).toThrow('No games found in PGN.');
+  });
+});
+
+describe('writePgn', () => {
+  it('writes NAGs and comments in a form that reads back the same', () => {
+    const pgn = writePgn({
+      initialComment: 'A short game',
+      moves: [
+        { san: 'e4', nags: [1] },
+        {
+          san: 'e5',
+          comment: 'Symmetrical',
+          variations: [[{ san: 'c5', commentBefore: 'Sharper', nags: [5] }]],
+        },
+      ],
+      result: '*',
+    });
+    expect(pgn).toContain('{A short game} 1. e4 $1 e5 {Symmetrical} ({Sharper} 1... c5 $5) *');
+
+    const [game] = parsePgn(pgn);
+    expect(game.initialComment).toBe('A short game');
+    expect(game.moves[0].nags).toEqual([1]);
+    expect(game.moves[1].comment).toBe('Symmetrical');
+    expect(game.moves[1].variations[0][0]).toMatchObject({ san: 'c5', commentBefore: 'Sharper', nags: [5] });
+  });
+});
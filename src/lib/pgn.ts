@@ -0,0 +1,433 @@
+// PGN (Portable Game Notation) reading and writing.
+// The parser replays every move, including variations, through chess-logic so illegal moves are rejected.
+
+import type { Board, PieceColor, PieceSymbol, Square } from '@/types/chess';
+import {
+  INITIAL_FEN,
+  fenToBoard,
+  validateFen,
+  boardToFen,
+  getPieceAtSquare,
+  makeMove,
+  moveToSan,
+  parseSan,
+} from '@/lib/chess-logic';
+
+export const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'] as const;
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PgnMoveNode {
+  san: string; // SAN as generated by ChessMastery (normalized, with check suffix)
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+  fenAfter: string;
+  nags: number[];
+  commentBefore?: string;
+  comment?: string;
+  variations: PgnMoveNode[][]; // Alternatives to this move, each starting from the position before it
+}
+
+export interface PgnGame {
+  tags: Record<string, string>;
+  startFen: string;
+  moves: PgnMoveNode[]; // Main line
+  result: PgnResult;
+  initialComment?: string;
+}
+
+export interface PgnExportMove {
+  san: string;
+  nags?: number[];
+  commentBefore?: string | null; // Only meaningful on the first move of a variation
+  comment?: string | null;
+  variations?: PgnExportMove[][]; // Alternatives to this move, written as RAV after it
+}
+
+export interface PgnExportOptions {
+  tags?: Record<string, string>;
+  startFen?: string;
+  moves: PgnExportMove[];
+  result: PgnResult;
+  initialComment?: string | null;
+}
+
+// Traditional move suffix annotations and their NAG equivalents.
+const SUFFIX_NAGS: Record<string, number> = { '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6 };
+const RESULT_TOKENS: PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+const MAX_LINE_LENGTH = 80;
+
+type PgnToken =
+  | { type: 'tag'; name: string; value: string; line: number }
+  | { type: 'comment'; text: string; line: number }
+  | { type: 'open'; line: number }
+  | { type: 'close'; line: number }
+  | { type: 'nag'; value: number; line: number }
+  | { type: 'result'; value: PgnResult; line: number }
+  | { type: 'move'; san: string; line: number };
+
+interface PgnPosition {
+  board: Board;
+  turn: PieceColor;
+  castlingRights: string;
+  enPassantTarget: string | null;
+  halfMoveClock: number;
+  fullMoveNumber: number;
+}
+
+function tokenize(text: string): PgnToken[] {
+  const tokens: PgnToken[] = [];
+  let i = 0;
+  let line = 1;
+
+  const readUntil = (terminator: string): string => {
+    const start = i;
+    while (i < text.length && text[i] !== terminator) {
+      if (text[i] === '\n') line++;
+      i++;
+    }
+    return text.slice(start, i);
+  };
+
+  // Lines starting with '%' are escape lines and are ignored, the first line included.
+  if (text[0] === '%') readUntil('\n');
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\n') {
+      line++;
+      i++;
+      if (text[i] === '%') readUntil('\n');
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '[') {
+      const match = /^\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]/.exec(text.slice(i));
+      if (!match) throw new Error(`Malformed tag pair on line ${line}.`);
+      tokens.push({ type: 'tag', name: match[1], value: match[2].replace(/\\(["\\])/g, '$1'), line });
+      i += match[0].length;
+      continue;
+    }
+    if (ch === '{') {
+      const startLine = line;
+      i++;
+      const comment = readUntil('}');
+      if (i >= text.length) throw new Error(`Unterminated comment starting on line ${startLine}.`);
+      i++;
+      tokens.push({ type: 'comment', text: comment.replace(/\s+/g, ' ').trim(), line: startLine });
+      continue;
+    }
+    if (ch === ';') {
+      i++;
+      tokens.push({ type: 'comment', text: readUntil('\n').trim(), line });
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'open' : 'close', line });
+      i++;
+      continue;
+    }
+    if (ch === '$') {
+      const match = /^\$(\d+)/.exec(text.slice(i));
+      if (!match) throw new Error(`Malformed NAG on line ${line}.`);
+      tokens.push({ type: 'nag', value: parseInt(match[1], 10), line });
+      i += match[0].length;
+      continue;
+    }
+
+    // A symbol: move number, move, result or annotation glyph.
+    const start = i;
+    while (i < text.length && !/[\s{}()[\];$]/.test(text[i])) i++;
+    let word = text.slice(start, i);
+
+    if ((RESULT_TOKENS as string[]).includes(word)) {
+      tokens.push({ type: 'result', value: word as PgnResult, line });
+      continue;
+    }
+    if (/^\d+$/.test(word)) continue; // Move number without its period
+    word = word.replace(/^\d+\.+/, ''); // "12." / "12..." / "12.e4" (but not "0-0")
+    word = word.replace(/^\.+/, '');
+    if (!word) continue;
+
+    const suffix = /[!?]+$/.exec(word);
+    if (suffix) word = word.slice(0, suffix.index);
+    if (word) tokens.push({ type: 'move', san: word, line });
+    if (suffix) {
+      const nag = SUFFIX_NAGS[suffix[0]];
+      if (nag === undefined) throw new Error(`Unknown annotation "${suffix[0]}" on line ${line}.`);
+      tokens.push({ type: 'nag', value: nag, line });
+    }
+  }
+  return tokens;
+}
+
+function positionFromFen(fen: string): PgnPosition {
+  const parsed = fenToBoard(fen);
+  return {
+    board: parsed.board,
+    turn: parsed.turn,
+    castlingRights: parsed.castling,
+    enPassantTarget: parsed.enPassant,
+    halfMoveClock: parsed.halfmove,
+    fullMoveNumber: parsed.fullmove,
+  };
+}
+
+function positionToFen(position: PgnPosition): string {
+  return boardToFen(
+    position.board, position.turn, position.castlingRights, position.enPassantTarget,
+    position.halfMoveClock, position.fullMoveNumber
+  );
+}
+
+// Plays an already resolved legal move, returning the position after it and the move's SAN.
+function playMove(position: PgnPosition, move: { from: Square; to: Square; promotion?: PieceSymbol }): { position: PgnPosition; san: string } {
+  const piece = getPieceAtSquare(position.board, move.from)!;
+  const isEnPassant = piece.symbol === 'p' && move.to === position.enPassantTarget;
+  const san = moveToSan(position.board, position.turn, position.castlingRights, position.enPassantTarget, move);
+  const result = makeMove(position.board, move.from, move.to, position.castlingRights, position.enPassantTarget, move.promotion);
+  const captured = !!result.capturedPiece || isEnPassant;
+  return {
+    san,
+    position: {
+      board: result.newBoard,
+      turn: position.turn === 'w' ? 'b' : 'w',
+      castlingRights: result.updatedCastlingRights,
+      enPassantTarget: result.updatedEnPassantTarget,
+      halfMoveClock: piece.symbol === 'p' || captured ? 0 : position.halfMoveClock + 1,
+      fullMoveNumber: position.turn === 'b' ? position.fullMoveNumber + 1 : position.fullMoveNumber,
+    },
+  };
+}
+
+interface LineFrame {
+  line: PgnMoveNode[];
+  position: PgnPosition; // After the last move of the line
+  positionBeforeLastMove: PgnPosition | null;
+  pendingComment?: string;
+}
+
+function buildGame(tags: Record<string, string>, tokens: PgnToken[], resultToken: PgnResult | null, gameNumber: number): PgnGame {
+  const startFen = tags.FEN || INITIAL_FEN;
+  const fenErrors = validateFen(startFen);
+  if (fenErrors.length > 0) {
+    throw new Error(`Game ${gameNumber}: invalid FEN tag "${startFen}" — ${fenErrors[0]}`);
+  }
+  const startPosition = positionFromFen(startFen);
+
+  const mainLine: PgnMoveNode[] = [];
+  const frames: LineFrame[] = [{ line: mainLine, position: startPosition, positionBeforeLastMove: null }];
+  let initialComment: string | undefined;
+
+  for (const token of tokens) {
+    const frame = frames[frames.length - 1];
+    const lastNode = frame.line[frame.line.length - 1];
+    switch (token.type) {
+      case 'move': {
+        const { position } = frame;
+        const moveLabel = `${position.fullMoveNumber}${position.turn === 'w' ? '.' : '...'} ${token.san}`;
+        if (token.san === '--' || token.san === 'Z0') {
+          throw new Error(`Game ${gameNumber}: null moves are not supported (${moveLabel}, line ${token.line}).`);
+        }
+        let resolved: { from: Square; to: Square; promotion?: PieceSymbol };
+        try {
+          resolved = parseSan(position.board, position.turn, position.castlingRights, position.enPassantTarget, token.san);
+        } catch (error) {
+          throw new Error(`Game ${gameNumber}: illegal move ${moveLabel} on line ${token.line} — ${(error as Error).message}.`);
+        }
+        const { position: nextPosition, san } = playMove(position, resolved);
+        frame.line.push({
+          san,
+          ...resolved,
+          fenAfter: positionToFen(nextPosition),
+          nags: [],
+          commentBefore: frame.pendingComment,
+          variations: [],
+        });
+        frame.pendingComment = undefined;
+        frame.positionBeforeLastMove = position;
+        frame.position = nextPosition;
+        break;
+      }
+      case 'comment':
+        if (lastNode) {
+          lastNode.comment = lastNode.comment ? `${lastNode.comment} ${token.text}` : token.text;
+        } else if (frames.length === 1) {
+          initialComment = initialComment ? `${initialComment} ${token.text}` : token.text;
+        } else {
+          frame.pendingComment = frame.pendingComment ? `${frame.pendingComment} ${token.text}` : token.text;
+        }
+        break;
+      case 'nag':
+        if (lastNode) lastNode.nags.push(token.value);
+        break;
+      case 'open': {
+        if (!lastNode || !frame.positionBeforeLastMove) {
+          throw new Error(`Game ${gameNumber}: variation on line ${token.line} has no move to branch from.`);
+        }
+        const variation: PgnMoveNode[] = [];
+        lastNode.variations.push(variation);
+        frames.push({ line: variation, position: frame.positionBeforeLastMove, positionBeforeLastMove: null });
+        break;
+      }
+      case 'close':
+        if (frames.length === 1) {
+          throw new Error(`Game ${gameNumber}: unmatched ")" on line ${token.line}.`);
+        }
+        frames.pop();
+        break;
+      default:
+        break;
+    }
+  }
+  if (frames.length > 1) {
+    throw new Error(`Game ${gameNumber}: variation is not closed.`);
+  }
+
+  const tagResult = tags.Result as PgnResult | undefined;
+  const result = resultToken ?? (tagResult && RESULT_TOKENS.includes(tagResult) ? tagResult : '*');
+  return { tags, startFen, moves: mainLine, result, initialComment };
+}
+
+// Parses every game in a PGN file. Throws an Error describing the first problem found.
+export function parsePgn(text: string): PgnGame[] {
+  const tokens = tokenize(text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n'));
+  const games: PgnGame[] = [];
+
+  let tags: Record<string, string> = {};
+  let movetext: PgnToken[] = [];
+  let depth = 0;
+
+  const flush = (resultToken: PgnResult | null) => {
+    if (Object.keys(tags).length === 0 && movetext.length === 0 && resultToken === null) return;
+    games.push(buildGame(tags, movetext, resultToken, games.length + 1));
+    tags = {};
+    movetext = [];
+    depth = 0;
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'tag') {
+      // A tag after movetext means the previous game had no termination marker.
+      if (movetext.length > 0) flush(null);
+      tags[token.name] = token.value;
+      continue;
+    }
+    if (token.type === 'result' && depth === 0) {
+      flush(token.value);
+      continue;
+    }
+    if (token.type === 'open') depth++;
+    if (token.type === 'close') depth--;
+    movetext.push(token);
+  }
+  flush(null);
+
+  if (games.length === 0) throw new Error('No games found in PGN.');
+  return games;
+}
+
+export function formatPgnDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function sanitizeComment(comment: string): string {
+  // Braces cannot appear inside a PGN comment.
+  return comment.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function wrapMovetext(tokens: string[]): string {
+  const lines: string[] = [];
+  let current = '';
+  for (const token of tokens) {
+    if (current && current.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(current);
+      current = token;
+    } else {
+      current = current ? `${current} ${token}` : token;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.join('\n');
+}
+
+// Writes a single game with the seven tag roster (plus SetUp/FEN for non-standard starts).
+export function writePgn({ tags = {}, startFen = INITIAL_FEN, moves, result, initialComment }: PgnExportOptions): string {
+  const allTags: Record<string, string> = {
+    Event: '?',
+    Site: '?',
+    Date: '????.??.??',
+    Round: '-',
+    White: '?',
+    Black: '?',
+    ...tags,
+    Result: result,
+  };
+  if (startFen !== INITIAL_FEN) {
+    allTags.SetUp = '1';
+    allTags.FEN = startFen;
+  }
+
+  const orderedNames = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(allTags).filter(name => !(SEVEN_TAG_ROSTER as readonly string[]).includes(name)),
+  ];
+  const tagSection = orderedNames.map(name => `[${name} "${escapeTagValue(allTags[name])}"]`).join('\n');
+
+  const start = fenToBoard(startFen);
+  const movetext = writeMovetext(moves, start.turn, start.fullmove);
+  if (initialComment) movetext.unshift(`{${sanitizeComment(initialComment)}}`);
+  movetext.push(result);
+
+  return `${tagSection}\n\n${wrapMovetext(movetext)}\n`;
+}
+
+// Movetext tokens for a line, recursing into variations: "1. e4 $1 (1. d4 d5) 1... e5". NAGs are always
+// written in their numeric form, so "!" reads back as $1.
+function writeMovetext(moves: PgnExportMove[], startTurn: PieceColor, startMoveNumber: number): string[] {
+  let turn = startTurn;
+  let moveNumber = startMoveNumber;
+  const movetext: string[] = [];
+  let needsNumber = true;
+  for (const move of moves) {
+    if (move.commentBefore) {
+      movetext.push(`{${sanitizeComment(move.commentBefore)}}`);
+      needsNumber = true;
+    }
+    if (turn === 'w') movetext.push(`${moveNumber}.`);
+    else if (needsNumber) movetext.push(`${moveNumber}...`);
+    movetext.push(move.san);
+    movetext.push(...(move.nags ?? []).map(nag => `$${nag}`));
+    needsNumber = false;
+    if (move.comment) {
+      movetext.push(`{${sanitizeComment(move.comment)}}`);
+      needsNumber = true; // Black's move after a comment is re-numbered, e.g. "1. e4 {…} 1... e5"
+    }
+    for (const variation of move.variations ?? []) {
+      if (variation.length === 0) continue;
+      const variationText = writeMovetext(variation, turn, moveNumber);
+      variationText[0] = `(${variationText[0]}`;
+      variationText[variationText.length - 1] += ')';
+      movetext.push(...variationText);
+      needsNumber = true;
+    }
+    if (turn === 'b') moveNumber++;
+    turn = turn === 'w' ? 'b' : 'w';
+  }
+  return movetext;
+}
+
+export function getPgnResult(isGameOver: boolean, winner: PieceColor | null): PgnResult {
+  if (!isGameOver) return '*';
+  if (winner === 'w') return '1-0';
+  if (winner === 'b') return '0-1';
+  return '1/2-1/2';
+}
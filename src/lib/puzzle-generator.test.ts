@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_FEN } from '@/lib/chess-logic';
+import type { ReviewedMove } from '@/lib/game-review';
+import { generateGamePuzzles, getPlayerColors, isMissedTacticCandidate } from '@/lib/puzzle-generator';
+import { getPuzzleLine } from '@/lib/puzzles';
+
+// Only the fields the generator reads from a library game.
+function libraryGame(id: string, pgn: string) {
+  return { id, pgn, mode: 'vs-ai' as const, playerColor: 'w' as const };
+}
+
+function reviewedMove(overrides: Partial<ReviewedMove>): ReviewedMove {
+  return {
+    ply: 4,
+    san: 'a3',
+    color: 'w',
+    fenBefore: INITIAL_FEN,
+    fenAfter: INITIAL_FEN,
+    bestMove: 'Nxg5',
+    bestLine: ['Nxg5'],
+    playedBestMove: false,
+    evalBefore: { cp: 900, mate: null },
+    evalAfter: { cp: 100, mate: null },
+    centipawnLoss: 800,
+    classification: 'blunder',
+    accuracy: 10,
+    isMissedWin: true,
+    ...overrides,
+  };
+}
+
+describe('isMissedTacticCandidate', () => {
+  it('takes moves that threw away most of a clear advantage, from either side', () => {
+    expect(isMissedTacticCandidate(reviewedMove({}))).toBe(true);
+    expect(isMissedTacticCandidate(reviewedMove({ color: 'b', evalBefore: { cp: -900, mate: null }, evalAfter: { cp: -100, mate: null } }))).toBe(true);
+  });
+
+  it('skips the best move, small advantages, small drops and the first move of the game', () => {
+    expect(isMissedTacticCandidate(reviewedMove({ playedBestMove: true }))).toBe(false);
+    expect(isMissedTacticCandidate(reviewedMove({ evalBefore: { cp: 150, mate: null }, evalAfter: { cp: -300, mate: null } }))).toBe(false);
+    expect(isMissedTacticCandidate(reviewedMove({ evalBefore: { cp: 900, mate: null }, evalAfter: { cp: 700, mate: null } }))).toBe(false);
+    expect(isMissedTacticCandidate(reviewedMove({ color: 'b' }))).toBe(false);
+    expect(isMissedTacticCandidate(reviewedMove({ ply: 0 }))).toBe(false);
+  });
+});
+
+describe('generateGamePuzzles', () => {
+  it('turns a missed mate into a puzzle set up by the opponent\'s move', async () => {
+    const game = libraryGame('scholar', '1. e4 e5 2. Bc4 Nc6 3. Qh5 Nf6 4. d3 Nxh5 *');
+    const [puzzle, ...rest] = (await generateGamePuzzles(game))!;
+    expect(rest).toHaveLength(0);
+    expect(puzzle).toMatchObject({ id: 'game-scholar-6', moves: ['g8f6', 'h5f7'], source: 'game', gameId: 'scholar', playedMove: 'd3' });
+    expect(puzzle.themes).toEqual(expect.arrayContaining(['mate', 'mateIn1', 'opening']));
+    expect(getPuzzleLine(puzzle).map(move => move.san)).toEqual(['Nf6', 'Qxf7#']);
+  });
+
+  it('finds a missed free piece, only in the player\'s own moves', async () => {
+    const pgn = '1. e4 e5 2. Nf3 Qh4 3. d3 Qxe4+ *';
+    const [puzzle] = (await generateGamePuzzles(libraryGame('queen', pgn)))!;
+    expect(puzzle.moves).toEqual(['d8h4', 'f3h4']);
+    expect(puzzle.themes).toEqual(expect.arrayContaining(['crushing', 'hangingPiece']));
+    expect(await generateGamePuzzles({ ...libraryGame('queen', pgn), playerColor: 'b' })).toEqual([]);
+    expect(getPlayerColors({ mode: 'spectate', playerColor: null })).toEqual([]);
+  });
+
+  it('rejects a missed win when another move wins just as well', async () => {
+    // Only the knight can take the queen on g5 ...
+    const [puzzle] = (await generateGamePuzzles(libraryGame('knight', '1. e4 e5 2. Nf3 Qg5 3. a3 *')))!;
+    expect(puzzle.moves).toEqual(['d8g5', 'f3g5']);
+    // ... but after 1. d4 the bishop can too, so there is no single solution to find.
+    expect(await generateGamePuzzles(libraryGame('either', '1. d4 e5 2. Nf3 Qg5 3. a3 *'))).toEqual([]);
+  });
+});
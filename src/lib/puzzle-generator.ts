@@ -0,0 +1,178 @@
+// Personal puzzles from the player's own games. A reviewed move becomes a puzzle when it threw away a
+// clear advantage that only one move kept: the engine's move wins, and its best alternative does not.
+// Like the bundled set, each puzzle starts on the opponent's previous move.
+
+import type { PieceColor } from '@/types/chess';
+import { fenToBoard, getPieceAtSquare, isCheckmateOrStalemate, parseSan } from '@/lib/chess-logic';
+import { searchBestMove, type EngineMove, type SearchResult } from '@/lib/chess-engine';
+import { findHangingPieces, type AnalysisOptions } from '@/lib/move-analysis';
+import { getWinPercent, reviewGame, type GameReview, type GameReviewOptions, type ReviewedMove } from '@/lib/game-review';
+import { parsePgn } from '@/lib/pgn';
+import type { LibraryGame } from '@/lib/game-library';
+import { getPuzzleLine, playPuzzleMove, type Puzzle } from '@/lib/puzzles';
+
+const MIN_ADVANTAGE_CP = 200; // The solution has to leave the player at least two pawns up
+const MIN_WIN_DROP = 20; // Winning chances (percentage points) the played move must have thrown away
+const ONLY_MOVE_WIN_GAP = 20; // How much worse, in winning chances, the best alternative must be
+const CRUSHING_CP = 600;
+const MAX_SOLUTION_MOVES = 3; // Player moves; longer mates are skipped, longer wins are cut short
+const ENDGAME_MAX_PIECES = 6; // Queens, rooks and minor pieces left on the board, both sides together
+const OPENING_MAX_FULLMOVE = 10;
+
+// Each candidate gets a couple of searches on top of the review, so they can afford more time.
+const DEFAULT_SEARCH_DEPTH = 5;
+const DEFAULT_SEARCH_TIME_MS = 800;
+
+const LENGTH_THEMES = ['oneMove', 'short', 'long'];
+
+function toUci(move: EngineMove): string {
+  return `${move.from}${move.to}${move.promotion ?? ''}`;
+}
+
+function isCheckmate(fen: string): boolean {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  return isCheckmateOrStalemate(board, turn, castling, enPassant) === 'checkmate';
+}
+
+// The sides whose moves count as the player's: one side against the engine, both in hot-seat games.
+export function getPlayerColors(game: Pick<LibraryGame, 'mode' | 'playerColor'>): PieceColor[] {
+  if (game.mode === 'hot-seat') return ['w', 'b'];
+  if (game.mode === 'vs-ai' && game.playerColor) return [game.playerColor];
+  return [];
+}
+
+// A move that lost a big share of a winning position, with a move before it to set the puzzle up.
+export function isMissedTacticCandidate(move: ReviewedMove): boolean {
+  if (move.ply === 0 || move.playedBestMove || !move.bestMove) return false;
+  const sign = move.color === 'w' ? 1 : -1;
+  const before = sign * move.evalBefore.cp;
+  return before >= MIN_ADVANTAGE_CP && getWinPercent(before) - getWinPercent(sign * move.evalAfter.cp) >= MIN_WIN_DROP;
+}
+
+// The engine's search of `fen` when its best move wins and is the only move that does; null otherwise,
+// including when the move is forced.
+function searchOnlyMove(fen: string, options: AnalysisOptions): SearchResult | null {
+  const { board, turn, castling, enPassant } = fenToBoard(fen);
+  const position = { board, turn, castlingRights: castling, enPassantTarget: enPassant };
+  const searchOptions = {
+    maxDepth: options.maxDepth ?? DEFAULT_SEARCH_DEPTH,
+    timeLimitMs: options.timeLimitMs ?? DEFAULT_SEARCH_TIME_MS,
+  };
+  const best = searchBestMove(position, searchOptions);
+  if (!best.bestMove || best.score < MIN_ADVANTAGE_CP) return null;
+  const alternative = searchBestMove(position, { ...searchOptions, excludedMoves: [best.bestMove] });
+  if (!alternative.bestMove) return null;
+  if (best.mateIn !== null && best.mateIn > 0) return alternative.mateIn !== null && alternative.mateIn > 0 ? null : best;
+  return getWinPercent(best.score) - getWinPercent(alternative.score) >= ONLY_MOVE_WIN_GAP ? best : null;
+}
+
+interface Solution {
+  moves: EngineMove[]; // Player and opponent moves, ending on the player's move
+  isMate: boolean;
+  finalScore: number; // Engine score of the last position the player moved in, from the player's side
+}
+
+// Follows the engine line from `fen` while every player move is the only good one: to mate, or
+// through the captures that cash in the advantage.
+function findSolution(fen: string, options: AnalysisOptions): Solution | null {
+  let search = searchOnlyMove(fen, options);
+  if (!search) return null;
+  const isMateLine = search.mateIn !== null && search.mateIn > 0;
+  if (isMateLine && search.mateIn! > MAX_SOLUTION_MOVES) return null;
+
+  const moves: EngineMove[] = [];
+  let currentFen = fen;
+  for (let playerMoves = 1; ; playerMoves++) {
+    const [move, reply, next] = search.pv;
+    moves.push(move);
+    currentFen = playPuzzleMove(currentFen, move).fenAfter;
+    if (isCheckmate(currentFen)) return { moves, isMate: true, finalScore: search.score };
+    if (playerMoves === MAX_SOLUTION_MOVES || !reply || !next) break;
+
+    const fenAfterReply = playPuzzleMove(currentFen, reply).fenAfter;
+    if (!isMateLine && !getPieceAtSquare(fenToBoard(fenAfterReply).board, next.to)) break;
+    const nextSearch = searchOnlyMove(fenAfterReply, options);
+    if (!nextSearch) break;
+    moves.push(reply);
+    currentFen = fenAfterReply;
+    search = nextSearch;
+  }
+  // A mate line that stops short of mate would teach the wrong thing.
+  return isMateLine ? null : { moves, isMate: false, finalScore: search.score };
+}
+
+function countPieces(fen: string): number {
+  return fenToBoard(fen).board.flat().filter(piece => piece && piece.symbol !== 'p' && piece.symbol !== 'k').length;
+}
+
+function describeSolution(fen: string, solution: Solution): { themes: string[]; rating: number } {
+  const playerMoves = Math.ceil(solution.moves.length / 2);
+  const themes = solution.isMate
+    ? ['mate', `mateIn${playerMoves}`]
+    : [solution.finalScore >= CRUSHING_CP ? 'crushing' : 'advantage'];
+  themes.push(LENGTH_THEMES[playerMoves - 1]);
+
+  const [first] = solution.moves;
+  const { board, turn } = fenToBoard(fen);
+  const winsHangingPiece = !solution.isMate &&
+    findHangingPieces(board).some(hanging => hanging.square === first.to && hanging.piece.color !== turn);
+  if (winsHangingPiece) themes.push('hangingPiece');
+
+  if (countPieces(fen) <= ENDGAME_MAX_PIECES) themes.push('endgame');
+  else themes.push(fenToBoard(fen).fullmove <= OPENING_MAX_FULLMOVE ? 'opening' : 'middlegame');
+
+  // A rough difficulty: every extra move makes a line harder to see, mates and loose pieces are easier.
+  let rating = 1000 + 300 * (playerMoves - 1);
+  if (!solution.isMate) rating += 200;
+  if (winsHangingPiece) rating -= 300;
+  return { themes, rating };
+}
+
+// Puzzles from the moves `colors` played in a reviewed game. Each candidate costs a few engine
+// searches, so this yields to the browser between them. Resolves to null when cancelled.
+export async function findMissedTactics(
+  review: GameReview,
+  gameId: string,
+  colors: PieceColor[],
+  options: GameReviewOptions = {}
+): Promise<Puzzle[] | null> {
+  const puzzles: Puzzle[] = [];
+  const candidates = review.moves.filter(move => colors.includes(move.color) && isMissedTacticCandidate(move));
+  for (const move of candidates) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (options.isCancelled?.()) return null;
+    const solution = findSolution(move.fenBefore, options);
+    if (!solution) continue;
+
+    const setup = review.moves[move.ply - 1];
+    const before = fenToBoard(setup.fenBefore);
+    const setupMove = parseSan(before.board, before.turn, before.castling, before.enPassant, setup.san);
+    const puzzle: Puzzle = {
+      id: `game-${gameId}-${move.ply}`,
+      fen: setup.fenBefore,
+      moves: [toUci(setupMove), ...solution.moves.map(toUci)],
+      source: 'game',
+      gameId,
+      playedMove: move.san,
+      ...describeSolution(move.fenBefore, solution),
+    };
+    getPuzzleLine(puzzle);
+    puzzles.push(puzzle);
+  }
+  return puzzles;
+}
+
+// Reviews a library game and returns the puzzles found in the player's moves; null when cancelled.
+// Throws if the game's PGN cannot be read.
+export async function generateGamePuzzles(
+  game: Pick<LibraryGame, 'id' | 'mode' | 'playerColor' | 'pgn'>,
+  options: GameReviewOptions = {}
+): Promise<Puzzle[] | null> {
+  const colors = getPlayerColors(game);
+  const [parsed] = parsePgn(game.pgn);
+  if (colors.length === 0 || !parsed || parsed.moves.length < 2) return [];
+  const fens = [parsed.startFen, ...parsed.moves.map(move => move.fenAfter)];
+  const review = await reviewGame(fens, parsed.moves.map(move => move.san), options);
+  if (!review) return null;
+  return findMissedTactics(review, game.id, colors, options);
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { fenToBoard, isCheckmateOrStalemate } from '@/lib/chess-logic';
+import {
+  createPuzzleProgress,
+  formatPuzzleTheme,
+  getBundledPuzzles,
+  getMistakeQueue,
+  getPuzzleLine,
+  isPuzzleMoveCorrect,
+  parsePuzzleCsv,
+  pickNextPuzzle,
+  recordPuzzleResult,
+  type Puzzle,
+} from '@/lib/puzzles';
+
+describe('puzzles', () => {
+  it('bundles legal puzzles whose mate themes end in mate', () => {
+    const puzzles = getBundledPuzzles();
+    expect(puzzles.length).toBeGreaterThanOrEqual(15);
+    for (const puzzle of puzzles) {
+      const line = getPuzzleLine(puzzle);
+      if (puzzle.themes.includes('mate')) {
+        const { board, turn, castling, enPassant } = fenToBoard(line[line.length - 1].fenAfter);
+        expect(isCheckmateOrStalemate(board, turn, castling, enPassant), puzzle.id).toBe('checkmate');
+      }
+    }
+  });
+
+  it('reads the Lichess CSV layout without a header and reports unusable rows', () => {
+    const csv = [
+      '00sHx,q3k1nr/1pp1nQpp/3p4/1P2p3/4P3/B1PP1b2/B5PP/5K2 b k - 0 17,e8d7 a2e6 d7d8 f7f8,1760,80,83,72,mate mateIn2 middlegame short,https://lichess.org/yyznGmXs/black#34,Italian_Game',
+      'bad01,8/8/8/8/8/8/8/K6k w - - 0 1,a1a2,900,80,0,0,endgame,,',
+      'bad02,8/8/8/8/8/8/8/K6k w - - 0 1,a1a3 h1h2,900,80,0,0,endgame,,',
+    ].join('\n');
+    const { puzzles, skipped } = parsePuzzleCsv(csv);
+    expect(puzzles).toHaveLength(1);
+    expect(puzzles[0]).toMatchObject({ id: '00sHx', rating: 1760, themes: ['mate', 'mateIn2', 'middlegame', 'short'], source: 'imported' });
+    expect(puzzles[0].gameUrl).toContain('lichess.org');
+    expect(skipped.map(row => row.line)).toEqual([2, 3]);
+  });
+
+  it('accepts the solution, or any mate on the last move', () => {
+    const [puzzle] = parsePuzzleCsv('PuzzleId,FEN,Moves,Rating\nm1,6k1/8/6K1/8/8/8/8/RR6 b - - 0 1,g8h8 a1a8').puzzles;
+    const line = getPuzzleLine(puzzle);
+    expect(line[1].san).toBe('Ra8#');
+    expect(isPuzzleMoveCorrect(line, 1, { from: 'a1', to: 'a8' })).toBe(true);
+    expect(isPuzzleMoveCorrect(line, 1, { from: 'b1', to: 'b8' })).toBe(true);
+    expect(isPuzzleMoveCorrect(line, 1, { from: 'a1', to: 'a7' })).toBe(false);
+  });
+
+  it('rates only the first attempt and moves faster for big upsets', () => {
+    const puzzle: Puzzle = { id: 'p', fen: '', moves: [], rating: 1600, themes: [], source: 'bundled' };
+    const solved = recordPuzzleResult(createPuzzleProgress(), puzzle, true, 0);
+    const failed = recordPuzzleResult(createPuzzleProgress(), puzzle, false, 0);
+    expect(solved.ratingChange).toBeGreaterThan(30);
+    expect(failed.ratingChange).toBeLessThan(0);
+    expect(failed.ratingChange).toBeGreaterThan(-10);
+    expect(recordPuzzleResult(solved.progress, puzzle, false, 1)).toEqual({ progress: solved.progress, ratingChange: 0 });
+  });
+
+  it('picks untried puzzles near the player rating, optionally by theme', () => {
+    const puzzles = getBundledPuzzles();
+    const progress = { ...createPuzzleProgress(), rating: 1500 };
+    const next = pickNextPuzzle(puzzles, progress, { random: () => 0 })!;
+    expect(Math.abs(next.rating - 1500)).toBeLessThanOrEqual(100);
+    expect(pickNextPuzzle(puzzles, progress, { theme: 'skewer', random: () => 0 })!.themes).toContain('skewer');
+    expect(pickNextPuzzle(puzzles, progress, { theme: 'nonexistent' })).toBeNull();
+    expect(formatPuzzleTheme('backRankMate')).toBe('Back rank mate');
+    expect(formatPuzzleTheme('mateIn2')).toBe('Mate in 2');
+  });
+
+  it('keeps puzzles from the player\'s games queued until solved cleanly', () => {
+    const puzzle: Puzzle = { id: 'game-1-6', fen: '', moves: [], rating: 1000, themes: [], source: 'game', gameId: '1' };
+    const puzzles = [...getBundledPuzzles(), puzzle];
+    const failed = recordPuzzleResult(createPuzzleProgress(), puzzle, false, 0).progress;
+    expect(getMistakeQueue(puzzles, failed)).toEqual([puzzle]);
+    const retried = recordPuzzleResult(failed, puzzle, true, 1);
+    expect(retried.ratingChange).toBe(0);
+    expect(getMistakeQueue(puzzles, retried.progress)).toEqual([]);
+  });
+});
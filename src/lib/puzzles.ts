@@ -0,0 +1,328 @@
+// Tactics puzzles in the column layout of the public Lichess puzzle database: the FEN is the position
+// before the opponent's move, and the first move of the line is that move; the player answers every
+// other move from there. A small set is bundled; imported sets and puzzles generated from the player's
+// own games live in IndexedDB.
+
+import type { PieceSymbol, Square } from '@/types/chess';
+import { boardToFen, fenToBoard, getLegalMoves, getPieceAtSquare, isCheckmateOrStalemate, makeMove, moveToSan } from '@/lib/chess-logic';
+import { runTransaction, type IndexedDbConfig } from '@/lib/indexed-db';
+
+export interface Puzzle {
+  id: string;
+  fen: string; // Position before the opponent's move that sets the puzzle
+  moves: string[]; // UCI; the opponent's setup move, then the solution with the opponent's replies
+  rating: number;
+  themes: string[];
+  source: 'bundled' | 'imported' | 'game';
+  gameUrl?: string;
+  gameId?: string; // Library game a 'game' puzzle was found in
+  playedMove?: string; // SAN of the move actually played there instead of the solution
+}
+
+export interface PuzzleLineMove {
+  from: Square;
+  to: Square;
+  promotion?: PieceSymbol;
+  san: string;
+  fenBefore: string;
+  fenAfter: string;
+}
+
+export interface PuzzleAttempt {
+  solved: boolean;
+  ratingChange: number;
+  at: number;
+}
+
+export interface PuzzleProgress {
+  rating: number;
+  attempts: Record<string, PuzzleAttempt>; // First attempt at each puzzle, the rated one
+  solvedAt: Record<string, number>; // Latest solve without a mistake, retries included
+}
+
+export interface PuzzleCsvResult {
+  puzzles: Puzzle[];
+  skipped: { line: number; reason: string }[];
+}
+
+export const PUZZLE_START_RATING = 1200;
+const PROVISIONAL_ATTEMPTS = 20; // Ratings move faster until this many puzzles are rated
+const PROVISIONAL_K = 40;
+const K = 20;
+
+// Columns of the Lichess puzzle database, used when a file has no header row.
+const LICHESS_COLUMNS = ['PuzzleId', 'FEN', 'Moves', 'Rating', 'RatingDeviation', 'Popularity', 'NbPlays', 'Themes', 'GameUrl', 'OpeningTags'];
+
+const BUNDLED_PUZZLE_CSV = `
+PuzzleId,FEN,Moves,Rating,Themes
+cm001,rnbqkbnr/pppp1ppp/8/4p3/8/5P2/PPPPP1PP/RNBQKBNR w KQkq - 0 2,g2g4 d8h4,400,mate mateIn1 oneMove opening
+cm002,r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 3 3,g8f6 h5f7,450,mate mateIn1 oneMove opening
+cm003,6k1/8/6K1/8/8/8/8/R7 b - - 0 1,g8h8 a1a8,500,mate mateIn1 oneMove endgame backRankMate
+cm004,1r4k1/5ppp/8/8/8/8/5PPP/3R2K1 b - - 0 1,b8b2 d1d8,600,mate mateIn1 oneMove endgame backRankMate
+cm005,6rk/3q2pp/8/6N1/8/8/5PPP/6K1 b - - 0 1,d7d2 g5f7,800,mate mateIn1 oneMove smotheredMate
+cm006,3r4/8/8/8/4k3/8/5PK1/7R b - - 0 1,e4d4 h1d1 d4c5 d1d8,850,skewer endgame rookEndgame short
+cm007,7k/1R2b3/5N2/8/8/P7/2r2PPP/6K1 b - - 0 1,e7a3 b7h7,900,mate mateIn1 oneMove arabianMate endgame
+cm008,5rk1/pp3ppp/q7/3N4/8/8/PP3PPP/3Q1RK1 b - - 0 1,a6c6 d5e7 g8h8 e7c6,1000,fork middlegame short
+cm009,r1bqkbnr/pp3ppp/2n5/1N2p3/4P3/8/PPPP1PPP/R1BQKB1R b KQkq - 0 1,d8g5 b5c7 e8d8 c7a8,1100,fork opening short
+cm010,r1bqkb1r/pppp1ppp/2n2n2/8/3PP3/2N5/PPP2PPP/R1BQKBNR b KQkq - 0 1,f8d6 e4e5,1100,fork opening oneMove
+cm011,r1b1k2r/ppp2ppp/1q6/4pn2/8/8/PP3PPP/RNBQKB1R b KQkq - 0 1,f5h4 d1a4 c8d7 a4h4,1200,fork hangingPiece short
+cm012,3qr1k1/pp3ppp/3n4/8/8/8/PP2RPPP/4Q1K1 b - - 0 1,d6c4 e2e8 d8e8 e1e8,1300,mate mateIn2 backRankMate middlegame short
+cm013,r1bqk2r/ppp2ppp/2np4/8/8/2N5/PPP2PPP/R1BQR1K1 b kq - 0 1,c6e5 f2f4,1300,pin opening oneMove
+cm014,3r2k1/ppq2ppp/4n3/8/8/4Q3/PP1R1PPP/3R2K1 b - - 0 1,e6g5 d2d8 c7d8 d1d8,1400,mate mateIn2 backRankMate middlegame short
+cm015,rnbqk1nr/ppp1bppp/8/3pN3/8/8/PPP2PPP/RNBQR1K1 b kq - 0 1,e7c5 e5c6 c8e6 c6d8,1400,discoveredAttack opening short
+cm016,4r1k1/pp4pp/7N/q7/2Q5/8/PP3PPP/6K1 b - - 0 1,g8h8 c4g8 e8g8 h6f7,1500,mate mateIn2 smotheredMate attraction short
+cm017,r1b1kbnr/pppp1Npp/8/8/2BnP3/8/PPPP1PqP/RNBQK2R w KQkq - 0 6,h1f1 g2e4 c4e2 d4f3,1600,mate mateIn2 opening short
+cm018,r1bqkb1r/pppn1ppp/5n2/3p2B1/3P4/2N5/PP2PPPP/R2QKBNR w KQkq - 0 6,c3d5 f6d5 g5d8 f8b4 d1d2 e8d8,1700,opening trappedPiece long
+cm019,R7/P5k1/8/8/8/6K1/r7/8 b - - 0 1,g7f7 a8h8 a2a7 h8h7 f7e6 h7a7,1800,skewer endgame rookEndgame long
+`;
+
+let bundledPuzzles: Puzzle[] | null = null;
+
+// "e7e8q" → squares. Throws on anything else.
+export function parseUciMove(uci: string): { from: Square; to: Square; promotion?: PieceSymbol } {
+  const match = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/.exec(uci);
+  if (!match) throw new Error(`"${uci}" is not a UCI move`);
+  return { from: match[1] as Square, to: match[2] as Square, promotion: match[3] as PieceSymbol | undefined };
+}
+
+// Plays one move from `fen`, e.g. a player's attempt that left the solution. Throws if it is not legal.
+export function playPuzzleMove(fen: string, move: { from: Square; to: Square; promotion?: PieceSymbol }): PuzzleLineMove {
+  const { board, turn, castling, enPassant, halfmove, fullmove } = fenToBoard(fen);
+  const piece = getPieceAtSquare(board, move.from);
+  if (piece?.color !== turn || !getLegalMoves(board, move.from, turn, castling, enPassant).includes(move.to)) {
+    throw new Error(`${move.from}${move.to} is not legal in ${fen}`);
+  }
+  const san = moveToSan(board, turn, castling, enPassant, move);
+  const result = makeMove(board, move.from, move.to, castling, enPassant, move.promotion);
+  const isReset = result.capturedPiece !== null || piece.symbol === 'p';
+  return {
+    ...move,
+    san,
+    fenBefore: fen,
+    fenAfter: boardToFen(
+      result.newBoard, turn === 'w' ? 'b' : 'w', result.updatedCastlingRights, result.updatedEnPassantTarget,
+      isReset ? 0 : halfmove + 1, turn === 'b' ? fullmove + 1 : fullmove
+    ),
+  };
+}
+
+// Every move of the puzzle with the positions around it. Throws if a move is not legal.
+export function getPuzzleLine(puzzle: Puzzle): PuzzleLineMove[] {
+  let fen = puzzle.fen;
+  return puzzle.moves.map(uci => {
+    const lineMove = playPuzzleMove(fen, parseUciMove(uci));
+    fen = lineMove.fenAfter;
+    return lineMove;
+  });
+}
+
+// Whether `move` solves step `index` of the line (an odd index: the player's moves). Any mate is
+// accepted on the last move, as there is often more than one.
+export function isPuzzleMoveCorrect(line: PuzzleLineMove[], index: number, move: { from: Square; to: Square; promotion?: PieceSymbol }): boolean {
+  const expected = line[index];
+  if (!expected) return false;
+  if (expected.from === move.from && expected.to === move.to && expected.promotion === move.promotion) return true;
+  if (index !== line.length - 1) return false;
+  try {
+    const { board, turn, castling, enPassant } = fenToBoard(playPuzzleMove(expected.fenBefore, move).fenAfter);
+    return isCheckmateOrStalemate(board, turn, castling, enPassant) === 'checkmate';
+  } catch {
+    return false;
+  }
+}
+
+// Splits one CSV line, allowing double-quoted fields.
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+// Reads puzzles in the Lichess CSV layout, with or without its header row. Rows that cannot be used
+// (missing columns, illegal moves, a line not ending on the player's move) are skipped and reported.
+export function parsePuzzleCsv(text: string, source: Puzzle['source'] = 'imported'): PuzzleCsvResult {
+  const result: PuzzleCsvResult = { puzzles: [], skipped: [] };
+  let columns = LICHESS_COLUMNS;
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    if (!rawLine.trim()) return;
+    const fields = splitCsvLine(rawLine);
+    if (fields[0] === 'PuzzleId') {
+      columns = fields;
+      return;
+    }
+    const row = Object.fromEntries(columns.map((column, i) => [column, fields[i] ?? '']));
+    try {
+      if (!row.PuzzleId || !row.FEN || !row.Moves) throw new Error('PuzzleId, FEN and Moves are required');
+      const moves = row.Moves.split(/\s+/);
+      if (moves.length < 2 || moves.length % 2 !== 0) throw new Error('the line must end on the player\'s move');
+      const rating = Number(row.Rating);
+      const puzzle: Puzzle = {
+        id: row.PuzzleId,
+        fen: row.FEN,
+        moves,
+        rating: Number.isFinite(rating) && rating > 0 ? Math.round(rating) : PUZZLE_START_RATING,
+        themes: row.Themes ? row.Themes.split(/\s+/).filter(Boolean) : [],
+        source,
+      };
+      if (row.GameUrl) puzzle.gameUrl = row.GameUrl;
+      getPuzzleLine(puzzle);
+      result.puzzles.push(puzzle);
+    } catch (error) {
+      result.skipped.push({ line: index + 1, reason: (error as Error).message });
+    }
+  });
+  return result;
+}
+
+export function getBundledPuzzles(): Puzzle[] {
+  if (!bundledPuzzles) {
+    const { puzzles, skipped } = parsePuzzleCsv(BUNDLED_PUZZLE_CSV, 'bundled');
+    if (skipped.length > 0) throw new Error(`Bundled puzzle on line ${skipped[0].line} is invalid: ${skipped[0].reason}`);
+    bundledPuzzles = puzzles;
+  }
+  return bundledPuzzles;
+}
+
+// Themes in use, most common first.
+export function getPuzzleThemes(puzzles: Puzzle[]): string[] {
+  const counts = new Map<string, number>();
+  puzzles.forEach(puzzle => puzzle.themes.forEach(theme => counts.set(theme, (counts.get(theme) ?? 0) + 1)));
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+}
+
+const THEME_LABELS: Record<string, string> = {
+  mateIn1: 'Mate in 1',
+  mateIn2: 'Mate in 2',
+  mateIn3: 'Mate in 3',
+  oneMove: 'One move',
+  short: 'Short puzzle',
+  long: 'Long puzzle',
+};
+
+// "backRankMate" → "Back rank mate".
+export function formatPuzzleTheme(theme: string): string {
+  if (THEME_LABELS[theme]) return THEME_LABELS[theme];
+  const words = theme.replace(/([a-z])([A-Z0-9])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// A puzzle near the player's rating, preferring ones not tried yet; `random` picks among the closest few.
+export function pickNextPuzzle(
+  puzzles: Puzzle[],
+  progress: PuzzleProgress,
+  options: { theme?: string; excludeId?: string; random?: () => number } = {}
+): Puzzle | null {
+  const { theme, excludeId, random = Math.random } = options;
+  const candidates = puzzles.filter(puzzle => puzzle.id !== excludeId && (!theme || puzzle.themes.includes(theme)));
+  const untried = candidates.filter(puzzle => !progress.attempts[puzzle.id]);
+  const pool = (untried.length > 0 ? untried : candidates)
+    .slice()
+    .sort((a, b) => Math.abs(a.rating - progress.rating) - Math.abs(b.rating - progress.rating))
+    .slice(0, 3);
+  if (pool.length === 0) return null;
+  return pool[Math.min(pool.length - 1, Math.floor(random() * pool.length))];
+}
+
+export function createPuzzleProgress(): PuzzleProgress {
+  return { rating: PUZZLE_START_RATING, attempts: {}, solvedAt: {} };
+}
+
+// Elo update for the first attempt at a puzzle; later attempts leave the rating alone, though a clean
+// solve is still recorded so the puzzle can leave the mistakes queue.
+export function recordPuzzleResult(progress: PuzzleProgress, puzzle: Puzzle, solved: boolean, now: number = Date.now()): { progress: PuzzleProgress; ratingChange: number } {
+  const solvedAt = solved ? { ...progress.solvedAt, [puzzle.id]: now } : progress.solvedAt;
+  if (progress.attempts[puzzle.id]) return { progress: solved ? { ...progress, solvedAt } : progress, ratingChange: 0 };
+  const expected = 1 / (1 + 10 ** ((puzzle.rating - progress.rating) / 400));
+  const k = Object.keys(progress.attempts).length < PROVISIONAL_ATTEMPTS ? PROVISIONAL_K : K;
+  const ratingChange = Math.round(k * ((solved ? 1 : 0) - expected));
+  return {
+    progress: {
+      rating: progress.rating + ratingChange,
+      attempts: { ...progress.attempts, [puzzle.id]: { solved, ratingChange, at: now } },
+      solvedAt,
+    },
+    ratingChange,
+  };
+}
+
+// "Learn from your mistakes": puzzles from the player's own games that have not been solved cleanly yet.
+export function getMistakeQueue(puzzles: Puzzle[], progress: PuzzleProgress): Puzzle[] {
+  return puzzles.filter(puzzle => puzzle.source === 'game' && !progress.solvedAt[puzzle.id]);
+}
+
+const DB_NAME = 'chessMasteryPuzzles';
+const DB_VERSION = 2;
+const PUZZLE_STORE = 'puzzles';
+const SCANNED_GAME_STORE = 'scannedGames'; // Library games already searched for puzzles, by id
+
+const PUZZLE_DB: IndexedDbConfig = {
+  name: DB_NAME,
+  version: DB_VERSION,
+  label: 'puzzle store',
+  upgrade: db => {
+    if (!db.objectStoreNames.contains(PUZZLE_STORE)) db.createObjectStore(PUZZLE_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(SCANNED_GAME_STORE)) db.createObjectStore(SCANNED_GAME_STORE, { keyPath: 'id' });
+  },
+};
+
+// Puzzles already stored under the same id are replaced.
+export async function savePuzzles(puzzles: Puzzle[]): Promise<void> {
+  if (puzzles.length === 0) return;
+  await runTransaction(PUZZLE_DB, [PUZZLE_STORE], 'readwrite', transaction => {
+    const store = transaction.objectStore(PUZZLE_STORE);
+    puzzles.forEach(puzzle => store.put(puzzle));
+  });
+}
+
+// Imported and generated puzzles; the bundled set is not stored.
+export async function listSavedPuzzles(): Promise<Puzzle[]> {
+  return (await runTransaction<Puzzle[]>(PUZZLE_DB, [PUZZLE_STORE], 'readonly', transaction => transaction.objectStore(PUZZLE_STORE).getAll())) ?? [];
+}
+
+// Removing the generated puzzles also forgets which games were scanned, so they can be found again.
+export async function clearSavedPuzzles(source: 'imported' | 'game'): Promise<void> {
+  const storeNames = source === 'game' ? [PUZZLE_STORE, SCANNED_GAME_STORE] : [PUZZLE_STORE];
+  await runTransaction(PUZZLE_DB, storeNames, 'readwrite', transaction => {
+    const cursorRequest = transaction.objectStore(PUZZLE_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if ((cursor.value as Puzzle).source === source) cursor.delete();
+      cursor.continue();
+    };
+    if (source === 'game') transaction.objectStore(SCANNED_GAME_STORE).clear();
+  });
+}
+
+// Stores the puzzles found in one library game and marks the game as scanned, even when none were found.
+export async function saveGamePuzzles(gameId: string, puzzles: Puzzle[], now: number = Date.now()): Promise<void> {
+  await runTransaction(PUZZLE_DB, [PUZZLE_STORE, SCANNED_GAME_STORE], 'readwrite', transaction => {
+    const store = transaction.objectStore(PUZZLE_STORE);
+    puzzles.forEach(puzzle => store.put(puzzle));
+    transaction.objectStore(SCANNED_GAME_STORE).put({ id: gameId, scannedAt: now, puzzleCount: puzzles.length });
+  });
+}
+
+export async function listScannedGameIds(): Promise<string[]> {
+  const keys = await runTransaction<IDBValidKey[]>(PUZZLE_DB, [SCANNED_GAME_STORE], 'readonly', transaction =>
+    transaction.objectStore(SCANNED_GAME_STORE).getAllKeys()
+  );
+  return (keys ?? []).map(String);
+}
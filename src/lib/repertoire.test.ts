@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { fenToBoard } from '@/lib/chess-logic';
+import { deleteFromNode } from '@/lib/move-tree';
+import {
+  addRepertoireMove,
+  createRepertoire,
+  getRepertoireStats,
+  getTrainingLine,
+  gradeRepertoireMove,
+  importPgnIntoRepertoire,
+  isRepertoireMove,
+  scheduleReview,
+  updateRepertoireTree,
+} from '@/lib/repertoire';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+// A White repertoire: 1. e4 e5 2. Nf3 with 1... c5 2. Nf3 as a variation.
+function buildWhiteRepertoire() {
+  const { repertoire } = importPgnIntoRepertoire(createRepertoire('1. e4', 'w', NOW), '1. e4 e5 (1... c5 {Sicilian} 2. Nf3) 2. Nf3 *', NOW);
+  return repertoire;
+}
+
+function sansOf(repertoire: ReturnType<typeof buildWhiteRepertoire>, nodeIds: string[]) {
+  return nodeIds.map(nodeId => repertoire.tree.nodes[nodeId].san);
+}
+
+describe('repertoire', () => {
+  it('imports PGN lines with their variations, comments and positions, merging repeated moves', () => {
+    const repertoire = buildWhiteRepertoire();
+    const [e4Id] = repertoire.tree.nodes[repertoire.tree.rootId].children;
+    const e4 = repertoire.tree.nodes[e4Id];
+    expect(sansOf(repertoire, e4.children)).toEqual(['e5', 'c5']);
+    expect(repertoire.tree.nodes[e4.children[1]].comment).toBe('Sicilian');
+    expect(e4.data).toMatchObject({ lastMove: { from: 'e2', to: 'e4' } });
+    expect(fenToBoard(e4.data.fen).turn).toBe('b');
+
+    const merged = importPgnIntoRepertoire(repertoire, '1. e4 c5 2. Nf3 d6 3. d4 *', NOW);
+    expect(merged.addedMoves).toBe(2);
+    expect(Object.keys(merged.repertoire.tree.nodes)).toHaveLength(Object.keys(repertoire.tree.nodes).length + 2);
+    expect(() => importPgnIntoRepertoire(repertoire, '[FEN "4k3/8/8/8/8/8/8/4K3 w - - 0 1"]\n\n1. Kd2 *')).toThrow(/initial position/);
+  });
+
+  it('adds moves given as squares or SAN and rejects illegal ones', () => {
+    const repertoire = createRepertoire('Caro-Kann', 'b', NOW);
+    const first = addRepertoireMove(repertoire, repertoire.tree.rootId, { from: 'e2', to: 'e4' }, NOW);
+    const second = addRepertoireMove(first.repertoire, first.nodeId, 'c6', NOW);
+    expect(second.repertoire.tree.nodes[second.nodeId].san).toBe('c6');
+    expect(addRepertoireMove(second.repertoire, first.nodeId, { from: 'c7', to: 'c6' }, NOW).nodeId).toBe(second.nodeId);
+    expect(() => addRepertoireMove(second.repertoire, second.nodeId, 'Ke3', NOW)).toThrow(/Illegal move/);
+    expect(() => addRepertoireMove(second.repertoire, second.nodeId, { from: 'e4', to: 'e6' }, NOW)).toThrow(/Illegal move/);
+
+    expect(isRepertoireMove(second.repertoire, first.nodeId)).toBe(false);
+    expect(isRepertoireMove(second.repertoire, second.nodeId)).toBe(true);
+  });
+
+  it('spaces out correct answers and brings misses back soon', () => {
+    const first = scheduleReview(undefined, true, NOW);
+    expect(first).toMatchObject({ intervalDays: 1, repetitions: 1, dueAt: NOW + DAY_MS });
+    const second = scheduleReview(first, true, NOW);
+    const third = scheduleReview(second, true, NOW);
+    expect(second.intervalDays).toBe(3);
+    expect(third.intervalDays).toBe(8);
+
+    const missed = scheduleReview(third, false, NOW);
+    expect(missed).toMatchObject({ repetitions: 0, lapses: 1, intervalDays: 0, ease: 2.3 });
+    expect(missed.dueAt - NOW).toBeLessThan(DAY_MS);
+  });
+
+  it('drills unseen moves shallowest first, then whatever is due', () => {
+    let repertoire = buildWhiteRepertoire();
+    expect(getRepertoireStats(repertoire, NOW)).toEqual({ total: 3, due: 0, unseen: 3, nextDueAt: null });
+
+    const mainLine = getTrainingLine(repertoire, NOW)!;
+    expect(sansOf(repertoire, mainLine)).toEqual(['e4', 'e5', 'Nf3']);
+
+    for (const nodeId of Object.keys(repertoire.tree.nodes).filter(nodeId => isRepertoireMove(repertoire, nodeId))) {
+      repertoire = gradeRepertoireMove(repertoire, nodeId, true, NOW);
+    }
+    expect(getTrainingLine(repertoire, NOW)).toBeNull();
+    expect(getTrainingLine(repertoire, NOW, true)).not.toBeNull();
+
+    const sicilianNf3 = Object.values(repertoire.tree.nodes).find(node => node.san === 'Nf3' && repertoire.tree.nodes[node.parentId!].san === 'c5')!;
+    repertoire = gradeRepertoireMove(repertoire, sicilianNf3.id, false, NOW);
+    const later = NOW + 60 * 60 * 1000;
+    expect(getRepertoireStats(repertoire, later)).toMatchObject({ due: 1, unseen: 0 });
+    expect(sansOf(repertoire, getTrainingLine(repertoire, later)!)).toEqual(['e4', 'c5', 'Nf3']);
+  });
+
+  it('drops the cards of deleted moves', () => {
+    let repertoire = buildWhiteRepertoire();
+    const [e4Id] = repertoire.tree.nodes[repertoire.tree.rootId].children;
+    repertoire = gradeRepertoireMove(repertoire, e4Id, true, NOW);
+    repertoire = updateRepertoireTree(repertoire, deleteFromNode(repertoire.tree, e4Id), NOW);
+    expect(repertoire.cards).toEqual({});
+    expect(getRepertoireStats(repertoire, NOW).total).toBe(0);
+  });
+});
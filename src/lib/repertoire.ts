@@ -0,0 +1,241 @@
+// Opening repertoires: a move tree per repertoire, drilled with spaced repetition. Every move of the
+// repertoire's own side is a card to remember; the opponent's moves only lead into them. Repertoires
+// live in IndexedDB next to the game library.
+
+import type { PieceColor, PieceSymbol, Square } from '@/types/chess';
+import {
+  INITIAL_FEN,
+  boardToFen,
+  fenToBoard,
+  getLegalMoves,
+  getPieceAtSquare,
+  getPositionKey,
+  makeMove,
+  moveToSan,
+  parseSan,
+} from '@/lib/chess-logic';
+import { parsePgn, type PgnMoveNode } from '@/lib/pgn';
+import {
+  addMove,
+  createMoveTree,
+  getLineEnd,
+  getNodePath,
+  setNodeAnnotations,
+  type MoveTree,
+} from '@/lib/move-tree';
+import { runRequest, type IndexedDbConfig } from '@/lib/indexed-db';
+import { createId } from '@/lib/utils';
+
+export interface RepertoirePosition {
+  fen: string; // Position after the move
+  lastMove: { from: Square; to: Square } | null; // Null for the starting position
+}
+
+// Spaced-repetition state of one repertoire move, SM-2 style.
+export interface RepertoireCard {
+  dueAt: number;
+  intervalDays: number;
+  ease: number;
+  repetitions: number; // Correct answers in a row
+  lapses: number;
+}
+
+export interface Repertoire {
+  id: string;
+  name: string;
+  color: PieceColor; // The side the repertoire is played with
+  tree: MoveTree<RepertoirePosition>;
+  cards: Record<string, RepertoireCard>; // Keyed by node id; moves never drilled have no card yet
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RepertoireStats {
+  total: number; // Moves of the repertoire's side
+  due: number; // Drilled before and due again
+  unseen: number; // Never drilled
+  nextDueAt: number | null; // Earliest future review once nothing is due
+}
+
+const DB_NAME = 'chessMasteryRepertoires';
+const DB_VERSION = 1;
+const STORE_NAME = 'repertoires';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // A missed move comes back in the same sitting
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+const REPERTOIRE_DB: IndexedDbConfig = {
+  name: DB_NAME,
+  version: DB_VERSION,
+  label: 'repertoire store',
+  upgrade: db => {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  },
+};
+
+export async function saveRepertoire(repertoire: Repertoire): Promise<void> {
+  await runRequest(REPERTOIRE_DB, STORE_NAME, 'readwrite', store => store.put(repertoire));
+}
+
+// Alphabetical.
+export async function listRepertoires(): Promise<Repertoire[]> {
+  const repertoires = await runRequest<Repertoire[]>(REPERTOIRE_DB, STORE_NAME, 'readonly', store => store.getAll());
+  return repertoires.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function deleteRepertoire(id: string): Promise<void> {
+  await runRequest(REPERTOIRE_DB, STORE_NAME, 'readwrite', store => store.delete(id));
+}
+
+export function createRepertoire(name: string, color: PieceColor, now: number = Date.now()): Repertoire {
+  return {
+    id: createId(),
+    name,
+    color,
+    tree: createMoveTree<RepertoirePosition>({ fen: INITIAL_FEN, lastMove: null }),
+    cards: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Replaces the tree after an edit, dropping the cards of moves that were deleted.
+export function updateRepertoireTree(repertoire: Repertoire, tree: MoveTree<RepertoirePosition>, now: number = Date.now()): Repertoire {
+  const cards = Object.fromEntries(Object.entries(repertoire.cards).filter(([nodeId]) => tree.nodes[nodeId]));
+  return { ...repertoire, tree, cards, updatedAt: now };
+}
+
+// Plays `move` after `parentId`, or revisits it if the repertoire already has it. Throws on illegal moves.
+export function addRepertoireMove(
+  repertoire: Repertoire,
+  parentId: string,
+  move: string | { from: Square; to: Square; promotion?: PieceSymbol },
+  now: number = Date.now()
+): { repertoire: Repertoire; nodeId: string } {
+  const parent = repertoire.tree.nodes[parentId];
+  if (!parent) throw new Error(`Unknown repertoire position: ${parentId}`);
+  const { board, turn, castling, enPassant, halfmove, fullmove } = fenToBoard(parent.data.fen);
+  let squares: { from: Square; to: Square; promotion?: PieceSymbol };
+  try {
+    squares = typeof move === 'string' ? parseSan(board, turn, castling, enPassant, move) : move;
+  } catch (error) {
+    throw new Error(`Illegal move ${move}: ${(error as Error).message}.`);
+  }
+  const piece = getPieceAtSquare(board, squares.from);
+  if (piece?.color !== turn || !getLegalMoves(board, squares.from, turn, castling, enPassant).includes(squares.to)) {
+    throw new Error(`Illegal move ${squares.from}-${squares.to}.`);
+  }
+  const san = moveToSan(board, turn, castling, enPassant, squares);
+  const result = makeMove(board, squares.from, squares.to, castling, enPassant, squares.promotion);
+  const isReset = result.capturedPiece !== null || piece.symbol === 'p';
+  const fen = boardToFen(
+    result.newBoard, turn === 'w' ? 'b' : 'w', result.updatedCastlingRights, result.updatedEnPassantTarget,
+    isReset ? 0 : halfmove + 1, turn === 'b' ? fullmove + 1 : fullmove
+  );
+  const added = addMove(repertoire.tree, parentId, san, { fen, lastMove: { from: squares.from, to: squares.to } });
+  if (added.tree === repertoire.tree) return { repertoire, nodeId: added.nodeId };
+  return { repertoire: { ...repertoire, tree: added.tree, updatedAt: now }, nodeId: added.nodeId };
+}
+
+// Merges every game in a PGN text, variations and comments included. Returns the number of new moves.
+export function importPgnIntoRepertoire(repertoire: Repertoire, pgnText: string, now: number = Date.now()): { repertoire: Repertoire; addedMoves: number } {
+  const games = parsePgn(pgnText);
+  if (games.length === 0) throw new Error('No games found in the PGN.');
+  const initial = fenToBoard(INITIAL_FEN);
+  const initialKey = getPositionKey(initial.board, initial.turn, initial.castling, initial.enPassant);
+
+  let result = repertoire;
+  let addedMoves = 0;
+  const addLine = (parentId: string, line: PgnMoveNode[]) => {
+    for (const node of line) {
+      const sizeBefore = Object.keys(result.tree.nodes).length;
+      const added = addRepertoireMove(result, parentId, node.san, now);
+      addedMoves += Object.keys(added.repertoire.tree.nodes).length - sizeBefore;
+      result = added.repertoire;
+      const tree = setNodeAnnotations(result.tree, added.nodeId, node);
+      if (tree !== result.tree) result = { ...result, tree };
+      node.variations.forEach(variation => addLine(parentId, variation));
+      parentId = added.nodeId;
+    }
+  };
+  games.forEach((game, index) => {
+    const start = fenToBoard(game.startFen);
+    if (getPositionKey(start.board, start.turn, start.castling, start.enPassant) !== initialKey) {
+      throw new Error(`Game ${index + 1} does not start from the initial position.`);
+    }
+    addLine(result.tree.rootId, game.moves);
+  });
+  return { repertoire: result, addedMoves };
+}
+
+// Whether the move leading to `nodeId` is played by the repertoire's side, i.e. is one to remember.
+export function isRepertoireMove(repertoire: Repertoire, nodeId: string): boolean {
+  const node = repertoire.tree.nodes[nodeId];
+  if (!node?.parentId) return false;
+  return fenToBoard(repertoire.tree.nodes[node.parentId].data.fen).turn === repertoire.color;
+}
+
+function getRepertoireMoveIds(repertoire: Repertoire): string[] {
+  return Object.keys(repertoire.tree.nodes).filter(nodeId => isRepertoireMove(repertoire, nodeId));
+}
+
+export function getRepertoireStats(repertoire: Repertoire, now: number = Date.now()): RepertoireStats {
+  const stats: RepertoireStats = { total: 0, due: 0, unseen: 0, nextDueAt: null };
+  for (const nodeId of getRepertoireMoveIds(repertoire)) {
+    const card = repertoire.cards[nodeId];
+    stats.total++;
+    if (!card) stats.unseen++;
+    else if (card.dueAt <= now) stats.due++;
+    else if (stats.nextDueAt === null || card.dueAt < stats.nextDueAt) stats.nextDueAt = card.dueAt;
+  }
+  return stats;
+}
+
+// The next line to drill, as node ids from the first move on: through the most overdue repertoire move
+// (or the shallowest unseen one) and on along the main line. Null when nothing is due, unless
+// `includeNotDue` asks for the move that will be due soonest.
+export function getTrainingLine(repertoire: Repertoire, now: number = Date.now(), includeNotDue = false): string[] | null {
+  const candidates = getRepertoireMoveIds(repertoire).map(nodeId => ({
+    nodeId,
+    card: repertoire.cards[nodeId],
+    depth: getNodePath(repertoire.tree, nodeId).length,
+  }));
+  const due = candidates.filter(({ card }) => card && card.dueAt <= now).sort((a, b) => a.card!.dueAt - b.card!.dueAt);
+  const unseen = candidates.filter(({ card }) => !card).sort((a, b) => a.depth - b.depth);
+  const later = includeNotDue
+    ? candidates.filter(({ card }) => card && card.dueAt > now).sort((a, b) => a.card!.dueAt - b.card!.dueAt)
+    : [];
+  const target = due[0] ?? unseen[0] ?? later[0];
+  if (!target) return null;
+  return getNodePath(repertoire.tree, getLineEnd(repertoire.tree, target.nodeId)).slice(1).map(node => node.id);
+}
+
+// SM-2 without the grades: a correct answer stretches the interval, a miss brings the move back shortly.
+export function scheduleReview(card: RepertoireCard | undefined, correct: boolean, now: number = Date.now()): RepertoireCard {
+  const previous = card ?? { dueAt: now, intervalDays: 0, ease: INITIAL_EASE, repetitions: 0, lapses: 0 };
+  if (!correct) {
+    return {
+      dueAt: now + RELEARN_DELAY_MS,
+      intervalDays: 0,
+      ease: Math.max(MIN_EASE, previous.ease - 0.2),
+      repetitions: 0,
+      lapses: previous.lapses + 1,
+    };
+  }
+  const repetitions = previous.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) intervalDays = 1;
+  else if (repetitions === 2) intervalDays = 3;
+  else intervalDays = Math.round(previous.intervalDays * previous.ease);
+  return { dueAt: now + intervalDays * DAY_MS, intervalDays, ease: previous.ease, repetitions, lapses: previous.lapses };
+}
+
+export function gradeRepertoireMove(repertoire: Repertoire, nodeId: string, correct: boolean, now: number = Date.now()): Repertoire {
+  return {
+    ...repertoire,
+    cards: { ...repertoire.cards, [nodeId]: scheduleReview(repertoire.cards[nodeId], correct, now) },
+    updatedAt: now,
+  };
+}
@@ -15,12 +15,19 @@ export interface Move {
   promotion?: PieceSymbol; // For pawn promotion
   piece: PieceSymbol;
   captured?: PieceSymbol;
+  isEnPassant?: boolean;
   isCheck?: boolean;
   isCheckmate?: boolean;
   isStalemate?: boolean;
   isCastling?: 'kingside' | 'queenside';
 }
 
+// An arrow drawn over the board, e.g. a lesson pointing out a move or an attack.
+export interface BoardArrow {
+  from: Square;
+  to: Square;
+}
+
 export interface ChessGameSummary {
   fen: string;
   board: Board;
@@ -35,9 +42,30 @@ export interface ChessGameSummary {
   isCheck: boolean;
   isCheckmate: boolean;
   isStalemate: boolean;
-  isDraw: boolean; // Covers stalemate, threefold repetition, 50-move rule
+  isDraw: boolean; // Covers stalemate, repetition, the 50/75-move rules and insufficient material
+  drawReason: DrawReason | null;
   winner: PieceColor | null;
   moves: Move[]; // History of moves
 }
 
+export type DrawReason =
+  | 'stalemate'
+  | 'threefold-repetition' // Claimable
+  | 'fivefold-repetition' // Automatic
+  | 'fifty-move-rule' // Claimable
+  | 'seventy-five-move-rule' // Automatic
+  | 'insufficient-material'
+  | 'timeout-vs-insufficient-material'; // Flag fell, but the opponent could not have mated
+
+// Clock settings for a timed game. The bonus is added or withheld on every move depending on its type.
+export interface TimeControl {
+  baseMs: number;
+  bonusMs: number;
+  bonusType: 'increment' | 'bronstein' | 'simple-delay';
+}
+
 export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+// Who is at the board: the player against the engine, two people sharing one device, or the engine
+// playing itself while the user watches.
+export type GameMode = 'vs-ai' | 'hot-seat' | 'spectate';